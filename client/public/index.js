@@ -5,11 +5,13 @@ class HomepageManager {
         this.selectedCard = null;
         this.registrationData = null;
         this.currentUser = null; // Store current user data
+        this.cardProducts = []; // Card catalogue from /api/card-products
         this.init();
     }
 
     async init() {
         await this.loadHomeStats();
+        await this.loadCardProducts();
         this.setupEventListeners();
         this.populateCardTypes();
         this.setupCardSelection();
@@ -35,6 +37,27 @@ class HomepageManager {
         }
     }
 
+    // Load the card catalogue managed from the admin UI
+    async loadCardProducts() {
+        try {
+            const response = await fetch('/api/card-products');
+            if (response.ok) {
+                const products = await response.json();
+                this.cardProducts = products.map(product => ({
+                    name: product.name,
+                    price: parseFloat(product.price),
+                    sessions: product.consultationSessions,
+                    padToken: parseFloat(product.vcaDigitalShare),
+                    description: product.description || ''
+                }));
+            } else {
+                console.error('Failed to load card products');
+            }
+        } catch (error) {
+            console.error('Error loading card products:', error);
+        }
+    }
+
     // Update statistics display with dynamic data
     updateStatistics() {
         // Main statistics
@@ -259,14 +282,7 @@ class HomepageManager {
 
     // Get card data
     getCardData(cardType) {
-        const cardTypes = {
-            'Standard': { name: 'Standard', sessions: 12, padToken: 1200, price: 12000000 },
-            'Silver': { name: 'Silver', sessions: 15, padToken: 1500, price: 15000000 },
-            'Gold': { name: 'Gold', sessions: 18, padToken: 1800, price: 18000000 },
-            'Platinum': { name: 'Platinum', sessions: 21, padToken: 2100, price: 21000000 },
-            'Diamond': { name: 'Diamond', sessions: 24, padToken: 2400, price: 24000000 }
-        };
-        return cardTypes[cardType];
+        return this.cardProducts.find(card => card.name === cardType);
     }
 
     // Calculate VCA Token for role
@@ -564,10 +580,8 @@ class HomepageManager {
                     <p><strong>Nội dung:</strong> ${paymentInstructions.bankInfo.content}</p>
                 </div>
                 <div class="mt-3">
-                    <a href="${paymentInstructions.qrCode}" target="_blank" 
-                       class="inline-flex items-center px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700">
-                        <i class="fas fa-qrcode mr-2"></i>Mở QR Code
-                    </a>
+                    <img src="${paymentInstructions.qrCode}" alt="VietQR" class="w-40 h-40 border rounded-lg">
+                    <p class="text-xs text-yellow-700 mt-1">Quét mã bằng ứng dụng ngân hàng để chuyển khoản</p>
                 </div>
             </div>
         `;
@@ -682,15 +696,7 @@ class HomepageManager {
         const cardTiersContainer = document.getElementById('card-tiers-section');
         if (!cardTiersContainer) return;
 
-        const cardTypes = [
-            { name: 'Standard', price: 12000000, sessions: 12, description: 'Thẻ cơ bản với 12 lượt tư vấn' },
-            { name: 'Silver', price: 15000000, sessions: 15, description: 'Thẻ bạc với 15 lượt tư vấn' },
-            { name: 'Gold', price: 18000000, sessions: 18, description: 'Thẻ vàng với 18 lượt tư vấn' },
-            { name: 'Platinum', price: 21000000, sessions: 21, description: 'Thẻ bạch kim với 21 lượt tư vấn' },
-            { name: 'Diamond', price: 24000000, sessions: 24, description: 'Thẻ kim cương với 24 lượt tư vấn' }
-        ];
-
-        const cardsHtml = cardTypes.map(card => `
+        const cardsHtml = this.cardProducts.map(card => `
             <div class="bg-white rounded-lg shadow-lg p-6 text-center">
                 <div class="w-16 h-16 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center mx-auto mb-4">
                     <i class="fas fa-id-card text-white text-xl"></i>
@@ -713,15 +719,7 @@ class HomepageManager {
         const cardOptionsContainer = document.getElementById('cardOptions');
         if (!cardOptionsContainer) return;
 
-        const cardTypes = [
-            { name: 'Standard', price: 12000000, sessions: 12 },
-            { name: 'Silver', price: 15000000, sessions: 15 },
-            { name: 'Gold', price: 18000000, sessions: 18 },
-            { name: 'Platinum', price: 21000000, sessions: 21 },
-            { name: 'Diamond', price: 24000000, sessions: 24 }
-        ];
-
-        const optionsHtml = cardTypes.map(card => `
+        const optionsHtml = this.cardProducts.map(card => `
             <div class="border border-gray-200 rounded-lg p-4 cursor-pointer hover:border-blue-500 transition duration-300" onclick="selectCard('${card.name}')">
                 <h3 class="font-semibold text-gray-900">${card.name}</h3>
                 <p class="text-blue-600 font-bold">${(card.price / 1000000).toFixed(0)}M VNĐ</p>
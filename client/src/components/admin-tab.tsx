@@ -22,7 +22,11 @@ import {
   Clock,
   Shield,
   Database,
-  Calendar
+  Calendar,
+  ShieldCheck,
+  CreditCard,
+  Landmark,
+  ShoppingCart
 } from "lucide-react";
 import jsPDF from "jspdf";
 import type { 
@@ -34,7 +38,16 @@ import type {
   SystemConfigUpdate,
   ReportExport,
   Role,
-  UserRole
+  UserRole,
+  PermissionDefinition,
+  KycRecord,
+  CardProduct,
+  CardUpgrade,
+  CardRenewal,
+  BankAccount,
+  BankTransfer,
+  Order,
+  Branch
 } from "@shared/schema";
 
 // Utility functions
@@ -127,6 +140,40 @@ const MultiRoleManagement = () => {
     }
   });
 
+  const { data: loginLocks = [] } = useQuery<{ userId: string; failures: number; lockedUntil: string }[]>({ 
+    queryKey: ['/api/admin/login-locks'] 
+  });
+
+  const lockedUntil = (user: User) => loginLocks.find(lock => lock.userId === user.id)?.lockedUntil;
+
+  const unlockMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest('POST', `/api/admin/users/${userId}/unlock`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ description: "Đã mở khóa tài khoản!" });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/login-locks'] });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể mở khóa tài khoản") });
+    }
+  });
+
+  const impersonateMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest('POST', `/api/admin/users/${userId}/impersonate`);
+      return response.json();
+    },
+    onSuccess: () => {
+      // Every cached query belonged to the admin; reload as the member
+      queryClient.invalidateQueries();
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể chuyển sang người dùng") });
+    }
+  });
+
   const handleRoleManagement = (user: User) => {
     setSelectedUser(user);
     setSelectedRoles(userRoles.map(ur => ur.roleId));
@@ -211,12 +258,30 @@ const MultiRoleManagement = () => {
                         {parseFloat(user.padToken || "0").toLocaleString()} VCA
                       </TableCell>
                       <TableCell className="whitespace-nowrap" data-testid={`badge-user-status-${user.id}`}>
-                        <Badge variant={getStatusBadgeVariant(user.status)}>
-                          {user.status === "active" ? "Hoạt động" : "Ngừng hoạt động"}
-                        </Badge>
+                        <div className="flex flex-wrap gap-1">
+                          <Badge variant={getStatusBadgeVariant(user.status)}>
+                            {user.status === "active" ? "Hoạt động" : "Ngừng hoạt động"}
+                          </Badge>
+                          {lockedUntil(user) && (
+                            <Badge variant="destructive" title={`Đến ${formatDateTime(lockedUntil(user)!)}`}>
+                              Tạm khóa đăng nhập
+                            </Badge>
+                          )}
+                        </div>
                       </TableCell>
                       <TableCell className="whitespace-nowrap">
                         <div className="flex gap-2">
+                          {lockedUntil(user) && (
+                            <Button 
+                              size="sm" 
+                              variant="outline"
+                              onClick={() => unlockMutation.mutate(user.id)}
+                              disabled={unlockMutation.isPending}
+                              data-testid={`button-unlock-${user.id}`}
+                            >
+                              Mở khóa
+                            </Button>
+                          )}
                           <Button 
                             size="sm" 
                             variant="outline"
@@ -233,6 +298,17 @@ const MultiRoleManagement = () => {
                           >
                             VCA Token
                           </Button>
+                          {user.role !== "admin" && (
+                            <Button 
+                              size="sm" 
+                              variant="outline"
+                              onClick={() => impersonateMutation.mutate(user.id)}
+                              disabled={impersonateMutation.isPending}
+                              data-testid={`button-impersonate-${user.id}`}
+                            >
+                              Xem như người dùng
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -362,6 +438,109 @@ const MultiRoleManagement = () => {
   );
 };
 
+// Permission Matrix Component - roles x permissions, saved per role
+const PermissionMatrix = () => {
+  const [draft, setDraft] = useState<Record<string, string[]>>({});
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<{ permissions: PermissionDefinition[]; roles: Role[] }>({
+    queryKey: ['/api/admin/permissions']
+  });
+
+  const permissions = data?.permissions || [];
+  const roles = data?.roles || [];
+
+  const updatePermissionsMutation = useMutation({
+    mutationFn: async ({ roleId, permissions }: { roleId: string, permissions: string[] }) => {
+      const response = await apiRequest('PUT', `/api/admin/roles/${roleId}/permissions`, { permissions });
+      return response.json();
+    },
+    onSuccess: (_, { roleId }) => {
+      toast({ description: "Cập nhật phân quyền thành công!" });
+      setDraft(({ [roleId]: _saved, ...rest }) => rest);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/permissions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/roles'] });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể cập nhật phân quyền") });
+    }
+  });
+
+  const getRolePermissions = (role: Role) => draft[role.id] || role.permissions || [];
+
+  const togglePermission = (role: Role, permissionKey: string, checked: boolean) => {
+    const current = getRolePermissions(role);
+    setDraft({
+      ...draft,
+      [role.id]: checked ? [...current, permissionKey] : current.filter(key => key !== permissionKey)
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shield className="h-5 w-5 text-purple-500" />
+          Ma trận phân quyền
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8">Đang tải...</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="whitespace-nowrap">Quyền</TableHead>
+                  {roles.map((role) => (
+                    <TableHead key={role.id} className="whitespace-nowrap text-center">
+                      <div>{role.displayName}</div>
+                      {role.name !== "admin" && draft[role.id] && (
+                        <Button
+                          size="sm"
+                          className="mt-1"
+                          onClick={() => updatePermissionsMutation.mutate({ roleId: role.id, permissions: draft[role.id] })}
+                          disabled={updatePermissionsMutation.isPending}
+                          data-testid={`button-save-permissions-${role.name}`}
+                        >
+                          Lưu
+                        </Button>
+                      )}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {permissions.map((permission) => (
+                  <TableRow key={permission.key}>
+                    <TableCell className="whitespace-nowrap">
+                      <div className="font-medium">{permission.label}</div>
+                      <div className="text-xs text-gray-500">{permission.group} · {permission.key}</div>
+                    </TableCell>
+                    {roles.map((role) => (
+                      <TableCell key={role.id} className="text-center">
+                        {/* Admin always holds every permission */}
+                        <input
+                          type="checkbox"
+                          checked={role.name === "admin" || getRolePermissions(role).includes(permission.key)}
+                          disabled={role.name === "admin"}
+                          onChange={(e) => togglePermission(role, permission.key, e.target.checked)}
+                          data-testid={`checkbox-permission-${role.name}-${permission.key}`}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
 // User Management Component (Legacy - for backward compatibility)
 const UserManagement = () => {
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
@@ -372,98 +551,1456 @@ const UserManagement = () => {
     queryKey: ['/api/admin/users'] 
   });
 
-  const updateRoleMutation = useMutation({
-    mutationFn: async ({ userId, role }: { userId: string, role: string }) => {
-      const response = await apiRequest('POST', `/api/admin/users/${userId}/role`, { role });
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string, role: string }) => {
+      const response = await apiRequest('POST', `/api/admin/users/${userId}/role`, { role });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ description: "Cập nhật quyền thành công!" });
+      setSelectedUser(null);
+      setNewRole("");
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể cập nhật quyền") });
+    }
+  });
+
+  const handleRoleUpdate = (user: User) => {
+    setSelectedUser(user);
+    setNewRole(user.role);
+  };
+
+  const handleSaveRole = () => {
+    if (!selectedUser || !newRole) return;
+    updateRoleMutation.mutate({ userId: selectedUser.id, role: newRole });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5 text-blue-500" />
+          Quản lý người dùng
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8">Đang tải...</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="whitespace-nowrap">Tên</TableHead>
+                  <TableHead className="whitespace-nowrap">Email</TableHead>
+                  <TableHead className="whitespace-nowrap">Quyền</TableHead>
+                  <TableHead className="whitespace-nowrap">Trạng thái</TableHead>
+                  <TableHead className="whitespace-nowrap">Mã giới thiệu</TableHead>
+                  <TableHead className="whitespace-nowrap">Ngày tạo</TableHead>
+                  <TableHead className="whitespace-nowrap">Thao tác</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((user) => (
+                  <TableRow key={user.id}>
+                    <TableCell className="whitespace-nowrap" data-testid={`text-user-name-${user.id}`}>
+                      {user.name}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap" data-testid={`text-user-email-${user.id}`}>
+                      {user.email}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap" data-testid={`badge-user-role-${user.id}`}>
+                      <Badge variant={getRoleBadgeVariant(user.role)}>
+                        {user.role === "admin" ? "Quản trị viên" :
+                         user.role === "accountant" ? "Kế toán" :
+                         user.role === "branch" ? "Chi nhánh" :
+                         user.role === "staff" ? "Nhân viên" :
+                         user.role === "customer" ? "Khách hàng" :
+                         user.role === "shareholder" ? "Cổ đông đồng sáng lập" :
+                         user.role}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap" data-testid={`badge-user-status-${user.id}`}>
+                      <Badge variant={getStatusBadgeVariant(user.status)}>
+                        {user.status === "active" ? "Hoạt động" : "Ngừng hoạt động"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap" data-testid={`text-user-refcode-${user.id}`}>
+                      {user.refCode || "-"}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap" data-testid={`text-user-created-${user.id}`}>
+                      {user.createdAt ? formatDate(user.createdAt) : "-"}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <Button 
+                        size="sm" 
+                        variant="outline"
+                        onClick={() => handleRoleUpdate(user)}
+                        data-testid={`button-edit-role-${user.id}`}
+                      >
+                        Sửa quyền
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {/* Role Update Modal */}
+        {selectedUser && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <Card className="w-full max-w-md mx-4">
+              <CardHeader>
+                <CardTitle>Cập nhật quyền người dùng</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label>Người dùng</Label>
+                  <p className="text-sm text-gray-600">{selectedUser.name} ({selectedUser.email})</p>
+                </div>
+                <div>
+                  <Label htmlFor="role">Quyền mới</Label>
+                  <Select value={newRole} onValueChange={setNewRole}>
+                    <SelectTrigger data-testid="select-new-role">
+                      <SelectValue placeholder="Chọn quyền" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="admin">Quản trị viên</SelectItem>
+                      <SelectItem value="accountant">Kế toán</SelectItem>
+                      <SelectItem value="branch">Chi nhánh</SelectItem>
+                      <SelectItem value="staff">Nhân viên</SelectItem>
+                      <SelectItem value="customer">Khách hàng</SelectItem>
+                      <SelectItem value="shareholder">Cổ đông đồng sáng lập</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex gap-2">
+                  <Button 
+                    onClick={handleSaveRole}
+                    disabled={updateRoleMutation.isPending || !newRole}
+                    data-testid="button-save-role"
+                  >
+                    {updateRoleMutation.isPending ? "Đang lưu..." : "Lưu"}
+                  </Button>
+                  <Button 
+                    variant="outline" 
+                    onClick={() => setSelectedUser(null)}
+                    data-testid="button-cancel-role"
+                  >
+                    Hủy
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Transaction Approval Component  
+const TransactionApproval = () => {
+  const { toast } = useToast();
+
+  const { data: pendingTransactions = [], isLoading } = useQuery<Transaction[]>({ 
+    queryKey: ['/api/admin/transactions/pending'] 
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async (transactionId: string) => {
+      const response = await apiRequest('POST', `/api/cash-flow/transactions/${transactionId}/approve`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ description: "Duyệt giao dịch thành công!" });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/transactions/pending'] });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể duyệt giao dịch") });
+    }
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async ({ transactionId, reason }: { transactionId: string, reason: string }) => {
+      const response = await apiRequest('POST', `/api/cash-flow/transactions/${transactionId}/reject`, { reason });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ description: "Từ chối giao dịch thành công!" });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/transactions/pending'] });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể từ chối giao dịch") });
+    }
+  });
+
+  const handleApprove = (transactionId: string) => {
+    approveMutation.mutate(transactionId);
+  };
+
+  const handleReject = (transactionId: string) => {
+    const reason = prompt("Lý do từ chối (không bắt buộc):");
+    rejectMutation.mutate({ transactionId, reason: reason || "Không có lý do cụ thể" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5 text-orange-500" />
+          Duyệt giao dịch ({pendingTransactions.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8">Đang tải...</div>
+        ) : pendingTransactions.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            Không có giao dịch chờ duyệt
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="whitespace-nowrap">Ngày</TableHead>
+                  <TableHead className="whitespace-nowrap">Loại</TableHead>
+                  <TableHead className="whitespace-nowrap">Số tiền</TableHead>
+                  <TableHead className="whitespace-nowrap">Thuế</TableHead>
+                  <TableHead className="whitespace-nowrap">Mô tả</TableHead>
+                  <TableHead className="whitespace-nowrap">Thao tác</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pendingTransactions.map((transaction) => (
+                  <TableRow key={transaction.id}>
+                    <TableCell className="whitespace-nowrap" data-testid={`text-pending-date-${transaction.id}`}>
+                      {transaction.date ? formatDate(transaction.date) : "-"}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap" data-testid={`text-pending-type-${transaction.id}`}>
+                      <Badge variant="outline">
+                        {transaction.type === "deposit" ? "Nạp tiền" : 
+                         transaction.type === "invest" ? "Đầu tư" :
+                         transaction.type === "withdraw" ? "Rút tiền" : 
+                         transaction.type === "refund" ? "Hoàn tiền thẻ" :
+                         transaction.type}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap" data-testid={`text-pending-amount-${transaction.id}`}>
+                      {formatCurrency(transaction.amount)}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap" data-testid={`text-pending-tax-${transaction.id}`}>
+                      {transaction.taxAmount ? formatCurrency(transaction.taxAmount) : "-"}
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate" data-testid={`text-pending-description-${transaction.id}`}>
+                      {transaction.description}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <div className="flex gap-2">
+                        <Button 
+                          size="sm" 
+                          onClick={() => handleApprove(transaction.id)}
+                          disabled={approveMutation.isPending}
+                          className="bg-green-600 hover:bg-green-700"
+                          data-testid={`button-approve-${transaction.id}`}
+                        >
+                          <CheckCircle className="h-4 w-4" />
+                        </Button>
+                        <Button 
+                          size="sm" 
+                          variant="destructive"
+                          onClick={() => handleReject(transaction.id)}
+                          disabled={rejectMutation.isPending}
+                          data-testid={`button-reject-${transaction.id}`}
+                        >
+                          <XCircle className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// KYC Review Queue Component
+type KycQueueItem = KycRecord & { user: { id: string; name: string; email: string; phone: string | null; businessTier: string | null } };
+
+const KycReviewQueue = () => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState("pending");
+
+  const { data: queue = [], isLoading } = useQuery<KycQueueItem[]>({
+    queryKey: ['/api/admin/kyc', status],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/kyc?status=${status}`);
+      return response.json();
+    }
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, decision, note }: { id: string, decision: "approved" | "rejected", note?: string }) => {
+      const response = await apiRequest('POST', `/api/admin/kyc/${id}/review`, { decision, note });
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      toast({ description: variables.decision === "approved" ? "Đã duyệt hồ sơ KYC" : "Đã từ chối hồ sơ KYC" });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/kyc'] });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể xét duyệt hồ sơ") });
+    }
+  });
+
+  const handleReject = (id: string) => {
+    const note = prompt("Lý do từ chối:");
+    if (!note) return;
+    reviewMutation.mutate({ id, decision: "rejected", note });
+  };
+
+  const documentLinks = (record: KycQueueItem) => [
+    { kind: "front", label: "Mặt trước", path: record.documentFrontPath },
+    { kind: "back", label: "Mặt sau", path: record.documentBackPath },
+    { kind: "selfie", label: "Chân dung", path: record.selfiePath },
+  ].filter(doc => doc.path);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-green-600" />
+            Hồ sơ định danh KYC ({queue.length})
+          </span>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-48" data-testid="select-kyc-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Chờ duyệt</SelectItem>
+              <SelectItem value="approved">Đã duyệt</SelectItem>
+              <SelectItem value="rejected">Bị từ chối</SelectItem>
+              <SelectItem value="draft">Chưa hoàn tất</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8">Đang tải...</div>
+        ) : queue.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            Không có hồ sơ
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="whitespace-nowrap">Ngày gửi</TableHead>
+                  <TableHead className="whitespace-nowrap">Người dùng</TableHead>
+                  <TableHead className="whitespace-nowrap">Giấy tờ</TableHead>
+                  <TableHead className="whitespace-nowrap">Họ tên / Ngày sinh</TableHead>
+                  <TableHead className="whitespace-nowrap">Tài liệu</TableHead>
+                  <TableHead className="whitespace-nowrap">{status === "pending" ? "Thao tác" : "Ghi chú"}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {queue.map((record) => (
+                  <TableRow key={record.id}>
+                    <TableCell className="whitespace-nowrap" data-testid={`text-kyc-date-${record.id}`}>
+                      {record.submittedAt ? formatDateTime(record.submittedAt) : "-"}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <div className="font-medium">{record.user.name}</div>
+                      <div className="text-sm text-gray-500">{record.user.phone || record.user.email}</div>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap" data-testid={`text-kyc-id-${record.id}`}>
+                      <Badge variant="outline">{record.idType.toUpperCase()}</Badge> {record.idNumber}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <div>{record.fullName}</div>
+                      <div className="text-sm text-gray-500">{record.birthDate}</div>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <div className="flex flex-col">
+                        {documentLinks(record).map(doc => (
+                          <a
+                            key={doc.kind}
+                            href={`/api/admin/kyc/${record.id}/documents/${doc.kind}`}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-blue-600 hover:underline text-sm"
+                            data-testid={`link-kyc-${doc.kind}-${record.id}`}
+                          >
+                            {doc.label}
+                          </a>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {record.status === "pending" ? (
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => reviewMutation.mutate({ id: record.id, decision: "approved" })}
+                            disabled={reviewMutation.isPending}
+                            className="bg-green-600 hover:bg-green-700"
+                            data-testid={`button-approve-kyc-${record.id}`}
+                          >
+                            <CheckCircle className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => handleReject(record.id)}
+                            disabled={reviewMutation.isPending}
+                            data-testid={`button-reject-kyc-${record.id}`}
+                          >
+                            <XCircle className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <span className="text-sm text-gray-500">{record.reviewNote || "-"}</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Card Product Catalogue Component
+const emptyProductForm = {
+  name: "",
+  description: "",
+  price: "",
+  consultationSessions: "",
+  validityMonths: "24",
+  vcaDigitalShare: "",
+  maxoutMultiplier: "2.1",
+  sortOrder: "0",
+  isActive: true,
+};
+
+const CardProductCatalogue = () => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [productForm, setProductForm] = useState(emptyProductForm);
+  const { toast } = useToast();
+
+  const { data: products = [], isLoading } = useQuery<CardProduct[]>({
+    queryKey: ['/api/admin/card-products']
+  });
+
+  const invalidateCatalogue = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/card-products'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/cards/types'] });
+  };
+
+  const saveProductMutation = useMutation({
+    mutationFn: async (formData: typeof emptyProductForm) => {
+      const payload = { ...formData, sortOrder: parseInt(formData.sortOrder) || 0 };
+      const response = editingId
+        ? await apiRequest('PUT', `/api/admin/card-products/${editingId}`, payload)
+        : await apiRequest('POST', '/api/admin/card-products', payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ description: editingId ? "Cập nhật gói thẻ thành công!" : "Thêm gói thẻ thành công!" });
+      setEditingId(null);
+      setProductForm(emptyProductForm);
+      invalidateCatalogue();
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể lưu gói thẻ") });
+    }
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (product: CardProduct) => {
+      const response = await apiRequest('PUT', `/api/admin/card-products/${product.id}`, { isActive: !product.isActive });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateCatalogue();
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể cập nhật gói thẻ") });
+    }
+  });
+
+  const deleteProductMutation = useMutation({
+    mutationFn: async (productId: string) => {
+      await apiRequest('DELETE', `/api/admin/card-products/${productId}`);
+    },
+    onSuccess: () => {
+      toast({ description: "Đã xóa gói thẻ" });
+      invalidateCatalogue();
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể xóa gói thẻ") });
+    }
+  });
+
+  const handleEdit = (product: CardProduct) => {
+    setEditingId(product.id);
+    setProductForm({
+      name: product.name,
+      description: product.description || "",
+      price: product.price,
+      consultationSessions: product.consultationSessions.toString(),
+      validityMonths: product.validityMonths.toString(),
+      vcaDigitalShare: product.vcaDigitalShare,
+      maxoutMultiplier: product.maxoutMultiplier,
+      sortOrder: (product.sortOrder ?? 0).toString(),
+      isActive: product.isActive,
+    });
+  };
+
+  const handleDelete = (product: CardProduct) => {
+    if (!confirm(`Xóa gói thẻ ${product.name}?`)) return;
+    deleteProductMutation.mutate(product.id);
+  };
+
+  const handleSave = () => {
+    if (!productForm.name || !productForm.price || !productForm.consultationSessions) {
+      toast({ variant: "destructive", description: "Vui lòng điền tên, giá và số lượt tư vấn" });
+      return;
+    }
+    saveProductMutation.mutate(productForm);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CreditCard className="h-5 w-5 text-blue-500" />
+            {editingId ? `Sửa gói thẻ ${productForm.name}` : "Thêm gói thẻ"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="productName">Tên gói *</Label>
+              <Input
+                id="productName"
+                value={productForm.name}
+                onChange={(e) => setProductForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Gold"
+                data-testid="input-product-name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="productPrice">Giá (VND) *</Label>
+              <Input
+                id="productPrice"
+                type="number"
+                value={productForm.price}
+                onChange={(e) => setProductForm(prev => ({ ...prev, price: e.target.value }))}
+                data-testid="input-product-price"
+              />
+            </div>
+            <div>
+              <Label htmlFor="productSessions">Lượt tư vấn *</Label>
+              <Input
+                id="productSessions"
+                type="number"
+                value={productForm.consultationSessions}
+                onChange={(e) => setProductForm(prev => ({ ...prev, consultationSessions: e.target.value }))}
+                data-testid="input-product-sessions"
+              />
+            </div>
+            <div>
+              <Label htmlFor="productValidity">Thời hạn (tháng)</Label>
+              <Input
+                id="productValidity"
+                type="number"
+                value={productForm.validityMonths}
+                onChange={(e) => setProductForm(prev => ({ ...prev, validityMonths: e.target.value }))}
+                data-testid="input-product-validity"
+              />
+            </div>
+            <div>
+              <Label htmlFor="productVca">VCA Digital Share tặng</Label>
+              <Input
+                id="productVca"
+                type="number"
+                value={productForm.vcaDigitalShare}
+                onChange={(e) => setProductForm(prev => ({ ...prev, vcaDigitalShare: e.target.value }))}
+                data-testid="input-product-vca"
+              />
+            </div>
+            <div>
+              <Label htmlFor="productMaxout">Hệ số maxout</Label>
+              <Input
+                id="productMaxout"
+                type="number"
+                step="0.1"
+                value={productForm.maxoutMultiplier}
+                onChange={(e) => setProductForm(prev => ({ ...prev, maxoutMultiplier: e.target.value }))}
+                data-testid="input-product-maxout"
+              />
+            </div>
+            <div>
+              <Label htmlFor="productSortOrder">Thứ tự hiển thị</Label>
+              <Input
+                id="productSortOrder"
+                type="number"
+                value={productForm.sortOrder}
+                onChange={(e) => setProductForm(prev => ({ ...prev, sortOrder: e.target.value }))}
+                data-testid="input-product-sort-order"
+              />
+            </div>
+            <div className="flex items-end space-x-2 pb-2">
+              <input
+                type="checkbox"
+                id="productActive"
+                checked={productForm.isActive}
+                onChange={(e) => setProductForm(prev => ({ ...prev, isActive: e.target.checked }))}
+                className="h-4 w-4"
+                data-testid="checkbox-product-active"
+              />
+              <Label htmlFor="productActive">Đang bán</Label>
+            </div>
+          </div>
+          <div className="mt-4">
+            <Label htmlFor="productDescription">Mô tả</Label>
+            <Textarea
+              id="productDescription"
+              value={productForm.description}
+              onChange={(e) => setProductForm(prev => ({ ...prev, description: e.target.value }))}
+              rows={2}
+              data-testid="textarea-product-description"
+            />
+          </div>
+          <div className="flex gap-2 mt-4">
+            <Button
+              onClick={handleSave}
+              disabled={saveProductMutation.isPending}
+              data-testid="button-save-product"
+            >
+              {saveProductMutation.isPending ? "Đang lưu..." : editingId ? "Cập nhật" : "Thêm gói thẻ"}
+            </Button>
+            {editingId && (
+              <Button
+                variant="outline"
+                onClick={() => { setEditingId(null); setProductForm(emptyProductForm); }}
+                data-testid="button-cancel-product"
+              >
+                Hủy
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Danh mục gói thẻ ({products.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">Đang tải...</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="whitespace-nowrap">Gói thẻ</TableHead>
+                    <TableHead className="whitespace-nowrap">Giá</TableHead>
+                    <TableHead className="whitespace-nowrap">Lượt tư vấn</TableHead>
+                    <TableHead className="whitespace-nowrap">Thời hạn</TableHead>
+                    <TableHead className="whitespace-nowrap">VCA tặng</TableHead>
+                    <TableHead className="whitespace-nowrap">Maxout</TableHead>
+                    <TableHead className="whitespace-nowrap">Trạng thái</TableHead>
+                    <TableHead className="whitespace-nowrap">Thao tác</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {products.map((product) => (
+                    <TableRow key={product.id}>
+                      <TableCell className="whitespace-nowrap font-medium" data-testid={`text-product-name-${product.id}`}>
+                        {product.name}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap" data-testid={`text-product-price-${product.id}`}>
+                        {formatCurrency(product.price)}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{product.consultationSessions}</TableCell>
+                      <TableCell className="whitespace-nowrap">{product.validityMonths} tháng</TableCell>
+                      <TableCell className="whitespace-nowrap">{parseFloat(product.vcaDigitalShare).toLocaleString("vi-VN")}</TableCell>
+                      <TableCell className="whitespace-nowrap">{(parseFloat(product.maxoutMultiplier) * 100).toFixed(0)}%</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        <Badge variant={product.isActive ? "default" : "secondary"}>
+                          {product.isActive ? "Đang bán" : "Ngừng bán"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleEdit(product)}
+                            data-testid={`button-edit-product-${product.id}`}
+                          >
+                            Sửa
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => toggleActiveMutation.mutate(product)}
+                            disabled={toggleActiveMutation.isPending}
+                            data-testid={`button-toggle-product-${product.id}`}
+                          >
+                            {product.isActive ? "Ngừng bán" : "Mở bán"}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => handleDelete(product)}
+                            disabled={deleteProductMutation.isPending}
+                            data-testid={`button-delete-product-${product.id}`}
+                          >
+                            <XCircle className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+// Card Upgrade Queue Component
+type CardUpgradeQueueItem = CardUpgrade & { user: { id: string; name: string; email: string; phone: string | null } | null };
+
+const CardUpgradeQueue = () => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState("pending");
+
+  const { data: upgrades = [], isLoading } = useQuery<CardUpgradeQueueItem[]>({
+    queryKey: ['/api/admin/card-upgrades', status],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/card-upgrades?status=${status}`);
+      return response.json();
+    }
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async ({ id, paymentReference }: { id: string, paymentReference?: string }) => {
+      const response = await apiRequest('POST', `/api/admin/card-upgrades/${id}/confirm`, { paymentReference });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ description: data.message });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/card-upgrades'] });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể xác nhận nâng cấp") });
+    }
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/card-upgrades/${id}/cancel`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ description: "Đã hủy yêu cầu nâng cấp" });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/card-upgrades'] });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể hủy yêu cầu nâng cấp") });
+    }
+  });
+
+  const handleConfirm = (id: string) => {
+    const paymentReference = prompt("Mã giao dịch ngân hàng (không bắt buộc):");
+    if (paymentReference === null) return;
+    confirmMutation.mutate({ id, paymentReference: paymentReference || undefined });
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <CreditCard className="h-5 w-5 text-blue-500" />
+            Yêu cầu nâng cấp thẻ ({upgrades.length})
+          </span>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-48" data-testid="select-card-upgrade-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Chờ thanh toán</SelectItem>
+              <SelectItem value="completed">Đã hoàn tất</SelectItem>
+              <SelectItem value="cancelled">Đã hủy</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8">Đang tải...</div>
+        ) : upgrades.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            Không có yêu cầu nâng cấp
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="whitespace-nowrap">Ngày</TableHead>
+                  <TableHead className="whitespace-nowrap">Khách hàng</TableHead>
+                  <TableHead className="whitespace-nowrap">Hạng thẻ</TableHead>
+                  <TableHead className="whitespace-nowrap">Khấu trừ</TableHead>
+                  <TableHead className="whitespace-nowrap">Cần thanh toán</TableHead>
+                  <TableHead className="whitespace-nowrap">{status === "pending" ? "Thao tác" : "Mã giao dịch"}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {upgrades.map((upgrade) => (
+                  <TableRow key={upgrade.id}>
+                    <TableCell className="whitespace-nowrap" data-testid={`text-upgrade-date-${upgrade.id}`}>
+                      {upgrade.createdAt ? formatDateTime(upgrade.createdAt) : "-"}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <div className="font-medium">{upgrade.user?.name || "-"}</div>
+                      <div className="text-sm text-gray-500">{upgrade.user?.phone || upgrade.user?.email}</div>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap" data-testid={`text-upgrade-tiers-${upgrade.id}`}>
+                      <Badge variant="outline">{upgrade.fromType}</Badge> → <Badge>{upgrade.toType}</Badge>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatCurrency(upgrade.credit)}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap" data-testid={`text-upgrade-amount-${upgrade.id}`}>
+                      {formatCurrency(upgrade.amountDue)}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {upgrade.status === "pending" ? (
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => handleConfirm(upgrade.id)}
+                            disabled={confirmMutation.isPending}
+                            className="bg-green-600 hover:bg-green-700"
+                            data-testid={`button-confirm-upgrade-${upgrade.id}`}
+                          >
+                            <CheckCircle className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => confirm("Hủy yêu cầu nâng cấp này?") && cancelMutation.mutate(upgrade.id)}
+                            disabled={cancelMutation.isPending}
+                            data-testid={`button-cancel-upgrade-${upgrade.id}`}
+                          >
+                            <XCircle className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <span className="text-sm text-gray-500">{upgrade.paymentReference || "-"}</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Card Renewal Queue Component
+type CardRenewalQueueItem = CardRenewal & {
+  cardNumber: string | null;
+  expiresAt: string | null;
+  user: { id: string; name: string; email: string; phone: string | null } | null;
+};
+
+const CardRenewalQueue = () => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState("pending");
+
+  const { data: renewals = [], isLoading } = useQuery<CardRenewalQueueItem[]>({
+    queryKey: ['/api/admin/card-renewals', status],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/card-renewals?status=${status}`);
+      return response.json();
+    }
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async ({ id, paymentReference }: { id: string, paymentReference?: string }) => {
+      const response = await apiRequest('POST', `/api/admin/card-renewals/${id}/confirm`, { paymentReference });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ description: data.message });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/card-renewals'] });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể xác nhận gia hạn") });
+    }
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/card-renewals/${id}/cancel`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ description: "Đã hủy yêu cầu gia hạn" });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/card-renewals'] });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể hủy yêu cầu gia hạn") });
+    }
+  });
+
+  const handleConfirm = (id: string) => {
+    const paymentReference = prompt("Mã giao dịch ngân hàng (không bắt buộc):");
+    if (paymentReference === null) return;
+    confirmMutation.mutate({ id, paymentReference: paymentReference || undefined });
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Calendar className="h-5 w-5 text-blue-500" />
+            Yêu cầu gia hạn thẻ ({renewals.length})
+          </span>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-48" data-testid="select-card-renewal-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Chờ thanh toán</SelectItem>
+              <SelectItem value="completed">Đã hoàn tất</SelectItem>
+              <SelectItem value="cancelled">Đã hủy</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8">Đang tải...</div>
+        ) : renewals.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            Không có yêu cầu gia hạn
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="whitespace-nowrap">Ngày</TableHead>
+                  <TableHead className="whitespace-nowrap">Khách hàng</TableHead>
+                  <TableHead className="whitespace-nowrap">Thẻ</TableHead>
+                  <TableHead className="whitespace-nowrap">Hết hạn</TableHead>
+                  <TableHead className="whitespace-nowrap">Số tiền</TableHead>
+                  <TableHead className="whitespace-nowrap">{status === "pending" ? "Thao tác" : "Mã giao dịch"}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {renewals.map((renewal) => (
+                  <TableRow key={renewal.id}>
+                    <TableCell className="whitespace-nowrap" data-testid={`text-renewal-date-${renewal.id}`}>
+                      {renewal.createdAt ? formatDateTime(renewal.createdAt) : "-"}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <div className="font-medium">{renewal.user?.name || "-"}</div>
+                      <div className="text-sm text-gray-500">{renewal.user?.phone || renewal.user?.email}</div>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <Badge variant="outline">{renewal.cardType}</Badge> {renewal.cardNumber}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {renewal.expiresAt ? formatDate(renewal.expiresAt) : "-"}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap" data-testid={`text-renewal-amount-${renewal.id}`}>
+                      {formatCurrency(renewal.price)}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {renewal.status === "pending" ? (
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => handleConfirm(renewal.id)}
+                            disabled={confirmMutation.isPending}
+                            className="bg-green-600 hover:bg-green-700"
+                            data-testid={`button-confirm-renewal-${renewal.id}`}
+                          >
+                            <CheckCircle className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => confirm("Hủy yêu cầu gia hạn này?") && cancelMutation.mutate(renewal.id)}
+                            disabled={cancelMutation.isPending}
+                            data-testid={`button-cancel-renewal-${renewal.id}`}
+                          >
+                            <XCircle className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <span className="text-sm text-gray-500">{renewal.paymentReference || "-"}</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Orders placed on the public site
+type OrderListItem = Order & { orderCode: string };
+
+const orderStatusLabels: Record<string, string> = {
+  pending: "Chờ thanh toán",
+  paid: "Đã thanh toán",
+  fulfilled: "Đã hoàn tất",
+  expired: "Hết hạn",
+};
+
+const orderStatusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  paid: "default",
+  fulfilled: "outline",
+  expired: "destructive",
+};
+
+const OrderList = () => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState("all");
+  const [kind, setKind] = useState("all");
+
+  const { data: orders = [], isLoading } = useQuery<OrderListItem[]>({
+    queryKey: ['/api/admin/orders', status, kind],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (status !== "all") params.set("status", status);
+      if (kind !== "all") params.set("kind", kind);
+      const response = await apiRequest('GET', `/api/admin/orders?${params.toString()}`);
+      return response.json();
+    }
+  });
+
+  const confirmPaymentMutation = useMutation({
+    mutationFn: async ({ id, paymentReference }: { id: string, paymentReference?: string }) => {
+      const response = await apiRequest('POST', `/api/admin/orders/${id}/confirm-payment`, { paymentReference });
+      return response.json();
+    },
+    onSuccess: (data: OrderListItem) => {
+      toast({ description: `Đã xác nhận thanh toán đơn hàng ${data.orderCode}` });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/orders'] });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể xác nhận thanh toán") });
+    }
+  });
+
+  const fulfillMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/admin/orders/${id}/fulfill`, {});
+      return response.json();
+    },
+    onSuccess: (data: OrderListItem) => {
+      toast({ description: `Đã hoàn tất đơn hàng ${data.orderCode}` });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/orders'] });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể hoàn tất đơn hàng") });
+    }
+  });
+
+  const handleConfirmPayment = (order: OrderListItem) => {
+    const message = order.status === "expired"
+      ? "Đơn hàng đã hết hạn. Nhập mã giao dịch ngân hàng để vẫn xác nhận thanh toán (không bắt buộc):"
+      : "Mã giao dịch ngân hàng (không bắt buộc):";
+    const paymentReference = prompt(message);
+    if (paymentReference === null) return;
+    confirmPaymentMutation.mutate({ id: order.id, paymentReference: paymentReference || undefined });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <ShoppingCart className="h-5 w-5 text-blue-500" />
+            Đơn hàng ({orders.length})
+          </span>
+          <div className="flex gap-2">
+            <Select value={kind} onValueChange={setKind}>
+              <SelectTrigger className="w-40" data-testid="select-order-kind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Tất cả loại</SelectItem>
+                <SelectItem value="card">Thẻ</SelectItem>
+                <SelectItem value="membership">Gói thành viên</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="w-48" data-testid="select-order-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Tất cả trạng thái</SelectItem>
+                {Object.entries(orderStatusLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8">Đang tải...</div>
+        ) : orders.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            Không có đơn hàng
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="whitespace-nowrap">Mã đơn</TableHead>
+                  <TableHead className="whitespace-nowrap">Ngày đặt</TableHead>
+                  <TableHead className="whitespace-nowrap">Khách hàng</TableHead>
+                  <TableHead className="whitespace-nowrap">Sản phẩm</TableHead>
+                  <TableHead className="whitespace-nowrap">Số tiền</TableHead>
+                  <TableHead className="whitespace-nowrap">Thanh toán</TableHead>
+                  <TableHead className="whitespace-nowrap">Trạng thái</TableHead>
+                  <TableHead className="whitespace-nowrap">Thao tác</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.map((order) => (
+                  <TableRow key={order.id}>
+                    <TableCell className="whitespace-nowrap font-mono" data-testid={`text-order-code-${order.id}`}>
+                      {order.orderCode}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {order.createdAt ? formatDateTime(order.createdAt) : "-"}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <div className="font-medium">{order.customerName}</div>
+                      <div className="text-sm text-gray-500">{order.customerPhone || order.customerEmail}</div>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <Badge variant="outline">{order.kind === "card" ? "Thẻ" : "Gói"}</Badge> {order.productName}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap" data-testid={`text-order-amount-${order.id}`}>
+                      {formatCurrency(order.amount)}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {order.paidAt ? (
+                        <div>
+                          <div>{formatDateTime(order.paidAt)}</div>
+                          <div className="text-sm text-gray-500">{order.paymentReference || (order.paymentConfirmedBy ? "" : "Tự động")}</div>
+                        </div>
+                      ) : (
+                        <span className="text-sm text-gray-500">Hạn {formatDateTime(order.expiresAt)}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <Badge variant={orderStatusVariants[order.status] || "secondary"}>
+                        {orderStatusLabels[order.status] || order.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {(order.status === "pending" || order.status === "expired") && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleConfirmPayment(order)}
+                          disabled={confirmPaymentMutation.isPending}
+                          data-testid={`button-confirm-order-payment-${order.id}`}
+                        >
+                          Xác nhận thanh toán
+                        </Button>
+                      )}
+                      {order.status === "paid" && (
+                        <Button
+                          size="sm"
+                          onClick={() => confirm(order.kind === "card" ? "Phát hành và kích hoạt thẻ cho đơn hàng này?" : "Kích hoạt gói thành viên cho đơn hàng này?") && fulfillMutation.mutate(order.id)}
+                          disabled={fulfillMutation.isPending}
+                          className="bg-green-600 hover:bg-green-700"
+                          data-testid={`button-fulfill-order-${order.id}`}
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Hoàn tất
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+type BankTransferQueueItem = Omit<BankTransfer, "rawPayload"> & { reviewReasonLabel: string | null };
+
+const bankTransferStatusLabels: Record<string, string> = {
+  needs_review: "Chờ đối soát",
+  matched: "Đã khớp",
+  dismissed: "Đã bỏ qua",
+};
+
+// Transfers reported by the bank webhook. Those that could not be matched to an order are settled
+// here by entering the order's payment reference, or dismissed.
+const BankTransferQueue = () => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState("needs_review");
+  const [resolving, setResolving] = useState<BankTransferQueueItem | null>(null);
+  const [resolution, setResolution] = useState({ purpose: "card_purchase", reference: "", note: "" });
+  const [simulation, setSimulation] = useState({ amount: "", content: "" });
+
+  const { data: transfers = [], isLoading } = useQuery<BankTransferQueueItem[]>({
+    queryKey: ['/api/admin/bank-transfers', status],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/bank-transfers?status=${status}`);
+      return response.json();
+    }
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, body }: { id: string, body: Record<string, string | undefined> }) => {
+      const response = await apiRequest('POST', `/api/admin/bank-transfers/${id}/resolve`, body);
+      return response.json();
+    },
+    onSuccess: (data: BankTransfer) => {
+      toast({ description: data.status === "matched" ? "Đã xác nhận thanh toán cho đơn hàng" : "Đã bỏ qua giao dịch" });
+      setResolving(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/bank-transfers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cash-flow/transactions'] });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể xử lý giao dịch") });
+    }
+  });
+
+  const simulateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/payment-webhooks/bank/simulate', {
+        amount: parseFloat(simulation.amount),
+        content: simulation.content,
+      });
       return response.json();
     },
-    onSuccess: () => {
-      toast({ description: "Cập nhật quyền thành công!" });
-      setSelectedUser(null);
-      setNewRole("");
-      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+    onSuccess: (data) => {
+      const result = data.response?.status;
+      toast({ description: result === "matched" ? "Giao dịch giả lập đã khớp đơn hàng" : `Giao dịch giả lập: ${bankTransferStatusLabels[result] || result}` });
+      setSimulation({ amount: "", content: "" });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/bank-transfers'] });
     },
     onError: (error: any) => {
-      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể cập nhật quyền") });
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể giả lập giao dịch") });
     }
   });
 
-  const handleRoleUpdate = (user: User) => {
-    setSelectedUser(user);
-    setNewRole(user.role);
+  const startMatch = (transfer: BankTransferQueueItem) => {
+    setResolving(transfer);
+    setResolution({ purpose: transfer.matchedPurpose || "card_purchase", reference: "", note: "" });
   };
 
-  const handleSaveRole = () => {
-    if (!selectedUser || !newRole) return;
-    updateRoleMutation.mutate({ userId: selectedUser.id, role: newRole });
+  const handleDismiss = (transfer: BankTransferQueueItem) => {
+    const note = prompt("Lý do bỏ qua giao dịch:");
+    if (!note) return;
+    resolveMutation.mutate({ id: transfer.id, body: { action: "dismiss", note } });
   };
 
   return (
-    <Card>
+    <Card className="mt-6">
       <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <Users className="h-5 w-5 text-blue-500" />
-          Quản lý người dùng
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Landmark className="h-5 w-5 text-blue-500" />
+            Giao dịch chuyển khoản ({transfers.length})
+          </span>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-48" data-testid="select-bank-transfer-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(bankTransferStatusLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </CardTitle>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-4">
+        {resolving && (
+          <div className="border rounded-lg p-4 space-y-3">
+            <div className="font-medium">
+              Khớp giao dịch {formatCurrency(resolving.amount)} - "{resolving.memo}"
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <Label>Loại đơn hàng</Label>
+                <Select value={resolution.purpose} onValueChange={(value) => setResolution({ ...resolution, purpose: value })}>
+                  <SelectTrigger data-testid="select-bank-transfer-purpose">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.keys(bankAccountPurposeLabels).map((purpose) => (
+                      <SelectItem key={purpose} value={purpose}>{bankAccountPurposeLabels[purpose]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Mã tham chiếu (8 ký tự)</Label>
+                <Input
+                  value={resolution.reference}
+                  onChange={(e) => setResolution({ ...resolution, reference: e.target.value.trim() })}
+                  maxLength={8}
+                  placeholder="VD: 3F2A9C1B"
+                  data-testid="input-bank-transfer-reference"
+                />
+              </div>
+              <div>
+                <Label>Ghi chú</Label>
+                <Input
+                  value={resolution.note}
+                  onChange={(e) => setResolution({ ...resolution, note: e.target.value })}
+                  data-testid="input-bank-transfer-note"
+                />
+              </div>
+            </div>
+            {resolving.reviewReason === "amount_mismatch" && (
+              <Alert>
+                <AlertDescription>Số tiền nhận được khác với đơn hàng. Thanh toán vẫn được xác nhận theo đơn hàng.</AlertDescription>
+              </Alert>
+            )}
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => resolveMutation.mutate({
+                  id: resolving.id,
+                  body: { action: "match", purpose: resolution.purpose, reference: resolution.reference, note: resolution.note || undefined },
+                })}
+                disabled={resolveMutation.isPending || resolution.reference.length !== 8}
+                data-testid="button-match-bank-transfer"
+              >
+                Xác nhận khớp
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setResolving(null)}>
+                Hủy
+              </Button>
+            </div>
+          </div>
+        )}
+
         {isLoading ? (
           <div className="text-center py-8">Đang tải...</div>
+        ) : transfers.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            Không có giao dịch
+          </div>
         ) : (
           <div className="overflow-x-auto">
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead className="whitespace-nowrap">Tên</TableHead>
-                  <TableHead className="whitespace-nowrap">Email</TableHead>
-                  <TableHead className="whitespace-nowrap">Quyền</TableHead>
-                  <TableHead className="whitespace-nowrap">Trạng thái</TableHead>
-                  <TableHead className="whitespace-nowrap">Mã giới thiệu</TableHead>
-                  <TableHead className="whitespace-nowrap">Ngày tạo</TableHead>
-                  <TableHead className="whitespace-nowrap">Thao tác</TableHead>
+                  <TableHead className="whitespace-nowrap">Thời gian</TableHead>
+                  <TableHead className="whitespace-nowrap">Tài khoản nhận</TableHead>
+                  <TableHead className="whitespace-nowrap">Số tiền</TableHead>
+                  <TableHead>Nội dung</TableHead>
+                  <TableHead className="whitespace-nowrap">{status === "needs_review" ? "Lý do" : "Đơn hàng"}</TableHead>
+                  {status === "needs_review" && <TableHead className="whitespace-nowrap">Thao tác</TableHead>}
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {users.map((user) => (
-                  <TableRow key={user.id}>
-                    <TableCell className="whitespace-nowrap" data-testid={`text-user-name-${user.id}`}>
-                      {user.name}
-                    </TableCell>
-                    <TableCell className="whitespace-nowrap" data-testid={`text-user-email-${user.id}`}>
-                      {user.email}
-                    </TableCell>
-                    <TableCell className="whitespace-nowrap" data-testid={`badge-user-role-${user.id}`}>
-                      <Badge variant={getRoleBadgeVariant(user.role)}>
-                        {user.role === "admin" ? "Quản trị viên" :
-                         user.role === "accountant" ? "Kế toán" :
-                         user.role === "branch" ? "Chi nhánh" :
-                         user.role === "staff" ? "Nhân viên" :
-                         user.role === "customer" ? "Khách hàng" :
-                         user.role === "shareholder" ? "Cổ đông đồng sáng lập" :
-                         user.role}
-                      </Badge>
-                    </TableCell>
-                    <TableCell className="whitespace-nowrap" data-testid={`badge-user-status-${user.id}`}>
-                      <Badge variant={getStatusBadgeVariant(user.status)}>
-                        {user.status === "active" ? "Hoạt động" : "Ngừng hoạt động"}
-                      </Badge>
+                {transfers.map((transfer) => (
+                  <TableRow key={transfer.id}>
+                    <TableCell className="whitespace-nowrap" data-testid={`text-bank-transfer-date-${transfer.id}`}>
+                      {formatDateTime(transfer.transferredAt || transfer.createdAt || new Date())}
                     </TableCell>
-                    <TableCell className="whitespace-nowrap" data-testid={`text-user-refcode-${user.id}`}>
-                      {user.refCode || "-"}
+                    <TableCell className="whitespace-nowrap">
+                      <div className="font-medium">{transfer.accountNumber}</div>
+                      <div className="text-sm text-gray-500">{transfer.provider} {transfer.bankReference || ""}</div>
                     </TableCell>
-                    <TableCell className="whitespace-nowrap" data-testid={`text-user-created-${user.id}`}>
-                      {user.createdAt ? formatDate(user.createdAt) : "-"}
+                    <TableCell className="whitespace-nowrap" data-testid={`text-bank-transfer-amount-${transfer.id}`}>
+                      {formatCurrency(transfer.amount)}
                     </TableCell>
+                    <TableCell className="max-w-xs break-words">{transfer.memo || "-"}</TableCell>
                     <TableCell className="whitespace-nowrap">
-                      <Button 
-                        size="sm" 
-                        variant="outline"
-                        onClick={() => handleRoleUpdate(user)}
-                        data-testid={`button-edit-role-${user.id}`}
-                      >
-                        Sửa quyền
-                      </Button>
+                      {status === "needs_review" ? (
+                        <Badge variant="secondary">{transfer.reviewReasonLabel || "-"}</Badge>
+                      ) : (
+                        <div>
+                          <div>{transfer.matchedPurpose ? bankAccountPurposeLabels[transfer.matchedPurpose] || transfer.matchedPurpose : "-"}</div>
+                          <div className="text-sm text-gray-500">{transfer.resolutionNote || (transfer.resolvedBy ? "" : "Tự động")}</div>
+                        </div>
+                      )}
                     </TableCell>
+                    {status === "needs_review" && (
+                      <TableCell className="whitespace-nowrap">
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => startMatch(transfer)}
+                            className="bg-green-600 hover:bg-green-700"
+                            data-testid={`button-resolve-bank-transfer-${transfer.id}`}
+                          >
+                            <CheckCircle className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => handleDismiss(transfer)}
+                            disabled={resolveMutation.isPending}
+                            data-testid={`button-dismiss-bank-transfer-${transfer.id}`}
+                          >
+                            <XCircle className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
                   </TableRow>
                 ))}
               </TableBody>
@@ -471,52 +2008,32 @@ const UserManagement = () => {
           </div>
         )}
 
-        {/* Role Update Modal */}
-        {selectedUser && (
-          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-            <Card className="w-full max-w-md mx-4">
-              <CardHeader>
-                <CardTitle>Cập nhật quyền người dùng</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <Label>Người dùng</Label>
-                  <p className="text-sm text-gray-600">{selectedUser.name} ({selectedUser.email})</p>
-                </div>
-                <div>
-                  <Label htmlFor="role">Quyền mới</Label>
-                  <Select value={newRole} onValueChange={setNewRole}>
-                    <SelectTrigger data-testid="select-new-role">
-                      <SelectValue placeholder="Chọn quyền" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="admin">Quản trị viên</SelectItem>
-                      <SelectItem value="accountant">Kế toán</SelectItem>
-                      <SelectItem value="branch">Chi nhánh</SelectItem>
-                      <SelectItem value="staff">Nhân viên</SelectItem>
-                      <SelectItem value="customer">Khách hàng</SelectItem>
-                      <SelectItem value="shareholder">Cổ đông đồng sáng lập</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="flex gap-2">
-                  <Button 
-                    onClick={handleSaveRole}
-                    disabled={updateRoleMutation.isPending || !newRole}
-                    data-testid="button-save-role"
-                  >
-                    {updateRoleMutation.isPending ? "Đang lưu..." : "Lưu"}
-                  </Button>
-                  <Button 
-                    variant="outline" 
-                    onClick={() => setSelectedUser(null)}
-                    data-testid="button-cancel-role"
-                  >
-                    Hủy
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
+        {import.meta.env.DEV && (
+          <div className="border-t pt-4 space-y-3">
+            <div className="text-sm font-medium">Giả lập thông báo chuyển khoản</div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <Input
+                type="number"
+                value={simulation.amount}
+                onChange={(e) => setSimulation({ ...simulation, amount: e.target.value })}
+                placeholder="Số tiền"
+                data-testid="input-simulate-amount"
+              />
+              <Input
+                value={simulation.content}
+                onChange={(e) => setSimulation({ ...simulation, content: e.target.value })}
+                placeholder="Nội dung, VD: MUATHE 3F2A9C1B"
+                data-testid="input-simulate-content"
+              />
+              <Button
+                variant="outline"
+                onClick={() => simulateMutation.mutate()}
+                disabled={simulateMutation.isPending || !(parseFloat(simulation.amount) > 0)}
+                data-testid="button-simulate-bank-transfer"
+              >
+                Gửi giao dịch giả lập
+              </Button>
+            </div>
           </div>
         )}
       </CardContent>
@@ -524,121 +2041,252 @@ const UserManagement = () => {
   );
 };
 
-// Transaction Approval Component  
-const TransactionApproval = () => {
+// System Configuration Component
+const bankAccountPurposeLabels: Record<string, string> = {
+  card_purchase: "Mua thẻ",
+  card_upgrade: "Nâng cấp thẻ",
+  card_renewal: "Gia hạn thẻ",
+  deposit: "Nạp tiền",
+  order: "Đơn hàng website",
+};
+
+const emptyBankAccountForm = {
+  bankBin: "",
+  bankName: "",
+  accountNumber: "",
+  accountName: "",
+  branchId: "",
+  purpose: "",
+  isActive: true,
+};
+
+// Receiving accounts for payment QR codes; the most specific active account for a payment's
+// branch and purpose is used
+const BankAccountSettings = () => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [accountForm, setAccountForm] = useState(emptyBankAccountForm);
   const { toast } = useToast();
 
-  const { data: pendingTransactions = [], isLoading } = useQuery<Transaction[]>({ 
-    queryKey: ['/api/admin/transactions/pending'] 
+  const { data: accounts = [], isLoading } = useQuery<BankAccount[]>({
+    queryKey: ['/api/admin/bank-accounts']
   });
 
-  const approveMutation = useMutation({
-    mutationFn: async (transactionId: string) => {
-      const response = await apiRequest('POST', `/api/cash-flow/transactions/${transactionId}/approve`, {});
+  const { data: branches = [] } = useQuery<Branch[]>({
+    queryKey: ['/api/branches']
+  });
+
+  const saveAccountMutation = useMutation({
+    mutationFn: async (formData: typeof emptyBankAccountForm) => {
+      const payload = { ...formData, branchId: formData.branchId || null, purpose: formData.purpose || null };
+      const response = editingId
+        ? await apiRequest('PUT', `/api/admin/bank-accounts/${editingId}`, payload)
+        : await apiRequest('POST', '/api/admin/bank-accounts', payload);
       return response.json();
     },
     onSuccess: () => {
-      toast({ description: "Duyệt giao dịch thành công!" });
-      queryClient.invalidateQueries({ queryKey: ['/api/admin/transactions/pending'] });
+      toast({ description: editingId ? "Cập nhật tài khoản thành công!" : "Thêm tài khoản thành công!" });
+      setEditingId(null);
+      setAccountForm(emptyBankAccountForm);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/bank-accounts'] });
     },
     onError: (error: any) => {
-      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể duyệt giao dịch") });
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể lưu tài khoản") });
     }
   });
 
-  const rejectMutation = useMutation({
-    mutationFn: async ({ transactionId, reason }: { transactionId: string, reason: string }) => {
-      const response = await apiRequest('POST', `/api/cash-flow/transactions/${transactionId}/reject`, { reason });
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (account: BankAccount) => {
+      const response = await apiRequest('PUT', `/api/admin/bank-accounts/${account.id}`, { isActive: !account.isActive });
       return response.json();
     },
     onSuccess: () => {
-      toast({ description: "Từ chối giao dịch thành công!" });
-      queryClient.invalidateQueries({ queryKey: ['/api/admin/transactions/pending'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/bank-accounts'] });
     },
     onError: (error: any) => {
-      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể từ chối giao dịch") });
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể cập nhật tài khoản") });
     }
   });
 
-  const handleApprove = (transactionId: string) => {
-    approveMutation.mutate(transactionId);
+  const handleEdit = (account: BankAccount) => {
+    setEditingId(account.id);
+    setAccountForm({
+      bankBin: account.bankBin,
+      bankName: account.bankName,
+      accountNumber: account.accountNumber,
+      accountName: account.accountName,
+      branchId: account.branchId || "",
+      purpose: account.purpose || "",
+      isActive: account.isActive,
+    });
   };
 
-  const handleReject = (transactionId: string) => {
-    const reason = prompt("Lý do từ chối (không bắt buộc):");
-    rejectMutation.mutate({ transactionId, reason: reason || "Không có lý do cụ thể" });
+  const handleSave = () => {
+    if (!accountForm.bankBin || !accountForm.bankName || !accountForm.accountNumber || !accountForm.accountName) {
+      toast({ variant: "destructive", description: "Vui lòng điền mã BIN, ngân hàng, số tài khoản và chủ tài khoản" });
+      return;
+    }
+    saveAccountMutation.mutate(accountForm);
   };
 
+  const branchName = (branchId: string | null) =>
+    branchId ? branches.find(branch => branch.id === branchId)?.name || branchId : "Tất cả chi nhánh";
+
   return (
     <Card>
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
-          <Clock className="h-5 w-5 text-orange-500" />
-          Duyệt giao dịch ({pendingTransactions.length})
+          <Landmark className="h-5 w-5 text-blue-500" />
+          Tài khoản nhận thanh toán (VietQR)
         </CardTitle>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <Label htmlFor="bankBin">Mã BIN ngân hàng *</Label>
+            <Input
+              id="bankBin"
+              value={accountForm.bankBin}
+              onChange={(e) => setAccountForm(prev => ({ ...prev, bankBin: e.target.value }))}
+              placeholder="970423"
+              data-testid="input-bank-bin"
+            />
+          </div>
+          <div>
+            <Label htmlFor="bankName">Ngân hàng *</Label>
+            <Input
+              id="bankName"
+              value={accountForm.bankName}
+              onChange={(e) => setAccountForm(prev => ({ ...prev, bankName: e.target.value }))}
+              placeholder="TPBank"
+              data-testid="input-bank-name"
+            />
+          </div>
+          <div>
+            <Label htmlFor="bankAccountNumber">Số tài khoản *</Label>
+            <Input
+              id="bankAccountNumber"
+              value={accountForm.accountNumber}
+              onChange={(e) => setAccountForm(prev => ({ ...prev, accountNumber: e.target.value }))}
+              data-testid="input-bank-account-number"
+            />
+          </div>
+          <div>
+            <Label htmlFor="bankAccountName">Chủ tài khoản *</Label>
+            <Input
+              id="bankAccountName"
+              value={accountForm.accountName}
+              onChange={(e) => setAccountForm(prev => ({ ...prev, accountName: e.target.value }))}
+              data-testid="input-bank-account-name"
+            />
+          </div>
+          <div>
+            <Label>Chi nhánh</Label>
+            <Select value={accountForm.branchId || "all"} onValueChange={(value) => setAccountForm(prev => ({ ...prev, branchId: value === "all" ? "" : value }))}>
+              <SelectTrigger data-testid="select-bank-account-branch">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Tất cả chi nhánh</SelectItem>
+                {branches.map(branch => (
+                  <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Mục đích</Label>
+            <Select value={accountForm.purpose || "any"} onValueChange={(value) => setAccountForm(prev => ({ ...prev, purpose: value === "any" ? "" : value }))}>
+              <SelectTrigger data-testid="select-bank-account-purpose">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Mọi khoản thanh toán</SelectItem>
+                {Object.entries(bankAccountPurposeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-end space-x-2 pb-2">
+            <input
+              type="checkbox"
+              id="bankAccountActive"
+              checked={accountForm.isActive}
+              onChange={(e) => setAccountForm(prev => ({ ...prev, isActive: e.target.checked }))}
+              className="h-4 w-4"
+              data-testid="checkbox-bank-account-active"
+            />
+            <Label htmlFor="bankAccountActive">Đang sử dụng</Label>
+          </div>
+          <div className="flex items-end gap-2">
+            <Button
+              onClick={handleSave}
+              disabled={saveAccountMutation.isPending}
+              data-testid="button-save-bank-account"
+            >
+              {saveAccountMutation.isPending ? "Đang lưu..." : editingId ? "Cập nhật" : "Thêm tài khoản"}
+            </Button>
+            {editingId && (
+              <Button
+                variant="outline"
+                onClick={() => { setEditingId(null); setAccountForm(emptyBankAccountForm); }}
+                data-testid="button-cancel-bank-account"
+              >
+                Hủy
+              </Button>
+            )}
+          </div>
+        </div>
+
         {isLoading ? (
           <div className="text-center py-8">Đang tải...</div>
-        ) : pendingTransactions.length === 0 ? (
-          <div className="text-center py-8 text-gray-500">
-            Không có giao dịch chờ duyệt
-          </div>
         ) : (
           <div className="overflow-x-auto">
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead className="whitespace-nowrap">Ngày</TableHead>
-                  <TableHead className="whitespace-nowrap">Loại</TableHead>
-                  <TableHead className="whitespace-nowrap">Số tiền</TableHead>
-                  <TableHead className="whitespace-nowrap">Thuế</TableHead>
-                  <TableHead className="whitespace-nowrap">Mô tả</TableHead>
+                  <TableHead className="whitespace-nowrap">Ngân hàng</TableHead>
+                  <TableHead className="whitespace-nowrap">Số tài khoản</TableHead>
+                  <TableHead className="whitespace-nowrap">Chủ tài khoản</TableHead>
+                  <TableHead className="whitespace-nowrap">Chi nhánh</TableHead>
+                  <TableHead className="whitespace-nowrap">Mục đích</TableHead>
+                  <TableHead className="whitespace-nowrap">Trạng thái</TableHead>
                   <TableHead className="whitespace-nowrap">Thao tác</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {pendingTransactions.map((transaction) => (
-                  <TableRow key={transaction.id}>
-                    <TableCell className="whitespace-nowrap" data-testid={`text-pending-date-${transaction.id}`}>
-                      {transaction.date ? formatDate(transaction.date) : "-"}
+                {accounts.map((account) => (
+                  <TableRow key={account.id}>
+                    <TableCell className="whitespace-nowrap font-medium">{account.bankName} ({account.bankBin})</TableCell>
+                    <TableCell className="whitespace-nowrap font-mono" data-testid={`text-bank-account-number-${account.id}`}>{account.accountNumber}</TableCell>
+                    <TableCell className="whitespace-nowrap">{account.accountName}</TableCell>
+                    <TableCell className="whitespace-nowrap">{branchName(account.branchId)}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {account.purpose ? bankAccountPurposeLabels[account.purpose] || account.purpose : "Mọi khoản thanh toán"}
                     </TableCell>
-                    <TableCell className="whitespace-nowrap" data-testid={`text-pending-type-${transaction.id}`}>
-                      <Badge variant="outline">
-                        {transaction.type === "deposit" ? "Nạp tiền" : 
-                         transaction.type === "invest" ? "Đầu tư" :
-                         transaction.type === "withdraw" ? "Rút tiền" : 
-                         transaction.type}
+                    <TableCell className="whitespace-nowrap">
+                      <Badge variant={account.isActive ? "default" : "secondary"}>
+                        {account.isActive ? "Đang sử dụng" : "Ngừng sử dụng"}
                       </Badge>
                     </TableCell>
-                    <TableCell className="whitespace-nowrap" data-testid={`text-pending-amount-${transaction.id}`}>
-                      {formatCurrency(transaction.amount)}
-                    </TableCell>
-                    <TableCell className="whitespace-nowrap" data-testid={`text-pending-tax-${transaction.id}`}>
-                      {transaction.taxAmount ? formatCurrency(transaction.taxAmount) : "-"}
-                    </TableCell>
-                    <TableCell className="max-w-xs truncate" data-testid={`text-pending-description-${transaction.id}`}>
-                      {transaction.description}
-                    </TableCell>
                     <TableCell className="whitespace-nowrap">
                       <div className="flex gap-2">
-                        <Button 
-                          size="sm" 
-                          onClick={() => handleApprove(transaction.id)}
-                          disabled={approveMutation.isPending}
-                          className="bg-green-600 hover:bg-green-700"
-                          data-testid={`button-approve-${transaction.id}`}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleEdit(account)}
+                          data-testid={`button-edit-bank-account-${account.id}`}
                         >
-                          <CheckCircle className="h-4 w-4" />
+                          Sửa
                         </Button>
-                        <Button 
-                          size="sm" 
-                          variant="destructive"
-                          onClick={() => handleReject(transaction.id)}
-                          disabled={rejectMutation.isPending}
-                          data-testid={`button-reject-${transaction.id}`}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => toggleActiveMutation.mutate(account)}
+                          disabled={toggleActiveMutation.isPending}
+                          data-testid={`button-toggle-bank-account-${account.id}`}
                         >
-                          <XCircle className="h-4 w-4" />
+                          {account.isActive ? "Ngừng sử dụng" : "Sử dụng"}
                         </Button>
                       </div>
                     </TableCell>
@@ -653,7 +2301,6 @@ const TransactionApproval = () => {
   );
 };
 
-// System Configuration Component
 const SystemConfiguration = () => {
   const [configForm, setConfigForm] = useState({
     configKey: "",
@@ -1136,7 +2783,7 @@ export default function AdminTab() {
       </div>
 
       <Tabs defaultValue="users" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="users" data-testid="tab-users">
             <Users className="h-4 w-4 mr-2" />
             Người dùng
@@ -1145,6 +2792,18 @@ export default function AdminTab() {
             <Shield className="h-4 w-4 mr-2" />
             Duyệt giao dịch
           </TabsTrigger>
+          <TabsTrigger value="orders" data-testid="tab-orders">
+            <ShoppingCart className="h-4 w-4 mr-2" />
+            Đơn hàng
+          </TabsTrigger>
+          <TabsTrigger value="kyc" data-testid="tab-kyc">
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            KYC
+          </TabsTrigger>
+          <TabsTrigger value="products" data-testid="tab-products">
+            <CreditCard className="h-4 w-4 mr-2" />
+            Gói thẻ
+          </TabsTrigger>
           <TabsTrigger value="config" data-testid="tab-config">
             <Settings className="h-4 w-4 mr-2" />
             Cấu hình
@@ -1155,16 +2814,33 @@ export default function AdminTab() {
           </TabsTrigger>
         </TabsList>
 
-        <TabsContent value="users">
+        <TabsContent value="users" className="space-y-6">
           <MultiRoleManagement />
+          <PermissionMatrix />
         </TabsContent>
 
         <TabsContent value="approvals">
           <TransactionApproval />
+          <BankTransferQueue />
+        </TabsContent>
+
+        <TabsContent value="orders">
+          <OrderList />
+        </TabsContent>
+
+        <TabsContent value="kyc">
+          <KycReviewQueue />
+        </TabsContent>
+
+        <TabsContent value="products">
+          <CardProductCatalogue />
+          <CardUpgradeQueue />
+          <CardRenewalQueue />
         </TabsContent>
 
-        <TabsContent value="config">
+        <TabsContent value="config" className="space-y-6">
           <SystemConfiguration />
+          <BankAccountSettings />
         </TabsContent>
 
         <TabsContent value="reports">
@@ -0,0 +1,556 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CalendarDays, Clock, ClipboardList, Plus, Trash2 } from "lucide-react";
+import { USABLE_CARD_STATUSES } from "@shared/schema";
+import type { Appointment, AppointmentSlot, Branch, Card as CardType, Staff } from "@shared/schema";
+
+type AvailableSlot = AppointmentSlot & { branchName: string; practitionerName: string | null };
+
+type MyAppointment = Appointment & {
+  slot: AppointmentSlot;
+  branchName: string;
+  practitionerName: string | null;
+  cardNumber: string;
+  cardType: string;
+};
+
+type ScheduleSlot = AppointmentSlot & {
+  practitionerName: string | null;
+  appointments: (Appointment & { cardNumber: string; customerName: string })[];
+};
+
+const statusLabels: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  booked: { label: "Đã đặt", variant: "default" },
+  checked_in: { label: "Đã check-in", variant: "secondary" },
+  cancelled: { label: "Đã hủy", variant: "outline" },
+  no_show: { label: "Vắng mặt", variant: "destructive" },
+};
+
+const formatTime = (date: string | Date) => format(new Date(date), "HH:mm");
+const formatDateTime = (date: string | Date) => format(new Date(date), "dd/MM/yyyy HH:mm");
+const dayKey = (date: string | Date) => format(new Date(date), "yyyy-MM-dd");
+
+const StatusBadge = ({ status }: { status: string }) => {
+  const info = statusLabels[status] || { label: status, variant: "outline" as const };
+  return <Badge variant={info.variant}>{info.label}</Badge>;
+};
+
+// Member booking Component
+const BookAppointment = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [branchId, setBranchId] = useState("");
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(new Date());
+  const [slotId, setSlotId] = useState("");
+  const [cardId, setCardId] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { data: branches = [] } = useQuery<Branch[]>({
+    queryKey: ['/api/branches']
+  });
+
+  const { data: cards = [] } = useQuery<CardType[]>({
+    queryKey: ['/api/cards']
+  });
+
+  const { data: slots = [] } = useQuery<AvailableSlot[]>({
+    queryKey: ['/api/appointment-slots', branchId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/appointment-slots?branchId=${branchId}`);
+      return response.json();
+    },
+    enabled: !!branchId,
+  });
+
+  // Only the member's own active cards with a session not already held by a booking or shared with family
+  const freeSessions = (card: CardType) => (card.remainingSessions || 0) - card.reservedSessions - card.sharedSessions;
+  const bookableCards = cards.filter(card => card.ownerId === user?.id && USABLE_CARD_STATUSES.includes(card.status) && freeSessions(card) > 0);
+  const availableDays = Array.from(new Set(slots.map(slot => dayKey(slot.startsAt)))).map(day => new Date(`${day}T00:00:00`));
+  const daySlots = selectedDay ? slots.filter(slot => dayKey(slot.startsAt) === dayKey(selectedDay)) : [];
+
+  const bookMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/appointments', { slotId, cardId, notes: notes || undefined });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ description: "Đặt lịch thành công" });
+      setSlotId("");
+      setNotes("");
+      queryClient.invalidateQueries({ queryKey: ['/api/appointment-slots'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cards'] });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể đặt lịch") });
+      queryClient.invalidateQueries({ queryKey: ['/api/appointment-slots'] });
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!slotId || !cardId) {
+      toast({ variant: "destructive", description: "Vui lòng chọn khung giờ và thẻ" });
+      return;
+    }
+    bookMutation.mutate();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5 text-blue-500" />
+          Đặt lịch tư vấn
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <Label>Chi nhánh</Label>
+              <Select value={branchId} onValueChange={(value) => { setBranchId(value); setSlotId(""); }}>
+                <SelectTrigger data-testid="select-appointment-branch">
+                  <SelectValue placeholder="Chọn chi nhánh" />
+                </SelectTrigger>
+                <SelectContent>
+                  {branches.map(branch => (
+                    <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Calendar
+              mode="single"
+              selected={selectedDay}
+              onSelect={(day) => { setSelectedDay(day); setSlotId(""); }}
+              disabled={{ before: new Date() }}
+              modifiers={{ available: availableDays }}
+              modifiersClassNames={{ available: "font-bold text-green-700" }}
+              className="rounded-md border w-fit"
+            />
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <Label>Khung giờ {selectedDay ? format(selectedDay, "dd/MM/yyyy") : ""}</Label>
+              {!branchId ? (
+                <div className="text-sm text-gray-500">Chọn chi nhánh để xem lịch trống</div>
+              ) : daySlots.length === 0 ? (
+                <div className="text-sm text-gray-500" data-testid="text-no-slots">Không còn khung giờ trống trong ngày này</div>
+              ) : (
+                <div className="grid grid-cols-2 gap-2 mt-1">
+                  {daySlots.map(slot => (
+                    <Button
+                      key={slot.id}
+                      type="button"
+                      variant={slotId === slot.id ? "default" : "outline"}
+                      onClick={() => setSlotId(slot.id)}
+                      className="flex flex-col h-auto py-2"
+                      data-testid={`button-slot-${slot.id}`}
+                    >
+                      <span>{formatTime(slot.startsAt)} - {formatTime(slot.endsAt)}</span>
+                      <span className="text-xs opacity-75">
+                        {slot.practitionerName || "Chuyên viên bất kỳ"} · còn {slot.capacity - slot.bookedCount}
+                      </span>
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div>
+              <Label>Thẻ sử dụng</Label>
+              <Select value={cardId} onValueChange={setCardId}>
+                <SelectTrigger data-testid="select-appointment-card">
+                  <SelectValue placeholder={bookableCards.length === 0 ? "Không có thẻ còn lượt trống" : "Chọn thẻ"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {bookableCards.map(card => (
+                    <SelectItem key={card.id} value={card.id}>
+                      {card.cardType} - {card.cardNumber} (còn {freeSessions(card)} lượt)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="appointmentNotes">Ghi chú</Label>
+              <Textarea
+                id="appointmentNotes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                data-testid="textarea-appointment-notes"
+              />
+            </div>
+            <Button type="submit" disabled={bookMutation.isPending} data-testid="button-book-appointment">
+              {bookMutation.isPending ? "Đang đặt..." : "Đặt lịch"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+// Member's appointments Component
+const MyAppointments = () => {
+  const { toast } = useToast();
+
+  const { data: appointments = [], isLoading } = useQuery<MyAppointment[]>({
+    queryKey: ['/api/appointments']
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/appointments/${id}/cancel`, {});
+      return response.json();
+    },
+    onSuccess: (appointment: Appointment) => {
+      toast({
+        description: appointment.sessionForfeited
+          ? "Đã hủy lịch hẹn. Do hủy sát giờ, lượt sử dụng đã bị trừ"
+          : "Đã hủy lịch hẹn, lượt sử dụng được hoàn lại",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/appointment-slots'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cards'] });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể hủy lịch hẹn") });
+    }
+  });
+
+  const handleCancel = (id: string) => {
+    if (!confirm("Hủy lịch hẹn này? Hủy sát giờ hẹn sẽ bị trừ lượt sử dụng.")) return;
+    cancelMutation.mutate(id);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="h-5 w-5 text-green-600" />
+          Lịch hẹn của tôi
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-4">Đang tải...</div>
+        ) : appointments.length === 0 ? (
+          <div className="text-center py-4 text-gray-500" data-testid="text-no-appointments">Chưa có lịch hẹn nào</div>
+        ) : (
+          <div className="space-y-2">
+            {appointments.map(appointment => (
+              <div key={appointment.id} className="flex items-center justify-between border rounded p-3" data-testid={`row-appointment-${appointment.id}`}>
+                <div>
+                  <div className="font-medium">
+                    {formatDateTime(appointment.slot.startsAt)} - {formatTime(appointment.slot.endsAt)} · {appointment.branchName}
+                  </div>
+                  <div className="text-sm text-gray-500">
+                    {appointment.practitionerName || "Chuyên viên bất kỳ"} · Thẻ {appointment.cardType} {appointment.cardNumber}
+                    {appointment.sessionForfeited && " · Đã trừ lượt"}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <StatusBadge status={appointment.status} />
+                  {appointment.status === "booked" && new Date(appointment.slot.startsAt) > new Date() && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleCancel(appointment.id)}
+                      disabled={cancelMutation.isPending}
+                      data-testid={`button-cancel-appointment-${appointment.id}`}
+                    >
+                      Hủy
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Publish slots Component
+const PublishSlots = ({ branchId, date }: { branchId: string; date: string }) => {
+  const { toast } = useToast();
+  const [slotForm, setSlotForm] = useState({ practitionerId: "", startTime: "08:00", endTime: "17:00", durationMinutes: "60", capacity: "1" });
+
+  const { data: staff = [] } = useQuery<Staff[]>({
+    queryKey: ['/api/staff']
+  });
+  const practitioners = staff.filter(member => member.branchId === branchId);
+
+  const publishMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/appointment-slots', {
+        branchId,
+        date,
+        practitionerId: slotForm.practitionerId || undefined,
+        startTime: slotForm.startTime,
+        endTime: slotForm.endTime,
+        durationMinutes: slotForm.durationMinutes,
+        capacity: slotForm.capacity,
+      });
+      return response.json();
+    },
+    onSuccess: (created: AppointmentSlot[]) => {
+      toast({ description: `Đã mở ${created.length} khung giờ` });
+      queryClient.invalidateQueries({ queryKey: ['/api/branches', branchId, 'schedule'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/appointment-slots'] });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể mở lịch") });
+    }
+  });
+
+  return (
+    <form
+      onSubmit={(e) => { e.preventDefault(); publishMutation.mutate(); }}
+      className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end border rounded p-3"
+    >
+      <div className="col-span-2">
+        <Label>Chuyên viên</Label>
+        <Select value={slotForm.practitionerId || "any"} onValueChange={(value) => setSlotForm(prev => ({ ...prev, practitionerId: value === "any" ? "" : value }))}>
+          <SelectTrigger data-testid="select-slot-practitioner">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Chuyên viên bất kỳ</SelectItem>
+            {practitioners.map(member => (
+              <SelectItem key={member.id} value={member.id}>{member.name} - {member.position}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label>Từ</Label>
+        <Input type="time" value={slotForm.startTime} onChange={(e) => setSlotForm(prev => ({ ...prev, startTime: e.target.value }))} data-testid="input-slot-start" />
+      </div>
+      <div>
+        <Label>Đến</Label>
+        <Input type="time" value={slotForm.endTime} onChange={(e) => setSlotForm(prev => ({ ...prev, endTime: e.target.value }))} data-testid="input-slot-end" />
+      </div>
+      <div>
+        <Label>Phút/lượt</Label>
+        <Input type="number" min="10" value={slotForm.durationMinutes} onChange={(e) => setSlotForm(prev => ({ ...prev, durationMinutes: e.target.value }))} data-testid="input-slot-duration" />
+      </div>
+      <div>
+        <Label>Số chỗ</Label>
+        <Input type="number" min="1" value={slotForm.capacity} onChange={(e) => setSlotForm(prev => ({ ...prev, capacity: e.target.value }))} data-testid="input-slot-capacity" />
+      </div>
+      <Button type="submit" className="col-span-2 md:col-span-6" disabled={!branchId || publishMutation.isPending} data-testid="button-publish-slots">
+        <Plus className="h-4 w-4 mr-2" />
+        {publishMutation.isPending ? "Đang mở lịch..." : "Mở khung giờ"}
+      </Button>
+    </form>
+  );
+};
+
+// Branch day schedule Component
+const BranchSchedule = () => {
+  const { toast } = useToast();
+  const [branchId, setBranchId] = useState("");
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  const { data: branches = [] } = useQuery<Branch[]>({
+    queryKey: ['/api/branches']
+  });
+
+  const { data: schedule = [], isLoading } = useQuery<ScheduleSlot[]>({
+    queryKey: ['/api/branches', branchId, 'schedule', date],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/branches/${branchId}/schedule?date=${date}`);
+      return response.json();
+    },
+    enabled: !!branchId && !!date,
+  });
+
+  const refreshSchedule = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/branches', branchId, 'schedule'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/appointment-slots'] });
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string, action: "cancel" | "no-show" }) => {
+      const response = await apiRequest('POST', `/api/appointments/${id}/${action}`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ description: "Đã cập nhật lịch hẹn" });
+      refreshSchedule();
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể cập nhật lịch hẹn") });
+    }
+  });
+
+  const deleteSlotMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/appointment-slots/${id}`);
+    },
+    onSuccess: () => {
+      toast({ description: "Đã xóa khung giờ" });
+      refreshSchedule();
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể xóa khung giờ") });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5 text-orange-500" />
+          Lịch làm việc chi nhánh
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label>Chi nhánh</Label>
+            <Select value={branchId} onValueChange={setBranchId}>
+              <SelectTrigger data-testid="select-schedule-branch">
+                <SelectValue placeholder="Chọn chi nhánh" />
+              </SelectTrigger>
+              <SelectContent>
+                {branches.map(branch => (
+                  <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="scheduleDate">Ngày</Label>
+            <Input id="scheduleDate" type="date" value={date} onChange={(e) => setDate(e.target.value)} data-testid="input-schedule-date" />
+          </div>
+        </div>
+
+        {branchId && <PublishSlots branchId={branchId} date={date} />}
+
+        {!branchId ? (
+          <div className="text-sm text-gray-500">Chọn chi nhánh để xem lịch</div>
+        ) : isLoading ? (
+          <div className="text-center py-4">Đang tải...</div>
+        ) : schedule.length === 0 ? (
+          <div className="text-center py-4 text-gray-500" data-testid="text-empty-schedule">Chưa mở khung giờ nào trong ngày</div>
+        ) : (
+          <div className="space-y-3">
+            {schedule.map(slot => (
+              <div key={slot.id} className="border rounded p-3" data-testid={`row-schedule-slot-${slot.id}`}>
+                <div className="flex items-center justify-between mb-2">
+                  <div className="font-medium">
+                    {formatTime(slot.startsAt)} - {formatTime(slot.endsAt)} · {slot.practitionerName || "Chuyên viên bất kỳ"}
+                    <span className="text-sm text-gray-500 ml-2">{slot.bookedCount}/{slot.capacity} chỗ</span>
+                  </div>
+                  {slot.appointments.length === 0 && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => deleteSlotMutation.mutate(slot.id)}
+                      disabled={deleteSlotMutation.isPending}
+                      data-testid={`button-delete-slot-${slot.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                {slot.appointments.map(appointment => (
+                  <div key={appointment.id} className="flex items-center justify-between text-sm pl-3 py-1 border-l-2">
+                    <div>
+                      {appointment.customerName} · {appointment.cardNumber}
+                      {appointment.notes && <span className="text-gray-500"> · {appointment.notes}</span>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <StatusBadge status={appointment.status} />
+                      {appointment.status === "booked" && (
+                        new Date(slot.startsAt) <= new Date() ? (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => actionMutation.mutate({ id: appointment.id, action: "no-show" })}
+                            disabled={actionMutation.isPending}
+                            data-testid={`button-no-show-${appointment.id}`}
+                          >
+                            Vắng mặt
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => actionMutation.mutate({ id: appointment.id, action: "cancel" })}
+                            disabled={actionMutation.isPending}
+                            data-testid={`button-staff-cancel-${appointment.id}`}
+                          >
+                            Hủy
+                          </Button>
+                        )
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Main Appointments Tab Component
+export default function AppointmentsTab() {
+  const { user } = useAuth();
+  const isBranchStaff = !!user && user.role !== "customer";
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+          Lịch hẹn tư vấn
+        </h2>
+        <p className="text-gray-600 dark:text-gray-400">
+          Đặt lịch tư vấn sức khỏe bằng lượt của thẻ; lượt được giữ khi đặt và trừ khi check-in
+        </p>
+      </div>
+
+      <Tabs defaultValue="book">
+        <TabsList className={`grid w-full ${isBranchStaff ? "grid-cols-2" : "grid-cols-1"}`}>
+          <TabsTrigger value="book" data-testid="tab-appointments-book">Đặt lịch</TabsTrigger>
+          {isBranchStaff && (
+            <TabsTrigger value="schedule" data-testid="tab-appointments-schedule">Lịch chi nhánh</TabsTrigger>
+          )}
+        </TabsList>
+
+        <TabsContent value="book" className="space-y-6">
+          <BookAppointment />
+          <MyAppointments />
+        </TabsContent>
+
+        {isBranchStaff && (
+          <TabsContent value="schedule">
+            <BranchSchedule />
+          </TabsContent>
+        )}
+      </Tabs>
+    </div>
+  );
+}
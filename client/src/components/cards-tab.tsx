@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,15 +7,22 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Plus, Search, QrCode, Users, AlertTriangle, CreditCard } from "lucide-react";
-import type { Card as CardType, InsertCard } from "@shared/schema";
+import { Plus, Search, QrCode, Users, AlertTriangle, CreditCard, Share2, Trash2, ArrowUpCircle, History, RefreshCw, RotateCcw, FileText, Award, ClipboardList, Download } from "lucide-react";
+import QRCode from "qrcode";
+import { USABLE_CARD_STATUSES } from "@shared/schema";
+import type { Card as CardType, CardMember, CardRefund, CardRenewal, CardStatusHistory, CardUpgrade, InsertCard } from "@shared/schema";
 
 interface CardTypePricing {
   type: string;
   price: number;
   maxSessions: number;
+  validityMonths: number;
+  vcaDigitalShare: number;
+  maxoutMultiplier: number;
 }
 
 interface CardBenefits {
@@ -35,11 +42,1010 @@ interface CardBenefits {
   isNearMaxout: boolean;
 }
 
+interface CheckinCode {
+  payload: string;
+  code: string;
+  step: number;
+  expiresAt: string;
+  cardNumber: string;
+  ttlSeconds: number;
+}
+
+interface UpgradeOption {
+  fromType: string;
+  toType: string;
+  targetPrice: number;
+  credit: number;
+  amountDue: number;
+  remainingValidityPercent: number;
+  carriedSessions: number;
+  sessionTopUp: number;
+  vcaDigitalShareTopUp: number;
+  maxoutLimit: number;
+  validityMonths: number;
+}
+
+interface UpgradeQuote {
+  cardId: string;
+  cardType: string;
+  options: UpgradeOption[];
+  pendingUpgrade: CardUpgrade | null;
+}
+
+interface BankTransferInfo {
+  bankName: string;
+  accountNumber: string;
+  accountName: string;
+  amount: number;
+  content: string;
+  qrCode?: string;
+}
+
+// Payment instructions come with a VietQR the member scans from their banking app
+const toBankTransferInfo = (paymentInstructions: any): BankTransferInfo | null =>
+  paymentInstructions ? { ...paymentInstructions.bankInfo, qrCode: paymentInstructions.qrCode } : null;
+
+const BankTransferAlert = ({ bankInfo, className, testId }: { bankInfo: BankTransferInfo; className?: string; testId: string }) => (
+  <Alert className={className} data-testid={testId}>
+    <AlertDescription>
+      <div className="d-flex gap-3 align-items-start">
+        {bankInfo.qrCode && (
+          <img src={bankInfo.qrCode} alt="VietQR" width={140} height={140} data-testid={`${testId}-qr`} />
+        )}
+        <div>
+          <div className="fw-medium mb-1">Thông tin chuyển khoản</div>
+          <div>Ngân hàng: {bankInfo.bankName}</div>
+          <div>Số tài khoản: {bankInfo.accountNumber} ({bankInfo.accountName})</div>
+          <div>Số tiền: {bankInfo.amount.toLocaleString('vi-VN')} VND</div>
+          <div>Nội dung: {bankInfo.content}</div>
+        </div>
+      </div>
+    </AlertDescription>
+  </Alert>
+);
+
+// Rotating check-in QR shown to the card owner; staff scan it at the branch
+const CheckinQrDialog = ({ cardId, onClose }: { cardId: string | null; onClose: () => void }) => {
+  const [qrDataUrl, setQrDataUrl] = useState("");
+  const [now, setNow] = useState(Date.now());
+
+  const { data: checkinCode, error } = useQuery<CheckinCode>({
+    queryKey: ["/api/cards", cardId, "checkin-code"],
+    enabled: !!cardId,
+    gcTime: 0,
+    // Fetch the next code as soon as the current one rotates
+    refetchInterval: (query) => {
+      const expiresAt = query.state.data?.expiresAt;
+      return expiresAt ? Math.max(1000, new Date(expiresAt).getTime() - Date.now()) : false;
+    },
+  });
+
+  useEffect(() => {
+    if (!checkinCode) return;
+    QRCode.toDataURL(checkinCode.payload, { width: 256, margin: 1 }).then(setQrDataUrl);
+  }, [checkinCode?.payload]);
+
+  useEffect(() => {
+    if (!cardId) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [cardId]);
+
+  const secondsLeft = checkinCode
+    ? Math.max(0, Math.ceil((new Date(checkinCode.expiresAt).getTime() - now) / 1000))
+    : 0;
+
+  return (
+    <Dialog open={!!cardId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Mã check-in</DialogTitle>
+          <DialogDescription>
+            Đưa mã QR cho nhân viên chi nhánh quét. Mã tự động đổi sau mỗi {checkinCode?.ttlSeconds ?? 60} giây và chỉ dùng được một lần.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{(error as Error).message}</AlertDescription>
+          </Alert>
+        ) : checkinCode ? (
+          <div className="text-center space-y-3">
+            {qrDataUrl && (
+              <img src={qrDataUrl} alt="QR check-in" className="mx-auto" data-testid="img-checkin-qr" />
+            )}
+            <div className="text-sm text-gray-500">Số thẻ: {checkinCode.cardNumber}</div>
+            <div className="text-3xl font-mono tracking-widest" data-testid="text-checkin-code">
+              {checkinCode.code}
+            </div>
+            <div className="text-sm text-gray-500" data-testid="text-checkin-countdown">
+              Đổi mã sau {secondsLeft} giây
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-4">Đang tạo mã...</div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+type CardMemberView = Omit<CardMember, "inviteCodeHash">;
+
+interface SharedCard extends CardMemberView {
+  card: { id: string; cardNumber: string; cardType: string; customerName: string; status: string };
+}
+
+const relationshipLabels: Record<string, string> = {
+  spouse: "Vợ/Chồng",
+  child: "Con",
+  parent: "Cha/Mẹ",
+  sibling: "Anh/Chị/Em",
+  other: "Khác",
+};
+
+const cardStatusLabels: Record<string, string> = {
+  active: "Active",
+  pending: "Pending",
+  inactive: "Inactive",
+  near_maxout: "Near Maxout",
+  stopped: "Stopped",
+  expired: "Expired",
+  upgraded: "Upgraded",
+  cancelled: "Cancelled",
+};
+
+const memberStatusLabels: Record<string, string> = {
+  invited: "Đã mời",
+  active: "Đang dùng",
+  revoked: "Đã thu hồi",
+};
+
+// Owner's family sharing: invite members, change their session allocation, revoke access
+const CardSharingDialog = ({ card, onClose }: { card: CardType | null; onClose: () => void }) => {
+  const { toast } = useToast();
+  const [inviteForm, setInviteForm] = useState({ name: "", email: "", phone: "", relationship: "spouse", allocatedSessions: "1" });
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
+
+  const { data: members = [] } = useQuery<CardMemberView[]>({
+    queryKey: ["/api/cards", card?.id, "members"],
+    enabled: !!card,
+  });
+
+  const freeSessions = card ? (card.remainingSessions || 0) - card.reservedSessions - card.sharedSessions : 0;
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/cards/${card!.id}/members`, inviteForm);
+      return res.json();
+    },
+    onSuccess: () => {
+      setInviteForm({ name: "", email: "", phone: "", relationship: "spouse", allocatedSessions: "1" });
+      refresh();
+      toast({ title: "Thành công", description: "Đã gửi lời mời chia sẻ thẻ" });
+    },
+    onError: (error) => {
+      toast({ title: "Lỗi", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const allocationMutation = useMutation({
+    mutationFn: async ({ memberId, allocatedSessions }: { memberId: string; allocatedSessions: string }) => {
+      const res = await apiRequest("PUT", `/api/cards/${card!.id}/members/${memberId}`, { allocatedSessions });
+      return res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Thành công", description: "Đã cập nhật số lượt chia sẻ" });
+    },
+    onError: (error) => {
+      toast({ title: "Lỗi", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (memberId: string) => {
+      await apiRequest("DELETE", `/api/cards/${card!.id}/members/${memberId}`);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Thành công", description: "Đã thu hồi quyền sử dụng, lượt chưa dùng được hoàn lại" });
+    },
+    onError: (error) => {
+      toast({ title: "Lỗi", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteForm.name || (!inviteForm.email && !inviteForm.phone)) {
+      toast({ title: "Lỗi", description: "Vui lòng nhập họ tên và email hoặc số điện thoại", variant: "destructive" });
+      return;
+    }
+    inviteMutation.mutate();
+  };
+
+  return (
+    <Dialog open={!!card} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Chia sẻ thẻ {card?.cardType} {card?.cardNumber}</DialogTitle>
+          <DialogDescription>
+            Còn {freeSessions} lượt chưa chia sẻ. Lượt chia sẻ chỉ thành viên đó dùng được; khi thu hồi, lượt chưa dùng quay về chủ thẻ.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {members.filter(member => member.status !== "revoked").map(member => (
+            <div key={member.id} className="d-flex align-items-center justify-content-between border rounded p-2" data-testid={`row-card-member-${member.id}`}>
+              <div>
+                <div className="fw-medium">
+                  {member.name} <small className="text-muted">({relationshipLabels[member.relationship || "other"] || member.relationship})</small>
+                </div>
+                <small className="text-muted">
+                  {member.email || member.phone} · {memberStatusLabels[member.status] || member.status} · đã dùng {member.usedSessions}/{member.allocatedSessions}
+                </small>
+              </div>
+              <div className="d-flex gap-2 align-items-center">
+                <Input
+                  type="number"
+                  min={member.usedSessions}
+                  className="w-20"
+                  value={allocations[member.id] ?? String(member.allocatedSessions)}
+                  onChange={(e) => setAllocations(prev => ({ ...prev, [member.id]: e.target.value }))}
+                  data-testid={`input-member-allocation-${member.id}`}
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={allocationMutation.isPending || (allocations[member.id] ?? String(member.allocatedSessions)) === String(member.allocatedSessions)}
+                  onClick={() => allocationMutation.mutate({ memberId: member.id, allocatedSessions: allocations[member.id] })}
+                  data-testid={`button-save-allocation-${member.id}`}
+                >
+                  Lưu
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={revokeMutation.isPending}
+                  onClick={() => confirm(`Thu hồi quyền sử dụng thẻ của ${member.name}?`) && revokeMutation.mutate(member.id)}
+                  data-testid={`button-revoke-member-${member.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleInvite} className="row g-2 border-top pt-3">
+          <div className="col-12 col-md-6">
+            <Label htmlFor="memberName">Họ tên</Label>
+            <Input id="memberName" value={inviteForm.name} onChange={(e) => setInviteForm(prev => ({ ...prev, name: e.target.value }))} data-testid="input-member-name" />
+          </div>
+          <div className="col-12 col-md-6">
+            <Label>Quan hệ</Label>
+            <Select value={inviteForm.relationship} onValueChange={(value) => setInviteForm(prev => ({ ...prev, relationship: value }))}>
+              <SelectTrigger data-testid="select-member-relationship">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(relationshipLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-12 col-md-5">
+            <Label htmlFor="memberEmail">Email</Label>
+            <Input id="memberEmail" type="email" value={inviteForm.email} onChange={(e) => setInviteForm(prev => ({ ...prev, email: e.target.value }))} data-testid="input-member-email" />
+          </div>
+          <div className="col-12 col-md-4">
+            <Label htmlFor="memberPhone">Số điện thoại</Label>
+            <Input id="memberPhone" value={inviteForm.phone} onChange={(e) => setInviteForm(prev => ({ ...prev, phone: e.target.value }))} data-testid="input-member-phone" />
+          </div>
+          <div className="col-12 col-md-3">
+            <Label htmlFor="memberSessions">Số lượt</Label>
+            <Input id="memberSessions" type="number" min="1" max={freeSessions} value={inviteForm.allocatedSessions} onChange={(e) => setInviteForm(prev => ({ ...prev, allocatedSessions: e.target.value }))} data-testid="input-member-sessions" />
+          </div>
+          <div className="col-12">
+            <Button type="submit" disabled={inviteMutation.isPending || freeSessions <= 0} data-testid="button-invite-member">
+              <Share2 className="h-4 w-4 me-1" />
+              {inviteMutation.isPending ? "Đang gửi..." : "Gửi lời mời"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Move an owned card to a higher tier; the unused part of its price is credited against the new one
+const UpgradeDialog = ({ card, onClose }: { card: CardType | null; onClose: () => void }) => {
+  const { toast } = useToast();
+  const [bankInfo, setBankInfo] = useState<BankTransferInfo | null>(null);
+
+  const { data: quote, isLoading } = useQuery<UpgradeQuote>({
+    queryKey: ["/api/cards", card?.id, "upgrade-quote"],
+    enabled: !!card,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+  };
+
+  const upgradeMutation = useMutation({
+    mutationFn: async (targetType: string) => {
+      const res = await apiRequest("POST", `/api/cards/${card!.id}/upgrade`, { targetType });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      refresh();
+      toast({ title: "Thành công", description: data.message });
+      if (data.paymentInstructions) {
+        setBankInfo(toBankTransferInfo(data.paymentInstructions));
+      } else {
+        onClose();
+      }
+    },
+    onError: (error) => {
+      toast({ title: "Lỗi", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (upgradeId: string) => {
+      const res = await apiRequest("POST", `/api/card-upgrades/${upgradeId}/cancel`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      setBankInfo(null);
+      refresh();
+      toast({ title: "Thành công", description: "Đã hủy yêu cầu nâng cấp" });
+    },
+    onError: (error) => {
+      toast({ title: "Lỗi", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleClose = () => {
+    setBankInfo(null);
+    onClose();
+  };
+
+  const pendingUpgrade = quote?.pendingUpgrade;
+
+  return (
+    <Dialog open={!!card} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Nâng cấp thẻ {card?.cardType} {card?.cardNumber}</DialogTitle>
+          <DialogDescription>
+            Giá thẻ hiện tại được trừ theo thời hạn còn lại. Số buổi chưa dùng, lịch hẹn và thành viên chia sẻ được chuyển sang thẻ mới.
+          </DialogDescription>
+        </DialogHeader>
+
+        {bankInfo && <BankTransferAlert bankInfo={bankInfo} testId="alert-upgrade-payment" />}
+
+        {isLoading ? (
+          <div className="text-center py-4">Đang tính phí nâng cấp...</div>
+        ) : pendingUpgrade ? (
+          <div className="border rounded p-3 d-flex align-items-center justify-content-between" data-testid="row-pending-upgrade">
+            <div>
+              <div className="fw-medium">Đang chờ thanh toán: {pendingUpgrade.fromType} → {pendingUpgrade.toType}</div>
+              <small className="text-muted">
+                Cần thanh toán {parseFloat(pendingUpgrade.amountDue).toLocaleString('vi-VN')} VND (đã trừ {parseFloat(pendingUpgrade.credit).toLocaleString('vi-VN')} VND)
+              </small>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={cancelMutation.isPending}
+              onClick={() => confirm("Hủy yêu cầu nâng cấp này?") && cancelMutation.mutate(pendingUpgrade.id)}
+              data-testid="button-cancel-upgrade"
+            >
+              Hủy yêu cầu
+            </Button>
+          </div>
+        ) : !quote?.options.length ? (
+          <div className="text-center py-4 text-muted" data-testid="empty-upgrade-options">
+            Thẻ đã ở hạng cao nhất
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {quote.options.map(option => (
+              <div key={option.toType} className="border rounded p-3 d-flex align-items-center justify-content-between" data-testid={`row-upgrade-option-${option.toType}`}>
+                <div>
+                  <div className="fw-medium">
+                    {option.toType} - {(option.targetPrice / 1000000).toLocaleString('vi-VN')}M VND
+                  </div>
+                  <small className="text-muted d-block">
+                    Khấu trừ {option.credit.toLocaleString('vi-VN')} VND (còn {option.remainingValidityPercent}% thời hạn) · Cần thanh toán {option.amountDue.toLocaleString('vi-VN')} VND
+                  </small>
+                  <small className="text-muted d-block">
+                    {option.carriedSessions} buổi còn lại + {option.sessionTopUp} buổi · +{option.vcaDigitalShareTopUp.toLocaleString('vi-VN')} VCA · Maxout {(option.maxoutLimit / 1000000).toLocaleString('vi-VN')}M · {option.validityMonths} tháng
+                  </small>
+                </div>
+                <Button
+                  size="sm"
+                  disabled={upgradeMutation.isPending}
+                  onClick={() => upgradeMutation.mutate(option.toType)}
+                  data-testid={`button-upgrade-to-${option.toType}`}
+                >
+                  Nâng cấp
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface RefundQuote {
+  eligible: boolean;
+  unavailableReason: string | null;
+  paidAmount: number;
+  usedSessions: number;
+  usedSessionsValue: number;
+  payoutsReceived: number;
+  vcaDigitalShareReversed: number;
+  vcaShortfallValue: number;
+  refundableAmount: number;
+  pendingRefund: CardRefund | null;
+}
+
+// Cancel a paid card: the refund is the price less what the card has already given back
+const RefundDialog = ({ card, onClose }: { card: CardType | null; onClose: () => void }) => {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+
+  const { data: quote, isLoading } = useQuery<RefundQuote>({
+    queryKey: ["/api/cards", card?.id, "refund-quote"],
+    enabled: !!card,
+  });
+
+  const refundMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/cards/${card!.id}/refund-request`, { reason });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+      toast({ title: "Thành công", description: data.message });
+      handleClose();
+    },
+    onError: (error) => {
+      toast({ title: "Lỗi", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleClose = () => {
+    setReason("");
+    onClose();
+  };
+
+  const formatVnd = (value: number) => `${value.toLocaleString('vi-VN')} VND`;
+
+  return (
+    <Dialog open={!!card} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Hủy thẻ và hoàn tiền {card?.cardType} {card?.cardNumber}</DialogTitle>
+          <DialogDescription>
+            Số tiền hoàn được tính lại khi yêu cầu được duyệt. Sau khi hoàn tiền, thẻ bị hủy, lịch hẹn và chia sẻ thành viên kết thúc.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !quote ? (
+          <div className="text-center py-4">Đang tính số tiền hoàn...</div>
+        ) : quote.pendingRefund ? (
+          <Alert data-testid="alert-pending-refund">
+            <AlertDescription>
+              Yêu cầu hoàn tiền {formatVnd(parseFloat(quote.pendingRefund.refundableAmount))} đang chờ duyệt
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="space-y-3">
+            <div className="border rounded p-3 space-y-1" data-testid="refund-breakdown">
+              <div className="d-flex justify-content-between"><span>Giá thẻ</span><span>{formatVnd(quote.paidAmount)}</span></div>
+              <div className="d-flex justify-content-between text-muted"><span>Đã dùng {quote.usedSessions} buổi</span><span>-{formatVnd(quote.usedSessionsValue)}</span></div>
+              <div className="d-flex justify-content-between text-muted"><span>Lợi tức đã nhận</span><span>-{formatVnd(quote.payoutsReceived)}</span></div>
+              {quote.vcaShortfallValue > 0 && (
+                <div className="d-flex justify-content-between text-muted"><span>VCA đã sử dụng</span><span>-{formatVnd(quote.vcaShortfallValue)}</span></div>
+              )}
+              <div className="d-flex justify-content-between fw-medium border-top pt-1"><span>Số tiền hoàn</span><span>{formatVnd(quote.refundableAmount)}</span></div>
+              <small className="text-muted d-block">Thu hồi {quote.vcaDigitalShareReversed.toLocaleString('vi-VN')} VCA Digital Share</small>
+            </div>
+
+            {quote.eligible ? (
+              <>
+                <div>
+                  <Label htmlFor="refundReason">Lý do hủy thẻ</Label>
+                  <Input
+                    id="refundReason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    data-testid="input-refund-reason"
+                  />
+                </div>
+                <Button
+                  variant="destructive"
+                  className="w-full"
+                  disabled={!reason.trim() || refundMutation.isPending}
+                  onClick={() => refundMutation.mutate()}
+                  data-testid="button-submit-refund"
+                >
+                  Gửi yêu cầu hoàn tiền
+                </Button>
+              </>
+            ) : (
+              <Alert variant="destructive">
+                <AlertDescription>{quote.unavailableReason}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface RenewalOffer {
+  cardId: string;
+  cardNumber: string;
+  cardType: string;
+  status: string;
+  expiresAt: string;
+  daysUntilExpiry: number;
+  listPrice: number;
+  discountPercentage: number;
+  price: number;
+  sessionTopUp: number;
+  validityMonths: number;
+  newExpiresAt: string;
+  pendingRenewal: CardRenewal | null;
+}
+
+const statusChangeReasons: Record<string, string> = {
+  payment_confirmed: "Xác nhận thanh toán",
+  check_in: "Check-in",
+  booking: "Đặt lịch hẹn",
+  payout: "Chi trả lợi tức",
+  scheduled: "Kiểm tra định kỳ",
+  renewed: "Gia hạn thẻ",
+  upgraded: "Nâng cấp thẻ",
+  upgrade_cancelled: "Hủy nâng cấp",
+  account_closed: "Đóng tài khoản",
+  refunded: "Hoàn tiền thẻ",
+  order_cancelled: "Hủy đơn hàng",
+  manual: "Cập nhật thủ công",
+  card_updated: "Cập nhật thẻ",
+};
+
+// Renewal offers for the member's cards that expire soon (or expired recently)
+const RenewalOffers = () => {
+  const { toast } = useToast();
+  const [bankInfo, setBankInfo] = useState<BankTransferInfo | null>(null);
+
+  const { data: offers = [] } = useQuery<RenewalOffer[]>({
+    queryKey: ["/api/card-renewal-offers"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/card-renewal-offers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+  };
+
+  const renewMutation = useMutation({
+    mutationFn: async (cardId: string) => {
+      const res = await apiRequest("POST", `/api/cards/${cardId}/renew`, {});
+      return res.json();
+    },
+    onSuccess: (data) => {
+      refresh();
+      setBankInfo(toBankTransferInfo(data.paymentInstructions));
+      toast({ title: "Thành công", description: data.message });
+    },
+    onError: (error) => {
+      toast({ title: "Lỗi", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (renewalId: string) => {
+      const res = await apiRequest("POST", `/api/card-renewals/${renewalId}/cancel`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setBankInfo(null);
+      toast({ title: "Thành công", description: "Đã hủy yêu cầu gia hạn" });
+    },
+    onError: (error) => {
+      toast({ title: "Lỗi", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (offers.length === 0) return null;
+
+  return (
+    <div className="mb-4">
+      {bankInfo && <BankTransferAlert bankInfo={bankInfo} className="mb-2" testId="alert-renewal-payment" />}
+      {offers.map(offer => (
+        <Alert key={offer.cardId} className="mb-2 alert-info" data-testid={`renewal-offer-${offer.cardId}`}>
+          <RefreshCw className="h-4 w-4" />
+          <AlertDescription>
+            <div className="d-flex align-items-center justify-content-between gap-2">
+              <div>
+                <strong>Thẻ {offer.cardType} {offer.cardNumber}</strong>{" "}
+                {offer.daysUntilExpiry > 0
+                  ? `hết hạn sau ${offer.daysUntilExpiry} ngày (${new Date(offer.expiresAt).toLocaleDateString('vi-VN')}).`
+                  : `đã hết hạn ngày ${new Date(offer.expiresAt).toLocaleDateString('vi-VN')}.`}
+                <div className="small text-muted">
+                  Gia hạn {offer.validityMonths} tháng đến {new Date(offer.newExpiresAt).toLocaleDateString('vi-VN')}, thêm {offer.sessionTopUp} lượt ·{" "}
+                  {offer.price.toLocaleString('vi-VN')} VND
+                  {offer.discountPercentage > 0 && ` (giảm ${offer.discountPercentage}%)`}
+                </div>
+              </div>
+              {offer.pendingRenewal ? (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={cancelMutation.isPending}
+                  onClick={() => confirm("Hủy yêu cầu gia hạn này?") && cancelMutation.mutate(offer.pendingRenewal!.id)}
+                  data-testid={`button-cancel-renewal-${offer.cardId}`}
+                >
+                  Chờ thanh toán · Hủy
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  disabled={renewMutation.isPending}
+                  onClick={() => renewMutation.mutate(offer.cardId)}
+                  data-testid={`button-renew-${offer.cardId}`}
+                >
+                  Gia hạn
+                </Button>
+              )}
+            </div>
+          </AlertDescription>
+        </Alert>
+      ))}
+    </div>
+  );
+};
+
+// Persisted status changes of a card, newest first
+const StatusHistoryDialog = ({ card, onClose }: { card: CardType | null; onClose: () => void }) => {
+  const { data: history = [], isLoading } = useQuery<CardStatusHistory[]>({
+    queryKey: ["/api/cards", card?.id, "status-history"],
+    enabled: !!card,
+  });
+
+  return (
+    <Dialog open={!!card} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Lịch sử trạng thái thẻ {card?.cardNumber}</DialogTitle>
+          <DialogDescription>
+            {card?.expiresAt
+              ? `Thời hạn đến ${new Date(card.expiresAt).toLocaleDateString('vi-VN')}`
+              : "Thẻ chưa được kích hoạt"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-4">Đang tải...</div>
+        ) : history.length === 0 ? (
+          <div className="text-center py-4 text-muted">Chưa có thay đổi trạng thái</div>
+        ) : (
+          <div className="space-y-2">
+            {history.map(entry => (
+              <div key={entry.id} className="border rounded p-2" data-testid={`row-status-history-${entry.id}`}>
+                <div className="fw-medium">
+                  {cardStatusLabels[entry.fromStatus] || entry.fromStatus} → {cardStatusLabels[entry.toStatus] || entry.toStatus}
+                </div>
+                <small className="text-muted">
+                  {entry.createdAt ? new Date(entry.createdAt).toLocaleString('vi-VN') : "-"} · {statusChangeReasons[entry.reason] || entry.reason}
+                  {!entry.changedBy && " · Tự động"}
+                </small>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface SessionLedgerEntry {
+  id: string;
+  type: "check_in" | "adjustment";
+  date: string | null;
+  delta: number;
+  balanceAfter: number;
+  kind: string;
+  branchName: string | null;
+  sessionType: string | null;
+  practitionerName: string | null;
+  memberName: string | null;
+  notes: string | null;
+  createdByName: string | null;
+}
+
+interface SessionLedger {
+  openingBalance: number;
+  remainingSessions: number;
+  entries: SessionLedgerEntry[];
+}
+
+const sessionLedgerKinds: Record<string, string> = {
+  check_in: "Check-in",
+  bonus: "Tặng thêm lượt",
+  correction: "Điều chỉnh",
+  renewal: "Gia hạn thẻ",
+  upgrade: "Nâng hạng thẻ",
+  forfeit: "Mất lượt",
+  refund: "Hoàn tiền thẻ",
+  manual: "Cập nhật thủ công",
+};
+
+// Every session the card gained or used, newest first. Staff viewing another member's card can
+// add bonus sessions or correct the balance.
+const SessionLedgerDialog = ({ card, canAdjust, onClose }: { card: CardType | null; canAdjust: boolean; onClose: () => void }) => {
+  const { toast } = useToast();
+  const [adjustment, setAdjustment] = useState({ kind: "bonus", delta: "1", reason: "" });
+  const [downloading, setDownloading] = useState(false);
+
+  const { data: ledger, isLoading } = useQuery<SessionLedger>({
+    queryKey: ["/api/cards", card?.id, "session-ledger"],
+    enabled: !!card,
+  });
+
+  const adjustMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/cards/${card!.id}/session-adjustments`, adjustment);
+      return res.json();
+    },
+    onSuccess: () => {
+      setAdjustment({ kind: "bonus", delta: "1", reason: "" });
+      queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+      toast({ title: "Thành công", description: "Đã điều chỉnh số lượt" });
+    },
+    onError: (error) => {
+      toast({ title: "Lỗi", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const downloadCsv = async () => {
+    setDownloading(true);
+    try {
+      const response = await apiRequest("GET", `/api/cards/${card!.id}/session-ledger.csv`);
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = window.document.createElement("a");
+      link.href = url;
+      link.download = `lich-su-luot-${card!.cardNumber}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({ title: "Lỗi", description: error.message, variant: "destructive" });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const entries = [...(ledger?.entries || [])].reverse();
+
+  return (
+    <Dialog open={!!card} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Lịch sử sử dụng lượt thẻ {card?.cardNumber}</DialogTitle>
+          <DialogDescription>
+            {ledger ? `Số dư đầu kỳ ${ledger.openingBalance} lượt · Còn lại ${ledger.remainingSessions} lượt` : "Check-in và các lần điều chỉnh số lượt"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="d-flex justify-content-end">
+          <Button variant="outline" size="sm" disabled={downloading || !ledger} onClick={downloadCsv} data-testid="button-download-session-ledger">
+            <Download className="h-4 w-4 me-1" />
+            Xuất CSV
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-4">Đang tải...</div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-4 text-muted">Chưa có lượt nào được sử dụng</div>
+        ) : (
+          <div className="table-responsive" style={{ maxHeight: 360 }}>
+            <table className="table table-sm">
+              <thead>
+                <tr>
+                  <th>Thời gian</th>
+                  <th>Nội dung</th>
+                  <th className="text-end">Thay đổi</th>
+                  <th className="text-end">Số dư</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr key={entry.id} data-testid={`row-session-ledger-${entry.id}`}>
+                    <td className="text-nowrap">{entry.date ? new Date(entry.date).toLocaleString('vi-VN') : "-"}</td>
+                    <td>
+                      <div className="fw-medium">
+                        {sessionLedgerKinds[entry.kind] || entry.kind}
+                        {entry.sessionType && ` · ${entry.sessionType}`}
+                      </div>
+                      <small className="text-muted">
+                        {[entry.branchName, entry.practitionerName && `Chuyên viên ${entry.practitionerName}`, entry.memberName && `Thành viên ${entry.memberName}`, entry.createdByName, entry.notes]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </small>
+                    </td>
+                    <td className={`text-end ${entry.delta > 0 ? "text-success" : "text-danger"}`}>
+                      {entry.delta > 0 ? `+${entry.delta}` : entry.delta}
+                    </td>
+                    <td className="text-end">{entry.balanceAfter}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {canAdjust && (
+          <div className="border-top pt-3">
+            <div className="row g-2 align-items-end">
+              <div className="col-md-3">
+                <Label>Loại điều chỉnh</Label>
+                <Select value={adjustment.kind} onValueChange={(kind) => setAdjustment({ ...adjustment, kind })}>
+                  <SelectTrigger data-testid="select-adjustment-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="bonus">Tặng thêm lượt</SelectItem>
+                    <SelectItem value="correction">Điều chỉnh</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-md-2">
+                <Label htmlFor="adjustmentDelta">Số lượt</Label>
+                <Input
+                  id="adjustmentDelta"
+                  type="number"
+                  value={adjustment.delta}
+                  onChange={(e) => setAdjustment({ ...adjustment, delta: e.target.value })}
+                  data-testid="input-adjustment-delta"
+                />
+              </div>
+              <div className="col-md-5">
+                <Label htmlFor="adjustmentReason">Lý do</Label>
+                <Input
+                  id="adjustmentReason"
+                  value={adjustment.reason}
+                  onChange={(e) => setAdjustment({ ...adjustment, reason: e.target.value })}
+                  data-testid="input-adjustment-reason"
+                />
+              </div>
+              <div className="col-md-2">
+                <Button
+                  className="w-100"
+                  disabled={!adjustment.reason.trim() || adjustMutation.isPending}
+                  onClick={() => adjustMutation.mutate()}
+                  data-testid="button-submit-adjustment"
+                >
+                  Lưu
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Cards family members shared with the current user, plus accepting a new invite code
+const SharedWithMe = ({ onCheckin }: { onCheckin: (cardId: string) => void }) => {
+  const { toast } = useToast();
+  const [inviteCode, setInviteCode] = useState("");
+
+  const { data: sharedCards = [] } = useQuery<SharedCard[]>({
+    queryKey: ["/api/shared-cards"],
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/card-invitations/accept", { code: inviteCode });
+      return res.json();
+    },
+    onSuccess: () => {
+      setInviteCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/shared-cards"] });
+      toast({ title: "Thành công", description: "Bạn đã được thêm vào thẻ" });
+    },
+    onError: (error) => {
+      toast({ title: "Lỗi", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="mb-4">
+      <CardHeader>
+        <h5 className="mb-0">
+          <Users className="h-5 w-5 me-2 d-inline" />
+          Thẻ được chia sẻ với tôi
+        </h5>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={(e) => { e.preventDefault(); if (inviteCode.trim()) acceptMutation.mutate(); }}
+          className="d-flex gap-2 mb-3"
+        >
+          <Input
+            value={inviteCode}
+            onChange={(e) => setInviteCode(e.target.value)}
+            placeholder="Nhập mã mời"
+            data-testid="input-invite-code"
+          />
+          <Button type="submit" disabled={acceptMutation.isPending} data-testid="button-accept-invite">
+            Nhận thẻ
+          </Button>
+        </form>
+
+        {sharedCards.length === 0 ? (
+          <div className="text-muted" data-testid="empty-shared-cards">Chưa có thẻ nào được chia sẻ với bạn</div>
+        ) : (
+          <div className="row">
+            {sharedCards.map(shared => (
+              <div key={shared.id} className="col-12 col-md-6 mb-2">
+                <div className="d-flex align-items-center justify-content-between border rounded p-2" data-testid={`row-shared-card-${shared.id}`}>
+                  <div>
+                    <div className="fw-medium">{shared.card.cardType} - {shared.card.cardNumber}</div>
+                    <small className="text-muted">
+                      Chủ thẻ {shared.card.customerName} · còn {shared.allocatedSessions - shared.usedSessions}/{shared.allocatedSessions} lượt
+                    </small>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onCheckin(shared.card.id)}
+                    disabled={!USABLE_CARD_STATUSES.includes(shared.card.status) || shared.allocatedSessions - shared.usedSessions <= 0}
+                    data-testid={`button-shared-checkin-${shared.id}`}
+                  >
+                    <QrCode className="h-4 w-4 me-1" />
+                    Check-in
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
 export default function CardsTab() {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [editingCard, setEditingCard] = useState<CardType | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCardForBenefits, setSelectedCardForBenefits] = useState<string | null>(null);
+  const [checkinCardId, setCheckinCardId] = useState<string | null>(null);
+  const [sharingCardId, setSharingCardId] = useState<string | null>(null);
+  const [upgradingCardId, setUpgradingCardId] = useState<string | null>(null);
+  const [historyCardId, setHistoryCardId] = useState<string | null>(null);
+  const [refundingCardId, setRefundingCardId] = useState<string | null>(null);
+  const [ledgerCardId, setLedgerCardId] = useState<string | null>(null);
   
   const [formData, setFormData] = useState<InsertCard>({
     cardNumber: "",
@@ -55,6 +1061,17 @@ export default function CardsTab() {
     queryKey: ["/api/cards"],
   });
 
+  // Name, phone and card number search runs on the server, where owners' phone numbers are
+  const trimmedSearch = searchTerm.trim();
+  const { data: searchResults } = useQuery<CardType[]>({
+    queryKey: ["/api/cards", "search", trimmedSearch],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/cards/search?q=${encodeURIComponent(trimmedSearch)}`);
+      return res.json();
+    },
+    enabled: trimmedSearch.length >= 2,
+  });
+
   const { data: cardTypes = [] } = useQuery<CardTypePricing[]>({
     queryKey: ["/api/cards/types"],
   });
@@ -72,9 +1089,8 @@ export default function CardsTab() {
       const enrichedData = {
         ...cardData,
         remainingSessions: selectedType?.maxSessions || 0,
-        maxoutLimit: (parseFloat(cardData.price) * 2.1).toString(),
+        maxoutLimit: (parseFloat(cardData.price) * (selectedType?.maxoutMultiplier ?? 2.1)).toString(),
         currentShares: "0",
-        shareHistory: "",
         connectionCommission: "8.0",
         vipSupport: "5.0"
       };
@@ -114,23 +1130,40 @@ export default function CardsTab() {
     },
   });
 
-  const checkInMutation = useMutation({
-    mutationFn: async ({ cardId, sessionType }: { cardId: string; sessionType: string }) => {
-      const res = await apiRequest("POST", `/api/cards/${cardId}/checkin`, { 
-        sessionType,
-        notes: "QR Code check-in"
-      });
+  const cancelOrderMutation = useMutation({
+    mutationFn: async (cardId: string) => {
+      const res = await apiRequest("POST", `/api/cards/${cardId}/cancel-order`, {});
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
-      toast({
-        title: "Check-in thành công",
-        description: "Đã ghi nhận phiên trị liệu",
-      });
+      toast({ title: "Thành công", description: data.message });
+    },
+    onError: (error) => {
+      toast({ title: "Lỗi", description: error.message, variant: "destructive" });
     },
   });
 
+  const [downloadingPdf, setDownloadingPdf] = useState<string | null>(null);
+
+  const downloadCardPdf = async (card: CardType, document: "membership-card" | "benefit-certificate") => {
+    setDownloadingPdf(`${card.id}-${document}`);
+    try {
+      const response = await apiRequest("GET", `/api/cards/${card.id}/${document}.pdf`);
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = window.document.createElement("a");
+      link.href = url;
+      link.download = `${document === "membership-card" ? "the-thanh-vien" : "chung-nhan-quyen-loi"}-${card.cardNumber}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({ title: "Lỗi", description: error.message, variant: "destructive" });
+    } finally {
+      setDownloadingPdf(null);
+    }
+  };
+
   // Helper functions
   const resetForm = () => {
     setFormData({
@@ -176,40 +1209,33 @@ export default function CardsTab() {
     }));
   };
 
-  const simulateQRScan = (cardId: string) => {
-    checkInMutation.mutate({ cardId, sessionType: "therapy" });
-  };
-
+  // Status is kept up to date by the server's card lifecycle engine
   const getCardStatusBadge = (card: CardType) => {
-    const price = parseFloat(card.price);
-    const currentShares = parseFloat(card.currentShares || "0");
-    const maxoutLimit = price * 2.1;
-    const shareValue = currentShares * 1000000;
-    const percentage = (shareValue / maxoutLimit) * 100;
-
-    if (percentage >= 100) {
-      return <Badge variant="destructive">Stopped</Badge>;
-    } else if (percentage >= 90) {
-      return <Badge variant="secondary">Near Maxout</Badge>;
-    } else if (currentShares > 0) {
-      return <Badge variant="default">Shared</Badge>;
+    switch (card.status) {
+      case "stopped":
+      case "expired":
+      case "cancelled":
+        return <Badge variant="destructive">{cardStatusLabels[card.status]}</Badge>;
+      case "near_maxout":
+      case "pending":
+      case "upgraded":
+        return <Badge variant="secondary">{cardStatusLabels[card.status]}</Badge>;
+      case "active":
+        return parseFloat(card.currentShares || "0") > 0
+          ? <Badge variant="default">Shared</Badge>
+          : <Badge variant="outline">Active</Badge>;
+      default:
+        return <Badge variant="outline">{cardStatusLabels[card.status] || card.status}</Badge>;
     }
-    return <Badge variant="outline">Active</Badge>;
   };
 
-  const filteredCards = cards.filter(card =>
+  const filteredCards = trimmedSearch.length >= 2 && searchResults ? searchResults : cards.filter(card =>
     card.customerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    card.cardNumber.includes(searchTerm) ||
+    card.cardNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
     card.cardType.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  const nearMaxoutCards = cards.filter(card => {
-    const price = parseFloat(card.price);
-    const currentShares = parseFloat(card.currentShares || "0");
-    const shareValue = currentShares * 1000000;
-    const maxoutLimit = price * 2.1;
-    return (shareValue / maxoutLimit) >= 0.9;
-  });
+  const nearMaxoutCards = cards.filter(card => card.status === "near_maxout");
 
   if (isLoading) {
     return <div className="text-center py-4">Đang tải...</div>;
@@ -217,6 +1243,8 @@ export default function CardsTab() {
 
   return (
     <div>
+      <RenewalOffers />
+
       {/* Alerts for Near Maxout Cards */}
       {nearMaxoutCards.length > 0 && (
         <div className="mb-4">
@@ -287,13 +1315,12 @@ export default function CardsTab() {
                 </div>
 
                 <div className="mb-3">
-                  <Label htmlFor="cardNumber">Số thẻ *</Label>
+                  <Label htmlFor="cardNumber">Số thẻ</Label>
                   <Input
                     id="cardNumber"
                     value={formData.cardNumber}
-                    onChange={(e) => setFormData(prev => ({ ...prev, cardNumber: e.target.value }))}
-                    placeholder="1234-5678-9012-3456"
-                    required
+                    placeholder="Tự động cấp khi tạo thẻ"
+                    disabled
                     className="form-control-lg"
                     data-testid="input-card-number"
                   />
@@ -347,7 +1374,7 @@ export default function CardsTab() {
                   <div className="input-group" style={{ maxWidth: "300px" }}>
                     <Input
                       type="text"
-                      placeholder="Tìm kiếm thẻ..."
+                      placeholder="Tên, số điện thoại hoặc số thẻ..."
                       value={searchTerm}
                       onChange={(e) => setSearchTerm(e.target.value)}
                       className="form-control-lg"
@@ -372,7 +1399,7 @@ export default function CardsTab() {
                               {card.customerName}
                             </h6>
                             <small className="text-muted">
-                              ****-****-****-{card.cardNumber.slice(-4)}
+                              {card.cardNumber}
                             </small>
                           </div>
                           {getCardStatusBadge(card)}
@@ -385,6 +1412,11 @@ export default function CardsTab() {
                           <small className="text-muted">
                             {(parseFloat(card.price) / 1000000).toLocaleString('vi-VN')}M VND
                           </small>
+                          {card.expiresAt && (
+                            <small className="d-block text-muted" data-testid={`card-expires-${card.id}`}>
+                              Hết hạn: {new Date(card.expiresAt).toLocaleDateString('vi-VN')}
+                            </small>
+                          )}
                         </div>
 
                         <div className="mb-3">
@@ -407,17 +1439,19 @@ export default function CardsTab() {
                         </div>
 
                         <div className="d-flex gap-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            className="flex-1 btn-lg"
-                            onClick={() => simulateQRScan(card.id)}
-                            disabled={!card.remainingSessions || card.remainingSessions <= 0}
-                            data-testid={`button-checkin-${card.id}`}
-                          >
-                            <QrCode className="h-4 w-4 me-1" />
-                            Check-in
-                          </Button>
+                          {card.ownerId === user?.id && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="flex-1 btn-lg"
+                              onClick={() => setCheckinCardId(card.id)}
+                              disabled={!USABLE_CARD_STATUSES.includes(card.status) || !card.remainingSessions || card.remainingSessions <= 0}
+                              data-testid={`button-checkin-${card.id}`}
+                            >
+                              <QrCode className="h-4 w-4 me-1" />
+                              Check-in
+                            </Button>
+                          )}
                           
                           <Button
                             variant="outline"
@@ -436,6 +1470,99 @@ export default function CardsTab() {
                           >
                             <Users className="h-4 w-4" />
                           </Button>
+
+                          {card.ownerId === user?.id && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setSharingCardId(card.id)}
+                              data-testid={`button-share-${card.id}`}
+                            >
+                              <Share2 className="h-4 w-4" />
+                            </Button>
+                          )}
+
+                          {card.ownerId === user?.id && USABLE_CARD_STATUSES.includes(card.status) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setUpgradingCardId(card.id)}
+                              data-testid={`button-upgrade-${card.id}`}
+                            >
+                              <ArrowUpCircle className="h-4 w-4" />
+                            </Button>
+                          )}
+
+                          {card.ownerId === user?.id && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setHistoryCardId(card.id)}
+                              data-testid={`button-status-history-${card.id}`}
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
+                          )}
+
+                          {card.status !== "pending" && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setLedgerCardId(card.id)}
+                              title="Lịch sử sử dụng lượt"
+                              data-testid={`button-session-ledger-${card.id}`}
+                            >
+                              <ClipboardList className="h-4 w-4" />
+                            </Button>
+                          )}
+
+                          {card.ownerId === user?.id && card.status !== "pending" && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={downloadingPdf === `${card.id}-membership-card`}
+                                onClick={() => downloadCardPdf(card, "membership-card")}
+                                title="Tải thẻ thành viên (PDF)"
+                                data-testid={`button-download-card-pdf-${card.id}`}
+                              >
+                                <FileText className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={downloadingPdf === `${card.id}-benefit-certificate`}
+                                onClick={() => downloadCardPdf(card, "benefit-certificate")}
+                                title="Tải giấy chứng nhận quyền lợi (PDF)"
+                                data-testid={`button-download-certificate-pdf-${card.id}`}
+                              >
+                                <Award className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+
+                          {card.ownerId === user?.id && (card.status === "expired" || USABLE_CARD_STATUSES.includes(card.status)) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setRefundingCardId(card.id)}
+                              data-testid={`button-refund-${card.id}`}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+
+                          {card.ownerId === user?.id && card.status === "pending" && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={cancelOrderMutation.isPending}
+                              onClick={() => confirm(`Hủy đơn hàng thẻ ${card.cardType}?`) && cancelOrderMutation.mutate(card.id)}
+                              data-testid={`button-cancel-order-${card.id}`}
+                            >
+                              Hủy đơn
+                            </Button>
+                          )}
                         </div>
                       </CardContent>
                     </Card>
@@ -455,6 +1582,8 @@ export default function CardsTab() {
         </div>
       </div>
 
+      <SharedWithMe onCheckin={setCheckinCardId} />
+
       {/* Benefits Analysis Modal */}
       {selectedCardForBenefits && cardBenefits && (
         <div className="row mt-4">
@@ -546,6 +1675,17 @@ export default function CardsTab() {
           </div>
         </div>
       )}
+
+      <CheckinQrDialog cardId={checkinCardId} onClose={() => setCheckinCardId(null)} />
+      <CardSharingDialog card={cards.find(card => card.id === sharingCardId) || null} onClose={() => setSharingCardId(null)} />
+      <UpgradeDialog card={cards.find(card => card.id === upgradingCardId) || null} onClose={() => setUpgradingCardId(null)} />
+      <StatusHistoryDialog card={cards.find(card => card.id === historyCardId) || null} onClose={() => setHistoryCardId(null)} />
+      <RefundDialog card={cards.find(card => card.id === refundingCardId) || null} onClose={() => setRefundingCardId(null)} />
+      <SessionLedgerDialog
+        card={cards.find(card => card.id === ledgerCardId) || null}
+        canAdjust={!!ledgerCardId && cards.find(card => card.id === ledgerCardId)?.ownerId !== user?.id}
+        onClose={() => setLedgerCardId(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
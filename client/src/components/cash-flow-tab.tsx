@@ -23,7 +23,8 @@ import {
   Clock,
   DollarSign,
   TrendingUp,
-  Download
+  Download,
+  ShieldCheck
 } from "lucide-react";
 import jsPDF from "jspdf";
 
@@ -69,6 +70,19 @@ interface AssetContribution {
   createdAt: string;
 }
 
+interface KycRecord {
+  id?: string;
+  idType?: string;
+  idNumber?: string;
+  fullName?: string;
+  birthDate?: string;
+  address?: string;
+  status: "not_submitted" | "draft" | "pending" | "approved" | "rejected";
+  reviewNote?: string;
+  submittedAt?: string;
+  reviewedAt?: string;
+}
+
 interface PadTokenHistory {
   date: string;
   amount: string;
@@ -82,6 +96,12 @@ interface RoiProjection {
   totalValue: number;
 }
 
+interface DepositPaymentInstructions {
+  message: string;
+  bankInfo: { bankName: string; accountNumber: string; accountName: string; amount: number; content: string };
+  qrCode: string;
+}
+
 // Utility functions
 const formatCurrency = (amount: string | number) => {
   const numAmount = typeof amount === "string" ? parseFloat(amount) : amount;
@@ -110,6 +130,7 @@ const DepositInvestment = () => {
     packageId: "",
   });
   const [documentFile, setDocumentFile] = useState<File | null>(null);
+  const [paymentInstructions, setPaymentInstructions] = useState<DepositPaymentInstructions | null>(null);
   const { toast } = useToast();
 
   const { data: investmentPackages = [] } = useQuery<InvestmentPackage[]>({ 
@@ -121,8 +142,9 @@ const DepositInvestment = () => {
       const response = await apiRequest('POST', '/api/cash-flow/deposit', formData);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       toast({ description: "Đã gửi yêu cầu nạp tiền thành công!" });
+      setPaymentInstructions(data.paymentInstructions || null);
       setDepositForm({ type: "deposit", amount: "", description: "", packageId: "" });
       setDocumentFile(null);
       queryClient.invalidateQueries({ queryKey: ['/api/cash-flow/transactions'] });
@@ -256,6 +278,25 @@ const DepositInvestment = () => {
             {depositMutation.isPending ? "Đang xử lý..." : "Gửi yêu cầu"}
           </Button>
         </form>
+
+        {paymentInstructions && (
+          <Alert className="mt-6" data-testid="alert-deposit-payment">
+            <AlertDescription>
+              <div className="flex flex-col md:flex-row gap-4 items-start">
+                <img src={paymentInstructions.qrCode} alt="VietQR" className="w-40 h-40" />
+                <div className="space-y-1 text-sm">
+                  <p className="font-medium">{paymentInstructions.message}</p>
+                  <p>Ngân hàng: {paymentInstructions.bankInfo.bankName}</p>
+                  <p>Số tài khoản: {paymentInstructions.bankInfo.accountNumber}</p>
+                  <p>Chủ tài khoản: {paymentInstructions.bankInfo.accountName}</p>
+                  <p>Số tiền: {formatCurrency(paymentInstructions.bankInfo.amount)}</p>
+                  <p>Nội dung: <span className="font-mono font-semibold">{paymentInstructions.bankInfo.content}</span></p>
+                  <p className="text-gray-500">Yêu cầu được duyệt tự động khi ngân hàng báo nhận được chuyển khoản.</p>
+                </div>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
       </CardContent>
     </Card>
   );
@@ -481,6 +522,7 @@ const TransactionHistory = () => {
                       {transaction.type === "deposit" ? "Nạp tiền" : 
                        transaction.type === "invest" ? "Đầu tư" :
                        transaction.type === "withdraw" ? "Rút tiền" : 
+                       transaction.type === "refund" ? "Hoàn tiền thẻ" :
                        transaction.type}
                     </Badge>
                   </TableCell>
@@ -884,6 +926,236 @@ const PadToken = () => {
   );
 };
 
+// Read a selected file as a base64 data URL for JSON upload
+const readFileAsDataUrl = (file: File) => {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+const kycStatusLabels: Record<KycRecord["status"], string> = {
+  not_submitted: "Chưa gửi",
+  draft: "Chưa hoàn tất",
+  pending: "Đang chờ duyệt",
+  approved: "Đã xác minh",
+  rejected: "Bị từ chối",
+};
+
+// KYC Identity Verification Component
+const KycVerification = () => {
+  const [kycForm, setKycForm] = useState({
+    idType: "cccd",
+    idNumber: "",
+    fullName: "",
+    birthDate: "",
+    address: "",
+  });
+  const [documents, setDocuments] = useState<{ front: File | null; back: File | null; selfie: File | null }>({
+    front: null,
+    back: null,
+    selfie: null,
+  });
+  const { toast } = useToast();
+
+  const { data: kyc } = useQuery<KycRecord>({
+    queryKey: ['/api/kyc']
+  });
+
+  // Prefill from the draft saved at registration
+  const [prefilled, setPrefilled] = useState(false);
+  if (kyc && kyc.status !== "not_submitted" && !prefilled) {
+    setPrefilled(true);
+    setKycForm({
+      idType: kyc.idType || "cccd",
+      idNumber: kyc.idNumber || "",
+      fullName: kyc.fullName || "",
+      birthDate: kyc.birthDate || "",
+      address: kyc.address || "",
+    });
+  }
+
+  const kycMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        ...kycForm,
+        documentFront: await readFileAsDataUrl(documents.front!),
+        documentBack: documents.back ? await readFileAsDataUrl(documents.back) : undefined,
+        selfie: documents.selfie ? await readFileAsDataUrl(documents.selfie) : undefined,
+      };
+      const response = await apiRequest('POST', '/api/kyc', payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ description: "Đã gửi hồ sơ định danh, vui lòng chờ xét duyệt" });
+      setDocuments({ front: null, back: null, selfie: null });
+      queryClient.invalidateQueries({ queryKey: ['/api/kyc'] });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể gửi hồ sơ") });
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!kycForm.idNumber || !kycForm.fullName || !kycForm.birthDate || !documents.front) {
+      toast({ variant: "destructive", description: "Vui lòng điền đầy đủ thông tin và tải lên mặt trước giấy tờ" });
+      return;
+    }
+
+    kycMutation.mutate();
+  };
+
+  const status = kyc?.status || "not_submitted";
+  const canSubmit = status !== "pending" && status !== "approved";
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-green-600" />
+            Định danh tài khoản (KYC)
+            <Badge variant={getStatusBadgeVariant(status)} data-testid="badge-kyc-status">
+              {kycStatusLabels[status]}
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {status === "approved" && (
+            <Alert className="mb-4">
+              <Check className="h-4 w-4" />
+              <AlertDescription>
+                Tài khoản đã được xác minh danh tính. Bạn có thể nạp/rút tiền không giới hạn theo hạn mức KYC.
+              </AlertDescription>
+            </Alert>
+          )}
+          {status === "pending" && (
+            <Alert className="mb-4">
+              <Clock className="h-4 w-4" />
+              <AlertDescription>
+                Hồ sơ đã gửi ngày {kyc?.submittedAt ? formatDate(kyc.submittedAt) : ""} và đang chờ kế toán xét duyệt.
+              </AlertDescription>
+            </Alert>
+          )}
+          {status === "rejected" && (
+            <Alert variant="destructive" className="mb-4">
+              <X className="h-4 w-4" />
+              <AlertDescription>
+                Hồ sơ bị từ chối: {kyc?.reviewNote || "Không có ghi chú"}. Vui lòng cập nhật và gửi lại.
+              </AlertDescription>
+            </Alert>
+          )}
+          {status !== "approved" && (
+            <p className="text-sm text-gray-600 mb-4">
+              Nạp hoặc rút tiền vượt hạn mức và nâng cấp lên cổ đông Sáng lập/Thiên thần yêu cầu tài khoản đã định danh.
+            </p>
+          )}
+
+          {canSubmit && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label>Loại giấy tờ *</Label>
+                  <Select value={kycForm.idType} onValueChange={(value) => setKycForm(prev => ({ ...prev, idType: value }))}>
+                    <SelectTrigger data-testid="select-kyc-id-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="cccd">Căn cước công dân</SelectItem>
+                      <SelectItem value="cmnd">Chứng minh nhân dân</SelectItem>
+                      <SelectItem value="passport">Hộ chiếu</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="kycIdNumber">Số giấy tờ *</Label>
+                  <Input
+                    id="kycIdNumber"
+                    value={kycForm.idNumber}
+                    onChange={(e) => setKycForm(prev => ({ ...prev, idNumber: e.target.value }))}
+                    data-testid="input-kyc-id-number"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="kycFullName">Họ tên trên giấy tờ *</Label>
+                  <Input
+                    id="kycFullName"
+                    value={kycForm.fullName}
+                    onChange={(e) => setKycForm(prev => ({ ...prev, fullName: e.target.value }))}
+                    data-testid="input-kyc-full-name"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="kycBirthDate">Ngày sinh *</Label>
+                  <Input
+                    id="kycBirthDate"
+                    type="date"
+                    value={kycForm.birthDate}
+                    onChange={(e) => setKycForm(prev => ({ ...prev, birthDate: e.target.value }))}
+                    data-testid="input-kyc-birth-date"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="kycAddress">Địa chỉ thường trú</Label>
+                <Input
+                  id="kycAddress"
+                  value={kycForm.address}
+                  onChange={(e) => setKycForm(prev => ({ ...prev, address: e.target.value }))}
+                  data-testid="input-kyc-address"
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="kycFront">Mặt trước giấy tờ *</Label>
+                  <Input
+                    id="kycFront"
+                    type="file"
+                    accept=".jpg,.jpeg,.png,.pdf"
+                    onChange={(e) => setDocuments(prev => ({ ...prev, front: e.target.files?.[0] || null }))}
+                    data-testid="input-kyc-front"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="kycBack">Mặt sau giấy tờ</Label>
+                  <Input
+                    id="kycBack"
+                    type="file"
+                    accept=".jpg,.jpeg,.png,.pdf"
+                    onChange={(e) => setDocuments(prev => ({ ...prev, back: e.target.files?.[0] || null }))}
+                    data-testid="input-kyc-back"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="kycSelfie">Ảnh chân dung</Label>
+                  <Input
+                    id="kycSelfie"
+                    type="file"
+                    accept=".jpg,.jpeg,.png"
+                    onChange={(e) => setDocuments(prev => ({ ...prev, selfie: e.target.files?.[0] || null }))}
+                    data-testid="input-kyc-selfie"
+                  />
+                </div>
+              </div>
+              <p className="text-sm text-gray-500">Định dạng JPG, PNG hoặc PDF, tối đa 5MB mỗi tệp</p>
+
+              <Button type="submit" disabled={kycMutation.isPending} data-testid="button-submit-kyc">
+                {kycMutation.isPending ? "Đang gửi..." : "Gửi hồ sơ định danh"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
 // Main Cash Flow Tab Component
 export default function CashFlowTab() {
   return (
@@ -900,7 +1172,7 @@ export default function CashFlowTab() {
       <CashFlowDashboard />
 
       <Tabs defaultValue="deposit" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="deposit" data-testid="tab-deposit">
             <ArrowUpCircle className="h-4 w-4 mr-2" />
             Nạp tiền/Đầu tư
@@ -921,6 +1193,10 @@ export default function CashFlowTab() {
             <FileText className="h-4 w-4 mr-2" />
             Lịch sử
           </TabsTrigger>
+          <TabsTrigger value="kyc" data-testid="tab-kyc">
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            Định danh
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="deposit">
@@ -942,6 +1218,10 @@ export default function CashFlowTab() {
         <TabsContent value="history">
           <TransactionHistory />
         </TabsContent>
+
+        <TabsContent value="kyc">
+          <KycVerification />
+        </TabsContent>
       </Tabs>
     </div>
   );
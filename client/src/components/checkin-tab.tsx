@@ -0,0 +1,323 @@
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Camera, CameraOff, CheckCircle, Keyboard, QrCode } from "lucide-react";
+import type { Appointment, Branch, Card as CardType, CheckIn, Staff } from "@shared/schema";
+
+interface ScanResult {
+  checkIn: CheckIn;
+  card: CardType;
+  appointment: Appointment | null;
+  member: { id: string; name: string; remainingSessions: number } | null;
+}
+
+const sessionTypes = [
+  { value: "therapy", label: "Trị liệu" },
+  { value: "consultation", label: "Tư vấn" },
+];
+
+// QR printed on the membership card PDF: it only identifies the card, the member still reads out their 6-digit code
+const MEMBERSHIP_CARD_QR_PREFIX = "VCA-CARD:";
+
+// Camera scanning relies on the browser's BarcodeDetector (Chrome/Edge, Android);
+// other browsers fall back to pasting the payload or typing the 6-digit code.
+const barcodeDetectorSupported = typeof window !== "undefined" && "BarcodeDetector" in window;
+
+// Camera scanner Component
+const CameraScanner = ({ onDetected }: { onDetected: (payload: string) => void }) => {
+  const { toast } = useToast();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isScanning, setIsScanning] = useState(false);
+
+  useEffect(() => {
+    if (!isScanning) return;
+
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+    const detector = new (window as any).BarcodeDetector({ formats: ["qr_code"] });
+
+    const scanFrame = async () => {
+      if (stopped || !videoRef.current) return;
+      try {
+        const codes = await detector.detect(videoRef.current);
+        if (codes.length > 0) {
+          setIsScanning(false);
+          onDetected(codes[0].rawValue);
+          return;
+        }
+      } catch {
+        // The video may not have a frame yet
+      }
+      timer = window.setTimeout(scanFrame, 300);
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } })
+      .then(mediaStream => {
+        stream = mediaStream;
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = mediaStream;
+        videoRef.current.play();
+        scanFrame();
+      })
+      .catch(() => {
+        toast({ variant: "destructive", description: "Không thể mở camera" });
+        setIsScanning(false);
+      });
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isScanning]);
+
+  if (!barcodeDetectorSupported) {
+    return (
+      <Alert>
+        <AlertDescription>
+          Trình duyệt không hỗ trợ quét QR bằng camera. Vui lòng dùng máy quét hoặc nhập mã thủ công.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {isScanning && (
+        <video ref={videoRef} className="w-full rounded border" muted playsInline data-testid="video-checkin-scanner" />
+      )}
+      <Button
+        type="button"
+        variant={isScanning ? "outline" : "default"}
+        onClick={() => setIsScanning(prev => !prev)}
+        data-testid="button-toggle-camera"
+      >
+        {isScanning ? <CameraOff className="h-4 w-4 mr-2" /> : <Camera className="h-4 w-4 mr-2" />}
+        {isScanning ? "Dừng quét" : "Quét bằng camera"}
+      </Button>
+    </div>
+  );
+};
+
+// Main Check-in Tab Component
+export default function CheckinTab() {
+  const { toast } = useToast();
+  const [branchId, setBranchId] = useState("");
+  const [sessionType, setSessionType] = useState("therapy");
+  const [practitionerId, setPractitionerId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [payload, setPayload] = useState("");
+  const [manualForm, setManualForm] = useState({ cardNumber: "", code: "" });
+  const [lastResult, setLastResult] = useState<ScanResult | null>(null);
+
+  const { data: branches = [] } = useQuery<Branch[]>({
+    queryKey: ['/api/branches']
+  });
+
+  const { data: staff = [] } = useQuery<Staff[]>({
+    queryKey: ['/api/staff']
+  });
+  // Single-branch managers check in at their own branch without picking it
+  const checkinBranchId = branchId || (branches.length === 1 ? branches[0].id : "");
+  const practitioners = staff.filter(member => member.branchId === checkinBranchId);
+
+  const scanMutation = useMutation({
+    mutationFn: async (scan: { payload?: string; cardNumber?: string; code?: string }) => {
+      const response = await apiRequest('POST', '/api/check-ins/scan', {
+        ...scan,
+        sessionType,
+        branchId: branchId || undefined,
+        practitionerId: practitionerId || undefined,
+        notes: notes || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (data: ScanResult) => {
+      setLastResult(data);
+      setPayload("");
+      setManualForm({ cardNumber: "", code: "" });
+      setNotes("");
+      toast({ description: `Check-in thành công cho thẻ ${data.card.cardNumber}` });
+      queryClient.invalidateQueries({ queryKey: ['/api/cards'] });
+    },
+    onError: (error: any) => {
+      setLastResult(null);
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể check-in") });
+    }
+  });
+
+  const handleScanned = (scanned: string) => {
+    if (scanned.startsWith(MEMBERSHIP_CARD_QR_PREFIX)) {
+      setPayload("");
+      setManualForm({ cardNumber: scanned.slice(MEMBERSHIP_CARD_QR_PREFIX.length), code: "" });
+      toast({ description: "Đã đọc thẻ in. Vui lòng nhập mã 6 số trên ứng dụng của khách hàng" });
+      return;
+    }
+    scanMutation.mutate({ payload: scanned });
+  };
+
+  const handlePayloadSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!payload.trim()) return;
+    handleScanned(payload.trim());
+  };
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!manualForm.cardNumber || !/^\d{6}$/.test(manualForm.code)) {
+      toast({ variant: "destructive", description: "Vui lòng nhập số thẻ và mã 6 chữ số" });
+      return;
+    }
+    scanMutation.mutate(manualForm);
+  };
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+          Check-in bằng mã QR
+        </h2>
+        <p className="text-gray-600 dark:text-gray-400">
+          Quét mã QR trên ứng dụng của khách hàng hoặc nhập số thẻ và mã 6 chữ số
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <QrCode className="h-5 w-5 text-blue-500" />
+              Thông tin phiên
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label>Chi nhánh</Label>
+              <Select value={branchId} onValueChange={(value) => { setBranchId(value); setPractitionerId(""); }}>
+                <SelectTrigger data-testid="select-checkin-branch">
+                  <SelectValue placeholder={branches.length === 1 ? branches[0].name : "Chọn chi nhánh"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {branches.map(branch => (
+                    <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Loại phiên</Label>
+              <Select value={sessionType} onValueChange={setSessionType}>
+                <SelectTrigger data-testid="select-checkin-session-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sessionTypes.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Chuyên viên</Label>
+              <Select value={practitionerId || "auto"} onValueChange={(value) => setPractitionerId(value === "auto" ? "" : value)}>
+                <SelectTrigger data-testid="select-checkin-practitioner">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Theo lịch hẹn (nếu có)</SelectItem>
+                  {practitioners.map(member => (
+                    <SelectItem key={member.id} value={member.id}>{member.name} - {member.position}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="checkinNotes">Ghi chú</Label>
+              <Textarea
+                id="checkinNotes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                data-testid="textarea-checkin-notes"
+              />
+            </div>
+
+            {lastResult && (
+              <Alert data-testid="alert-checkin-result">
+                <CheckCircle className="h-4 w-4 text-green-600" />
+                <AlertDescription>
+                  Thẻ {lastResult.card.cardNumber} ({lastResult.card.customerName}) — còn {lastResult.card.remainingSessions ?? 0} phiên
+                  {lastResult.appointment && " · Check-in theo lịch hẹn đã đặt"}
+                  {lastResult.member && ` · Thành viên ${lastResult.member.name} (còn ${lastResult.member.remainingSessions} lượt được chia sẻ)`}
+                </AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Camera className="h-5 w-5 text-green-600" />
+              Quét mã
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <CameraScanner onDetected={handleScanned} />
+
+            <form onSubmit={handlePayloadSubmit} className="space-y-2">
+              <Label htmlFor="checkinPayload">Dữ liệu từ máy quét</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="checkinPayload"
+                  value={payload}
+                  onChange={(e) => setPayload(e.target.value)}
+                  placeholder="VCA-CHECKIN:..."
+                  data-testid="input-checkin-payload"
+                />
+                <Button type="submit" disabled={scanMutation.isPending} data-testid="button-submit-payload">
+                  Check-in
+                </Button>
+              </div>
+            </form>
+
+            <form onSubmit={handleManualSubmit} className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Keyboard className="h-4 w-4" />
+                Nhập thủ công
+              </Label>
+              <div className="flex gap-2">
+                <Input
+                  value={manualForm.cardNumber}
+                  onChange={(e) => setManualForm(prev => ({ ...prev, cardNumber: e.target.value }))}
+                  placeholder="Số thẻ"
+                  data-testid="input-checkin-card-number"
+                />
+                <Input
+                  value={manualForm.code}
+                  onChange={(e) => setManualForm(prev => ({ ...prev, code: e.target.value.replace(/\D/g, "").slice(0, 6) }))}
+                  placeholder="Mã 6 số"
+                  inputMode="numeric"
+                  className="w-32"
+                  data-testid="input-checkin-code"
+                />
+                <Button type="submit" disabled={scanMutation.isPending} data-testid="button-submit-manual-checkin">
+                  Check-in
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Download, ShieldCheck, UserX, AlertTriangle } from "lucide-react";
+import type { ConsentPurpose, ConsentRecord } from "@shared/schema";
+
+interface ConsentState {
+  current: Record<ConsentPurpose, boolean>;
+  history: ConsentRecord[];
+}
+
+interface ClosureCheck {
+  canClose: boolean;
+  blockers: string[];
+}
+
+const consentLabels: Record<ConsentPurpose, { title: string; description: string }> = {
+  marketing: {
+    title: "Tiếp thị & khuyến mãi",
+    description: "Nhận thông tin ưu đãi, chương trình khuyến mãi qua email, SMS và Zalo",
+  },
+  health_data: {
+    title: "Xử lý dữ liệu sức khỏe",
+    description: "Cho phép lưu ghi chú trị liệu và tình trạng sức khỏe tại các lần check-in",
+  },
+};
+
+const formatDateTime = (date: string | Date) => {
+  return new Date(date).toLocaleString("vi-VN");
+};
+
+// Consent log Component
+const ConsentSettings = () => {
+  const { toast } = useToast();
+
+  const { data } = useQuery<ConsentState>({
+    queryKey: ['/api/privacy/consents']
+  });
+
+  const consentMutation = useMutation({
+    mutationFn: async ({ purpose, granted }: { purpose: ConsentPurpose, granted: boolean }) => {
+      const response = await apiRequest('POST', '/api/privacy/consents', { purpose, granted });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ description: "Đã cập nhật lựa chọn đồng ý" });
+      queryClient.invalidateQueries({ queryKey: ['/api/privacy/consents'] });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể cập nhật") });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-green-600" />
+          Đồng ý xử lý dữ liệu cá nhân
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(Object.keys(consentLabels) as ConsentPurpose[]).map(purpose => (
+          <div key={purpose} className="flex items-center justify-between border rounded p-3">
+            <div>
+              <div className="font-medium">{consentLabels[purpose].title}</div>
+              <div className="text-sm text-gray-500">{consentLabels[purpose].description}</div>
+            </div>
+            <Switch
+              checked={data?.current[purpose] ?? false}
+              onCheckedChange={(granted) => consentMutation.mutate({ purpose, granted })}
+              disabled={!data || consentMutation.isPending}
+              data-testid={`switch-consent-${purpose}`}
+            />
+          </div>
+        ))}
+
+        {data && data.history.length > 0 && (
+          <div>
+            <div className="text-sm font-medium mb-2">Lịch sử thay đổi</div>
+            <ul className="text-sm text-gray-600 space-y-1">
+              {data.history.slice(0, 10).map(record => (
+                <li key={record.id} data-testid={`text-consent-history-${record.id}`}>
+                  {record.createdAt ? formatDateTime(record.createdAt) : "-"} — {consentLabels[record.purpose as ConsentPurpose]?.title || record.purpose}:{" "}
+                  {record.granted ? "Đồng ý" : "Rút lại đồng ý"}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Personal data export Component
+const DataExport = () => {
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const response = await apiRequest('GET', '/api/privacy/export');
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `du-lieu-ca-nhan-${new Date().toISOString().split("T")[0]}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể tải dữ liệu") });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Download className="h-5 w-5 text-blue-500" />
+          Tải dữ liệu của tôi
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-600 mb-4">
+          Tệp JSON gồm hồ sơ, thẻ, lịch sử check-in, giao dịch, giới thiệu, lịch sử VCA Digital Share, nhật ký hoạt động và các lựa chọn đồng ý của bạn.
+        </p>
+        <Button onClick={handleExport} disabled={isExporting} data-testid="button-export-personal-data">
+          <Download className="h-4 w-4 mr-2" />
+          {isExporting ? "Đang chuẩn bị..." : "Tải xuống"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+// Account closure Component
+const AccountClosure = () => {
+  const { toast } = useToast();
+  const [closureForm, setClosureForm] = useState({ password: "", reason: "" });
+
+  const { data: closure } = useQuery<ClosureCheck>({
+    queryKey: ['/api/privacy/closure']
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/privacy/close-account', closureForm);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ description: "Tài khoản đã được đóng" });
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể đóng tài khoản") });
+      queryClient.invalidateQueries({ queryKey: ['/api/privacy/closure'] });
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!closureForm.password) {
+      toast({ variant: "destructive", description: "Vui lòng nhập mật khẩu để xác nhận" });
+      return;
+    }
+    if (!confirm("Đóng tài khoản là không thể hoàn tác. Dữ liệu cá nhân sẽ bị ẩn danh. Tiếp tục?")) return;
+
+    closeMutation.mutate();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserX className="h-5 w-5 text-red-500" />
+          Đóng tài khoản
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-600 mb-4">
+          Thông tin cá nhân (họ tên, email, số điện thoại, ghi chú sức khỏe) sẽ được ẩn danh. Hồ sơ giao dịch và định danh được lưu giữ theo thời hạn pháp luật quy định.
+        </p>
+
+        {closure && !closure.canClose ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <div className="mb-1">Chưa thể đóng tài khoản:</div>
+              <ul className="list-disc pl-5">
+                {closure.blockers.map(blocker => (
+                  <li key={blocker}>{blocker}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="closureReason">Lý do (không bắt buộc)</Label>
+              <Textarea
+                id="closureReason"
+                value={closureForm.reason}
+                onChange={(e) => setClosureForm(prev => ({ ...prev, reason: e.target.value }))}
+                rows={3}
+                data-testid="textarea-closure-reason"
+              />
+            </div>
+            <div>
+              <Label htmlFor="closurePassword">Mật khẩu *</Label>
+              <Input
+                id="closurePassword"
+                type="password"
+                value={closureForm.password}
+                onChange={(e) => setClosureForm(prev => ({ ...prev, password: e.target.value }))}
+                data-testid="input-closure-password"
+              />
+            </div>
+            <Button type="submit" variant="destructive" disabled={!closure || closeMutation.isPending} data-testid="button-close-account">
+              {closeMutation.isPending ? "Đang xử lý..." : "Đóng tài khoản"}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Main Privacy Tab Component
+export default function PrivacyTab() {
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+          Quyền riêng tư & Dữ liệu cá nhân
+        </h2>
+        <p className="text-gray-600 dark:text-gray-400">
+          Quản lý đồng ý, tải dữ liệu và đóng tài khoản theo Nghị định 13/2023/NĐ-CP
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <ConsentSettings />
+        <DataExport />
+        <AccountClosure />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,656 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Upload, CheckCircle, XCircle, Link2, Unlink, Lock, Unlock, RefreshCw, Undo2 } from "lucide-react";
+import type { BankAccount, BankStatementLine, BankStatementImport, ReconciliationLock, Transaction } from "@shared/schema";
+
+type ReconciliationLine = BankStatementLine & {
+  locked: boolean;
+  transaction: Pick<Transaction, "id" | "type" | "amount" | "description" | "status" | "date"> | null;
+};
+
+type ReconciliationTransaction = Transaction & {
+  direction: "in" | "out";
+  matchedLineId: string | null;
+  duplicateOf: string[];
+};
+
+interface Reconciliation {
+  periodStart: string;
+  periodEnd: string;
+  locks: ReconciliationLock[];
+  lines: ReconciliationLine[];
+  transactions: ReconciliationTransaction[];
+  summary: {
+    statementIn: number;
+    statementOut: number;
+    matchedLines: number;
+    unmatchedLines: number;
+    duplicateLines: number;
+    ignoredLines: number;
+    unmatchedTransactions: number;
+    duplicateTransactions: number;
+  };
+}
+
+type MatchCandidate = Transaction & { sameAmount: boolean; referenced: boolean; daysApart: number };
+
+// Utility functions
+const formatCurrency = (amount: string | number) => {
+  const numAmount = typeof amount === "string" ? parseFloat(amount) : amount;
+  return numAmount.toLocaleString("vi-VN") + " VND";
+};
+
+const formatDateTime = (date: string | Date | null) => {
+  return date ? new Date(date).toLocaleString("vi-VN") : "-";
+};
+
+// Read a selected file as a base64 data URL for JSON upload
+const readFileAsDataUrl = (file: File) => {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+const toDay = (date: Date) => date.toLocaleDateString("en-CA");
+
+const lineStatusLabels: Record<string, string> = {
+  unmatched: "Chưa khớp",
+  matched: "Đã khớp",
+  duplicate: "Trùng lặp",
+  ignored: "Bỏ qua",
+};
+
+const transactionTypeLabels: Record<string, string> = {
+  income: "Thu",
+  expense: "Chi",
+  deposit: "Nạp tiền",
+  invest: "Đầu tư",
+  withdraw: "Rút tiền",
+  share_distribution: "Chia lợi nhuận",
+  refund: "Hoàn tiền",
+};
+
+const getLineBadgeVariant = (status: string) => {
+  switch (status) {
+    case "matched": return "default";
+    case "duplicate": return "destructive";
+    case "ignored": return "outline";
+    default: return "secondary";
+  }
+};
+
+// Statement import Component
+const StatementImport = () => {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [bankFormat, setBankFormat] = useState("auto");
+  const [bankAccountId, setBankAccountId] = useState("none");
+
+  const { data: formats = [] } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ['/api/reconciliation/formats']
+  });
+
+  const { data: bankAccounts = [] } = useQuery<BankAccount[]>({
+    queryKey: ['/api/admin/bank-accounts']
+  });
+
+  const { data: imports = [] } = useQuery<BankStatementImport[]>({
+    queryKey: ['/api/reconciliation/imports']
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/reconciliation/imports', {
+        fileName: file!.name,
+        file: await readFileAsDataUrl(file!),
+        bankFormat,
+        bankAccountId: bankAccountId === "none" ? null : bankAccountId,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      const skipped = data.skippedLocked ? `, ${data.skippedLocked} dòng thuộc kỳ đã khóa bị bỏ qua` : "";
+      toast({ description: `Đã nhập ${data.lineCount} dòng: ${data.matched} dòng tự động khớp, ${data.duplicates} dòng trùng lặp, ${data.unmatched} dòng cần đối soát${skipped}` });
+      setFile(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/reconciliation'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reconciliation/imports'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cash-flow/transactions'] });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể nhập sao kê") });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Upload className="h-5 w-5 text-blue-500" />
+          Nhập sao kê ngân hàng
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="md:col-span-2">
+            <Label>Tệp sao kê (CSV, Excel .xlsx)</Label>
+            <Input
+              type="file"
+              accept=".csv,.txt,.xlsx"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              data-testid="input-statement-file"
+            />
+          </div>
+          <div>
+            <Label>Mẫu sao kê</Label>
+            <Select value={bankFormat} onValueChange={setBankFormat}>
+              <SelectTrigger data-testid="select-statement-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Tự nhận dạng</SelectItem>
+                {formats.map((format) => (
+                  <SelectItem key={format.id} value={format.id}>{format.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Tài khoản</Label>
+            <Select value={bankAccountId} onValueChange={setBankAccountId}>
+              <SelectTrigger data-testid="select-statement-account">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Không chọn</SelectItem>
+                {bankAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>{account.bankName} - {account.accountNumber}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button
+          onClick={() => importMutation.mutate()}
+          disabled={!file || importMutation.isPending}
+          data-testid="button-import-statement"
+        >
+          {importMutation.isPending ? "Đang nhập..." : "Nhập sao kê"}
+        </Button>
+
+        {imports.length > 0 && (
+          <div className="text-sm text-gray-500">
+            Lần nhập gần nhất: {imports[0].fileName} ({imports[0].lineCount} dòng, {formatDateTime(imports[0].createdAt)})
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Manual match dialog - candidates ranked by payment reference, amount and date
+const MatchDialog = ({ line, onClose }: { line: ReconciliationLine | null; onClose: () => void }) => {
+  const { toast } = useToast();
+
+  const { data: candidates = [], isLoading } = useQuery<MatchCandidate[]>({
+    queryKey: ['/api/reconciliation/lines', line?.id, 'candidates'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/reconciliation/lines/${line!.id}/candidates`);
+      return response.json();
+    },
+    enabled: !!line,
+  });
+
+  const matchMutation = useMutation({
+    mutationFn: async (transactionId: string) => {
+      const response = await apiRequest('POST', `/api/reconciliation/lines/${line!.id}/match`, { transactionId });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ description: "Đã khớp dòng sao kê với giao dịch" });
+      queryClient.invalidateQueries({ queryKey: ['/api/reconciliation'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cash-flow/transactions'] });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể khớp giao dịch") });
+    }
+  });
+
+  return (
+    <Dialog open={!!line} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Khớp dòng sao kê</DialogTitle>
+          <DialogDescription>
+            {line && `${formatDateTime(line.transactionDate)} · ${formatCurrency(line.amount)} · ${line.memo || "(không có nội dung)"}`}
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="text-center py-8">Đang tải...</div>
+        ) : candidates.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">Không có giao dịch phù hợp chưa được đối soát</div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ngày</TableHead>
+                  <TableHead>Loại</TableHead>
+                  <TableHead>Số tiền</TableHead>
+                  <TableHead>Mô tả</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {candidates.map((candidate) => (
+                  <TableRow key={candidate.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {formatDateTime(candidate.date)}
+                      <div className="text-xs text-gray-500">cách {candidate.daysApart} ngày</div>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {transactionTypeLabels[candidate.type] || candidate.type}
+                      {candidate.status === "pending" && <Badge variant="secondary" className="ml-1">Chờ duyệt</Badge>}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatCurrency(candidate.amount)}
+                      {candidate.sameAmount && <Badge className="ml-1">Khớp tiền</Badge>}
+                      {candidate.referenced && <Badge className="ml-1">Khớp mã</Badge>}
+                    </TableCell>
+                    <TableCell className="max-w-xs break-words">{candidate.description}</TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        onClick={() => matchMutation.mutate(candidate.id)}
+                        disabled={matchMutation.isPending}
+                        data-testid={`button-match-candidate-${candidate.id}`}
+                      >
+                        <Link2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Reconciliation workspace Component - statement lines and transactions of one period side by side
+const ReconciliationWorkspace = () => {
+  const { toast } = useToast();
+  const today = new Date();
+  const [period, setPeriod] = useState({
+    from: toDay(new Date(today.getFullYear(), today.getMonth(), 1)),
+    to: toDay(today),
+  });
+  const [lineFilter, setLineFilter] = useState("open");
+  const [unmatchedOnly, setUnmatchedOnly] = useState(true);
+  const [matchingLine, setMatchingLine] = useState<ReconciliationLine | null>(null);
+
+  const { data, isLoading } = useQuery<Reconciliation>({
+    queryKey: ['/api/reconciliation', period.from, period.to],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/reconciliation?from=${period.from}&to=${period.to}`);
+      return response.json();
+    },
+    enabled: !!period.from && !!period.to && period.from <= period.to,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/reconciliation'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/cash-flow/transactions'] });
+  };
+
+  const lineActionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string, action: "unmatch" | "ignore" | "restore" }) => {
+      const response = await apiRequest('POST', `/api/reconciliation/lines/${id}/${action}`, {});
+      return response.json();
+    },
+    onSuccess: () => invalidate(),
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể cập nhật dòng sao kê") });
+    }
+  });
+
+  const autoMatchMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/reconciliation/auto-match', period);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({ description: `Đã tự động khớp ${result.matched} dòng` });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể tự động khớp") });
+    }
+  });
+
+  const lockMutation = useMutation({
+    mutationFn: async (note: string) => {
+      const response = await apiRequest('POST', '/api/reconciliation/locks', { periodStart: period.from, periodEnd: period.to, note: note || undefined });
+      return response.json();
+    },
+    onSuccess: (lock) => {
+      toast({ description: lock.unmatchedLines > 0 ? `Đã khóa kỳ đối soát, còn ${lock.unmatchedLines} dòng chưa khớp` : "Đã khóa kỳ đối soát" });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể khóa kỳ đối soát") });
+    }
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/reconciliation/locks/${id}`);
+    },
+    onSuccess: () => {
+      toast({ description: "Đã mở khóa kỳ đối soát" });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", description: "Lỗi: " + (error.message || "Không thể mở khóa kỳ đối soát") });
+    }
+  });
+
+  const handleLock = () => {
+    const unmatched = data?.summary.unmatchedLines || 0;
+    const question = unmatched > 0
+      ? `Còn ${unmatched} dòng sao kê chưa khớp. Vẫn khóa kỳ ${period.from} - ${period.to}? Ghi chú (không bắt buộc):`
+      : `Khóa kỳ đối soát ${period.from} - ${period.to}? Ghi chú (không bắt buộc):`;
+    const note = prompt(question);
+    if (note === null) return;
+    lockMutation.mutate(note);
+  };
+
+  const lines = (data?.lines || []).filter((line) =>
+    lineFilter === "all" ? true : lineFilter === "open" ? line.status === "unmatched" || line.status === "duplicate" : line.status === lineFilter
+  );
+  const transactions = (data?.transactions || []).filter((transaction) =>
+    !unmatchedOnly || !transaction.matchedLineId || transaction.duplicateOf.length > 0
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex flex-wrap items-end gap-4">
+            <div>
+              <Label>Từ ngày</Label>
+              <Input type="date" value={period.from} onChange={(e) => setPeriod({ ...period, from: e.target.value })} data-testid="input-reconciliation-from" />
+            </div>
+            <div>
+              <Label>Đến ngày</Label>
+              <Input type="date" value={period.to} onChange={(e) => setPeriod({ ...period, to: e.target.value })} data-testid="input-reconciliation-to" />
+            </div>
+            <Button variant="outline" onClick={() => autoMatchMutation.mutate()} disabled={autoMatchMutation.isPending} data-testid="button-auto-match">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Tự động khớp
+            </Button>
+            <Button variant="outline" onClick={handleLock} disabled={lockMutation.isPending || !!data?.locks.length} data-testid="button-lock-period">
+              <Lock className="h-4 w-4 mr-2" />
+              Khóa kỳ
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {data?.locks.map((lock) => (
+            <Alert key={lock.id}>
+              <AlertDescription className="flex items-center justify-between">
+                <span>
+                  <Lock className="h-4 w-4 inline mr-2" />
+                  Kỳ {lock.periodStart} - {lock.periodEnd} đã khóa{lock.note ? `: ${lock.note}` : ""}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => confirm("Mở khóa kỳ đối soát này?") && unlockMutation.mutate(lock.id)}
+                  disabled={unlockMutation.isPending}
+                  data-testid={`button-unlock-${lock.id}`}
+                >
+                  <Unlock className="h-4 w-4" />
+                </Button>
+              </AlertDescription>
+            </Alert>
+          ))}
+
+          {data && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <div className="text-gray-500">Tiền vào / ra theo sao kê</div>
+                <div className="font-semibold">{formatCurrency(data.summary.statementIn)} / {formatCurrency(data.summary.statementOut)}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Dòng sao kê đã khớp</div>
+                <div className="font-semibold" data-testid="text-matched-lines">{data.summary.matchedLines} / {data.lines.length}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Dòng chưa khớp / trùng lặp</div>
+                <div className="font-semibold text-orange-600" data-testid="text-unmatched-lines">{data.summary.unmatchedLines} / {data.summary.duplicateLines}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Giao dịch chưa có sao kê / nghi trùng</div>
+                <div className="font-semibold text-orange-600" data-testid="text-unmatched-transactions">{data.summary.unmatchedTransactions} / {data.summary.duplicateTransactions}</div>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Sao kê ngân hàng</span>
+            <Select value={lineFilter} onValueChange={setLineFilter}>
+              <SelectTrigger className="w-48" data-testid="select-line-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Cần xử lý</SelectItem>
+                <SelectItem value="all">Tất cả</SelectItem>
+                {Object.entries(lineStatusLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">Đang tải...</div>
+          ) : lines.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">Không có dòng sao kê</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="whitespace-nowrap">Ngày</TableHead>
+                    <TableHead className="whitespace-nowrap">Số tiền</TableHead>
+                    <TableHead>Nội dung</TableHead>
+                    <TableHead className="whitespace-nowrap">Trạng thái</TableHead>
+                    <TableHead>Giao dịch</TableHead>
+                    <TableHead className="whitespace-nowrap">Thao tác</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {formatDateTime(line.transactionDate)}
+                        <div className="text-xs text-gray-500">{line.bankReference || `Dòng ${line.lineNumber}`}</div>
+                      </TableCell>
+                      <TableCell className={`whitespace-nowrap font-medium ${Number(line.amount) > 0 ? "text-green-600" : "text-red-600"}`} data-testid={`text-line-amount-${line.id}`}>
+                        {formatCurrency(line.amount)}
+                      </TableCell>
+                      <TableCell className="max-w-xs break-words">{line.memo || "-"}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        <Badge variant={getLineBadgeVariant(line.status)}>{lineStatusLabels[line.status] || line.status}</Badge>
+                        {line.status === "matched" && !line.matchedBy && <div className="text-xs text-gray-500">Tự động</div>}
+                      </TableCell>
+                      <TableCell className="max-w-xs break-words text-sm">
+                        {line.transaction
+                          ? `${transactionTypeLabels[line.transaction.type] || line.transaction.type} · ${formatCurrency(line.transaction.amount)} · ${line.transaction.description}`
+                          : "-"}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {line.locked ? (
+                          <Lock className="h-4 w-4 text-gray-400" />
+                        ) : (
+                          <div className="flex gap-2">
+                            {line.status === "unmatched" && (
+                              <Button size="sm" onClick={() => setMatchingLine(line)} data-testid={`button-match-line-${line.id}`}>
+                                <Link2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {line.status === "matched" && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => confirm("Bỏ khớp dòng sao kê này?") && lineActionMutation.mutate({ id: line.id, action: "unmatch" })}
+                                disabled={lineActionMutation.isPending}
+                                data-testid={`button-unmatch-line-${line.id}`}
+                              >
+                                <Unlink className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {(line.status === "unmatched" || line.status === "duplicate") && (
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => lineActionMutation.mutate({ id: line.id, action: "ignore" })}
+                                disabled={lineActionMutation.isPending}
+                                data-testid={`button-ignore-line-${line.id}`}
+                              >
+                                <XCircle className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {(line.status === "ignored" || line.status === "duplicate") && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => lineActionMutation.mutate({ id: line.id, action: "restore" })}
+                                disabled={lineActionMutation.isPending}
+                                data-testid={`button-restore-line-${line.id}`}
+                              >
+                                <Undo2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Giao dịch trong kỳ</span>
+            <Select value={unmatchedOnly ? "open" : "all"} onValueChange={(value) => setUnmatchedOnly(value === "open")}>
+              <SelectTrigger className="w-48" data-testid="select-transaction-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Chưa khớp / nghi trùng</SelectItem>
+                <SelectItem value="all">Tất cả</SelectItem>
+              </SelectContent>
+            </Select>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">Đang tải...</div>
+          ) : transactions.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">Không có giao dịch</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="whitespace-nowrap">Ngày</TableHead>
+                    <TableHead className="whitespace-nowrap">Loại</TableHead>
+                    <TableHead className="whitespace-nowrap">Số tiền</TableHead>
+                    <TableHead>Mô tả</TableHead>
+                    <TableHead className="whitespace-nowrap">Đối soát</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transactions.map((transaction) => (
+                    <TableRow key={transaction.id}>
+                      <TableCell className="whitespace-nowrap">{formatDateTime(transaction.date)}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {transactionTypeLabels[transaction.type] || transaction.type}
+                        {transaction.status === "pending" && <Badge variant="secondary" className="ml-1">Chờ duyệt</Badge>}
+                      </TableCell>
+                      <TableCell className={`whitespace-nowrap ${transaction.direction === "in" ? "text-green-600" : "text-red-600"}`}>
+                        {formatCurrency(transaction.amount)}
+                      </TableCell>
+                      <TableCell className="max-w-xs break-words">{transaction.description}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {transaction.matchedLineId ? (
+                          <Badge><CheckCircle className="h-3 w-3 mr-1" />Đã khớp</Badge>
+                        ) : (
+                          <Badge variant="secondary">Chưa có sao kê</Badge>
+                        )}
+                        {transaction.duplicateOf.length > 0 && (
+                          <Badge variant="destructive" className="ml-1" data-testid={`badge-duplicate-${transaction.id}`}>Nghi trùng</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <MatchDialog line={matchingLine} onClose={() => setMatchingLine(null)} />
+    </div>
+  );
+};
+
+// Main Reconciliation Tab Component
+export default function ReconciliationTab() {
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+          Đối soát ngân hàng
+        </h2>
+        <p className="text-gray-600 dark:text-gray-400">
+          Nhập sao kê, khớp từng dòng với giao dịch trong hệ thống và khóa kỳ đã đối soát
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <StatementImport />
+        <ReconciliationWorkspace />
+      </div>
+    </div>
+  );
+}
@@ -7,17 +7,48 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Mutations carry an Idempotency-Key so the server processes each at most once. The same request
+// sent again shortly after (a double click, a retry after a network error) reuses the key and
+// gets the first response instead of creating a duplicate.
+const IDEMPOTENCY_KEY_REUSE_MS = 10_000;
+const recentIdempotencyKeys = new Map<string, string>();
+
+function idempotencyKeyFor(method: string, url: string, body: string | undefined): string {
+  const request = `${method} ${url} ${body ?? ""}`;
+  let key = recentIdempotencyKeys.get(request);
+  if (!key) {
+    key = crypto.randomUUID();
+    recentIdempotencyKeys.set(request, key);
+  }
+  return key;
+}
+
+function forgetIdempotencyKey(method: string, url: string, body: string | undefined) {
+  const request = `${method} ${url} ${body ?? ""}`;
+  setTimeout(() => recentIdempotencyKeys.delete(request), IDEMPOTENCY_KEY_REUSE_MS);
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
+  const body = data ? JSON.stringify(data) : undefined;
+  const headers: Record<string, string> = data ? { "Content-Type": "application/json" } : {};
+  const isMutation = !["GET", "HEAD", "OPTIONS"].includes(method.toUpperCase());
+  if (isMutation) {
+    headers["Idempotency-Key"] = idempotencyKeyFor(method, url, body);
+  }
+
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
+    headers,
+    body,
     credentials: "include",
   });
+  if (isMutation) {
+    forgetIdempotencyKey(method, url, body);
+  }
 
   await throwIfResNotOk(res);
   return res;
@@ -1,15 +1,147 @@
-import { useState } from "react";
-import { useAuth } from "@/hooks/use-auth";
+import { useEffect, useState } from "react";
+import { useAuth, type TwoFactorChallenge } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { apiRequest } from "@/lib/queryClient";
+
+// Second login step: TOTP code (or backup code), with first-time enrolment when the role requires 2FA
+function TwoFactorStep({ challenge, onCancel }: { challenge: TwoFactorChallenge; onCancel: () => void }) {
+  const { twoFactorMutation } = useAuth();
+  const [code, setCode] = useState("");
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [setup, setSetup] = useState<{ qrCode: string; secret: string } | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!challenge.enrolmentRequired) return;
+    apiRequest("POST", "/api/2fa/setup", { challengeToken: challenge.challengeToken })
+      .then(res => res.json())
+      .then(setSetup)
+      .catch((err: Error) => setError(err.message));
+  }, [challenge]);
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (challenge.enrolmentRequired && !backupCodes) {
+      try {
+        const res = await apiRequest("POST", "/api/2fa/enable", { challengeToken: challenge.challengeToken, code });
+        const data = await res.json();
+        setBackupCodes(data.backupCodes);
+      } catch (err) {
+        setError((err as Error).message);
+      }
+      return;
+    }
+
+    twoFactorMutation.mutate({ challengeToken: challenge.challengeToken, code });
+  };
+
+  return (
+    <form onSubmit={handleVerify} data-testid="two-factor-form">
+      {setup && !backupCodes && (
+        <div className="text-center mb-4">
+          <p className="text-muted mb-3" style={{ fontSize: "14px" }}>
+            Tài khoản của bạn bắt buộc xác thực 2 lớp. Quét mã QR bằng ứng dụng Google Authenticator/Authy rồi nhập mã 6 số.
+          </p>
+          <img src={setup.qrCode} alt="Mã QR xác thực 2 lớp" className="mx-auto mb-2" style={{ width: 180, height: 180 }} />
+          <code className="d-block small" data-testid="text-2fa-secret">{setup.secret}</code>
+        </div>
+      )}
+
+      {backupCodes && (
+        <div className="alert alert-warning mb-4" data-testid="backup-codes">
+          <p className="fw-bold mb-2">Lưu lại các mã dự phòng (chỉ hiển thị một lần):</p>
+          <div className="d-flex flex-wrap gap-2">
+            {backupCodes.map(backupCode => (
+              <code key={backupCode}>{backupCode}</code>
+            ))}
+          </div>
+          <p className="small mb-0 mt-2">Nhập mã 6 số hiện tại từ ứng dụng để hoàn tất đăng nhập.</p>
+        </div>
+      )}
+
+      <div className="mb-4">
+        <Label className="form-label text-dark fw-medium mb-2">
+          {useBackupCode ? "Mã dự phòng" : "Mã xác thực"}
+        </Label>
+        {useBackupCode ? (
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            placeholder="XXXX-XXXX"
+            maxLength={9}
+            data-testid="input-backup-code"
+          />
+        ) : (
+          <div className="d-flex justify-content-center">
+            <InputOTP maxLength={6} value={code} onChange={setCode} data-testid="input-otp">
+              <InputOTPGroup>
+                {[0, 1, 2, 3, 4, 5].map(index => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-danger small mb-3">{error}</p>}
+
+      <div className="d-flex justify-content-between mb-4">
+        <button
+          type="button"
+          className="btn btn-link p-0 text-decoration-none"
+          style={{ color: "#43B0A5", fontSize: "14px" }}
+          onClick={onCancel}
+          data-testid="link-back-to-login"
+        >
+          ← Quay lại đăng nhập
+        </button>
+        {!challenge.enrolmentRequired && (
+          <button
+            type="button"
+            className="btn btn-link p-0 text-decoration-none"
+            style={{ color: "#43B0A5", fontSize: "14px" }}
+            onClick={() => { setUseBackupCode(!useBackupCode); setCode(""); }}
+            data-testid="link-toggle-backup-code"
+          >
+            {useBackupCode ? "Dùng mã ứng dụng" : "Dùng mã dự phòng"}
+          </button>
+        )}
+      </div>
+
+      <Button
+        type="submit"
+        className="w-100"
+        style={{
+          backgroundColor: "#43B0A5",
+          border: "none",
+          borderRadius: "12px",
+          minHeight: "50px",
+          fontSize: "16px",
+          fontWeight: "600"
+        }}
+        disabled={twoFactorMutation.isPending || code.length < 6}
+        data-testid="button-verify-2fa"
+      >
+        {twoFactorMutation.isPending ? "Đang xác thực..." : "Xác thực"}
+      </Button>
+    </form>
+  );
+}
 
 export default function AuthPage() {
   const { user, loginMutation, registerMutation } = useAuth();
   const [, navigate] = useLocation();
   const [mode, setMode] = useState<"login" | "register" | "forgot">("login");
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
   const [formData, setFormData] = useState({
     email: "",
     password: "",
@@ -29,6 +161,10 @@ export default function AuthPage() {
       loginMutation.mutate({
         email: formData.email,
         password: formData.password,
+      }, {
+        onSuccess: (result) => {
+          if ("twoFactorRequired" in result) setChallenge(result);
+        },
       });
     } else if (mode === "register") {
       registerMutation.mutate({
@@ -59,24 +195,50 @@ export default function AuthPage() {
                   fontSize: "2rem",
                   fontWeight: "600"
                 }}>
-                  {mode === "login" ? "Đăng nhập" : mode === "register" ? "Đăng ký" : "Quên mật khẩu"}<br />
+                  {challenge ? "Xác thực 2 lớp" : mode === "login" ? "Đăng nhập" : mode === "register" ? "Đăng ký" : "Quên mật khẩu"}<br />
                   Phúc An Đường
                 </h1>
               </CardHeader>
               
               <CardContent className="px-5 pb-5">
-                <form onSubmit={handleSubmit} data-testid="auth-form">
-                  {mode === "register" && (
+                {challenge ? (
+                  <TwoFactorStep challenge={challenge} onCancel={() => setChallenge(null)} />
+                ) : (
+                  <form onSubmit={handleSubmit} data-testid="auth-form">
+                    {mode === "register" && (
+                      <div className="mb-4">
+                        <Label htmlFor="name" className="form-label text-dark fw-medium mb-2">
+                          Họ và tên
+                        </Label>
+                        <Input
+                          type="text"
+                          id="name"
+                          value={formData.name}
+                          onChange={(e) => handleInputChange("name", e.target.value)}
+                          placeholder="Nhập họ và tên"
+                          required
+                          className="form-control-lg"
+                          style={{ 
+                            borderRadius: "12px", 
+                            minHeight: "50px",
+                            border: "1px solid #ddd",
+                            fontSize: "16px"
+                          }}
+                          data-testid="input-name"
+                        />
+                      </div>
+                    )}
+                    
                     <div className="mb-4">
-                      <Label htmlFor="name" className="form-label text-dark fw-medium mb-2">
-                        Họ và tên
+                      <Label htmlFor="email" className="form-label text-dark fw-medium mb-2">
+                        {mode === "forgot" ? "Email khôi phục" : "Tên đăng nhập"}
                       </Label>
                       <Input
-                        type="text"
-                        id="name"
-                        value={formData.name}
-                        onChange={(e) => handleInputChange("name", e.target.value)}
-                        placeholder="Nhập họ và tên"
+                        type={mode === "login" ? "text" : "email"}
+                        id="email"
+                        value={formData.email}
+                        onChange={(e) => handleInputChange("email", e.target.value)}
+                        placeholder={mode === "forgot" ? "Nhập email của bạn" : mode === "login" ? "Email hoặc số điện thoại" : "Nhập tên đăng nhập"}
                         required
                         className="form-control-lg"
                         style={{ 
@@ -85,120 +247,98 @@ export default function AuthPage() {
                           border: "1px solid #ddd",
                           fontSize: "16px"
                         }}
-                        data-testid="input-name"
+                        data-testid="input-email"
                       />
                     </div>
-                  )}
-                  
-                  <div className="mb-4">
-                    <Label htmlFor="email" className="form-label text-dark fw-medium mb-2">
-                      {mode === "forgot" ? "Email khôi phục" : "Tên đăng nhập"}
-                    </Label>
-                    <Input
-                      type="email"
-                      id="email"
-                      value={formData.email}
-                      onChange={(e) => handleInputChange("email", e.target.value)}
-                      placeholder={mode === "forgot" ? "Nhập email của bạn" : "Nhập tên đăng nhập"}
-                      required
-                      className="form-control-lg"
+                    
+                    {mode !== "forgot" && (
+                      <div className="mb-4">
+                        <Label htmlFor="password" className="form-label text-dark fw-medium mb-2">
+                          Mật khẩu
+                        </Label>
+                        <Input
+                          type="password"
+                          id="password"
+                          value={formData.password}
+                          onChange={(e) => handleInputChange("password", e.target.value)}
+                          placeholder="Nhập mật khẩu"
+                          required
+                          className="form-control-lg"
+                          style={{ 
+                            borderRadius: "12px", 
+                            minHeight: "50px",
+                            border: "1px solid #ddd",
+                            fontSize: "16px"
+                          }}
+                          data-testid="input-password"
+                        />
+                      </div>
+                    )}
+
+                    {mode === "login" && (
+                      <div className="d-flex justify-content-between mb-4">
+                        <button
+                          type="button"
+                          className="btn btn-link p-0 text-decoration-none"
+                          style={{ color: "#43B0A5", fontSize: "14px" }}
+                          onClick={() => setMode("forgot")}
+                          data-testid="link-forgot-password"
+                        >
+                          Quên mật khẩu?
+                        </button>
+                        <button
+                          type="button"
+                          className="btn btn-link p-0 text-decoration-none"
+                          style={{ color: "#43B0A5", fontSize: "14px" }}
+                          onClick={() => setMode("register")}
+                          data-testid="link-register"
+                        >
+                          Đăng ký mới
+                        </button>
+                      </div>
+                    )}
+                    
+                    {(mode === "register" || mode === "forgot") && (
+                      <div className="text-center mb-4">
+                        <button
+                          type="button"
+                          className="btn btn-link p-0 text-decoration-none"
+                          style={{ color: "#43B0A5", fontSize: "14px" }}
+                          onClick={() => setMode("login")}
+                          data-testid="link-back-to-login"
+                        >
+                          ← Quay lại đăng nhập
+                        </button>
+                      </div>
+                    )}
+                    
+                    <Button 
+                      type="submit" 
+                      className="w-100"
                       style={{ 
+                        backgroundColor: "#43B0A5",
+                        border: "none",
                         borderRadius: "12px", 
                         minHeight: "50px",
-                        border: "1px solid #ddd",
-                        fontSize: "16px"
+                        fontSize: "16px",
+                        fontWeight: "600"
                       }}
-                      data-testid="input-email"
-                    />
-                  </div>
-                  
-                  {mode !== "forgot" && (
-                    <div className="mb-4">
-                      <Label htmlFor="password" className="form-label text-dark fw-medium mb-2">
-                        Mật khẩu
-                      </Label>
-                      <Input
-                        type="password"
-                        id="password"
-                        value={formData.password}
-                        onChange={(e) => handleInputChange("password", e.target.value)}
-                        placeholder="Nhập mật khẩu"
-                        required
-                        className="form-control-lg"
-                        style={{ 
-                          borderRadius: "12px", 
-                          minHeight: "50px",
-                          border: "1px solid #ddd",
-                          fontSize: "16px"
-                        }}
-                        data-testid="input-password"
-                      />
-                    </div>
-                  )}
-
-                  {mode === "login" && (
-                    <div className="d-flex justify-content-between mb-4">
-                      <button
-                        type="button"
-                        className="btn btn-link p-0 text-decoration-none"
-                        style={{ color: "#43B0A5", fontSize: "14px" }}
-                        onClick={() => setMode("forgot")}
-                        data-testid="link-forgot-password"
-                      >
-                        Quên mật khẩu?
-                      </button>
-                      <button
-                        type="button"
-                        className="btn btn-link p-0 text-decoration-none"
-                        style={{ color: "#43B0A5", fontSize: "14px" }}
-                        onClick={() => setMode("register")}
-                        data-testid="link-register"
-                      >
-                        Đăng ký mới
-                      </button>
-                    </div>
-                  )}
-                  
-                  {(mode === "register" || mode === "forgot") && (
-                    <div className="text-center mb-4">
-                      <button
-                        type="button"
-                        className="btn btn-link p-0 text-decoration-none"
-                        style={{ color: "#43B0A5", fontSize: "14px" }}
-                        onClick={() => setMode("login")}
-                        data-testid="link-back-to-login"
-                      >
-                        ← Quay lại đăng nhập
-                      </button>
-                    </div>
-                  )}
-                  
-                  <Button 
-                    type="submit" 
-                    className="w-100"
-                    style={{ 
-                      backgroundColor: "#43B0A5",
-                      border: "none",
-                      borderRadius: "12px", 
-                      minHeight: "50px",
-                      fontSize: "16px",
-                      fontWeight: "600"
-                    }}
-                    disabled={loginMutation.isPending || registerMutation.isPending}
-                    data-testid="button-submit"
-                  >
-                    {loginMutation.isPending || registerMutation.isPending ? 
-                      (
-                        mode === "login" ? "Đang đăng nhập..." : 
-                        mode === "register" ? "Đang đăng ký..." : "Đang xử lý..."
-                      ) : 
-                      (
-                        mode === "login" ? "Đăng nhập" : 
-                        mode === "register" ? "Đăng ký" : "Gửi yêu cầu"
-                      )
-                    }
-                  </Button>
-                </form>
+                      disabled={loginMutation.isPending || registerMutation.isPending}
+                      data-testid="button-submit"
+                    >
+                      {loginMutation.isPending || registerMutation.isPending ? 
+                        (
+                          mode === "login" ? "Đang đăng nhập..." : 
+                          mode === "register" ? "Đang đăng ký..." : "Đang xử lý..."
+                        ) : 
+                        (
+                          mode === "login" ? "Đăng nhập" : 
+                          mode === "register" ? "Đăng ký" : "Gửi yêu cầu"
+                        )
+                      }
+                    </Button>
+                  </form>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -1,12 +1,60 @@
 import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
-import { BsBuilding as Building, BsSpeedometer2 as Speedometer2, BsCreditCard as CreditCard, BsPeople as People, BsCashStack as CashStack, BsGear as Gear, BsBoxArrowRight as BoxArrowRight } from "react-icons/bs";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { BsBuilding as Building, BsSpeedometer2 as Speedometer2, BsCreditCard as CreditCard, BsPeople as People, BsCashStack as CashStack, BsGear as Gear, BsShieldLock as ShieldLock, BsQrCodeScan as QrCodeScan, BsCalendarCheck as CalendarCheck, BsJournalCheck as JournalCheck, BsBoxArrowRight as BoxArrowRight } from "react-icons/bs";
 import DashboardTab from "@/components/dashboard-tab";
 import CardsTab from "@/components/cards-tab";
 import BranchesTab from "@/components/branches-tab";
 import StaffEquityTab from "@/components/staff-equity-tab";
 import CashFlowTab from "@/components/cash-flow-tab";
 import AdminTab from "@/components/admin-tab";
+import PrivacyTab from "@/components/privacy-tab";
+import CheckinTab from "@/components/checkin-tab";
+import AppointmentsTab from "@/components/appointments-tab";
+import ReconciliationTab from "@/components/reconciliation-tab";
+
+type ImpersonationStatus =
+  | { active: false }
+  | {
+      active: true;
+      startedAt: string;
+      admin: { id: string; name: string; email: string };
+      user: { id: string; name: string; email: string; role: string };
+    };
+
+// Shown while an admin is acting as a member; money-moving actions are blocked server-side
+function ImpersonationBanner() {
+  const { data } = useQuery<ImpersonationStatus>({ queryKey: ["/api/impersonation"] });
+
+  const stopMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/impersonation/stop");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+    },
+  });
+
+  if (!data?.active) return null;
+
+  return (
+    <div className="alert alert-warning rounded-0 mb-0 d-flex align-items-center justify-content-between" role="alert" data-testid="impersonation-banner">
+      <span>
+        Đang xem với tư cách <strong>{data.user.name}</strong> ({data.user.email}) — quản trị viên {data.admin.name}.
+        Nạp, rút tiền và mua thẻ bị khóa trong chế độ này.
+      </span>
+      <button
+        className="btn btn-sm btn-dark"
+        onClick={() => stopMutation.mutate()}
+        disabled={stopMutation.isPending}
+        data-testid="button-stop-impersonation"
+      >
+        Thoát chế độ xem
+      </button>
+    </div>
+  );
+}
 
 export default function HomePage() {
   const { user, logoutMutation } = useAuth();
@@ -19,9 +67,13 @@ export default function HomePage() {
   const tabs = [
     { id: "dashboard", label: "Bảng điều khiển", icon: Speedometer2, component: DashboardTab },
     { id: "cards", label: "Thẻ & Ưu đãi", icon: CreditCard, component: CardsTab },
+    { id: "appointments", label: "Lịch hẹn", icon: CalendarCheck, component: AppointmentsTab },
+    { id: "checkin", label: "Check-in QR", icon: QrCodeScan, component: CheckinTab },
     { id: "branches", label: "Chi nhánh & KPI", icon: Building, component: BranchesTab },
     { id: "staff", label: "Nhân sự & Cổ phần", icon: People, component: StaffEquityTab },
     { id: "cashflow", label: "Dòng tiền & Giao dịch", icon: CashStack, component: CashFlowTab },
+    { id: "reconciliation", label: "Đối soát ngân hàng", icon: JournalCheck, component: ReconciliationTab, accountingOnly: true },
+    { id: "privacy", label: "Quyền riêng tư", icon: ShieldLock, component: PrivacyTab },
     { id: "admin", label: "Quản trị hệ thống", icon: Gear, component: AdminTab, adminOnly: true },
   ];
 
@@ -29,18 +81,21 @@ export default function HomePage() {
     if (user?.role === "admin") {
       return tabs; // Admins see all tabs
     } else if (user?.role === "customer") {
-      // Customers see tabs 1, 2, 5 (dashboard, cards, cashflow)
-      return tabs.filter(tab => ["dashboard", "cards", "cashflow"].includes(tab.id));
+      // Customers see dashboard, cards, appointments, cashflow and their privacy settings
+      return tabs.filter(tab => ["dashboard", "cards", "appointments", "cashflow", "privacy"].includes(tab.id));
     } else {
-      // Other roles see all except admin
-      return tabs.filter(tab => !tab.adminOnly);
+      // Other roles see all except admin; reconciliation is for accountants
+      return tabs.filter(tab => !tab.adminOnly && (!tab.accountingOnly || user?.role === "accountant"));
     }
   };
 
   const visibleTabs = getVisibleTabs();
+  // The user can change underneath us (impersonation start/stop), hiding the open tab
+  const currentTab = visibleTabs.some(tab => tab.id === activeTab) ? activeTab : "dashboard";
 
   return (
     <div className="min-h-screen bg-white">
+      <ImpersonationBanner />
       {/* Navigation Header */}
       <nav className="navbar navbar-expand-lg bg-white border-bottom sticky-top">
         <div className="container-fluid">
@@ -69,7 +124,7 @@ export default function HomePage() {
             return (
               <li className="nav-item" role="presentation" key={tab.id}>
                 <button
-                  className={`nav-link ${activeTab === tab.id ? "active" : ""} d-flex flex-column flex-md-row align-items-center`}
+                  className={`nav-link ${currentTab === tab.id ? "active" : ""} d-flex flex-column flex-md-row align-items-center`}
                   type="button"
                   role="tab"
                   onClick={() => setActiveTab(tab.id)}
@@ -91,11 +146,11 @@ export default function HomePage() {
             return (
               <div
                 key={tab.id}
-                className={`tab-pane fade ${activeTab === tab.id ? "show active" : ""}`}
+                className={`tab-pane fade ${currentTab === tab.id ? "show active" : ""}`}
                 role="tabpanel"
                 data-testid={`tabpanel-${tab.id}`}
               >
-                {activeTab === tab.id && <TabComponent />}
+                {currentTab === tab.id && <TabComponent />}
               </div>
             );
           })}
@@ -0,0 +1,155 @@
+import { test, mock, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import type { LoginThrottle, User } from "@shared/schema";
+import { storage } from "./storage";
+import { setupAuth, hashPassword } from "./auth";
+import { setThrottleStore, type ThrottleStore } from "./login-throttle";
+import { generateTotpCode, generateTotpSecret } from "./totp";
+
+// Two-factor sign-in over HTTP, with the storage calls it makes answered in memory
+
+const PASSWORD = "correct horse battery staple";
+const SECRET = generateTotpSecret();
+let user: User;
+let throttles: Map<string, LoginThrottle>;
+let lastStep: number | null;
+let configs: Record<string, string>;
+let baseUrl: string;
+let server: Server;
+
+const memoryThrottleStore: ThrottleStore = {
+  get: async (keys) => keys.flatMap(key => throttles.has(key) ? [throttles.get(key)!] : []),
+  reserveAttempt: async (key, windowStart) => {
+    const now = new Date();
+    const row = throttles.get(key);
+    const stale = !row || (row.lastFailureAt ?? row.updatedAt!) < windowStart || (row.lockedUntil && row.lockedUntil < now);
+    const next = { key, failures: stale ? 1 : row.failures + 1, lastFailureAt: row?.lastFailureAt ?? null, lockedUntil: stale ? null : row.lockedUntil, updatedAt: now };
+    throttles.set(key, next);
+    return next;
+  },
+  recordFailure: async (key) => {
+    const row = throttles.get(key);
+    if (row) row.lastFailureAt = new Date();
+  },
+  releaseAttempt: async (key) => {
+    const row = throttles.get(key);
+    if (row) row.failures = Math.max(row.failures - 1, 0);
+  },
+  lock: async (key, lockedUntil) => {
+    const row = throttles.get(key);
+    if (row) row.lockedUntil = lockedUntil;
+  },
+  clear: async (keys) => {
+    for (const key of keys) throttles.delete(key);
+  },
+};
+
+before(async () => {
+  user = {
+    id: "user-2fa", email: "member@example.com", phone: null, password: await hashPassword(PASSWORD),
+    role: "customer", name: "Member", status: "active", refCode: null, businessTier: null,
+    investmentAmount: "0", totalShares: "0", vcaDigitalShare: "0", maxoutReached: false, inheritanceRight: false,
+    twoFactorEnabled: true, twoFactorSecret: SECRET, twoFactorBackupCodes: "[]", twoFactorLastStep: null,
+    tokensRevokedAt: null, closedAt: null, createdAt: new Date(), updatedAt: new Date(),
+  };
+
+  setThrottleStore(memoryThrottleStore);
+  mock.method(storage, "reserveLoginAttempt", memoryThrottleStore.reserveAttempt);
+  mock.method(storage, "getUserByEmail", async (email: string) => email === user.email ? user : undefined);
+  mock.method(storage, "getUser", async (id: string) => id === user.id ? { ...user, twoFactorLastStep: lastStep } : undefined);
+  mock.method(storage, "getUserRoles", async () => []);
+  mock.method(storage, "getSystemConfig", async (key: string) => key in configs ? { configKey: key, configValue: configs[key] } : undefined);
+  mock.method(storage, "claimTwoFactorStep", async (_userId: string, step: number) => {
+    if (lastStep !== null && lastStep >= step) return false;
+    lastStep = step;
+    return true;
+  });
+  mock.method(storage, "createRefreshToken", async (record: object) => record);
+
+  process.env.SESSION_SECRET ??= "test-session-secret";
+  const app = express();
+  app.use(express.json());
+  setupAuth(app);
+  server = app.listen(0);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+  mock.restoreAll();
+});
+
+beforeEach(() => {
+  throttles = new Map();
+  lastStep = null;
+  // No progressive delay between attempts; lockout thresholds set per test
+  configs = { login_delay_base_seconds: "0", login_max_failures_account: "100", login_max_failures_ip: "100" };
+});
+
+async function post(path: string, body: object) {
+  const res = await fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+async function challenge(): Promise<string> {
+  const res = await post("/api/auth/login", { email: user.email, password: PASSWORD });
+  assert.equal(res.status, 200);
+  assert.equal(res.body.twoFactorRequired, true);
+  return res.body.challengeToken;
+}
+
+function wrongCode(): string {
+  const current = generateTotpCode(SECRET);
+  return current === "000000" ? "111111" : "000000";
+}
+
+test("a correct code completes the sign-in with a token pair", async () => {
+  const res = await post("/api/auth/login/2fa", { challengeToken: await challenge(), code: generateTotpCode(SECRET) });
+  assert.equal(res.status, 200);
+  assert.ok(res.body.token);
+  assert.ok(res.body.refreshToken);
+});
+
+test("a challenge stops accepting codes after five attempts", async () => {
+  const challengeToken = await challenge();
+  for (let i = 0; i < 5; i++) {
+    const res = await post("/api/auth/login/2fa", { challengeToken, code: wrongCode() });
+    assert.equal(res.status, 401);
+    assert.equal(res.body.message, "Invalid verification code");
+  }
+
+  const res = await post("/api/auth/login/2fa", { challengeToken, code: generateTotpCode(SECRET) });
+  assert.equal(res.status, 401);
+  assert.equal(res.body.message, "Two-factor challenge expired, please sign in again");
+});
+
+test("a code that signed in once is refused on a new challenge", async () => {
+  const code = generateTotpCode(SECRET);
+  assert.equal((await post("/api/auth/login/2fa", { challengeToken: await challenge(), code })).status, 200);
+
+  const replay = await post("/api/auth/login/2fa", { challengeToken: await challenge(), code });
+  assert.equal(replay.status, 401);
+});
+
+test("wrong codes across fresh challenges lock the account", async () => {
+  configs.login_max_failures_account = "3";
+  for (let i = 0; i < 3; i++) {
+    assert.equal((await post("/api/auth/login/2fa", { challengeToken: await challenge(), code: wrongCode() })).status, 401);
+  }
+
+  const res = await post("/api/auth/login/2fa", { challengeToken: await challenge(), code: generateTotpCode(SECRET) });
+  assert.equal(res.status, 429);
+  assert.equal(res.body.locked, true);
+});
+
+test("enrolment refuses an account that already has two-factor enabled", async () => {
+  const res = await post("/api/2fa/enable", { challengeToken: await challenge(), code: generateTotpCode(SECRET) });
+  assert.equal(res.status, 400);
+});
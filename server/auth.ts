@@ -1,13 +1,17 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import { Strategy as JwtStrategy, ExtractJwt } from "passport-jwt";
-import { Express } from "express";
+import { Express, Request, Response, NextFunction } from "express";
 import session from "express-session";
 import jwt from "jsonwebtoken";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, timingSafeEqual, createHash, randomUUID } from "crypto";
 import { promisify } from "util";
+import QRCode from "qrcode";
 import { storage } from "./storage";
-import { User as SelectUser, Role } from "@shared/schema";
+import { User as SelectUser, Role, twoFactorCodeSchema } from "@shared/schema";
+import { generateTotpSecret, matchTotpStep, buildOtpAuthUrl, generateBackupCodes } from "./totp";
+import { loginThrottle } from "./login-throttle";
+import { blockWhileImpersonating } from "./middleware";
 
 declare global {
   namespace Express {
@@ -15,22 +19,47 @@ declare global {
       roles?: Role[];
       padToken?: number;
     }
+
+    interface Request {
+      // Real admin while "act as user" is active; req.user is then the impersonated member
+      impersonator?: User;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    impersonation?: {
+      adminId: string;
+      userId: string;
+      startedAt: string;
+    };
   }
 }
 
 // JWT Secret - should be in environment variables
 const JWT_SECRET = process.env.JWT_SECRET || process.env.SESSION_SECRET || 'your-secret-key';
-const JWT_EXPIRES_IN = '24h';
+const JWT_EXPIRES_IN = '15m';
+
+// Opaque refresh tokens, rotated on every use (see /api/auth/refresh)
+const REFRESH_TOKEN_TTL_DAYS = 30;
+
+// Short-lived token proving the password step passed; only accepted by the 2FA endpoints
+const TWO_FACTOR_CHALLENGE_SECRET = `${JWT_SECRET}:2fa-challenge`;
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '10m';
+const TWO_FACTOR_CHALLENGE_TTL_MS = 10 * 60 * 1000;
+// Codes a single challenge accepts before the password has to be entered again
+const TWO_FACTOR_CHALLENGE_MAX_ATTEMPTS = 5;
 
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
+export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
@@ -55,6 +84,82 @@ export function verifyJWT(token: string): any {
   return jwt.verify(token, JWT_SECRET);
 }
 
+// Access tokens die with the account, or when issued before a logout-everywhere / role change
+export async function isAccessTokenRevoked(payload: any): Promise<boolean> {
+  const user = await storage.getUser(payload.id);
+  if (!user || user.status !== "active") return true;
+  if (!user.tokensRevokedAt) return false;
+  return payload.iat < Math.floor(new Date(user.tokensRevokedAt).getTime() / 1000);
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function newRefreshToken(req: Request, userId: string, familyId: string) {
+  const token = randomBytes(48).toString("base64url");
+  return {
+    token,
+    record: {
+      userId,
+      familyId,
+      tokenHash: hashToken(token),
+      deviceName: (req.body?.deviceName || req.get("User-Agent") || "").slice(0, 200) || null,
+      ipAddress: req.ip || null,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+    },
+  };
+}
+
+function generateTwoFactorChallenge(userId: string): string {
+  return jwt.sign({ id: userId }, TWO_FACTOR_CHALLENGE_SECRET, { expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN, jwtid: randomUUID() });
+}
+
+function verifyTwoFactorChallenge(token: unknown): { userId: string; challengeId: string } | null {
+  if (typeof token !== "string") return null;
+  try {
+    const payload = jwt.verify(token, TWO_FACTOR_CHALLENGE_SECRET) as any;
+    return payload.id && payload.jti ? { userId: payload.id, challengeId: payload.jti } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Counts a code submitted against a challenge; false once the challenge has used up its attempts
+async function takeTwoFactorChallengeAttempt(challengeId: string): Promise<boolean> {
+  const attempt = await storage.reserveLoginAttempt(`2fa-challenge:${challengeId}`, new Date(Date.now() - TWO_FACTOR_CHALLENGE_TTL_MS));
+  return attempt.failures <= TWO_FACTOR_CHALLENGE_MAX_ATTEMPTS;
+}
+
+// Roles listed in the `two_factor_required_roles` system config must use 2FA
+export async function isTwoFactorRequired(user: any): Promise<boolean> {
+  const config = await storage.getSystemConfig("two_factor_required_roles");
+  const requiredRoles = (config?.configValue ?? "admin,accountant")
+    .split(",")
+    .map(role => role.trim())
+    .filter(Boolean);
+  const userRoles = [user.role, ...(user.roles || []).map((r: any) => r?.name)].filter(Boolean);
+  return userRoles.some(role => requiredRoles.includes(role));
+}
+
+// Accepts a current TOTP code that has not been used yet, or consumes one of the user's backup codes
+async function verifySecondFactor(user: SelectUser, code: string): Promise<boolean> {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) return false;
+
+  const step = matchTotpStep(user.twoFactorSecret, code);
+  if (step !== null) return storage.claimTwoFactorStep(user.id, step);
+
+  const backupCodes: string[] = JSON.parse(user.twoFactorBackupCodes || "[]");
+  for (let i = 0; i < backupCodes.length; i++) {
+    if (await comparePasswords(code.toUpperCase(), backupCodes[i])) {
+      backupCodes.splice(i, 1);
+      await storage.updateUser(user.id, { twoFactorBackupCodes: JSON.stringify(backupCodes) });
+      return true;
+    }
+  }
+  return false;
+}
+
 // Load user with roles and VCA Token
 async function loadUserWithRoles(userId: string): Promise<any> {
   const user = await storage.getUser(userId);
@@ -70,6 +175,125 @@ async function loadUserWithRoles(userId: string): Promise<any> {
   };
 }
 
+// Swaps req.user for the impersonated member and audits every API call made as them
+async function applyImpersonation(req: Request, res: Response, next: NextFunction) {
+  const impersonation = req.session?.impersonation;
+  if (!impersonation || !req.user) return next();
+
+  // Session changed hands (logout/login as someone else) - drop the stale impersonation
+  if (req.user.id !== impersonation.adminId) {
+    delete req.session.impersonation;
+    return next();
+  }
+
+  try {
+    const target = await loadUserWithRoles(impersonation.userId);
+    if (!target) {
+      delete req.session.impersonation;
+      return next();
+    }
+
+    req.impersonator = req.user;
+    req.user = target;
+
+    if (req.path.startsWith("/api/")) {
+      res.on("finish", () => {
+        storage.createAuditLog({
+          userId: impersonation.adminId,
+          action: "impersonated_request",
+          entityType: "user",
+          entityId: impersonation.userId,
+          oldValue: null,
+          newValue: JSON.stringify({
+            adminId: impersonation.adminId,
+            impersonatedUserId: impersonation.userId,
+            method: req.method,
+            path: req.originalUrl,
+            statusCode: res.statusCode,
+          }),
+          ipAddress: req.ip || null,
+          userAgent: req.get("User-Agent") || null,
+        }).catch(error => console.error("Failed to audit impersonated request:", error));
+      });
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Signed-in user from the session or a valid, non-revoked Bearer JWT
+async function resolveAuthenticatedUser(req: Request): Promise<any> {
+  if (req.isAuthenticated()) {
+    return loadUserWithRoles(req.user.id);
+  }
+
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    try {
+      const decoded = verifyJWT(authHeader.substring(7));
+      if (await isAccessTokenRevoked(decoded)) return null;
+      return loadUserWithRoles(decoded.id);
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+// Signed-in user, otherwise the user behind a pending 2FA challenge
+async function resolveTwoFactorUser(req: Request): Promise<any> {
+  const user = await resolveAuthenticatedUser(req);
+  if (user) return user;
+
+  const challenge = verifyTwoFactorChallenge(req.body?.challengeToken ?? req.query.challengeToken);
+  return challenge ? loadUserWithRoles(challenge.userId) : null;
+}
+
+// Login accepts either an email address or a registered phone number
+export async function findUserByEmailOrPhone(emailOrPhone: string): Promise<SelectUser | undefined> {
+  const identifier = (emailOrPhone || "").trim();
+  if (!identifier) return undefined;
+  if (identifier.includes("@")) {
+    return storage.getUserByEmail(identifier);
+  }
+  return storage.getUserByPhone(identifier.replace(/[\s.-]/g, ""));
+}
+
+// User data returned by every auth endpoint (never includes the password hash)
+function toUserPayload(user: any) {
+  return {
+    id: user.id,
+    email: user.email,
+    phone: user.phone,
+    name: user.name,
+    role: user.role,
+    roles: user.roles,
+    padToken: user.padToken,
+    status: user.status,
+    twoFactorEnabled: !!user.twoFactorEnabled,
+  };
+}
+
+// Every login, session or JWT, answers with a short-lived access token plus a refresh token
+// starting a new family
+async function respondWithLogin(req: Request, res: Response, user: any, status: number = 200) {
+  const { token, record } = newRefreshToken(req, user.id, randomUUID());
+  await storage.createRefreshToken(record);
+  res.status(status).json({ ...toUserPayload(user), token: generateJWT(user), refreshToken: token });
+}
+
+// The static homepage posts { loginId, loginPassword }; the React client posts { email, password }
+function normalizeLoginBody(req: Request, res: Response, next: NextFunction) {
+  req.body = {
+    ...req.body,
+    email: req.body?.email ?? req.body?.loginId,
+    password: req.body?.password ?? req.body?.loginPassword,
+  };
+  next();
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET!,
@@ -88,11 +312,12 @@ export function setupAuth(app: Express) {
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(applyImpersonation);
 
   passport.use(
     new LocalStrategy({ usernameField: 'email' }, async (username, password, done) => {
-      const user = await storage.getUserByEmail(username); // Using email as username
-      if (!user || !(await comparePasswords(password, user.password))) {
+      const user = await findUserByEmailOrPhone(username);
+      if (!user || user.status !== "active" || !(await comparePasswords(password, user.password))) {
         return done(null, false);
       } else {
         return done(null, user);
@@ -106,7 +331,7 @@ export function setupAuth(app: Express) {
     secretOrKey: JWT_SECRET
   }, async (payload, done) => {
     try {
-      const user = await loadUserWithRoles(payload.id);
+      const user = await isAccessTokenRevoked(payload) ? null : await loadUserWithRoles(payload.id);
       if (user) {
         return done(null, user);
       }
@@ -123,14 +348,23 @@ export function setupAuth(app: Express) {
   });
 
   app.post("/api/register", async (req, res, next) => {
+    // The homepage partner sign-up form posts without a password; it is handled in routes.ts
+    if (!req.body.password) return next();
+
     const existingUser = await storage.getUserByEmail(req.body.email);
     if (existingUser) {
       return res.status(400).send("Username already exists");
     }
 
+    // Only the sign-up fields are taken from the form; self-registered accounts are always customers
+    const { email, name, phone, password } = req.body;
     const user = await storage.createUser({
-      ...req.body,
-      password: await hashPassword(req.body.password),
+      email,
+      name,
+      phone: phone || null,
+      password: await hashPassword(password),
+      role: "customer",
+      status: "active",
     });
 
     // Load user with roles
@@ -138,37 +372,85 @@ export function setupAuth(app: Express) {
     
     req.login(userWithRoles, (err) => {
       if (err) return next(err);
-      
-      const token = generateJWT(userWithRoles);
-      const userResponse = {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-        roles: userWithRoles.roles,
-        padToken: userWithRoles.padToken,
-        status: user.status,
-        token: token
-      };
-      res.status(201).json(userResponse);
+      respondWithLogin(req, res, userWithRoles, 201).catch(next);
     });
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    // Return user data without password hash
-    const user = req.user as any;
-    const token = generateJWT(user);
-    const userResponse = {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role,
-      roles: user.roles,
-      padToken: user.padToken,
-      status: user.status,
-      token: token
-    };
-    res.status(200).json(userResponse);
+  // Wrong passwords (401) count towards the per-account and per-IP lockout
+  const passwordLoginThrottle = loginThrottle({
+    scope: "login",
+    failureStatuses: [401],
+    resolveAccount: async (req) => {
+      const loginId = typeof req.body?.email === "string" ? req.body.email : "";
+      if (!loginId) return undefined;
+      const user = await findUserByEmailOrPhone(loginId);
+      return { userId: user?.id, loginId };
+    },
+  });
+
+  // Session login (password step). /api/admin-login is the same flow restricted to admins.
+  const passwordLogin = (adminOnly: boolean) => (req: Request, res: Response, next: NextFunction) => {
+    passport.authenticate("local", { session: false }, async (err: any, authenticated: SelectUser | false) => {
+      try {
+        if (err) return next(err);
+        if (!authenticated) {
+          return res.status(401).json({ message: "Email/số điện thoại hoặc mật khẩu không đúng" });
+        }
+
+        const user = await loadUserWithRoles(authenticated.id);
+        if (adminOnly && user.role !== "admin") {
+          return res.status(403).json({ message: "Tài khoản không có quyền quản trị" });
+        }
+
+        // Password is correct; hold the session until the second factor is verified
+        if (user.twoFactorEnabled || await isTwoFactorRequired(user)) {
+          return res.status(200).json({
+            twoFactorRequired: true,
+            enrolmentRequired: !user.twoFactorEnabled,
+            challengeToken: generateTwoFactorChallenge(user.id),
+          });
+        }
+
+        req.login(user, (loginErr) => {
+          if (loginErr) return next(loginErr);
+          respondWithLogin(req, res, user).catch(next);
+        });
+      } catch (error) {
+        next(error);
+      }
+    })(req, res, next);
+  };
+
+  app.post("/api/login", normalizeLoginBody, passwordLoginThrottle, passwordLogin(false));
+  app.post("/api/admin-login", normalizeLoginBody, passwordLoginThrottle, passwordLogin(true));
+
+  // Wrong codes (401) count towards the per-account and per-IP lockout, like wrong passwords
+  const twoFactorLoginThrottle = loginThrottle({
+    scope: "2fa",
+    failureStatuses: [401],
+    resolveAccount: async (req) => {
+      const challenge = verifyTwoFactorChallenge(req.body?.challengeToken);
+      return challenge ? { userId: challenge.userId, loginId: challenge.userId } : undefined;
+    },
+  });
+
+  // Second login step for session-based login
+  app.post("/api/login/2fa", twoFactorLoginThrottle, async (req, res, next) => {
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    const challenge = verifyTwoFactorChallenge(req.body?.challengeToken);
+    if (!parsed.success || !challenge || !(await takeTwoFactorChallengeAttempt(challenge.challengeId))) {
+      return res.status(401).json({ message: "Two-factor challenge expired, please sign in again" });
+    }
+
+    const user = await loadUserWithRoles(challenge.userId);
+    if (!user || !(await verifySecondFactor(user, parsed.data.code))) {
+      return res.status(401).json({ message: "Invalid verification code" });
+    }
+
+    req.login(user, (err) => {
+      if (err) return next(err);
+      respondWithLogin(req, res, user).catch(next);
+    });
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -180,68 +462,271 @@ export function setupAuth(app: Express) {
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    // Return user data without password hash
-    const user = req.user as any;
-    const userResponse = {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role,
-      roles: user.roles,
-      padToken: user.padToken,
-      status: user.status
-    };
-    res.json(userResponse);
+    res.json(toUserPayload(req.user));
   });
 
   // JWT Login endpoint (alternative to session-based login)
-  app.post("/api/auth/login", async (req, res) => {
+  app.post("/api/auth/login", normalizeLoginBody, passwordLoginThrottle, async (req, res) => {
     try {
       const { email, password } = req.body;
-      const user = await storage.getUserByEmail(email);
+      const user = await findUserByEmailOrPhone(email);
       
-      if (!user || !(await comparePasswords(password, user.password))) {
+      if (!user || user.status !== "active" || !(await comparePasswords(password || "", user.password))) {
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
       const userWithRoles = await loadUserWithRoles(user.id);
-      const token = generateJWT(userWithRoles);
-      
-      res.json({
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-        roles: userWithRoles.roles,
-        padToken: userWithRoles.padToken,
-        status: user.status,
-        token: token
-      });
+      if (userWithRoles.twoFactorEnabled || await isTwoFactorRequired(userWithRoles)) {
+        return res.json({
+          twoFactorRequired: true,
+          enrolmentRequired: !userWithRoles.twoFactorEnabled,
+          challengeToken: generateTwoFactorChallenge(user.id),
+        });
+      }
+
+      await respondWithLogin(req, res, userWithRoles);
     } catch (error) {
       res.status(500).json({ message: "Login failed" });
     }
   });
 
-  // JWT Refresh endpoint
+  // JWT Refresh endpoint - exchanges a refresh token for a new access/refresh pair.
+  // Presenting an already-rotated token means it leaked: the whole family is revoked.
   app.post("/api/auth/refresh", async (req, res) => {
     try {
-      const { token } = req.body;
-      const decoded = verifyJWT(token);
-      const userWithRoles = await loadUserWithRoles(decoded.id);
-      const newToken = generateJWT(userWithRoles);
-      
+      const { refreshToken } = req.body;
+      if (typeof refreshToken !== "string" || !refreshToken) {
+        return res.status(401).json({ message: "Invalid token" });
+      }
+
+      const current = await storage.getRefreshTokenByHash(hashToken(refreshToken));
+      if (!current) {
+        return res.status(401).json({ message: "Invalid token" });
+      }
+
+      const rejectReuse = async () => {
+        await storage.revokeRefreshTokenFamily(current.familyId);
+        await storage.createAuditLog({
+          userId: current.userId,
+          action: "refresh_token_reuse",
+          entityType: "user",
+          entityId: current.userId,
+          oldValue: null,
+          newValue: JSON.stringify({ familyId: current.familyId, deviceName: current.deviceName }),
+          ipAddress: req.ip || null,
+          userAgent: req.get("User-Agent") || null,
+        });
+        return res.status(401).json({ message: "Token reuse detected, please sign in again" });
+      };
+
+      if (current.revokedAt) {
+        return rejectReuse();
+      }
+
+      if (new Date(current.expiresAt) < new Date()) {
+        return res.status(401).json({ message: "Refresh token expired" });
+      }
+
+      const userWithRoles = await loadUserWithRoles(current.userId);
+      if (!userWithRoles || userWithRoles.status !== "active") {
+        await storage.revokeRefreshTokenFamily(current.familyId);
+        return res.status(401).json({ message: "Invalid token" });
+      }
+
+      const next = newRefreshToken(req, current.userId, current.familyId);
+      // Another request rotated the same token in the meantime
+      if (!(await storage.rotateRefreshToken(current.id, next.record))) {
+        return rejectReuse();
+      }
+
+      res.json({ ...toUserPayload(userWithRoles), token: generateJWT(userWithRoles), refreshToken: next.token });
+    } catch (error) {
+      res.status(401).json({ message: "Invalid token" });
+    }
+  });
+
+  // Ends one JWT login (the refresh token's family)
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      const { refreshToken } = req.body;
+      const current = typeof refreshToken === "string" ? await storage.getRefreshTokenByHash(hashToken(refreshToken)) : undefined;
+      if (current) {
+        await storage.revokeRefreshTokenFamily(current.familyId);
+      }
+      res.sendStatus(200);
+    } catch (error) {
+      res.status(500).json({ message: "Logout failed" });
+    }
+  });
+
+  // Signs the user out on every device: sessions, refresh tokens and outstanding access tokens
+  app.post("/api/auth/logout-all", blockWhileImpersonating, async (req, res, next) => {
+    try {
+      const user = await resolveAuthenticatedUser(req);
+      if (!user) return res.sendStatus(401);
+
+      await storage.revokeUserTokens(user.id);
+      await storage.destroyUserSessions(user.id);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "logout_all_devices",
+        entityType: "user",
+        entityId: user.id,
+        oldValue: null,
+        newValue: null,
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      req.logout((err) => {
+        if (err) return next(err);
+        res.sendStatus(200);
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Logout failed" });
+    }
+  });
+
+  // Second login step for JWT login
+  app.post("/api/auth/login/2fa", twoFactorLoginThrottle, async (req, res) => {
+    try {
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      const challenge = verifyTwoFactorChallenge(req.body?.challengeToken);
+      if (!parsed.success || !challenge || !(await takeTwoFactorChallengeAttempt(challenge.challengeId))) {
+        return res.status(401).json({ message: "Two-factor challenge expired, please sign in again" });
+      }
+
+      const userWithRoles = await loadUserWithRoles(challenge.userId);
+      if (!userWithRoles || !(await verifySecondFactor(userWithRoles, parsed.data.code))) {
+        return res.status(401).json({ message: "Invalid verification code" });
+      }
+
+      await respondWithLogin(req, res, userWithRoles);
+    } catch (error) {
+      res.status(500).json({ message: "Login failed" });
+    }
+  });
+
+  // Two-factor enrolment. Works for signed-in users and, via challengeToken,
+  // for users whose role requires 2FA but who have not enrolled yet.
+  app.get("/api/2fa/status", async (req, res) => {
+    const user = await resolveTwoFactorUser(req);
+    if (!user) return res.sendStatus(401);
+
+    res.json({
+      enabled: !!user.twoFactorEnabled,
+      required: await isTwoFactorRequired(user),
+      backupCodesRemaining: JSON.parse(user.twoFactorBackupCodes || "[]").length,
+    });
+  });
+
+  app.post("/api/2fa/setup", blockWhileImpersonating, async (req, res) => {
+    try {
+      const user = await resolveTwoFactorUser(req);
+      if (!user) return res.sendStatus(401);
+      if (user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      // A new secret starts a new sequence of time steps
+      await storage.updateUser(user.id, { twoFactorSecret: secret, twoFactorLastStep: null });
+
+      const otpauthUrl = buildOtpAuthUrl(secret, user.email);
       res.json({
-        id: userWithRoles.id,
-        email: userWithRoles.email,
-        name: userWithRoles.name,
-        role: userWithRoles.role,
-        roles: userWithRoles.roles,
-        padToken: userWithRoles.padToken,
-        status: userWithRoles.status,
-        token: newToken
+        secret,
+        otpauthUrl,
+        qrCode: await QRCode.toDataURL(otpauthUrl),
       });
     } catch (error) {
-      res.status(401).json({ message: "Invalid token" });
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  // Codes submitted with a challengeToken count against the challenge like a 2FA sign-in, and wrong
+  // codes (401) against the same lockout
+  app.post("/api/2fa/enable", blockWhileImpersonating, twoFactorLoginThrottle, async (req, res) => {
+    try {
+      let user = await resolveAuthenticatedUser(req);
+      if (!user) {
+        const challenge = verifyTwoFactorChallenge(req.body?.challengeToken);
+        if (!challenge || !(await takeTwoFactorChallengeAttempt(challenge.challengeId))) {
+          return res.status(401).json({ message: "Two-factor challenge expired, please sign in again" });
+        }
+        user = await loadUserWithRoles(challenge.userId);
+        if (!user) return res.sendStatus(401);
+      }
+      if (user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      // The enrolment code is claimed like a sign-in code, so it cannot be replayed
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      const step = parsed.success && user.twoFactorSecret ? matchTotpStep(user.twoFactorSecret, parsed.data.code) : null;
+      if (step === null || !(await storage.claimTwoFactorStep(user.id, step))) {
+        return res.status(401).json({ message: "Invalid verification code" });
+      }
+
+      // Backup codes are only shown once; store hashes like passwords
+      const backupCodes = generateBackupCodes();
+      const hashedCodes = await Promise.all(backupCodes.map(code => hashPassword(code)));
+      await storage.updateUser(user.id, {
+        twoFactorEnabled: true,
+        twoFactorBackupCodes: JSON.stringify(hashedCodes),
+      });
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "two_factor_enabled",
+        entityType: "user",
+        entityId: user.id,
+        oldValue: null,
+        newValue: null,
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.json({ enabled: true, backupCodes });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/2fa/disable", blockWhileImpersonating, async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+      const user = await loadUserWithRoles(req.user.id);
+
+      if (await isTwoFactorRequired(user)) {
+        return res.status(403).json({ message: "Two-factor authentication is mandatory for your role" });
+      }
+
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success || !(await verifySecondFactor(user, parsed.data.code))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      await storage.updateUser(user.id, {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorBackupCodes: null,
+      });
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "two_factor_disabled",
+        entityType: "user",
+        entityId: user.id,
+        oldValue: null,
+        newValue: null,
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.json({ enabled: false });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
     }
   });
 }
@@ -0,0 +1,516 @@
+import { inflateRawSync } from "zlib";
+import { createHash } from "crypto";
+import type { Transaction } from "@shared/schema";
+import { parsePaymentMemo } from "./bank-transfers";
+
+// Bank statement import for reconciliation. Statements come as CSV or Excel (.xlsx) exports from
+// internet banking; every bank titles its columns differently, so a format lists the header titles
+// each field goes by. Titles are compared without diacritics or case, and bilingual titles such
+// as "Nợ/Debit" match on either half.
+
+export interface BankStatementFormat {
+  id: string;
+  name: string;
+  columns: {
+    date: string[];
+    memo: string[];
+    credit?: string[]; // Money in
+    debit?: string[]; // Money out
+    amount?: string[]; // Signed amount, for exports with a single amount column
+    reference?: string[];
+  };
+}
+
+export interface ParsedStatementLine {
+  lineNumber: number; // Row in the file, for pointing accountants back at the source
+  transactionDate: Date;
+  amount: number; // Positive for money in, negative for money out
+  memo: string;
+  bankReference: string | null;
+}
+
+export const BANK_STATEMENT_FORMATS: BankStatementFormat[] = [
+  {
+    id: "vietcombank",
+    name: "Vietcombank",
+    columns: {
+      date: ["ngay giao dich", "ngay gd", "transaction date"],
+      reference: ["so tham chieu", "reference no", "so ct"],
+      debit: ["so tien ghi no", "ghi no", "debit"],
+      credit: ["so tien ghi co", "ghi co", "credit"],
+      memo: ["mo ta", "noi dung", "description", "dien giai"],
+    },
+  },
+  {
+    id: "techcombank",
+    name: "Techcombank",
+    columns: {
+      date: ["ngay giao dich", "transaction date", "ngay"],
+      reference: ["so giao dich", "ma giao dich", "transaction no", "reference"],
+      debit: ["no", "debit", "ghi no"],
+      credit: ["co", "credit", "ghi co"],
+      memo: ["dien giai", "noi dung", "description"],
+    },
+  },
+  {
+    id: "bidv",
+    name: "BIDV",
+    columns: {
+      date: ["ngay hieu luc", "ngay giao dich", "ngay gd"],
+      reference: ["so but toan", "so tham chieu", "ma giao dich"],
+      debit: ["ghi no", "so tien ghi no", "phat sinh no"],
+      credit: ["ghi co", "so tien ghi co", "phat sinh co"],
+      memo: ["mo ta giao dich", "mo ta", "noi dung giao dich", "noi dung"],
+    },
+  },
+  {
+    id: "vietinbank",
+    name: "VietinBank",
+    columns: {
+      date: ["ngay giao dich", "ngay gd", "thoi gian giao dich"],
+      reference: ["so giao dich", "so tham chieu", "so ct"],
+      debit: ["ghi no", "so tien ghi no", "no"],
+      credit: ["ghi co", "so tien ghi co", "co"],
+      memo: ["mo ta giao dich", "noi dung giao dich", "mo ta", "noi dung"],
+    },
+  },
+  {
+    id: "mbbank",
+    name: "MB Bank",
+    columns: {
+      date: ["ngay giao dich", "ngay gd", "transaction date"],
+      reference: ["so but toan", "so tham chieu", "ma giao dich"],
+      debit: ["so tien ghi no", "ghi no", "debit"],
+      credit: ["so tien ghi co", "ghi co", "credit"],
+      memo: ["noi dung chi tiet", "noi dung", "mo ta", "description"],
+    },
+  },
+  {
+    id: "acb",
+    name: "ACB",
+    columns: {
+      date: ["ngay hieu luc", "ngay giao dich", "ngay gd"],
+      reference: ["so gd", "so giao dich", "so tham chieu"],
+      debit: ["rut ra", "ghi no", "so tien rut"],
+      credit: ["gui vao", "ghi co", "so tien gui"],
+      memo: ["noi dung", "dien giai", "mo ta"],
+    },
+  },
+  {
+    id: "tpbank",
+    name: "TPBank",
+    columns: {
+      date: ["ngay giao dich", "ngay gd", "ngay thuc hien"],
+      reference: ["ma giao dich", "so tham chieu", "so giao dich"],
+      debit: ["so tien ghi no", "ghi no", "tien ra"],
+      credit: ["so tien ghi co", "ghi co", "tien vao"],
+      memo: ["mo ta", "noi dung", "dien giai"],
+    },
+  },
+  {
+    id: "generic",
+    name: "Khác (Ngày, Số tiền, Nội dung)",
+    columns: {
+      date: ["ngay", "date", "ngay giao dich"],
+      reference: ["ma giao dich", "reference", "so tham chieu"],
+      amount: ["so tien", "amount"],
+      memo: ["noi dung", "description", "memo", "mo ta"],
+    },
+  },
+];
+
+// Header rows are searched for among the first rows; exports start with a title block
+const HEADER_SEARCH_ROWS = 30;
+const MAX_STATEMENT_LINES = 5000;
+
+function normalizeHeader(text: string): string {
+  return text
+    .normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/đ/g, "d").replace(/Đ/g, "D")
+    .toLowerCase()
+    .replace(/[()\[\]:.*]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function headerMatches(cell: string, aliases: string[] | undefined): boolean {
+  if (!aliases) return false;
+  const normalized = normalizeHeader(cell);
+  const parts = [normalized, ...normalized.split("/").map(part => part.trim())];
+  return parts.some(part => aliases.includes(part));
+}
+
+interface ColumnIndexes {
+  headerRow: number;
+  date: number;
+  memo: number;
+  credit: number;
+  debit: number;
+  amount: number;
+  reference: number;
+}
+
+function findColumns(rows: string[][], format: BankStatementFormat): ColumnIndexes | undefined {
+  for (let rowIndex = 0; rowIndex < Math.min(rows.length, HEADER_SEARCH_ROWS); rowIndex++) {
+    const row = rows[rowIndex];
+    const find = (aliases?: string[]) => row.findIndex(cell => headerMatches(cell, aliases));
+    const columns = {
+      headerRow: rowIndex,
+      date: find(format.columns.date),
+      memo: find(format.columns.memo),
+      credit: find(format.columns.credit),
+      debit: find(format.columns.debit),
+      amount: find(format.columns.amount),
+      reference: find(format.columns.reference),
+    };
+    if (columns.date >= 0 && columns.memo >= 0 && (columns.credit >= 0 || columns.amount >= 0)) {
+      return columns;
+    }
+  }
+  return undefined;
+}
+
+// "1.500.000", "1,500,000", "1 500 000,50", "-200000" and "(200,000)" all occur in exports
+export function parseStatementAmount(value: string): number | null {
+  let text = value.replace(/[\s\u00a0]|VND|đ/gi, "");
+  if (!text) return null;
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  if (text.startsWith("-")) {
+    sign = -sign;
+    text = text.slice(1);
+  } else if (text.startsWith("+")) {
+    text = text.slice(1);
+  }
+
+  const lastDot = text.lastIndexOf(".");
+  const lastComma = text.lastIndexOf(",");
+  if (lastDot >= 0 && lastComma >= 0) {
+    // Whichever separator comes last is the decimal one
+    const decimal = lastDot > lastComma ? "." : ",";
+    const thousands = decimal === "." ? "," : ".";
+    text = text.split(thousands).join("").replace(decimal, ".");
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const separator = lastDot >= 0 ? "." : ",";
+    const groups = text.split(separator);
+    // Groups of three digits after every separator mean thousands, otherwise a decimal part
+    const isThousands = groups.length > 2 || groups[groups.length - 1].length === 3;
+    text = isThousands ? groups.join("") : groups.join(".");
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+  return sign * parseFloat(text);
+}
+
+// Vietnamese exports use day-first dates; Excel cells may also hold a serial day number
+export function parseStatementDate(value: string): Date | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const serial = parseFloat(text);
+    if (serial < 20000 || serial > 80000) return null;
+    // Days since 1899-12-30, read as Vietnam time
+    const utc = new Date(Math.round((serial - 25569) * 86400 * 1000));
+    return new Date(utc.getTime() - 7 * 3600 * 1000);
+  }
+
+  const dayFirst = /^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/.exec(text);
+  const isoLike = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/.exec(text);
+  const parts = dayFirst
+    ? { year: dayFirst[3], month: dayFirst[2], day: dayFirst[1], hour: dayFirst[4], minute: dayFirst[5], second: dayFirst[6] }
+    : isoLike
+      ? { year: isoLike[1], month: isoLike[2], day: isoLike[3], hour: isoLike[4], minute: isoLike[5], second: isoLike[6] }
+      : undefined;
+  if (!parts) return null;
+
+  const pad = (part: string | undefined) => (part || "0").padStart(2, "0");
+  const date = new Date(`${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}+07:00`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function detectStatementFormat(rows: string[][]): BankStatementFormat | undefined {
+  return BANK_STATEMENT_FORMATS.find(format => findColumns(rows, format));
+}
+
+// Turns the statement's rows into lines. Rows without a date or amount (opening balance,
+// subtotals, the footer) are skipped.
+export function parseStatementRows(rows: string[][], format: BankStatementFormat): ParsedStatementLine[] {
+  const columns = findColumns(rows, format);
+  if (!columns) {
+    throw new Error(`Không tìm thấy dòng tiêu đề theo mẫu sao kê ${format.name}`);
+  }
+
+  const lines: ParsedStatementLine[] = [];
+  for (let rowIndex = columns.headerRow + 1; rowIndex < rows.length; rowIndex++) {
+    const row = rows[rowIndex];
+    const cell = (index: number) => (index >= 0 ? (row[index] || "").trim() : "");
+
+    const transactionDate = parseStatementDate(cell(columns.date));
+    if (!transactionDate) continue;
+
+    let amount: number | null;
+    if (columns.amount >= 0) {
+      amount = parseStatementAmount(cell(columns.amount));
+    } else {
+      const credit = parseStatementAmount(cell(columns.credit)) || 0;
+      const debit = parseStatementAmount(cell(columns.debit)) || 0;
+      amount = Math.abs(credit) - Math.abs(debit);
+    }
+    if (!amount) continue;
+
+    lines.push({
+      lineNumber: rowIndex + 1,
+      transactionDate,
+      amount,
+      memo: cell(columns.memo).replace(/\s+/g, " "),
+      bankReference: cell(columns.reference) || null,
+    });
+    if (lines.length > MAX_STATEMENT_LINES) {
+      throw new Error(`Sao kê vượt quá ${MAX_STATEMENT_LINES} dòng, vui lòng chia nhỏ theo kỳ`);
+    }
+  }
+  return lines;
+}
+
+// Identifies a statement line across imports, so the same statement (or an overlapping period)
+// imported twice is flagged instead of counted again
+export function statementLineFingerprint(line: ParsedStatementLine, accountNumber: string | null): string {
+  const day = line.transactionDate.toISOString().slice(0, 10);
+  const memo = normalizeHeader(line.memo).replace(/[^a-z0-9]/g, "");
+  return createHash("sha256")
+    .update([accountNumber || "", day, line.amount.toFixed(2), line.bankReference || "", memo].join("|"))
+    .digest("hex");
+}
+
+// Money in is matched against income, deposits and investments, money out against the rest
+export function transactionDirection(transaction: Pick<Transaction, "type">): "in" | "out" {
+  return ["income", "deposit", "invest"].includes(transaction.type) ? "in" : "out";
+}
+
+// Withdrawals are paid out net of tax, so either figure may show on the statement
+export function transactionStatementAmounts(transaction: Pick<Transaction, "type" | "amount" | "taxAmount">): number[] {
+  const amount = Math.round(parseFloat(transaction.amount));
+  const tax = Math.round(parseFloat(transaction.taxAmount || "0"));
+  return transaction.type === "withdraw" && tax > 0 ? [amount, amount - tax] : [amount];
+}
+
+const DAY_MS = 24 * 3600 * 1000;
+
+export interface StatementMatchCandidate {
+  transaction: Transaction;
+  sameAmount: boolean;
+  referenced: boolean; // The memo carries the transaction's payment reference
+  daysApart: number;
+}
+
+// Transactions a statement line could be, most likely first: those its memo references, then same
+// amount, then closest in date. Only transactions moving money the same way are considered.
+export function rankStatementCandidates(
+  line: { transactionDate: Date; amount: string | number; memo: string },
+  transactions: Transaction[]
+): StatementMatchCandidate[] {
+  const amount = Number(line.amount);
+  const direction = amount > 0 ? "in" : "out";
+  const reference = parsePaymentMemo(line.memo)?.reference;
+
+  return transactions
+    .filter(transaction => transactionDirection(transaction) === direction)
+    .map(transaction => ({
+      transaction,
+      sameAmount: transactionStatementAmounts(transaction).includes(Math.round(Math.abs(amount))),
+      referenced: !!reference && transaction.id.replace(/-/g, "").startsWith(reference),
+      daysApart: transaction.date ? Math.abs(new Date(transaction.date).getTime() - line.transactionDate.getTime()) / DAY_MS : Infinity,
+    }))
+    .sort((a, b) =>
+      Number(b.referenced && b.sameAmount) - Number(a.referenced && a.sameAmount)
+      || Number(b.sameAmount) - Number(a.sameAmount)
+      || a.daysApart - b.daysApart);
+}
+
+// The transaction an imported line is matched to without asking: the one its memo references for
+// the same amount, or else the only same-amount transaction within the date window. Lines with
+// several equally likely transactions are left for an accountant.
+export function findStatementMatch(
+  line: { transactionDate: Date; amount: string | number; memo: string },
+  transactions: Transaction[],
+  windowDays: number
+): Transaction | undefined {
+  const candidates = rankStatementCandidates(line, transactions).filter(candidate => candidate.sameAmount);
+  const referenced = candidates.filter(candidate => candidate.referenced);
+  if (referenced.length === 1) return referenced[0].transaction;
+
+  const inWindow = candidates.filter(candidate => candidate.daysApart <= windowDays);
+  return inWindow.length === 1 ? inWindow[0].transaction : undefined;
+}
+
+// Transactions that look entered twice: same user, type and amount within a day of each other
+export function findDuplicateTransactions(transactions: Transaction[]): Map<string, string[]> {
+  const groups = new Map<string, Transaction[]>();
+  for (const transaction of transactions) {
+    const key = [transaction.type, transaction.userId || "", Number(transaction.amount)].join("|");
+    groups.set(key, [...(groups.get(key) || []), transaction]);
+  }
+
+  const duplicates = new Map<string, string[]>();
+  for (const group of Array.from(groups.values())) {
+    for (const a of group) {
+      const others = group.filter(b => b.id !== a.id && a.date && b.date
+        && Math.abs(new Date(a.date).getTime() - new Date(b.date).getTime()) <= DAY_MS);
+      if (others.length > 0) duplicates.set(a.id, others.map(b => b.id));
+    }
+  }
+  return duplicates;
+}
+
+// ---- File reading ----
+
+export function readStatementFile(fileName: string, content: Buffer): string[][] {
+  const isZip = content.length > 4 && content.readUInt32LE(0) === 0x04034b50;
+  if (isZip) return readXlsxRows(content);
+  if (/\.xls$/i.test(fileName) || (content.length > 8 && content.readUInt32LE(0) === 0xe011cfd0)) {
+    throw new Error("Định dạng .xls cũ không được hỗ trợ, vui lòng lưu lại dưới dạng .xlsx hoặc CSV");
+  }
+  return readCsvRows(content.toString("utf8"));
+}
+
+function readCsvRows(text: string): string[][] {
+  const body = text.replace(/^\uFEFF/, "");
+  const sample = body.split(/\r?\n/).slice(0, HEADER_SEARCH_ROWS).join("\n");
+  const delimiter = [",", ";", "\t"]
+    .map(candidate => ({ candidate, count: sample.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (quoted) {
+      if (char === '"' && body[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && body[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// .xlsx is a zip of XML parts; only the shared strings and the first worksheet are needed
+function readZipEntries(content: Buffer): Map<string, Buffer> {
+  let end = -1;
+  for (let i = content.length - 22; i >= Math.max(0, content.length - 65557); i--) {
+    if (content.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("Tệp Excel bị hỏng hoặc không đúng định dạng");
+
+  const entries = new Map<string, Buffer>();
+  const count = content.readUInt16LE(end + 10);
+  let offset = content.readUInt32LE(end + 16);
+  for (let i = 0; i < count; i++) {
+    if (content.readUInt32LE(offset) !== 0x02014b50) break;
+    const method = content.readUInt16LE(offset + 10);
+    const compressedSize = content.readUInt32LE(offset + 20);
+    const nameLength = content.readUInt16LE(offset + 28);
+    const extraLength = content.readUInt16LE(offset + 30);
+    const commentLength = content.readUInt16LE(offset + 32);
+    const localOffset = content.readUInt32LE(offset + 42);
+    const name = content.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + content.readUInt16LE(localOffset + 26) + content.readUInt16LE(localOffset + 28);
+    const data = content.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) entries.set(name, data);
+    else if (method === 8) entries.set(name, inflateRawSync(data));
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function xmlText(xml: string): string {
+  const parts: string[] = [];
+  const pattern = /<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml))) parts.push(decodeXml(match[1]));
+  return parts.join("");
+}
+
+function columnIndex(cellRef: string): number {
+  const letters = /^[A-Z]+/.exec(cellRef)?.[0] || "A";
+  let index = 0;
+  for (let i = 0; i < letters.length; i++) index = index * 26 + (letters.charCodeAt(i) - 64);
+  return index - 1;
+}
+
+function readXlsxRows(content: Buffer): string[][] {
+  const entries = readZipEntries(content);
+  const sheetName = Array.from(entries.keys())
+    .filter(name => /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+    .sort((a, b) => parseInt(a.replace(/\D/g, ""), 10) - parseInt(b.replace(/\D/g, ""), 10))[0];
+  if (!sheetName) throw new Error("Tệp Excel không có trang tính");
+
+  const sharedStrings: string[] = [];
+  const sharedXml = entries.get("xl/sharedStrings.xml")?.toString("utf8") || "";
+  const stringPattern = /<si>([\s\S]*?)<\/si>/g;
+  let stringMatch: RegExpExecArray | null;
+  while ((stringMatch = stringPattern.exec(sharedXml))) sharedStrings.push(xmlText(stringMatch[1]));
+
+  const sheetXml = entries.get(sheetName)!.toString("utf8");
+  const rows: string[][] = [];
+  const rowPattern = /<row\b([^>]*)>([\s\S]*?)<\/row>/g;
+  let rowMatch: RegExpExecArray | null;
+  while ((rowMatch = rowPattern.exec(sheetXml))) {
+    const rowNumber = parseInt(/\br="(\d+)"/.exec(rowMatch[1])?.[1] || `${rows.length + 1}`, 10);
+    const row: string[] = [];
+    const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+    let cellMatch: RegExpExecArray | null;
+    while ((cellMatch = cellPattern.exec(rowMatch[2]))) {
+      const attributes = cellMatch[1];
+      const inner = cellMatch[2] || "";
+      const ref = /\br="([A-Z]+)\d+"/.exec(attributes)?.[1];
+      const type = /\bt="(\w+)"/.exec(attributes)?.[1];
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(inner)?.[1];
+      const value = type === "s" ? sharedStrings[parseInt(raw || "", 10)] || ""
+        : type === "inlineStr" ? xmlText(inner)
+        : decodeXml(raw || "");
+      row[ref ? columnIndex(ref) : row.length] = value;
+    }
+    // Keep row numbers aligned with the sheet so line numbers point at the right row
+    rows[rowNumber - 1] = Array.from(row, cell => cell || "");
+  }
+  return Array.from(rows, row => row || []);
+}
@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { paymentMemo, parsePaymentMemo } from "./bank-transfers";
+
+const ORDER_ID = "3fa85f64-5717-4562-b3fc-2c963f66afa6";
+
+test("payment memo carries the purpose prefix and order reference", () => {
+  assert.equal(paymentMemo("card_purchase", ORDER_ID), "MUATHE 3FA85F64");
+});
+
+test("references are found in memos as banks report them", () => {
+  const memos = [
+    "MUATHE 3FA85F64",
+    "CT DEN:0123 MUATHE 3FA85F64",
+    "MBVCB.1234567890.012345.NGUYEN VAN A chuyen tien MUATHE 3FA85F64",
+    "IBFT MUATHE3FA85F64 FT24123456789012",
+    "TKThe :0011004123456, tai VCB. MUATHE 3FA85F64. CT tu 190312345678 NGUYEN VAN A toi 0123456789 CONG TY VCARE",
+    "Chuyển tiền MUATHE-3fa85f64 Nguyễn Văn Á",
+  ];
+  for (const memo of memos) {
+    assert.deepEqual(parsePaymentMemo(memo), { purpose: "card_purchase", reference: "3fa85f64" }, memo);
+  }
+});
+
+test("each purpose prefix is recognised", () => {
+  assert.deepEqual(parsePaymentMemo("ACB;0123456789;NAPTIEN 0A1B2C3D"), { purpose: "deposit", reference: "0a1b2c3d" });
+  assert.deepEqual(parsePaymentMemo("TCB GD 1234 GIAHAN 0A1B2C3D"), { purpose: "card_renewal", reference: "0a1b2c3d" });
+  assert.deepEqual(parsePaymentMemo("VPB NGUYEN VAN A CHUYEN KHOAN DONHANG 0A1B2C3D"), { purpose: "order", reference: "0a1b2c3d" });
+});
+
+test("memos without a reference are not matched", () => {
+  assert.equal(parsePaymentMemo("MBVCB.1234567890.012345.NGUYEN VAN A chuyen tien"), undefined);
+  assert.equal(parsePaymentMemo("CT DEN:0123 MUATHE 3FA8"), undefined);
+  assert.equal(parsePaymentMemo(""), undefined);
+});
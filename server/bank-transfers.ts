@@ -0,0 +1,65 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { BankAccountPurpose } from "@shared/schema";
+import { vietQrMemo, normalizeTransferText } from "./vietqr";
+
+// Transfer memos and the incoming-payment webhook.
+// Every payment QR carries "<purpose prefix> <first 8 characters of the order id>" as its memo, so
+// a transfer reported by the bank can be traced back to the order it pays for. Banks prepend
+// their own text and may drop the space, so the reference is searched for anywhere in the memo.
+
+// The webhook confirms payments, so it only works with its own secret; there is no fallback
+function webhookSecret(): string | undefined {
+  return process.env.BANK_WEBHOOK_SECRET || undefined;
+}
+
+export function isWebhookConfigured(): boolean {
+  return !!webhookSecret();
+}
+const SIGNATURE_PREFIX = "sha256=";
+
+const PAYMENT_MEMO_PREFIXES: Record<BankAccountPurpose, string> = {
+  card_purchase: "MUATHE",
+  card_upgrade: "NANGCAP",
+  card_renewal: "GIAHAN",
+  deposit: "NAPTIEN",
+  order: "DONHANG",
+};
+
+export interface PaymentMemoReference {
+  purpose: BankAccountPurpose;
+  reference: string; // 8 lowercase hex characters, the start of the order id without dashes
+}
+
+export function paymentMemo(purpose: BankAccountPurpose, orderId: string): string {
+  return vietQrMemo(`${PAYMENT_MEMO_PREFIXES[purpose]} ${orderReference(orderId)}`);
+}
+
+export function orderReference(orderId: string): string {
+  return orderId.replace(/-/g, "").slice(0, 8).toUpperCase();
+}
+
+export function parsePaymentMemo(memo: string): PaymentMemoReference | undefined {
+  // Banks prefix the payer's memo with their own text, so the whole memo is searched
+  const normalized = normalizeTransferText(memo.slice(0, 500)).replace(/ /g, "");
+  for (const [purpose, prefix] of Object.entries(PAYMENT_MEMO_PREFIXES) as [BankAccountPurpose, string][]) {
+    const match = new RegExp(`${prefix}([0-9A-F]{8})`).exec(normalized);
+    if (match) return { purpose, reference: match[1].toLowerCase() };
+  }
+  return undefined;
+}
+
+// HMAC-SHA256 of the raw request body, sent as "X-Signature: sha256=<hex>"
+export function signWebhookBody(rawBody: Buffer | string): string {
+  const secret = webhookSecret();
+  if (!secret) throw new Error("BANK_WEBHOOK_SECRET is not set");
+  return SIGNATURE_PREFIX + createHmac("sha256", secret).update(rawBody).digest("hex");
+}
+
+export function verifyWebhookSignature(rawBody: Buffer | undefined, signature: string | undefined): boolean {
+  if (!rawBody || !signature || !isWebhookConfigured()) return false;
+  // Some services send the bare hex digest
+  const value = signature.trim().toLowerCase();
+  const expected = Buffer.from(signWebhookBody(rawBody));
+  const received = Buffer.from(value.startsWith(SIGNATURE_PREFIX) ? value : SIGNATURE_PREFIX + value);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
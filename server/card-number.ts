@@ -0,0 +1,63 @@
+// Card numbers: <tier prefix>-<branch code>-<6-digit sequence><check digit>, e.g. GOL-HN-0000016.
+// The sequence runs per prefix and branch and is allocated by the database (see
+// allocateCardNumberSequence), so concurrent issues never collide. The check digit catches typos
+// when front-desk staff key a number in.
+
+// Branch code for cards issued online or by head office
+export const HEAD_OFFICE_BRANCH_CODE = "HQ";
+const SEQUENCE_DIGITS = 6;
+const CARD_NUMBER_PATTERN = /^([A-Z]{3})-([A-Z0-9]{2,6})-(\d{7})$/;
+
+function toAscii(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/đ/g, "d").replace(/Đ/g, "D");
+}
+
+// First three letters of the product name: Standard → STA, Gold → GOL, Diamond → DIA
+export function cardTierPrefix(cardType: string): string {
+  return toAscii(cardType).toUpperCase().replace(/[^A-Z]/g, "").padEnd(3, "X").slice(0, 3);
+}
+
+export function normalizeBranchCode(code: string | null | undefined): string {
+  const normalized = toAscii(code || "").toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 6);
+  return normalized.length >= 2 ? normalized : HEAD_OFFICE_BRANCH_CODE;
+}
+
+// Luhn over the number with letters expanded to two digits (A = 10 ... Z = 35), as IBANs do
+export function cardNumberCheckDigit(body: string): number {
+  const digits = body.replace(/[^A-Z0-9]/g, "").split("")
+    .map(char => /\d/.test(char) ? char : (char.charCodeAt(0) - 55).toString())
+    .join("");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    // Doubling starts at the rightmost digit because the check digit is appended after it
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+export function formatCardNumber(prefix: string, branchCode: string, sequence: number): string {
+  const body = `${prefix}-${branchCode}-${sequence.toString().padStart(SEQUENCE_DIGITS, "0")}`;
+  return `${body}${cardNumberCheckDigit(body)}`;
+}
+
+// Staff type numbers in any case and with spaces
+export function normalizeCardNumber(input: string): string {
+  return input.trim().toUpperCase().replace(/\s+/g, "");
+}
+
+export function isGeneratedCardNumber(cardNumber: string): boolean {
+  return CARD_NUMBER_PATTERN.test(cardNumber);
+}
+
+// Numbers in the current format must carry a valid check digit; older numbers are not checked
+export function hasValidCheckDigit(cardNumber: string): boolean {
+  const match = CARD_NUMBER_PATTERN.exec(cardNumber);
+  if (!match) return true;
+  const body = cardNumber.slice(0, -1);
+  return cardNumberCheckDigit(body) === parseInt(cardNumber.slice(-1), 10);
+}
@@ -0,0 +1,139 @@
+import { jsPDF } from "jspdf";
+import QRCode from "qrcode";
+
+// Printable documents for a card: the wallet-sized membership card and the A4 benefit certificate.
+// The standard PDF fonts only cover Latin-1, so Vietnamese text is printed without diacritics.
+
+export interface MembershipCardPdfData {
+  cardNumber: string;
+  cardType: string;
+  ownerName: string;
+  issuedDate: Date | null;
+  expiresAt: Date | null;
+  qrPayload: string;
+}
+
+export interface BenefitCertificatePdfData {
+  cardNumber: string;
+  cardType: string;
+  ownerName: string;
+  price: number;
+  consultationSessions: number;
+  remainingSessions: number;
+  connectionCommission: number;
+  vipSupport: number;
+  profitSharePercentage: number;
+  maxoutLimit: number;
+  vcaDigitalShare: number;
+  issuedDate: Date | null;
+  expiresAt: Date | null;
+}
+
+// ISO/IEC 7810 ID-1, the size of a bank card
+const CARD_WIDTH_MM = 85.6;
+const CARD_HEIGHT_MM = 53.98;
+const BRAND_COLOR: [number, number, number] = [13, 110, 253];
+
+function toPdfText(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/đ/g, "d").replace(/Đ/g, "D");
+}
+
+function formatDate(date: Date | null): string {
+  return date ? date.toLocaleDateString("vi-VN") : "-";
+}
+
+function formatVnd(amount: number): string {
+  return `${Math.round(amount).toLocaleString("vi-VN")} VND`;
+}
+
+// The printed QR identifies the card only; a check-in still needs the member's rotating 6-digit code
+export function membershipCardQrPayload(cardNumber: string): string {
+  return `VCA-CARD:${cardNumber}`;
+}
+
+export async function renderMembershipCardPdf(data: MembershipCardPdfData): Promise<Buffer> {
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: [CARD_WIDTH_MM, CARD_HEIGHT_MM] });
+  const qrDataUrl = await QRCode.toDataURL(data.qrPayload, { margin: 1, width: 240 });
+
+  doc.setFillColor(...BRAND_COLOR);
+  doc.rect(0, 0, CARD_WIDTH_MM, 12, "F");
+  doc.setTextColor(255, 255, 255);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(11);
+  doc.text("VCare Global", 5, 8);
+  doc.setFontSize(9);
+  doc.text(toPdfText(`Thẻ ${data.cardType}`), CARD_WIDTH_MM - 5, 8, { align: "right" });
+
+  doc.setTextColor(33, 37, 41);
+  doc.setFontSize(12);
+  doc.text(data.cardNumber, 5, 22);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  doc.text(toPdfText(data.ownerName), 5, 29, { maxWidth: 48 });
+  doc.text(toPdfText(`Ngày cấp: ${formatDate(data.issuedDate)}`), 5, 40);
+  doc.text(toPdfText(`Hiệu lực đến: ${formatDate(data.expiresAt)}`), 5, 45);
+
+  doc.addImage(qrDataUrl, "PNG", CARD_WIDTH_MM - 29, 17, 24, 24);
+  doc.setFontSize(5.5);
+  doc.text(toPdfText("Quét mã + mã 6 số trên ứng dụng"), CARD_WIDTH_MM - 17, 45, { align: "center" });
+
+  return Buffer.from(doc.output("arraybuffer"));
+}
+
+export async function renderBenefitCertificatePdf(data: BenefitCertificatePdfData): Promise<Buffer> {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  doc.setDrawColor(...BRAND_COLOR);
+  doc.setLineWidth(1.2);
+  doc.rect(10, 10, pageWidth - 20, 277);
+
+  doc.setTextColor(...BRAND_COLOR);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(22);
+  doc.text(toPdfText("GIẤY CHỨNG NHẬN QUYỀN LỢI THẺ"), pageWidth / 2, 35, { align: "center" });
+  doc.setFontSize(14);
+  doc.text("VCare Global", pageWidth / 2, 44, { align: "center" });
+
+  doc.setTextColor(33, 37, 41);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(12);
+  doc.text(toPdfText("Chứng nhận chủ thẻ"), pageWidth / 2, 62, { align: "center" });
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.text(toPdfText(data.ownerName), pageWidth / 2, 72, { align: "center" });
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(12);
+  doc.text(toPdfText(`sở hữu thẻ ${data.cardType} số ${data.cardNumber} với các quyền lợi sau:`), pageWidth / 2, 82, { align: "center" });
+
+  const rows: [string, string][] = [
+    ["Giá trị thẻ", formatVnd(data.price)],
+    ["Lượt tư vấn sức khỏe", `${data.consultationSessions} lượt (còn ${data.remainingSessions})`],
+    ["Hoa hồng kết nối", `${data.connectionCommission}%`],
+    ["Hỗ trợ VIP", `${data.vipSupport}%`],
+    ["Chia sẻ lợi nhuận sau thuế", `${data.profitSharePercentage}%`],
+    ["Giới hạn Maxout", formatVnd(data.maxoutLimit)],
+    ["VCA Digital Share", data.vcaDigitalShare.toLocaleString("vi-VN")],
+    ["Ngày cấp", formatDate(data.issuedDate)],
+    ["Hiệu lực đến", formatDate(data.expiresAt)],
+  ];
+
+  let y = 100;
+  for (const [label, value] of rows) {
+    doc.setDrawColor(222, 226, 230);
+    doc.setLineWidth(0.2);
+    doc.line(30, y + 3, pageWidth - 30, y + 3);
+    doc.text(toPdfText(label), 32, y);
+    doc.setFont("helvetica", "bold");
+    doc.text(toPdfText(value), pageWidth - 32, y, { align: "right" });
+    doc.setFont("helvetica", "normal");
+    y += 11;
+  }
+
+  doc.setFontSize(9);
+  doc.setTextColor(108, 117, 125);
+  doc.text(toPdfText("Quy tắc: 1M VNĐ = 1 cổ phần. Thẻ dừng nhận lợi tức khi đạt giới hạn Maxout."), pageWidth / 2, y + 10, { align: "center" });
+  doc.text(toPdfText(`Ngày in: ${formatDate(new Date())}`), pageWidth / 2, 270, { align: "center" });
+
+  return Buffer.from(doc.output("arraybuffer"));
+}
@@ -0,0 +1,60 @@
+import { test, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { issueCheckinToken, verifyCheckinPayload, verifyCheckinCode, checkinNonce } from "./checkin-qr";
+
+const TTL = 30;
+const CARD_ID = "card-1";
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+function at(time: number) {
+  mock.method(Date, "now", () => time);
+}
+
+test("an issued code verifies for its card and holder", () => {
+  const owner = issueCheckinToken(CARD_ID, TTL);
+  assert.deepEqual(verifyCheckinPayload(owner.payload, TTL), { valid: true, cardId: CARD_ID, memberId: undefined, step: owner.step });
+
+  const member = issueCheckinToken(CARD_ID, TTL, "member-1");
+  assert.deepEqual(verifyCheckinCode(CARD_ID, ["member-1"], member.code, TTL), { valid: true, cardId: CARD_ID, memberId: "member-1", step: member.step });
+});
+
+test("a payload pointed at another card or holder is refused", () => {
+  const { payload } = issueCheckinToken(CARD_ID, TTL);
+  assert.deepEqual(verifyCheckinPayload(payload.replace(CARD_ID, "card-2"), TTL), { valid: false, reason: "signature" });
+  assert.deepEqual(verifyCheckinPayload(payload.replace(":owner:", ":member-1:"), TTL), { valid: false, reason: "signature" });
+  assert.deepEqual(verifyCheckinPayload("VCA-CHECKIN:card-1", TTL), { valid: false, reason: "malformed" });
+});
+
+test("a code from a removed member no longer verifies", () => {
+  const { code } = issueCheckinToken(CARD_ID, TTL, "member-1");
+  assert.equal(verifyCheckinCode(CARD_ID, [], code, TTL).valid, false);
+});
+
+test("a code scans during its step and the next one, then expires", () => {
+  const issuedAt = 1_700_000_010_000;
+  at(issuedAt);
+  const token = issueCheckinToken(CARD_ID, TTL);
+
+  at(issuedAt + TTL * 1000);
+  assert.equal(verifyCheckinPayload(token.payload, TTL).valid, true);
+  assert.equal(verifyCheckinCode(CARD_ID, [], token.code, TTL).valid, true);
+
+  at(issuedAt + 2 * TTL * 1000);
+  assert.deepEqual(verifyCheckinPayload(token.payload, TTL), { valid: false, reason: "expired" });
+  assert.equal(verifyCheckinCode(CARD_ID, [], token.code, TTL).valid, false);
+});
+
+test("scanning the QR and typing the code of one step share the replay nonce", () => {
+  const token = issueCheckinToken(CARD_ID, TTL, "member-1");
+  const scanned = verifyCheckinPayload(token.payload, TTL);
+  const typed = verifyCheckinCode(CARD_ID, ["member-1"], token.code, TTL);
+  assert.ok(scanned.valid && typed.valid);
+  assert.equal(checkinNonce(scanned.cardId, scanned.step, scanned.memberId), checkinNonce(typed.cardId, typed.step, typed.memberId));
+
+  // Each holder and each step checks in on its own
+  assert.notEqual(checkinNonce(CARD_ID, token.step), checkinNonce(CARD_ID, token.step, "member-1"));
+  assert.notEqual(checkinNonce(CARD_ID, token.step, "member-1"), checkinNonce(CARD_ID, token.step + 1, "member-1"));
+});
@@ -0,0 +1,97 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Rotating check-in codes shown by members and scanned by branch staff.
+// A code is an HMAC over (card, holder, time step): it changes every step, cannot be forged
+// without the server secret and, because a check-in row stores "<cardId>:<holder>:<step>"
+// under a unique constraint, each step's code can be used only once.
+// The holder is the card owner or one of the family members the card is shared with.
+
+const QR_SECRET = process.env.CHECKIN_QR_SECRET || process.env.JWT_SECRET || process.env.SESSION_SECRET || 'your-secret-key';
+const PAYLOAD_PREFIX = "VCA-CHECKIN";
+const OWNER_HOLDER = "owner";
+
+export interface CheckinToken {
+  payload: string; // Encoded in the QR code
+  code: string; // 6 digits for manual entry together with the card number
+  step: number;
+  expiresAt: Date;
+}
+
+function currentStep(ttlSeconds: number, now: number = Date.now()): number {
+  return Math.floor(now / 1000 / ttlSeconds);
+}
+
+function sign(cardId: string, holder: string, step: number): Buffer {
+  return createHmac("sha256", QR_SECRET).update(`${cardId}:${holder}:${step}`).digest();
+}
+
+// HOTP-style dynamic truncation of the signature to 6 digits
+function shortCode(signature: Buffer): string {
+  const offset = signature[signature.length - 1] & 0x0f;
+  const value = signature.readUInt32BE(offset) & 0x7fffffff;
+  return (value % 1000000).toString().padStart(6, "0");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// The current and the previous step are accepted, so a code shown just before it rotates still scans
+function acceptedSteps(ttlSeconds: number): number[] {
+  const step = currentStep(ttlSeconds);
+  return [step, step - 1];
+}
+
+// memberId is the card_members row of a family member; omitted for the owner
+export function issueCheckinToken(cardId: string, ttlSeconds: number, memberId?: string): CheckinToken {
+  const step = currentStep(ttlSeconds);
+  const holder = memberId || OWNER_HOLDER;
+  const signature = sign(cardId, holder, step);
+  return {
+    payload: `${PAYLOAD_PREFIX}:${cardId}:${holder}:${step}:${signature.toString("base64url")}`,
+    code: shortCode(signature),
+    step,
+    expiresAt: new Date((step + 1) * ttlSeconds * 1000),
+  };
+}
+
+export type CheckinVerification =
+  | { valid: true; cardId: string; memberId?: string; step: number }
+  | { valid: false; reason: "malformed" | "signature" | "expired" };
+
+export function verifyCheckinPayload(payload: string, ttlSeconds: number): CheckinVerification {
+  const parts = payload.trim().split(":");
+  if (parts.length !== 5 || parts[0] !== PAYLOAD_PREFIX || !/^\d+$/.test(parts[3])) {
+    return { valid: false, reason: "malformed" };
+  }
+
+  const [, cardId, holder, stepText, signature] = parts;
+  const step = parseInt(stepText, 10);
+  if (!safeEqual(sign(cardId, holder, step).toString("base64url"), signature)) {
+    return { valid: false, reason: "signature" };
+  }
+  if (!acceptedSteps(ttlSeconds).includes(step)) {
+    return { valid: false, reason: "expired" };
+  }
+  return { valid: true, cardId, memberId: holder === OWNER_HOLDER ? undefined : holder, step };
+}
+
+// Manual entry: the card is identified separately (card number), only the 6 digits are checked
+// against the owner's code and the codes of the card's active members
+export function verifyCheckinCode(cardId: string, memberIds: string[], code: string, ttlSeconds: number): CheckinVerification {
+  for (const holder of [OWNER_HOLDER, ...memberIds]) {
+    for (const step of acceptedSteps(ttlSeconds)) {
+      if (safeEqual(shortCode(sign(cardId, holder, step)), code.trim())) {
+        return { valid: true, cardId, memberId: holder === OWNER_HOLDER ? undefined : holder, step };
+      }
+    }
+  }
+  return { valid: false, reason: "signature" };
+}
+
+// Replay guard stored on the check-in row
+export function checkinNonce(cardId: string, step: number, memberId?: string): string {
+  return `${cardId}:${memberId || OWNER_HOLDER}:${step}`;
+}
@@ -0,0 +1,154 @@
+import { test, mock, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import type { IdempotencyKey } from "@shared/schema";
+import { storage } from "./storage";
+import { idempotent } from "./idempotency";
+
+// Idempotency-Key handling over HTTP, with the idempotency_keys table kept in memory
+
+let keys: Map<string, IdempotencyKey>;
+let handled: number;
+let respondWith: { status: number; body: object };
+// The handler waits on this before answering
+let hold: Promise<void>;
+let baseUrl: string;
+let server: Server;
+
+before(() => {
+  mock.method(storage, "claimIdempotencyKey", async (key: string, requestHash: string) => {
+    if (keys.has(key)) return undefined;
+    const row = { key, requestHash, responseStatus: null, responseBody: null, createdAt: new Date(), completedAt: null };
+    keys.set(key, row);
+    return row;
+  });
+  mock.method(storage, "getIdempotencyKey", async (key: string) => keys.get(key));
+  mock.method(storage, "completeIdempotencyKey", async (key: string, responseStatus: number, responseBody: string) => {
+    const row = keys.get(key);
+    if (row) Object.assign(row, { responseStatus, responseBody, completedAt: new Date() });
+  });
+  mock.method(storage, "releaseIdempotencyKey", async (key: string) => {
+    keys.delete(key);
+  });
+
+  const app = express();
+  app.use(express.json());
+  app.post("/pay", idempotent, async (req, res) => {
+    handled++;
+    await hold;
+    res.status(respondWith.status).json(respondWith.body);
+  });
+  server = app.listen(0);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+  mock.restoreAll();
+});
+
+beforeEach(() => {
+  keys = new Map();
+  handled = 0;
+  respondWith = { status: 201, body: { paid: true } };
+  hold = Promise.resolve();
+});
+
+function holdHandler(): () => void {
+  let release!: () => void;
+  hold = new Promise(resolve => { release = resolve; });
+  return release;
+}
+
+async function waitUntil(condition: () => boolean) {
+  while (!condition()) await new Promise(resolve => setTimeout(resolve, 5));
+}
+
+async function pay(body: object, key?: string, signal?: AbortSignal) {
+  const res = await fetch(`${baseUrl}/pay`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(key ? { "Idempotency-Key": key } : {}) },
+    body: JSON.stringify(body),
+    signal,
+  });
+  return { status: res.status, replayed: res.headers.get("Idempotent-Replayed"), body: await res.json() };
+}
+
+// The key is stored once the response has been sent
+async function settled() {
+  await new Promise(resolve => setImmediate(resolve));
+}
+
+test("a retry with the same key and body gets the stored response without running the handler again", async () => {
+  const first = await pay({ amount: 100, cardId: "c1" }, "k1");
+  await settled();
+  const retry = await pay({ cardId: "c1", amount: 100 }, "k1");
+
+  assert.equal(handled, 1);
+  assert.equal(first.status, 201);
+  assert.equal(retry.status, 201);
+  assert.equal(retry.replayed, "true");
+  assert.deepEqual(retry.body, { paid: true });
+});
+
+test("the same key with a different body is refused", async () => {
+  await pay({ amount: 100 }, "k1");
+  await settled();
+  const res = await pay({ amount: 200 }, "k1");
+
+  assert.equal(res.status, 409);
+  assert.equal(handled, 1);
+});
+
+test("a double submit while the first request is being handled is not run twice", async () => {
+  const release = holdHandler();
+  const first = pay({ amount: 100 }, "k1");
+  await waitUntil(() => handled === 1);
+
+  const second = await pay({ amount: 100 }, "k1");
+  assert.equal(second.status, 409);
+
+  release();
+  assert.equal((await first).status, 201);
+  assert.equal(handled, 1);
+});
+
+test("a client hanging up does not free the key while the handler runs on", async () => {
+  const release = holdHandler();
+  const abort = new AbortController();
+  const first = pay({ amount: 100 }, "k1", abort.signal).catch(() => undefined);
+  await waitUntil(() => handled === 1);
+  abort.abort();
+  await first;
+  await settled();
+  assert.equal(keys.size, 1);
+
+  release();
+  await waitUntil(() => [...keys.values()][0].responseStatus !== null);
+  const retry = await pay({ amount: 100 }, "k1");
+  assert.equal(retry.status, 201);
+  assert.equal(retry.replayed, "true");
+  assert.equal(handled, 1);
+});
+
+test("a server error releases the key so the request can be retried", async () => {
+  respondWith = { status: 500, body: { message: "Failed" } };
+  await pay({ amount: 100 }, "k1");
+  await settled();
+  assert.equal(keys.size, 0);
+
+  respondWith = { status: 201, body: { paid: true } };
+  const retry = await pay({ amount: 100 }, "k1");
+  assert.equal(retry.status, 201);
+  assert.equal(retry.replayed, null);
+  assert.equal(handled, 2);
+});
+
+test("requests without the header are handled every time", async () => {
+  await pay({ amount: 100 });
+  await pay({ amount: 100 });
+  assert.equal(handled, 2);
+  assert.equal(keys.size, 0);
+});
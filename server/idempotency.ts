@@ -0,0 +1,91 @@
+import { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import { storage } from "./storage";
+
+// Idempotency-Key support for endpoints that move money.
+// The first request with a key is processed and its response stored; a retry or double submit
+// with the same key and body gets that response back, and the same key with a different body is
+// refused. Requests without the header are processed as before.
+
+const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+// Long enough for any client retry; older keys are purged and could be used again
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+export const IDEMPOTENCY_KEY_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Same JSON whatever order the client serialised the properties in
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function requestHash(req: Request): string {
+  return createHash("sha256").update(canonicalJson(req.body ?? {})).digest("hex");
+}
+
+// Keys are scoped to the caller and the endpoint, so two members cannot collide on a key
+function storedKey(req: Request, key: string): string {
+  const caller = req.user ? `user:${req.user.id}` : `ip:${req.ip || "unknown"}`;
+  return `${caller}:${req.method} ${req.originalUrl.split("?")[0]}:${key}`;
+}
+
+export function idempotent(req: Request, res: Response, next: NextFunction) {
+  const key = req.get(IDEMPOTENCY_KEY_HEADER);
+  if (key === undefined) return next();
+  if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({ message: `${IDEMPOTENCY_KEY_HEADER} không hợp lệ` });
+  }
+
+  const id = storedKey(req, key.trim());
+  const hash = requestHash(req);
+
+  (async () => {
+    const claimed = await storage.claimIdempotencyKey(id, hash);
+    if (!claimed) {
+      const existing = await storage.getIdempotencyKey(id);
+      if (!existing) {
+        // Released by a failed first attempt in the meantime
+        return res.status(409).json({ message: "Yêu cầu đang được xử lý, vui lòng thử lại" });
+      }
+      if (existing.requestHash !== hash) {
+        return res.status(409).json({ message: `${IDEMPOTENCY_KEY_HEADER} đã được dùng cho một yêu cầu khác` });
+      }
+      if (existing.responseStatus === null) {
+        res.set("Retry-After", "1");
+        return res.status(409).json({ message: "Yêu cầu đang được xử lý, vui lòng thử lại" });
+      }
+      res.set("Idempotent-Replayed", "true");
+      return res.status(existing.responseStatus).type("application/json").send(existing.responseBody ?? "null");
+    }
+
+    // Settled from the handler's response rather than the connection: a client that hangs up does
+    // not stop the handler, so the key stays claimed until it answers. Only a server error
+    // releases the key for a retry.
+    let settled = false;
+    const settle = (responseBody: unknown) => {
+      if (settled) return;
+      settled = true;
+      const outcome = res.statusCode < 500
+        ? storage.completeIdempotencyKey(id, res.statusCode, JSON.stringify(responseBody ?? null))
+        : storage.releaseIdempotencyKey(id);
+      outcome.catch(error => console.error("Failed to store idempotent response:", error));
+    };
+    const originalJson = res.json;
+    res.json = function (body, ...args) {
+      settle(body);
+      return originalJson.apply(res, [body, ...args]);
+    };
+    // Responses sent without res.json
+    res.on("finish", () => settle(null));
+
+    next();
+  })().catch(next);
+}
+
+export async function purgeIdempotencyKeys(): Promise<void> {
+  await storage.purgeIdempotencyKeys(new Date(Date.now() - IDEMPOTENCY_KEY_TTL_MS));
+}
@@ -4,6 +4,13 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
+// KYC documents and bank statements are posted as base64 data URLs, so those routes get a larger body limit
+app.use("/api/kyc", express.json({ limit: "20mb" }));
+app.use("/api/reconciliation/imports", express.json({ limit: "20mb" }));
+// Payment webhooks are signed over the exact bytes received, so keep the raw body for verification
+app.use("/api/payment-webhooks", express.json({
+  verify: (req, _res, buf) => { (req as any).rawBody = buf; },
+}));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
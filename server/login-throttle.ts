@@ -0,0 +1,202 @@
+import { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import type { LoginThrottle } from "@shared/schema";
+
+// Brute-force protection for sign-in and reset-code endpoints.
+// Every key (account or IP) gets a progressive delay after each failure and is
+// locked for a while once it reaches its threshold. Thresholds live in systemConfigs.
+
+// Every attempt is counted before the handler runs, so a burst of parallel attempts cannot all
+// pass the check; attempts that turn out not to be failures are released again afterwards.
+export interface ThrottleStore {
+  get(keys: string[]): Promise<LoginThrottle[]>;
+  reserveAttempt(key: string, windowStart: Date): Promise<LoginThrottle>;
+  recordFailure(key: string): Promise<void>;
+  releaseAttempt(key: string): Promise<void>;
+  lock(key: string, lockedUntil: Date): Promise<void>;
+  clear(keys: string[]): Promise<void>;
+}
+
+// Default store: the login_throttles table, shared by every server process
+export const postgresThrottleStore: ThrottleStore = {
+  get: (keys) => storage.getLoginThrottles(keys),
+  reserveAttempt: (key, windowStart) => storage.reserveLoginAttempt(key, windowStart),
+  recordFailure: (key) => storage.recordLoginFailure(key),
+  releaseAttempt: (key) => storage.releaseLoginAttempt(key),
+  lock: (key, lockedUntil) => storage.lockLoginThrottle(key, lockedUntil),
+  clear: (keys) => storage.clearLoginThrottles(keys),
+};
+
+let store: ThrottleStore = postgresThrottleStore;
+
+export function setThrottleStore(next: ThrottleStore) {
+  store = next;
+}
+
+export type ThrottleScope = "login" | "reset" | "2fa";
+
+interface ThrottlePolicy {
+  maxFailuresAccount: number;
+  maxFailuresIp: number;
+  lockoutMs: number;
+  windowMs: number;
+  delayBaseMs: number;
+  delayMaxMs: number;
+}
+
+async function readNumberConfig(configKey: string, fallback: number): Promise<number> {
+  const config = await storage.getSystemConfig(configKey);
+  const value = parseFloat(config?.configValue ?? "");
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+async function loadPolicy(): Promise<ThrottlePolicy> {
+  const [maxFailuresAccount, maxFailuresIp, lockoutMinutes, windowMinutes, delayBaseSeconds, delayMaxSeconds] = await Promise.all([
+    readNumberConfig("login_max_failures_account", 5),
+    readNumberConfig("login_max_failures_ip", 20),
+    readNumberConfig("login_lockout_minutes", 15),
+    readNumberConfig("login_failure_window_minutes", 15),
+    readNumberConfig("login_delay_base_seconds", 1),
+    readNumberConfig("login_delay_max_seconds", 30),
+  ]);
+
+  return {
+    maxFailuresAccount,
+    maxFailuresIp,
+    lockoutMs: lockoutMinutes * 60 * 1000,
+    windowMs: windowMinutes * 60 * 1000,
+    delayBaseMs: delayBaseSeconds * 1000,
+    delayMaxMs: delayMaxSeconds * 1000,
+  };
+}
+
+function progressiveDelayMs(failures: number, policy: ThrottlePolicy): number {
+  if (failures <= 0) return 0;
+  return Math.min(policy.delayBaseMs * 2 ** (failures - 1), policy.delayMaxMs);
+}
+
+// Account keys use the user id when the login id matches a user, so email and
+// phone share one counter and an admin can unlock by user id
+export function accountThrottleKey(scope: ThrottleScope, userId: string | undefined, loginId: string): string {
+  const prefix = scope === "login" ? "" : `${scope}:`;
+  return userId ? `${prefix}user:${userId}` : `${prefix}login:${loginId.trim().toLowerCase()}`;
+}
+
+function ipThrottleKey(scope: ThrottleScope, req: Request): string {
+  const prefix = scope === "login" ? "" : `${scope}:`;
+  return `${prefix}ip:${req.ip || "unknown"}`;
+}
+
+// Keys cleared when an admin unlocks a user
+export function userThrottleKeys(userId: string): string[] {
+  return [accountThrottleKey("login", userId, ""), accountThrottleKey("reset", userId, ""), accountThrottleKey("2fa", userId, "")];
+}
+
+interface LoginThrottleOptions {
+  scope: ThrottleScope;
+  // Resolves the account being attempted from the request body
+  resolveAccount: (req: Request) => Promise<{ userId?: string; loginId: string } | undefined>;
+  // Responses with these statuses count as a failed attempt
+  failureStatuses: number[];
+  // Count every request, not just failures (endpoints that always answer 200)
+  countEveryRequest?: boolean;
+}
+
+export function loginThrottle(options: LoginThrottleOptions) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const policy = await loadPolicy();
+      const account = await options.resolveAccount(req);
+      const ipKey = ipThrottleKey(options.scope, req);
+      const accountKey = account ? accountThrottleKey(options.scope, account.userId, account.loginId) : undefined;
+      const keys = accountKey ? [ipKey, accountKey] : [ipKey];
+
+      const now = Date.now();
+      const states = await store.get(keys);
+      let retryAfterMs = 0;
+      let locked = false;
+
+      for (const state of states) {
+        if (state.lockedUntil && state.lockedUntil.getTime() > now) {
+          locked = true;
+          retryAfterMs = Math.max(retryAfterMs, state.lockedUntil.getTime() - now);
+          continue;
+        }
+        if (!state.lastFailureAt || state.lastFailureAt.getTime() < now - policy.windowMs) continue;
+
+        const nextAttemptAt = state.lastFailureAt.getTime() + progressiveDelayMs(state.failures, policy);
+        retryAfterMs = Math.max(retryAfterMs, nextAttemptAt - now);
+      }
+
+      if (retryAfterMs > 0) {
+        return rejectAttempt(res, locked, retryAfterMs);
+      }
+
+      const thresholdFor = (key: string) => key === accountKey ? policy.maxFailuresAccount : policy.maxFailuresIp;
+      const windowStart = new Date(now - policy.windowMs);
+      const reserved = await Promise.all(keys.map(key => store.reserveAttempt(key, windowStart)));
+
+      // Attempts running in parallel with the one that reached the threshold are refused outright
+      const exceeded = keys.filter((key, i) => thresholdFor(key) > 0 && reserved[i].failures > thresholdFor(key));
+      if (exceeded.length > 0) {
+        const lockedUntil = new Date(Date.now() + policy.lockoutMs);
+        await Promise.all(exceeded.map(key => store.lock(key, lockedUntil)));
+        return rejectAttempt(res, true, policy.lockoutMs);
+      }
+
+      // A response that never finished (the client hung up) counts as a failure
+      let settled = false;
+      const settle = (failed: boolean) => {
+        if (settled) return;
+        settled = true;
+        const outcome = failed
+          ? recordFailures(keys, reserved, thresholdFor, policy)
+          : releaseAttempts(keys, res.statusCode < 300 ? accountKey : undefined);
+        outcome.catch(error => console.error("Failed to update login throttle:", error));
+      };
+      res.on("finish", () => settle(!!options.countEveryRequest || options.failureStatuses.includes(res.statusCode)));
+      res.on("close", () => settle(true));
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+function rejectAttempt(res: Response, locked: boolean, retryAfterMs: number) {
+  const retryAfter = Math.ceil(retryAfterMs / 1000);
+  res.set("Retry-After", String(retryAfter));
+  return res.status(429).json({
+    success: false,
+    message: locked
+      ? `Tài khoản tạm thời bị khóa do đăng nhập sai nhiều lần. Vui lòng thử lại sau ${Math.ceil(retryAfter / 60)} phút`
+      : `Vui lòng đợi ${retryAfter} giây trước khi thử lại`,
+    locked,
+    retryAfter,
+  });
+}
+
+async function recordFailures(keys: string[], reserved: LoginThrottle[], thresholdFor: (key: string) => number, policy: ThrottlePolicy) {
+  for (let i = 0; i < keys.length; i++) {
+    const key = keys[i];
+    await store.recordFailure(key);
+    const threshold = thresholdFor(key);
+    if (threshold > 0 && reserved[i].failures >= threshold && !reserved[i].lockedUntil) {
+      await store.lock(key, new Date(Date.now() + policy.lockoutMs));
+    }
+  }
+}
+
+// A successful sign-in also clears the account's earlier failures
+async function releaseAttempts(keys: string[], clearedAccountKey: string | undefined) {
+  for (const key of keys) {
+    if (key === clearedAccountKey) continue;
+    await store.releaseAttempt(key);
+  }
+  if (clearedAccountKey) await store.clear([clearedAccountKey]);
+}
+
+export async function clearUserThrottles(userId: string): Promise<void> {
+  await store.clear(userThrottleKeys(userId));
+}
@@ -1,31 +1,37 @@
 import { Request, Response, NextFunction } from "express";
-import { verifyJWT } from "./auth";
+import { verifyJWT, isAccessTokenRevoked } from "./auth";
 import { storage } from "./storage";
+import type { Permission } from "@shared/schema";
 
 // Role-based access control middleware
-export function requireAuth(req: Request, res: Response, next: NextFunction) {
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
   // Check session-based auth first
   if (req.isAuthenticated()) {
     return next();
   }
 
-  // Check custom session user (for admin login)
-  if (req.session && req.session.user) {
-    req.user = req.session.user as any;
-    return next();
-  }
-
   // Check JWT auth
   const authHeader = req.headers.authorization;
   if (authHeader && authHeader.startsWith('Bearer ')) {
     const token = authHeader.substring(7);
+    let decoded: any;
     try {
-      const decoded = verifyJWT(token);
-      req.user = decoded;
-      return next();
+      decoded = verifyJWT(token);
     } catch (error) {
       return res.status(401).json({ message: "Invalid token" });
     }
+
+    // Revoked by logout-everywhere, a role change or account deactivation
+    try {
+      if (await isAccessTokenRevoked(decoded)) {
+        return res.status(401).json({ message: "Token has been revoked" });
+      }
+    } catch (error) {
+      return next(error);
+    }
+
+    req.user = decoded;
+    return next();
   }
 
   return res.status(401).json({ message: "Authentication required" });
@@ -81,6 +87,43 @@ export function requireAnyRole(roles: string[]) {
   };
 }
 
+// Check that the user's roles grant every listed permission (see PERMISSIONS in shared/schema)
+export function requirePermission(...permissions: Permission[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const granted = await storage.getUserPermissions(req.user.id);
+      const missing = permissions.filter(permission => !granted.includes(permission));
+
+      if (missing.length > 0) {
+        return res.status(403).json({
+          message: "Insufficient permissions",
+          required: permissions,
+          missing
+        });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Money-moving endpoints are read-only for admins acting as a member
+export function blockWhileImpersonating(req: Request, res: Response, next: NextFunction) {
+  if (req.impersonator) {
+    return res.status(403).json({
+      success: false,
+      message: "Không thể thực hiện giao dịch khi đang xem với tư cách người dùng khác"
+    });
+  }
+  next();
+}
+
 // Check if user has minimum VCA Digital Share amount
 export function requireMinPadToken(amount: number) {
   return (req: Request, res: Response, next: NextFunction) => {
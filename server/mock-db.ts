@@ -42,15 +42,15 @@ const mockUsers = [
 const mockCards = [
   {
     id: "1",
-    cardNumber: "VCG001",
+    cardNumber: "GOL-HN-0000016",
     cardType: "Gold",
     customerName: "Test Customer",
     ownerId: "2",
+    branchId: "1",
     status: "active",
     price: "2000000",
     remainingSessions: 12,
     consultationSessions: 12,
-    shareHistory: "",
     connectionCommission: "8.0",
     vipSupport: "5.0",
     profitSharePercentage: "49.0",
@@ -66,6 +66,7 @@ const mockBranches = [
   {
     id: "1",
     name: "Chi nhánh Hà Nội",
+    code: "HN",
     address: "123 Đường ABC, Hà Nội",
     monthlyRevenue: "50000000",
     staffCount: 5,
@@ -76,6 +77,7 @@ const mockBranches = [
   {
     id: "2",
     name: "Chi nhánh TP.HCM",
+    code: "HCM",
     address: "456 Đường XYZ, TP.HCM",
     monthlyRevenue: "75000000",
     staffCount: 8,
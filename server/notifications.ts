@@ -0,0 +1,52 @@
+import fs from "fs/promises";
+import path from "path";
+
+// Outgoing email/SMS messages (reset codes, alerts...)
+export interface OutgoingMessage {
+  channel: "email" | "sms";
+  to: string;
+  subject?: string;
+  body: string;
+}
+
+export interface MessageTransport {
+  name: string;
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+// Dev transport: print messages to the server log
+export const consoleTransport: MessageTransport = {
+  name: "console",
+  async send(message) {
+    console.log(`📨 [${message.channel}] to ${message.to}${message.subject ? ` - ${message.subject}` : ""}\n${message.body}`);
+  },
+};
+
+// Dev transport: append messages as JSON lines to a local outbox file
+export function createFileTransport(filePath: string): MessageTransport {
+  return {
+    name: "file",
+    async send(message) {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.appendFile(filePath, JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + "\n");
+    },
+  };
+}
+
+function createDefaultTransport(): MessageTransport {
+  if (process.env.MESSAGE_TRANSPORT === "file") {
+    return createFileTransport(process.env.MESSAGE_OUTBOX_FILE || path.resolve("tmp", "outbox.jsonl"));
+  }
+  return consoleTransport;
+}
+
+let transport: MessageTransport = createDefaultTransport();
+
+// Plug in a real email/SMS provider in production
+export function setMessageTransport(next: MessageTransport) {
+  transport = next;
+}
+
+export async function sendMessage(message: OutgoingMessage): Promise<void> {
+  await transport.send(message);
+}
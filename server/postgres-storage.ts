@@ -1,5 +1,5 @@
 import { db } from "./db";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { eq, and, or, desc, sql, gte, lt, lte, isNull, inArray, ilike } from "drizzle-orm";
 import * as schema from "@shared/schema";
 import crypto from "crypto";
 import {
@@ -71,28 +71,34 @@ export class PostgresStorage implements IStorage {
   private async initializeDefaults() {
     try {
       if (process.env.NODE_ENV === 'development') {
-        const adminEmail = 'admin@phuan.com';
-        const existingAdmin = await this.getUserByEmail(adminEmail);
-        
-        if (!existingAdmin) {
-          const adminPassword = process.env.DEFAULT_ADMIN_PASSWORD || 'admin123';
-          const hashedPassword = await hashPassword(adminPassword);
-          
+        // Demo accounts used by the homepage quick-login buttons (DEV mode only)
+        const devAccounts = [
+          { name: 'Admin', email: 'admin@phuan.com', password: process.env.DEFAULT_ADMIN_PASSWORD || 'admin123', role: 'admin' },
+          { name: 'Admin VCare', email: 'admin@vcareglobal.com', password: 'admin123', role: 'admin' },
+          { name: 'User VCare', email: 'user@vcareglobal.com', password: 'user123', role: 'customer' },
+          { name: 'Demo VCare', email: 'demo@vcareglobal.com', password: 'demo123', role: 'customer' },
+        ];
+
+        for (const account of devAccounts) {
+          const existing = await this.getUserByEmail(account.email);
+          if (existing) continue;
+
           await db.insert(schema.users).values({
-            name: 'Admin',
-            email: adminEmail,
-            password: hashedPassword,
-            role: 'admin',
+            name: account.name,
+            email: account.email,
+            password: await hashPassword(account.password),
+            role: account.role,
             status: 'active',
           });
-          console.log('✅ Created default admin user: admin@phuan.com (DEV mode)');
+          console.log(`✅ Created demo user: ${account.email} (DEV mode)`);
         }
       }
       
-      const existingConfigs = await db.select().from(schema.systemConfigs);
-      if (existingConfigs.length === 0) {
-        await this.initializeSystemConfigs();
-      }
+      // Inserts are conflict-safe, so newly introduced keys reach existing databases too
+      await this.initializeSystemConfigs();
+      await this.initializeSystemRoles();
+      await this.initializeCardProducts();
+      await this.initializeBankAccounts();
     } catch (error) {
       console.error('Database initialization error:', error instanceof Error ? error.message : 'Unknown error');
       throw error;
@@ -109,6 +115,27 @@ export class PostgresStorage implements IStorage {
       { configKey: "corporate_tax_rate", configValue: "20", description: "Corporate tax rate percentage on gross profit" },
       { configKey: "referral_commission_rate", configValue: "8", description: "Referral commission rate percentage" },
       { configKey: "shares_per_slot", configValue: "50", description: "Number of shares awarded per slot" },
+      { configKey: "two_factor_required_roles", configValue: "admin,accountant", description: "Comma-separated roles that must sign in with two-factor authentication" },
+      { configKey: "login_max_failures_account", configValue: "5", description: "Failed sign-ins before an account is temporarily locked" },
+      { configKey: "login_max_failures_ip", configValue: "20", description: "Failed sign-ins from one IP address before it is temporarily blocked" },
+      { configKey: "login_lockout_minutes", configValue: "15", description: "How long an account or IP address stays locked" },
+      { configKey: "login_failure_window_minutes", configValue: "15", description: "Failures older than this no longer count towards a lockout" },
+      { configKey: "login_delay_base_seconds", configValue: "1", description: "Wait after the first failure; doubles with every further failure" },
+      { configKey: "kyc_deposit_threshold", configValue: "100000000", description: "Deposits above this amount (VND) require approved KYC" },
+      { configKey: "kyc_withdrawal_threshold", configValue: "10000000", description: "Withdrawals above this amount (VND) require approved KYC" },
+      { configKey: "kyc_required_tiers", configValue: "founder,angel", description: "Comma-separated business tiers that require approved KYC before an upgrade" },
+      { configKey: "login_delay_max_seconds", configValue: "30", description: "Upper bound for the progressive wait between attempts" },
+      { configKey: "checkin_qr_ttl_seconds", configValue: "60", description: "How often the member's check-in QR code rotates" },
+      { configKey: "appointment_cancel_notice_hours", configValue: "24", description: "Members cancelling later than this before the appointment lose the reserved session" },
+      { configKey: "appointment_no_show_grace_minutes", configValue: "30", description: "Minutes after a slot ends before an appointment without check-in becomes a no-show" },
+      { configKey: "appointment_no_show_forfeits_session", configValue: "true", description: "Whether a no-show uses up the session reserved by the booking" },
+      { configKey: "appointment_max_open_per_card", configValue: "2", description: "Upcoming appointments a single card may hold at the same time" },
+      { configKey: "card_near_maxout_percentage", configValue: "90", description: "Share of the maxout limit paid out at which a card is flagged near_maxout" },
+      { configKey: "card_renewal_notice_days", configValue: "30", description: "Days before expiry from which members are reminded and can renew" },
+      { configKey: "card_renewal_grace_days", configValue: "60", description: "Days after expiry during which an expired card can still be renewed" },
+      { configKey: "card_renewal_discount_percentage", configValue: "10", description: "Discount on the product price when a card is renewed" },
+      { configKey: "reconciliation_match_window_days", configValue: "3", description: "Days between a statement line and a transaction within which they are matched automatically" },
+      { configKey: "order_payment_expiry_hours", configValue: "48", description: "Hours a customer has to pay a card or membership order before it expires" },
     ];
 
     for (const config of configs) {
@@ -116,6 +143,53 @@ export class PostgresStorage implements IStorage {
     }
   }
 
+  // Default permission sets; admins can change them afterwards from the permission matrix
+  private async initializeSystemRoles() {
+    const systemRoles: { name: string; displayName: string; description: string; permissions: schema.Permission[] }[] = [
+      { name: "admin", displayName: "Quản trị viên", description: "Toàn quyền hệ thống", permissions: schema.PERMISSION_KEYS },
+      {
+        name: "accountant", displayName: "Kế toán", description: "Duyệt giao dịch và chi trả lợi nhuận",
+        permissions: ["users.read", "kyc.review", "transactions.read", "transactions.approve", "cashflow.request", "profit.read", "profit.distribute", "kpis.read", "config.read", "audit.read", "reports.export"],
+      },
+      { name: "branch", displayName: "Chi nhánh", description: "Quản lý KPI chi nhánh", permissions: ["kpis.read", "kpis.write", "cashflow.request", "profit.read", "cards.manage", "checkins.scan", "appointments.manage", "sessions.adjust"] },
+      { name: "staff", displayName: "Nhân viên", description: "Nhân viên kinh doanh", permissions: ["kpis.read", "cashflow.request", "checkins.scan", "appointments.manage"] },
+      { name: "shareholder", displayName: "Cổ đông", description: "Cổ đông nhận chia sẻ lợi nhuận", permissions: ["cashflow.request", "profit.read"] },
+      { name: "customer", displayName: "Khách hàng", description: "Khách hàng sử dụng thẻ", permissions: ["cashflow.request"] },
+    ];
+
+    for (const role of systemRoles) {
+      await db.insert(schema.roles).values(role).onConflictDoNothing({ target: schema.roles.name });
+    }
+  }
+
+  // Starting catalogue; prices are managed from the admin UI afterwards
+  private async initializeCardProducts() {
+    const products = [
+      { name: "Standard", description: "Thẻ cơ bản với 12 lượt tư vấn", price: "2000000", consultationSessions: 12, vcaDigitalShare: "200", sortOrder: 1 },
+      { name: "Silver", description: "Thẻ bạc với 15 lượt tư vấn", price: "8000000", consultationSessions: 15, vcaDigitalShare: "800", sortOrder: 2 },
+      { name: "Gold", description: "Thẻ vàng với 18 lượt tư vấn", price: "18000000", consultationSessions: 18, vcaDigitalShare: "1800", sortOrder: 3 },
+      { name: "Platinum", description: "Thẻ bạch kim với 20 lượt tư vấn", price: "38000000", consultationSessions: 20, vcaDigitalShare: "3800", sortOrder: 4 },
+      { name: "Diamond", description: "Thẻ kim cương với 24 lượt tư vấn", price: "100000000", consultationSessions: 24, vcaDigitalShare: "10000", sortOrder: 5 },
+    ];
+
+    for (const product of products) {
+      await db.insert(schema.cardProducts).values(product).onConflictDoNothing({ target: schema.cardProducts.name });
+    }
+  }
+
+  // The account payments went to before accounts were configurable; only added to an empty table
+  private async initializeBankAccounts() {
+    const [existing] = await db.select({ id: schema.bankAccounts.id }).from(schema.bankAccounts).limit(1);
+    if (existing) return;
+
+    await db.insert(schema.bankAccounts).values({
+      bankBin: "970423",
+      bankName: "TPBank",
+      accountNumber: "92232558888",
+      accountName: "PHAM VAN SINH",
+    });
+  }
+
   // User operations
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(schema.users).where(eq(schema.users.id, id));
@@ -127,6 +201,11 @@ export class PostgresStorage implements IStorage {
     return user;
   }
 
+  async getUserByPhone(phone: string): Promise<User | undefined> {
+    const [user] = await db.select().from(schema.users).where(eq(schema.users.phone, phone));
+    return user;
+  }
+
   async createUser(user: InsertUser): Promise<User> {
     const [created] = await db.insert(schema.users).values(user).returning();
     return created;
@@ -140,13 +219,27 @@ export class PostgresStorage implements IStorage {
     return updated;
   }
 
+  // Records the TOTP step of an accepted code; false when that step (or a later one) was already used
+  async claimTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const [claimed] = await db.update(schema.users)
+      .set({ twoFactorLastStep: step })
+      .where(and(
+        eq(schema.users.id, userId),
+        or(isNull(schema.users.twoFactorLastStep), lt(schema.users.twoFactorLastStep, step))
+      ))
+      .returning({ id: schema.users.id });
+    return !!claimed;
+  }
+
   async getAllUsers(): Promise<User[]> {
     return await db.select().from(schema.users);
   }
 
   // Card operations
-  async getCards(): Promise<Card[]> {
-    return await db.select().from(schema.cards);
+  async getCards(branchIds?: string[]): Promise<Card[]> {
+    if (!branchIds) return await db.select().from(schema.cards);
+    if (branchIds.length === 0) return [];
+    return await db.select().from(schema.cards).where(inArray(schema.cards.branchId, branchIds));
   }
 
   async getCard(id: string): Promise<Card | undefined> {
@@ -188,9 +281,55 @@ export class PostgresStorage implements IStorage {
     return result.length > 0;
   }
 
+  // Card product catalogue operations
+  async getCardProducts(activeOnly: boolean = false): Promise<schema.CardProduct[]> {
+    const query = db.select().from(schema.cardProducts);
+    return await (activeOnly ? query.where(eq(schema.cardProducts.isActive, true)) : query)
+      .orderBy(schema.cardProducts.sortOrder, schema.cardProducts.price);
+  }
+
+  async getCardProduct(id: string): Promise<schema.CardProduct | undefined> {
+    const [product] = await db.select().from(schema.cardProducts).where(eq(schema.cardProducts.id, id));
+    return product;
+  }
+
+  async getCardProductByName(name: string): Promise<schema.CardProduct | undefined> {
+    const [product] = await db.select().from(schema.cardProducts).where(eq(schema.cardProducts.name, name));
+    return product;
+  }
+
+  async createCardProduct(product: schema.InsertCardProduct): Promise<schema.CardProduct> {
+    const [created] = await db.insert(schema.cardProducts).values(product).returning();
+    return created;
+  }
+
+  async updateCardProduct(id: string, product: Partial<schema.InsertCardProduct>): Promise<schema.CardProduct | undefined> {
+    const [updated] = await db.update(schema.cardProducts)
+      .set({ ...product, updatedAt: new Date() })
+      .where(eq(schema.cardProducts.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteCardProduct(id: string): Promise<boolean> {
+    const result = await db.delete(schema.cardProducts).where(eq(schema.cardProducts.id, id)).returning({ id: schema.cardProducts.id });
+    return result.length > 0;
+  }
+
+  async countCardsOfType(cardType: string): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(schema.cards)
+      .where(eq(schema.cards.cardType, cardType));
+    return row?.count ?? 0;
+  }
+
   // Branch operations
-  async getBranches(): Promise<Branch[]> {
-    return await db.select().from(schema.branches);
+  // Methods taking `branchIds` return everything when it is undefined (global view)
+  // and only rows belonging to those branches otherwise - see getBranchScope()
+  async getBranches(branchIds?: string[]): Promise<Branch[]> {
+    if (!branchIds) return await db.select().from(schema.branches);
+    if (branchIds.length === 0) return [];
+    return await db.select().from(schema.branches).where(inArray(schema.branches.id, branchIds));
   }
 
   async getBranch(id: string): Promise<Branch | undefined> {
@@ -211,9 +350,56 @@ export class PostgresStorage implements IStorage {
     return updated;
   }
 
+  // Branch scoping
+  async getUserBranchIds(userId: string): Promise<string[]> {
+    const rows = await db.select({ branchId: schema.userBranches.branchId })
+      .from(schema.userBranches)
+      .where(eq(schema.userBranches.userId, userId));
+    return rows.map((row: { branchId: string }) => row.branchId);
+  }
+
+  async assignUserBranches(userId: string, branchIds: string[], adminId: string): Promise<string[]> {
+    const previous = await this.getUserBranchIds(userId);
+
+    await db.delete(schema.userBranches).where(eq(schema.userBranches.userId, userId));
+    for (const branchId of branchIds) {
+      await db.insert(schema.userBranches).values({ userId, branchId });
+    }
+
+    await this.createAuditLog({
+      userId: adminId,
+      action: "user_branch_change",
+      entityType: "user",
+      entityId: userId,
+      oldValue: JSON.stringify({ branchIds: previous }),
+      newValue: JSON.stringify({ branchIds }),
+      ipAddress: null,
+      userAgent: null,
+    });
+
+    return branchIds;
+  }
+
+  // Branch managers only see their own branches; admins, accountants and other roles keep the global view
+  async getBranchScope(user: { id: string; role: string }): Promise<string[] | undefined> {
+    if (user.role !== "branch") return undefined;
+
+    const assignedRoles = await db.select({ name: schema.roles.name })
+      .from(schema.userRoles)
+      .innerJoin(schema.roles, eq(schema.userRoles.roleId, schema.roles.id))
+      .where(eq(schema.userRoles.userId, user.id));
+    if (assignedRoles.some((role: { name: string }) => role.name === "admin" || role.name === "accountant")) {
+      return undefined;
+    }
+
+    return this.getUserBranchIds(user.id);
+  }
+
   // Staff operations
-  async getStaff(): Promise<Staff[]> {
-    return await db.select().from(schema.staff);
+  async getStaff(branchIds?: string[]): Promise<Staff[]> {
+    if (!branchIds) return await db.select().from(schema.staff);
+    if (branchIds.length === 0) return [];
+    return await db.select().from(schema.staff).where(inArray(schema.staff.branchId, branchIds));
   }
 
   async getStaffMember(id: string): Promise<Staff | undefined> {
@@ -240,8 +426,12 @@ export class PostgresStorage implements IStorage {
   }
 
   // Transaction operations
-  async getTransactions(): Promise<Transaction[]> {
-    return await db.select().from(schema.transactions).orderBy(desc(schema.transactions.date));
+  async getTransactions(branchIds?: string[]): Promise<Transaction[]> {
+    if (!branchIds) return await db.select().from(schema.transactions).orderBy(desc(schema.transactions.date));
+    if (branchIds.length === 0) return [];
+    return await db.select().from(schema.transactions)
+      .where(inArray(schema.transactions.branchId, branchIds))
+      .orderBy(desc(schema.transactions.date));
   }
 
   async getTransaction(id: string): Promise<Transaction | undefined> {
@@ -261,17 +451,24 @@ export class PostgresStorage implements IStorage {
   }
 
   // KPI operations
-  async getKpis(): Promise<Kpi[]> {
-    return await db.select().from(schema.kpis);
+  async getKpis(branchIds?: string[]): Promise<Kpi[]> {
+    if (!branchIds) return await db.select().from(schema.kpis);
+    if (branchIds.length === 0) return [];
+    return await db.select().from(schema.kpis).where(inArray(schema.kpis.branchId, branchIds));
   }
 
   async getKpisByBranch(branchId: string): Promise<Kpi[]> {
     return await db.select().from(schema.kpis).where(eq(schema.kpis.branchId, branchId));
   }
 
-  async getKpisByPeriod(period: string, periodValue: string): Promise<Kpi[]> {
+  async getKpisByPeriod(period: string, periodValue: string, branchIds?: string[]): Promise<Kpi[]> {
+    if (branchIds && branchIds.length === 0) return [];
     return await db.select().from(schema.kpis)
-      .where(and(eq(schema.kpis.period, period), eq(schema.kpis.periodValue, periodValue)));
+      .where(and(
+        eq(schema.kpis.period, period),
+        eq(schema.kpis.periodValue, periodValue),
+        branchIds ? inArray(schema.kpis.branchId, branchIds) : undefined
+      ));
   }
 
   async createKpi(kpi: InsertKpi): Promise<Kpi> {
@@ -294,17 +491,35 @@ export class PostgresStorage implements IStorage {
   }
 
   // Staff KPI operations
-  async getStaffKpis(): Promise<StaffKpi[]> {
-    return await db.select().from(schema.staffKpis);
+  async getStaffKpis(branchIds?: string[]): Promise<StaffKpi[]> {
+    if (!branchIds) return await db.select().from(schema.staffKpis);
+    if (branchIds.length === 0) return [];
+    const rows = await db.select()
+      .from(schema.staffKpis)
+      .innerJoin(schema.staff, eq(schema.staffKpis.staffId, schema.staff.id))
+      .where(inArray(schema.staff.branchId, branchIds));
+    return rows.map((row: { staff_kpis: StaffKpi }) => row.staff_kpis);
   }
 
   async getStaffKpisByStaff(staffId: string): Promise<StaffKpi[]> {
     return await db.select().from(schema.staffKpis).where(eq(schema.staffKpis.staffId, staffId));
   }
 
-  async getStaffKpisByPeriod(period: string, periodValue: string): Promise<StaffKpi[]> {
-    return await db.select().from(schema.staffKpis)
-      .where(and(eq(schema.staffKpis.period, period), eq(schema.staffKpis.periodValue, periodValue)));
+  async getStaffKpisByPeriod(period: string, periodValue: string, branchIds?: string[]): Promise<StaffKpi[]> {
+    if (!branchIds) {
+      return await db.select().from(schema.staffKpis)
+        .where(and(eq(schema.staffKpis.period, period), eq(schema.staffKpis.periodValue, periodValue)));
+    }
+    if (branchIds.length === 0) return [];
+    const rows = await db.select()
+      .from(schema.staffKpis)
+      .innerJoin(schema.staff, eq(schema.staffKpis.staffId, schema.staff.id))
+      .where(and(
+        eq(schema.staffKpis.period, period),
+        eq(schema.staffKpis.periodValue, periodValue),
+        inArray(schema.staff.branchId, branchIds)
+      ));
+    return rows.map((row: { staff_kpis: StaffKpi }) => row.staff_kpis);
   }
 
   async createStaffKpi(staffKpi: InsertStaffKpi): Promise<StaffKpi> {
@@ -556,10 +771,12 @@ export class PostgresStorage implements IStorage {
     return await db.select().from(schema.transactions).where(eq(schema.transactions.type, type));
   }
 
-  async approveCashFlowTransaction(transactionId: string, approvedBy: string): Promise<Transaction | undefined> {
+  // Only a pending transaction is approved, so an approval racing another (by hand, by the bank
+  // webhook or by statement matching) is applied once; undefined for the one that lost
+  async approveCashFlowTransaction(transactionId: string, approvedBy: string | null): Promise<Transaction | undefined> {
     const [updated] = await db.update(schema.transactions)
       .set({ status: 'approved', approvedBy, approvedAt: new Date() })
-      .where(eq(schema.transactions.id, transactionId))
+      .where(and(eq(schema.transactions.id, transactionId), eq(schema.transactions.status, 'pending')))
       .returning();
     return updated;
   }
@@ -735,6 +952,11 @@ export class PostgresStorage implements IStorage {
 
   // Business tier operations
   async upgradeUserBusinessTier(userId: string, newTier: string, investmentAmount: number): Promise<User | undefined> {
+    const requiredTiers = (await this.getSystemConfig("kyc_required_tiers"))?.configValue ?? "founder,angel";
+    if (requiredTiers.split(",").map(tier => tier.trim()).includes(newTier) && !(await this.isKycApproved(userId))) {
+      throw new Error(`KYC approval required before upgrading to ${newTier}`);
+    }
+
     const shareAmount = await this.calculateUserShares(userId, investmentAmount);
     const [updated] = await db.update(schema.users)
       .set({ 
@@ -776,12 +998,137 @@ export class PostgresStorage implements IStorage {
   }
 
   // QR check-in operations
-  async createQrCheckin(checkin: { cardId: string; sessionType: string; notes?: string }): Promise<void> {
+  async createQrCheckin(checkin: { cardId: string; sessionType: string; notes?: string; branchId?: string }): Promise<void> {
+    await db.insert(schema.checkIns).values({
+      cardId: checkin.cardId,
+      branchId: checkin.branchId,
+      sessionType: checkin.sessionType,
+      notes: checkin.notes,
+    });
     await db.update(schema.cards)
-      .set({ lastCheckIn: new Date() })
+      .set({ lastCheckIn: new Date(), remainingSessions: sql`greatest(coalesce(${schema.cards.remainingSessions}, 0) - 1, 0)` })
       .where(eq(schema.cards.id, checkin.cardId));
   }
 
+  // Signed-code check-in: the unique nonce rejects a replayed code. The owner's walk-in uses one
+  // of the card's free sessions, a check-in for a booked appointment uses the session it reserved,
+  // and a family member's check-in uses that member's allocation.
+  async recordQrCheckIn(checkin: { cardId: string; sessionType: string; notes?: string; branchId?: string; scannedBy: string; qrNonce: string; appointmentId?: string; cardMemberId?: string; practitionerId?: string }): Promise<{ checkIn: schema.CheckIn; card: Card; appointment?: schema.Appointment; member?: schema.CardMember } | { error: "replay" | "no_sessions" }> {
+    const { appointmentId, ...values } = checkin;
+    const [checkIn] = await db.insert(schema.checkIns)
+      .values(values)
+      .onConflictDoNothing({ target: schema.checkIns.qrNonce })
+      .returning();
+    if (!checkIn) return { error: "replay" };
+
+    // Claim the booking / allocation first so a concurrent cancellation or revocation cannot
+    // release the same sessions
+    let appointment: schema.Appointment | undefined;
+    let member: schema.CardMember | undefined;
+    if (checkin.cardMemberId) {
+      [member] = await db.update(schema.cardMembers)
+        .set({ usedSessions: sql`${schema.cardMembers.usedSessions} + 1` })
+        .where(and(
+          eq(schema.cardMembers.id, checkin.cardMemberId),
+          eq(schema.cardMembers.status, "active"),
+          sql`${schema.cardMembers.usedSessions} < ${schema.cardMembers.allocatedSessions}`,
+        ))
+        .returning();
+      if (!member) {
+        await db.delete(schema.checkIns).where(eq(schema.checkIns.id, checkIn.id));
+        return { error: "no_sessions" };
+      }
+    } else if (appointmentId) {
+      [appointment] = await db.update(schema.appointments)
+        .set({ status: "checked_in", checkInId: checkIn.id, updatedAt: new Date() })
+        .where(and(eq(schema.appointments.id, appointmentId), eq(schema.appointments.status, "booked")))
+        .returning();
+    }
+
+    const remaining = sql`${schema.cards.remainingSessions} - 1`;
+    const [card] = await db.update(schema.cards)
+      .set(member
+        ? { remainingSessions: remaining, sharedSessions: sql`${schema.cards.sharedSessions} - 1`, lastCheckIn: new Date() }
+        : appointment
+          ? { remainingSessions: remaining, reservedSessions: sql`${schema.cards.reservedSessions} - 1`, lastCheckIn: new Date() }
+          : { remainingSessions: remaining, lastCheckIn: new Date() })
+      .where(and(
+        eq(schema.cards.id, checkin.cardId),
+        member
+          ? sql`${schema.cards.sharedSessions} > 0`
+          : appointment
+            ? sql`${schema.cards.reservedSessions} > 0`
+            : sql`${schema.cards.remainingSessions} - ${schema.cards.reservedSessions} - ${schema.cards.sharedSessions} > 0`,
+      ))
+      .returning();
+    if (!card) {
+      if (member) {
+        await db.update(schema.cardMembers)
+          .set({ usedSessions: sql`${schema.cardMembers.usedSessions} - 1` })
+          .where(eq(schema.cardMembers.id, member.id));
+      }
+      if (appointment) {
+        await db.update(schema.appointments)
+          .set({ status: "booked", checkInId: null, updatedAt: new Date() })
+          .where(eq(schema.appointments.id, appointment.id));
+      }
+      await db.delete(schema.checkIns).where(eq(schema.checkIns.id, checkIn.id));
+      return { error: "no_sessions" };
+    }
+
+    return { checkIn, card, appointment, member };
+  }
+
+  async getCardByNumber(cardNumber: string): Promise<Card | undefined> {
+    const [card] = await db.select().from(schema.cards).where(eq(schema.cards.cardNumber, cardNumber));
+    return card;
+  }
+
+  // Next sequence for a card number prefix. A single upsert, so concurrent issues get distinct values.
+  async allocateCardNumberSequence(key: string): Promise<number> {
+    const [sequence] = await db.insert(schema.cardNumberSequences)
+      .values({ key, lastValue: 1 })
+      .onConflictDoUpdate({
+        target: schema.cardNumberSequences.key,
+        set: { lastValue: sql`${schema.cardNumberSequences.lastValue} + 1`, updatedAt: new Date() },
+      })
+      .returning();
+    return sequence.lastValue;
+  }
+
+  // Cards whose number, holder name, or owner's name or phone contains the term,
+  // optionally limited to the given branches
+  async searchCards(term: string, branchIds?: string[], limit = 50): Promise<Card[]> {
+    if (branchIds && branchIds.length === 0) return [];
+    const pattern = `%${term}%`;
+    const digits = term.replace(/\D/g, "");
+    const rows = await db.select({ card: schema.cards }).from(schema.cards)
+      .leftJoin(schema.users, eq(schema.cards.ownerId, schema.users.id))
+      .where(and(
+        or(
+          ilike(schema.cards.cardNumber, pattern),
+          ilike(schema.cards.customerName, pattern),
+          ilike(schema.users.name, pattern),
+          digits.length >= 3 ? ilike(schema.users.phone, `%${digits}%`) : undefined,
+        ),
+        branchIds ? inArray(schema.cards.branchId, branchIds) : undefined,
+      ))
+      .orderBy(desc(schema.cards.issuedDate))
+      .limit(limit);
+    return rows.map((row: { card: Card }) => row.card);
+  }
+
+  // Check-ins with their card, optionally limited to the given branches
+  async getCheckIns(branchIds?: string[]): Promise<(schema.CheckIn & { card: Card | null })[]> {
+    if (branchIds && branchIds.length === 0) return [];
+    const rows = await db.select()
+      .from(schema.checkIns)
+      .leftJoin(schema.cards, eq(schema.checkIns.cardId, schema.cards.id))
+      .where(branchIds ? inArray(schema.checkIns.branchId, branchIds) : undefined)
+      .orderBy(desc(schema.checkIns.checkInDate));
+    return rows.map((row: { check_ins: schema.CheckIn; cards: Card | null }) => ({ ...row.check_ins, card: row.cards }));
+  }
+
   async updateCardSessions(cardId: string, decrement: number): Promise<Card | undefined> {
     const card = await this.getCard(cardId);
     if (!card) return undefined;
@@ -849,7 +1196,7 @@ export class PostgresStorage implements IStorage {
     return this.getUser(userId);
   }
 
-  async updateUserPadToken(userId: string, vcaDigitalShare: number, reason: string, adminId: string): Promise<User | undefined> {
+  async updateUserPadToken(userId: string, vcaDigitalShare: number, reason: string, adminId: string | null): Promise<User | undefined> {
     // Get current user to track previous amount
     const currentUser = await this.getUser(userId);
     if (!currentUser) return undefined;
@@ -892,6 +1239,46 @@ export class PostgresStorage implements IStorage {
     return updated;
   }
 
+  // Adds delta (negative to take shares back) in one statement that locks the member's row, so
+  // concurrent purchases and refunds cannot overwrite each other's change. `floorAtZero` clamps
+  // reversals that would take the balance below zero.
+  async adjustUserPadToken(userId: string, delta: number, reason: string, adminId: string | null, floorAtZero = false): Promise<{ previousAmount: number; newAmount: number } | undefined> {
+    const next = sql`coalesce(previous.amount, 0) + ${delta.toString()}::numeric`;
+    const result = await db.execute(sql`
+      UPDATE users
+      SET vca_digital_share = ${floorAtZero ? sql`greatest(${next}, 0)` : next}, updated_at = now()
+      FROM (SELECT id, vca_digital_share AS amount FROM users WHERE id = ${userId} FOR UPDATE) AS previous
+      WHERE users.id = previous.id
+      RETURNING previous.amount AS "previousAmount", users.vca_digital_share AS "newAmount"
+    `);
+    const [row] = result.rows as { previousAmount: string | null; newAmount: string }[];
+    if (!row) return undefined;
+
+    const previousAmount = parseFloat(row.previousAmount || "0");
+    const newAmount = parseFloat(row.newAmount);
+    await db.insert(schema.vcaDigitalShareHistory).values({
+      userId,
+      previousAmount: previousAmount.toString(),
+      newAmount: newAmount.toString(),
+      changeAmount: (newAmount - previousAmount).toString(),
+      changeType: "admin_update",
+      reason,
+      adminId,
+    });
+    await this.createAuditLog({
+      userId: adminId,
+      action: "pad_token_update",
+      entityType: "user",
+      entityId: userId,
+      oldValue: previousAmount.toString(),
+      newValue: newAmount.toString(),
+      ipAddress: null,
+      userAgent: null,
+    });
+
+    return { previousAmount, newAmount };
+  }
+
   async getUserPadTokenHistory(userId: string): Promise<any[]> {
     return await db.select()
       .from(schema.vcaDigitalShareHistory)
@@ -966,6 +1353,1433 @@ export class PostgresStorage implements IStorage {
       );
   }
 
+  // Password reset operations
+  async createPasswordResetCode(resetCode: schema.InsertPasswordResetCode): Promise<schema.PasswordResetCode> {
+    // Only the newest code stays valid
+    await db.update(schema.passwordResetCodes)
+      .set({ usedAt: new Date() })
+      .where(and(eq(schema.passwordResetCodes.userId, resetCode.userId), isNull(schema.passwordResetCodes.usedAt)));
+
+    const [created] = await db.insert(schema.passwordResetCodes).values(resetCode).returning();
+    return created;
+  }
+
+  async getLatestPasswordResetCode(userId: string): Promise<schema.PasswordResetCode | undefined> {
+    const [latest] = await db.select()
+      .from(schema.passwordResetCodes)
+      .where(eq(schema.passwordResetCodes.userId, userId))
+      .orderBy(desc(schema.passwordResetCodes.createdAt))
+      .limit(1);
+    return latest;
+  }
+
+  async countPasswordResetCodesSince(userId: string, since: Date): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(schema.passwordResetCodes)
+      .where(and(eq(schema.passwordResetCodes.userId, userId), gte(schema.passwordResetCodes.createdAt, since)));
+    return result?.count || 0;
+  }
+
+  // Counts an attempt against the code only while it is below the cap, in one conditional update,
+  // so parallel guesses cannot all pass the check; false once the cap is reached
+  async claimPasswordResetAttempt(id: string, maxAttempts: number): Promise<boolean> {
+    const t = schema.passwordResetCodes;
+    const [claimed] = await db.update(t)
+      .set({ attempts: sql`coalesce(${t.attempts}, 0) + 1` })
+      .where(and(eq(t.id, id), sql`coalesce(${t.attempts}, 0) < ${maxAttempts}`))
+      .returning({ id: t.id });
+    return !!claimed;
+  }
+
+  // Hands back the attempt of a correct code, so checking it before resetting does not use up tries
+  async releasePasswordResetAttempt(id: string): Promise<void> {
+    const t = schema.passwordResetCodes;
+    await db.update(t)
+      .set({ attempts: sql`greatest(coalesce(${t.attempts}, 0) - 1, 0)` })
+      .where(eq(t.id, id));
+  }
+
+  async markPasswordResetCodeUsed(id: string): Promise<void> {
+    await db.update(schema.passwordResetCodes)
+      .set({ usedAt: new Date() })
+      .where(eq(schema.passwordResetCodes.id, id));
+  }
+
+  // Remove every stored session (passport or custom session user) belonging to the user
+  async destroyUserSessions(userId: string): Promise<void> {
+    await db.execute(sql`
+      DELETE FROM "session"
+      WHERE sess->'passport'->>'user' = ${userId}
+         OR sess->'user'->>'id' = ${userId}
+    `);
+  }
+
+  // Refresh token operations
+  async createRefreshToken(token: schema.InsertRefreshToken): Promise<schema.RefreshToken> {
+    const [created] = await db.insert(schema.refreshTokens).values(token).returning();
+    return created;
+  }
+
+  async getRefreshTokenByHash(tokenHash: string): Promise<schema.RefreshToken | undefined> {
+    const [token] = await db.select().from(schema.refreshTokens).where(eq(schema.refreshTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  // The current token is claimed first, so of two concurrent refreshes with the same token only
+  // one gets a replacement; undefined means it was already used
+  async rotateRefreshToken(currentId: string, next: schema.InsertRefreshToken): Promise<schema.RefreshToken | undefined> {
+    const [claimed] = await db.update(schema.refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(schema.refreshTokens.id, currentId), isNull(schema.refreshTokens.revokedAt)))
+      .returning();
+    if (!claimed) return undefined;
+
+    const created = await this.createRefreshToken(next);
+    await db.update(schema.refreshTokens)
+      .set({ replacedBy: created.id })
+      .where(eq(schema.refreshTokens.id, currentId));
+    return created;
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<void> {
+    await db.update(schema.refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(schema.refreshTokens.familyId, familyId), isNull(schema.refreshTokens.revokedAt)));
+  }
+
+  // Invalidates every refresh token and every access token issued so far for the user
+  async revokeUserTokens(userId: string): Promise<void> {
+    await db.update(schema.users)
+      .set({ tokensRevokedAt: new Date() })
+      .where(eq(schema.users.id, userId));
+    await db.update(schema.refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(schema.refreshTokens.userId, userId), isNull(schema.refreshTokens.revokedAt)));
+  }
+
+  // KYC operations
+  async getKycRecord(userId: string): Promise<schema.KycRecord | undefined> {
+    const [record] = await db.select().from(schema.kycRecords).where(eq(schema.kycRecords.userId, userId));
+    return record;
+  }
+
+  async getKycRecordById(id: string): Promise<schema.KycRecord | undefined> {
+    const [record] = await db.select().from(schema.kycRecords).where(eq(schema.kycRecords.id, id));
+    return record;
+  }
+
+  async isKycApproved(userId: string): Promise<boolean> {
+    const record = await this.getKycRecord(userId);
+    return record?.status === "approved";
+  }
+
+  // Creates or replaces the user's KYC record; approved records are never overwritten
+  async saveKycRecord(userId: string, record: Omit<schema.InsertKycRecord, "userId">): Promise<schema.KycRecord> {
+    const now = new Date();
+    const [saved] = await db.insert(schema.kycRecords)
+      .values({ ...record, userId, updatedAt: now })
+      .onConflictDoUpdate({
+        target: schema.kycRecords.userId,
+        set: { ...record, reviewedBy: null, reviewNote: null, reviewedAt: null, updatedAt: now },
+        where: sql`${schema.kycRecords.status} <> 'approved'`,
+      })
+      .returning();
+    return saved ?? (await this.getKycRecord(userId))!;
+  }
+
+  async getKycQueue(status: string = "pending"): Promise<(schema.KycRecord & { user: { id: string; name: string; email: string; phone: string | null; businessTier: string | null } })[]> {
+    const rows = await db.select({
+      record: schema.kycRecords,
+      user: {
+        id: schema.users.id,
+        name: schema.users.name,
+        email: schema.users.email,
+        phone: schema.users.phone,
+        businessTier: schema.users.businessTier,
+      },
+    })
+      .from(schema.kycRecords)
+      .innerJoin(schema.users, eq(schema.kycRecords.userId, schema.users.id))
+      .where(eq(schema.kycRecords.status, status))
+      .orderBy(schema.kycRecords.submittedAt);
+    return rows.map((row: any) => ({ ...row.record, user: row.user }));
+  }
+
+  async reviewKycRecord(id: string, decision: "approved" | "rejected", reviewerId: string, note?: string): Promise<schema.KycRecord | undefined> {
+    const [updated] = await db.update(schema.kycRecords)
+      .set({ status: decision, reviewedBy: reviewerId, reviewNote: note || null, reviewedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(schema.kycRecords.id, id), eq(schema.kycRecords.status, "pending")))
+      .returning();
+    if (!updated) return undefined;
+
+    await this.createAuditLog({
+      userId: reviewerId,
+      action: "kyc_review",
+      entityType: "kyc",
+      entityId: id,
+      oldValue: "pending",
+      newValue: JSON.stringify({ decision, note: note || null, userId: updated.userId }),
+      ipAddress: null,
+      userAgent: null,
+    });
+
+    return updated;
+  }
+
+  // Personal data operations (Nghị định 13/2023)
+  async getConsentRecords(userId: string): Promise<schema.ConsentRecord[]> {
+    return await db.select().from(schema.consentRecords)
+      .where(eq(schema.consentRecords.userId, userId))
+      .orderBy(desc(schema.consentRecords.createdAt));
+  }
+
+  async recordConsent(consent: schema.InsertConsentRecord): Promise<schema.ConsentRecord> {
+    const [created] = await db.insert(schema.consentRecords).values(consent).returning();
+    return created;
+  }
+
+  // Everything stored about the member, for the self-service "download my data" bundle
+  async exportPersonalData(userId: string): Promise<Record<string, unknown> | undefined> {
+    const user = await this.getUser(userId);
+    if (!user) return undefined;
+
+    const { password, twoFactorSecret, twoFactorBackupCodes, ...profile } = user;
+    const cards = await db.select().from(schema.cards).where(eq(schema.cards.ownerId, userId));
+    const cardIds = cards.map((card: Card) => card.id);
+    const kyc = await this.getKycRecord(userId);
+
+    return {
+      exportedAt: new Date().toISOString(),
+      profile,
+      roles: (await this.getUserRoles(userId)).map((userRole: any) => userRole.roles?.name).filter(Boolean),
+      kyc: kyc && {
+        idType: kyc.idType,
+        idNumber: kyc.idNumber,
+        fullName: kyc.fullName,
+        birthDate: kyc.birthDate,
+        address: kyc.address,
+        status: kyc.status,
+        submittedAt: kyc.submittedAt,
+        reviewedAt: kyc.reviewedAt,
+      },
+      consents: await this.getConsentRecords(userId),
+      cards,
+      checkIns: cardIds.length > 0
+        ? await db.select().from(schema.checkIns).where(inArray(schema.checkIns.cardId, cardIds))
+        : [],
+      cardMembers: cardIds.length > 0
+        ? (await db.select().from(schema.cardMembers).where(inArray(schema.cardMembers.cardId, cardIds)))
+          .map(({ inviteCodeHash, ...member }: schema.CardMember) => member)
+        : [],
+      sharedWithMe: (await db.select().from(schema.cardMembers).where(eq(schema.cardMembers.userId, userId)))
+        .map(({ inviteCodeHash, ...member }: schema.CardMember) => member),
+      appointments: await db.select().from(schema.appointments).where(eq(schema.appointments.userId, userId)),
+      cardUpgrades: await this.getCardUpgrades({ userId }),
+      cardRenewals: await this.getCardRenewals({ userId }),
+      cardRefunds: await this.getCardRefunds({ userId }),
+      transactions: await this.getCashFlowTransactions(userId),
+      balance: (await this.getUserBalance(userId)) || null,
+      depositRequests: await this.getUserDepositRequests(userId),
+      assetContributions: await db.select().from(schema.assetContributions).where(eq(schema.assetContributions.userId, userId)),
+      referrals: await db.select().from(schema.referrals)
+        .where(or(eq(schema.referrals.referrerId, userId), eq(schema.referrals.referredUserId, userId))),
+      sharesHistory: await this.getUserSharesHistory(userId),
+      vcaDigitalShareHistory: await db.select().from(schema.vcaDigitalShareHistory).where(eq(schema.vcaDigitalShareHistory.userId, userId)),
+      auditLogs: await db.select().from(schema.auditLogs).where(eq(schema.auditLogs.userId, userId)).orderBy(desc(schema.auditLogs.createdAt)),
+    };
+  }
+
+  // Reasons the account cannot be closed yet: money still owed to (or held for) the member
+  async getAccountClosureBlockers(userId: string): Promise<string[]> {
+    const blockers: string[] = [];
+
+    const balance = await this.getUserBalance(userId);
+    if (parseFloat(balance?.balance || "0") > 0) {
+      blockers.push(`Số dư chưa rút: ${parseFloat(balance!.balance!).toLocaleString("vi-VN")} VND`);
+    }
+    if (parseFloat(balance?.pendingWithdrawal || "0") > 0) {
+      blockers.push("Có yêu cầu rút tiền đang xử lý");
+    }
+
+    const pendingTransactions = await db.select().from(schema.transactions)
+      .where(and(eq(schema.transactions.userId, userId), eq(schema.transactions.status, "pending")));
+    if (pendingTransactions.length > 0) {
+      blockers.push(`Có ${pendingTransactions.length} giao dịch đang chờ duyệt`);
+    }
+
+    const pendingDeposits = await db.select().from(schema.depositRequests)
+      .where(and(eq(schema.depositRequests.userId, userId), eq(schema.depositRequests.status, "pending")));
+    if (pendingDeposits.length > 0) {
+      blockers.push("Có yêu cầu nạp tiền đang chờ duyệt");
+    }
+
+    const unpaidCommissions = await db.select().from(schema.referrals)
+      .where(and(
+        eq(schema.referrals.referrerId, userId),
+        sql`${schema.referrals.status} <> 'cancelled'`,
+        sql`${schema.referrals.commissionAmount} > ${schema.referrals.commissionPaid}`
+      ));
+    if (unpaidCommissions.length > 0) {
+      blockers.push("Có hoa hồng giới thiệu chưa được chi trả");
+    }
+
+    // Profit distributions are keyed by staff record, matched to the member by email
+    const user = await this.getUser(userId);
+    if (user) {
+      const undistributed = await db.select({ id: schema.profitDistribution.id })
+        .from(schema.profitDistribution)
+        .innerJoin(schema.staff, eq(schema.profitDistribution.staffId, schema.staff.id))
+        .where(and(eq(schema.staff.email, user.email), eq(schema.profitDistribution.paymentStatus, "pending")));
+      if (undistributed.length > 0) {
+        blockers.push("Có lợi nhuận được chia chưa chi trả");
+      }
+    }
+
+    return blockers;
+  }
+
+  // Anonymises the member's personal data. Financial records (transactions, balances,
+  // share history, profit distributions) and the KYC record are kept for the legally
+  // required retention period; they no longer point at identifying profile data.
+  async closeAccount(userId: string, reason?: string): Promise<User | undefined> {
+    const now = new Date();
+    const [closed] = await db.update(schema.users)
+      .set({
+        email: `closed-${userId}@anonymised.invalid`,
+        phone: null,
+        name: "Tài khoản đã đóng",
+        password: `closed.${randomBytes(32).toString("hex")}`,
+        refCode: null,
+        status: "closed",
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorBackupCodes: null,
+        tokensRevokedAt: now,
+        closedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(schema.users.id, userId))
+      .returning();
+    if (!closed) return undefined;
+
+    const cards = await db.select().from(schema.cards).where(eq(schema.cards.ownerId, userId));
+    await db.update(schema.cards)
+      .set({ customerName: "Đã ẩn danh", status: "stopped" })
+      .where(eq(schema.cards.ownerId, userId));
+    for (const card of cards) {
+      if (card.status === "stopped") continue;
+      await this.recordCardStatusChange({ cardId: card.id, fromStatus: card.status, toStatus: "stopped", reason: "account_closed", changedBy: userId });
+    }
+    const cardIds = cards.map((card: Card) => card.id);
+    if (cardIds.length > 0) {
+      // Check-in notes can hold health information
+      await db.update(schema.checkIns)
+        .set({ notes: null })
+        .where(inArray(schema.checkIns.cardId, cardIds));
+    }
+
+    // Sharing ends both ways: the member's own memberships and everyone the member's cards were shared with
+    const memberships = await db.select().from(schema.cardMembers)
+      .where(cardIds.length > 0
+        ? or(eq(schema.cardMembers.userId, userId), inArray(schema.cardMembers.cardId, cardIds))
+        : eq(schema.cardMembers.userId, userId));
+    for (const membership of memberships) {
+      await this.revokeCardMember(membership.id);
+      await db.update(schema.cardMembers)
+        .set({ name: "Đã ẩn danh", email: null, phone: null })
+        .where(eq(schema.cardMembers.id, membership.id));
+    }
+
+    // Upcoming bookings free their slots; appointment notes can hold health information too
+    const openAppointments = await db.select().from(schema.appointments)
+      .where(and(eq(schema.appointments.userId, userId), eq(schema.appointments.status, "booked")));
+    for (const appointment of openAppointments) {
+      await this.cancelAppointment(appointment.id, { reason: "account_closed", forfeit: false });
+    }
+    await db.update(schema.appointments)
+      .set({ notes: null })
+      .where(eq(schema.appointments.userId, userId));
+
+    await db.update(schema.referrals)
+      .set({ customerName: null })
+      .where(eq(schema.referrals.referredUserId, userId));
+    await db.update(schema.auditLogs)
+      .set({ ipAddress: null, userAgent: null })
+      .where(eq(schema.auditLogs.userId, userId));
+    await db.delete(schema.passwordResetCodes).where(eq(schema.passwordResetCodes.userId, userId));
+    await this.revokeUserTokens(userId);
+    await this.destroyUserSessions(userId);
+
+    // Closing the account withdraws every consent
+    for (const purpose of schema.CONSENT_PURPOSES) {
+      await this.recordConsent({ userId, purpose, granted: false });
+    }
+
+    await this.createAuditLog({
+      userId,
+      action: "account_closed",
+      entityType: "user",
+      entityId: userId,
+      oldValue: null,
+      newValue: JSON.stringify({ reason: reason || null, closedAt: now }),
+      ipAddress: null,
+      userAgent: null,
+    });
+
+    return closed;
+  }
+
+  // Card upgrade operations
+  async createCardUpgrade(upgrade: schema.InsertCardUpgrade): Promise<schema.CardUpgrade> {
+    const [created] = await db.insert(schema.cardUpgrades).values(upgrade).returning();
+    return created;
+  }
+
+  async getCardUpgrade(id: string): Promise<schema.CardUpgrade | undefined> {
+    const [upgrade] = await db.select().from(schema.cardUpgrades).where(eq(schema.cardUpgrades.id, id));
+    return upgrade;
+  }
+
+  async getPendingCardUpgrade(fromCardId: string): Promise<schema.CardUpgrade | undefined> {
+    const [upgrade] = await db.select().from(schema.cardUpgrades)
+      .where(and(eq(schema.cardUpgrades.fromCardId, fromCardId), eq(schema.cardUpgrades.status, "pending")));
+    return upgrade;
+  }
+
+  async getCardUpgrades(filter: { userId?: string; status?: string } = {}): Promise<schema.CardUpgrade[]> {
+    return await db.select().from(schema.cardUpgrades)
+      .where(and(
+        filter.userId ? eq(schema.cardUpgrades.userId, filter.userId) : undefined,
+        filter.status ? eq(schema.cardUpgrades.status, filter.status) : undefined,
+      ))
+      .orderBy(desc(schema.cardUpgrades.createdAt));
+  }
+
+  // Activates the new card with the old card's unused sessions plus the tier top-up, and moves
+  // bookings and family members over. The old card is retired first so it stops taking check-ins.
+  async completeCardUpgrade(id: string, confirmedBy: string | null, paymentReference: string | undefined, expiresAt: Date): Promise<{ upgrade: schema.CardUpgrade; card: Card } | undefined> {
+    const [upgrade] = await db.update(schema.cardUpgrades)
+      .set({ status: "completed", confirmedBy, paymentReference: paymentReference || null, completedAt: new Date() })
+      .where(and(eq(schema.cardUpgrades.id, id), eq(schema.cardUpgrades.status, "pending")))
+      .returning();
+    if (!upgrade) return undefined;
+
+    const previous = await this.getCard(upgrade.fromCardId);
+    const pendingCard = await this.getCard(upgrade.toCardId);
+    const [oldCard] = await db.update(schema.cards)
+      .set({ status: "upgraded" })
+      .where(eq(schema.cards.id, upgrade.fromCardId))
+      .returning();
+
+    const [card] = await db.update(schema.cards)
+      .set({
+        status: "active",
+        remainingSessions: (oldCard.remainingSessions || 0) + upgrade.sessionTopUp,
+        reservedSessions: oldCard.reservedSessions,
+        sharedSessions: oldCard.sharedSessions,
+        currentShares: oldCard.currentShares,
+        lastCheckIn: oldCard.lastCheckIn,
+        issuedDate: new Date(),
+        expiresAt,
+      })
+      .where(eq(schema.cards.id, upgrade.toCardId))
+      .returning();
+
+    const details = JSON.stringify({ upgradeId: upgrade.id, fromCardId: oldCard.id, toCardId: card.id });
+    await this.recordCardStatusChange({ cardId: oldCard.id, fromStatus: previous?.status || "active", toStatus: "upgraded", reason: "upgraded", changedBy: confirmedBy, details });
+    await this.recordCardStatusChange({ cardId: card.id, fromStatus: "pending", toStatus: "active", reason: "upgraded", changedBy: confirmedBy, details });
+
+    await db.update(schema.appointments)
+      .set({ cardId: card.id, updatedAt: new Date() })
+      .where(and(eq(schema.appointments.cardId, oldCard.id), eq(schema.appointments.status, "booked")));
+    await db.update(schema.cardMembers)
+      .set({ cardId: card.id })
+      .where(and(eq(schema.cardMembers.cardId, oldCard.id), sql`${schema.cardMembers.status} <> 'revoked'`));
+    await db.update(schema.cards)
+      .set({ remainingSessions: 0, reservedSessions: 0, sharedSessions: 0 })
+      .where(eq(schema.cards.id, oldCard.id));
+
+    const upgradeReason = `Nâng cấp thẻ ${upgrade.fromType} → ${upgrade.toType}`;
+    if (oldCard.remainingSessions) {
+      await this.recordSessionAdjustment({ cardId: oldCard.id, delta: -oldCard.remainingSessions, kind: "upgrade", reason: upgradeReason, createdBy: confirmedBy });
+    }
+    const openingDelta = (card.remainingSessions || 0) - (pendingCard?.remainingSessions || 0);
+    if (openingDelta !== 0) {
+      await this.recordSessionAdjustment({ cardId: card.id, delta: openingDelta, kind: "upgrade", reason: upgradeReason, createdBy: confirmedBy });
+    }
+
+    if (upgrade.transactionId) {
+      await db.update(schema.transactions)
+        .set({ status: "completed", approvedBy: confirmedBy, approvedAt: new Date() })
+        .where(eq(schema.transactions.id, upgrade.transactionId));
+    }
+
+    return { upgrade, card };
+  }
+
+  async cancelCardUpgrade(id: string): Promise<schema.CardUpgrade | undefined> {
+    const [upgrade] = await db.update(schema.cardUpgrades)
+      .set({ status: "cancelled", completedAt: new Date() })
+      .where(and(eq(schema.cardUpgrades.id, id), eq(schema.cardUpgrades.status, "pending")))
+      .returning();
+    if (!upgrade) return undefined;
+
+    await this.transitionCardStatus(upgrade.toCardId, "pending", "cancelled", { reason: "upgrade_cancelled", details: { upgradeId: upgrade.id } });
+    if (upgrade.transactionId) {
+      await db.update(schema.transactions).set({ status: "rejected" }).where(eq(schema.transactions.id, upgrade.transactionId));
+    }
+    return upgrade;
+  }
+
+  // Card sharing operations
+  async getCardMembers(cardId: string): Promise<schema.CardMember[]> {
+    return await db.select().from(schema.cardMembers)
+      .where(eq(schema.cardMembers.cardId, cardId))
+      .orderBy(schema.cardMembers.invitedAt);
+  }
+
+  async getCardMember(id: string): Promise<schema.CardMember | undefined> {
+    const [member] = await db.select().from(schema.cardMembers).where(eq(schema.cardMembers.id, id));
+    return member;
+  }
+
+  async getActiveCardMembership(cardId: string, userId: string): Promise<schema.CardMember | undefined> {
+    const [member] = await db.select().from(schema.cardMembers)
+      .where(and(
+        eq(schema.cardMembers.cardId, cardId),
+        eq(schema.cardMembers.userId, userId),
+        eq(schema.cardMembers.status, "active"),
+      ));
+    return member;
+  }
+
+  // Cards other owners share with the user, with the user's own allocation
+  async getSharedCards(userId: string): Promise<(schema.CardMember & { card: Card })[]> {
+    const rows = await db.select()
+      .from(schema.cardMembers)
+      .innerJoin(schema.cards, eq(schema.cardMembers.cardId, schema.cards.id))
+      .where(and(eq(schema.cardMembers.userId, userId), eq(schema.cardMembers.status, "active")))
+      .orderBy(schema.cardMembers.acceptedAt);
+    return rows.map((row: { card_members: schema.CardMember; cards: Card }) => ({ ...row.card_members, card: row.cards }));
+  }
+
+  // Moves sessions from the owner's free pool to the new member; fails when the card
+  // does not have that many sessions left outside bookings and other allocations
+  async inviteCardMember(member: schema.InsertCardMember): Promise<{ member: schema.CardMember } | { error: "no_sessions" }> {
+    const allocated = member.allocatedSessions ?? 0;
+    const [card] = await db.update(schema.cards)
+      .set({ sharedSessions: sql`${schema.cards.sharedSessions} + ${allocated}` })
+      .where(and(
+        eq(schema.cards.id, member.cardId),
+        inArray(schema.cards.status, schema.USABLE_CARD_STATUSES),
+        sql`${schema.cards.remainingSessions} - ${schema.cards.reservedSessions} - ${schema.cards.sharedSessions} >= ${allocated}`,
+      ))
+      .returning();
+    if (!card) return { error: "no_sessions" };
+
+    const [created] = await db.insert(schema.cardMembers).values(member).returning();
+    return { member: created };
+  }
+
+  // Changes a member's allocation; it cannot drop below what the member already used
+  async updateCardMemberAllocation(id: string, allocatedSessions: number): Promise<{ member: schema.CardMember } | { error: "not_found" | "below_used" | "no_sessions" }> {
+    const current = await this.getCardMember(id);
+    if (!current || current.status === "revoked") return { error: "not_found" };
+    if (allocatedSessions < current.usedSessions) return { error: "below_used" };
+
+    const delta = allocatedSessions - current.allocatedSessions;
+    if (delta > 0) {
+      const [card] = await db.update(schema.cards)
+        .set({ sharedSessions: sql`${schema.cards.sharedSessions} + ${delta}` })
+        .where(and(
+          eq(schema.cards.id, current.cardId),
+          sql`${schema.cards.remainingSessions} - ${schema.cards.reservedSessions} - ${schema.cards.sharedSessions} >= ${delta}`,
+        ))
+        .returning();
+      if (!card) return { error: "no_sessions" };
+    }
+
+    // Guarded on the values read above so a check-in in between is not lost
+    const [member] = await db.update(schema.cardMembers)
+      .set({ allocatedSessions })
+      .where(and(
+        eq(schema.cardMembers.id, id),
+        eq(schema.cardMembers.allocatedSessions, current.allocatedSessions),
+        eq(schema.cardMembers.usedSessions, current.usedSessions),
+        sql`${schema.cardMembers.status} <> 'revoked'`,
+      ))
+      .returning();
+    if (!member) {
+      if (delta > 0) await this.returnSharedSessions(current.cardId, delta);
+      return { error: "not_found" };
+    }
+    if (delta < 0) await this.returnSharedSessions(current.cardId, -delta);
+    return { member };
+  }
+
+  // Ends the member's access; unused sessions go back to the owner
+  async revokeCardMember(id: string): Promise<schema.CardMember | undefined> {
+    const [member] = await db.update(schema.cardMembers)
+      .set({ status: "revoked", inviteCodeHash: null, revokedAt: new Date() })
+      .where(and(eq(schema.cardMembers.id, id), sql`${schema.cardMembers.status} <> 'revoked'`))
+      .returning();
+    if (!member) return undefined;
+
+    await this.returnSharedSessions(member.cardId, member.allocatedSessions - member.usedSessions);
+    return member;
+  }
+
+  async getCardMemberByInviteCode(inviteCodeHash: string): Promise<schema.CardMember | undefined> {
+    const [member] = await db.select().from(schema.cardMembers).where(eq(schema.cardMembers.inviteCodeHash, inviteCodeHash));
+    return member;
+  }
+
+  async acceptCardInvitation(inviteCodeHash: string, userId: string): Promise<schema.CardMember | undefined> {
+    const [member] = await db.update(schema.cardMembers)
+      .set({ status: "active", userId, inviteCodeHash: null, acceptedAt: new Date() })
+      .where(and(eq(schema.cardMembers.inviteCodeHash, inviteCodeHash), eq(schema.cardMembers.status, "invited")))
+      .returning();
+    return member;
+  }
+
+  private async returnSharedSessions(cardId: string, sessions: number): Promise<void> {
+    if (sessions <= 0) return;
+    await db.update(schema.cards)
+      .set({ sharedSessions: sql`greatest(${schema.cards.sharedSessions} - ${sessions}, 0)` })
+      .where(eq(schema.cards.id, cardId));
+  }
+
+  // Appointment operations
+  async getAppointmentSlots(filter: { branchIds?: string[]; from: Date; to: Date; availableOnly?: boolean }): Promise<(schema.AppointmentSlot & { branchName: string; practitionerName: string | null })[]> {
+    if (filter.branchIds && filter.branchIds.length === 0) return [];
+    const rows = await db.select({
+      slot: schema.appointmentSlots,
+      branchName: schema.branches.name,
+      practitionerName: schema.staff.name,
+    })
+      .from(schema.appointmentSlots)
+      .innerJoin(schema.branches, eq(schema.appointmentSlots.branchId, schema.branches.id))
+      .leftJoin(schema.staff, eq(schema.appointmentSlots.practitionerId, schema.staff.id))
+      .where(and(
+        filter.branchIds ? inArray(schema.appointmentSlots.branchId, filter.branchIds) : undefined,
+        gte(schema.appointmentSlots.startsAt, filter.from),
+        lt(schema.appointmentSlots.startsAt, filter.to),
+        filter.availableOnly ? sql`${schema.appointmentSlots.bookedCount} < ${schema.appointmentSlots.capacity}` : undefined,
+      ))
+      .orderBy(schema.appointmentSlots.startsAt);
+    return rows.map((row: any) => ({ ...row.slot, branchName: row.branchName, practitionerName: row.practitionerName }));
+  }
+
+  async getAppointmentSlot(id: string): Promise<schema.AppointmentSlot | undefined> {
+    const [slot] = await db.select().from(schema.appointmentSlots).where(eq(schema.appointmentSlots.id, id));
+    return slot;
+  }
+
+  async createAppointmentSlots(slots: schema.InsertAppointmentSlot[]): Promise<schema.AppointmentSlot[]> {
+    if (slots.length === 0) return [];
+    return await db.insert(schema.appointmentSlots).values(slots).returning();
+  }
+
+  // Only slots that were never booked can be removed; otherwise the booking history would dangle
+  async deleteAppointmentSlot(id: string): Promise<boolean> {
+    const deleted = await db.delete(schema.appointmentSlots)
+      .where(and(
+        eq(schema.appointmentSlots.id, id),
+        sql`not exists (select 1 from ${schema.appointments} where ${schema.appointments.slotId} = ${schema.appointmentSlots.id})`,
+      ))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getAppointment(id: string): Promise<schema.Appointment | undefined> {
+    const [appointment] = await db.select().from(schema.appointments).where(eq(schema.appointments.id, id));
+    return appointment;
+  }
+
+  async countOpenAppointments(cardId: string): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(schema.appointments)
+      .where(and(eq(schema.appointments.cardId, cardId), eq(schema.appointments.status, "booked")));
+    return row?.count ?? 0;
+  }
+
+  // Takes a seat in the slot, then reserves one of the card's free sessions; each step is a
+  // guarded update so concurrent bookings cannot overfill a slot or overdraw a card.
+  async bookAppointment(booking: { slotId: string; cardId: string; userId: string; notes?: string }): Promise<{ appointment: schema.Appointment } | { error: "slot_unavailable" | "no_sessions" }> {
+    const [slot] = await db.update(schema.appointmentSlots)
+      .set({ bookedCount: sql`${schema.appointmentSlots.bookedCount} + 1` })
+      .where(and(
+        eq(schema.appointmentSlots.id, booking.slotId),
+        sql`${schema.appointmentSlots.bookedCount} < ${schema.appointmentSlots.capacity}`,
+        gte(schema.appointmentSlots.startsAt, new Date()),
+      ))
+      .returning();
+    if (!slot) return { error: "slot_unavailable" };
+
+    const [card] = await db.update(schema.cards)
+      .set({ reservedSessions: sql`${schema.cards.reservedSessions} + 1` })
+      .where(and(
+        eq(schema.cards.id, booking.cardId),
+        inArray(schema.cards.status, schema.USABLE_CARD_STATUSES),
+        sql`${schema.cards.remainingSessions} - ${schema.cards.reservedSessions} - ${schema.cards.sharedSessions} > 0`,
+      ))
+      .returning();
+    if (!card) {
+      await this.releaseSlotSeat(slot.id);
+      return { error: "no_sessions" };
+    }
+
+    const [appointment] = await db.insert(schema.appointments).values(booking).returning();
+    return { appointment };
+  }
+
+  // Cancels a booked appointment. A forfeited cancellation (too late) uses up the reserved session.
+  async cancelAppointment(id: string, cancellation: { reason?: string; forfeit: boolean }): Promise<schema.Appointment | undefined> {
+    const [appointment] = await db.update(schema.appointments)
+      .set({
+        status: "cancelled",
+        cancelReason: cancellation.reason || null,
+        cancelledAt: new Date(),
+        sessionForfeited: cancellation.forfeit,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(schema.appointments.id, id), eq(schema.appointments.status, "booked")))
+      .returning();
+    if (!appointment) return undefined;
+
+    await this.releaseSlotSeat(appointment.slotId);
+    await this.releaseReservedSession(appointment.cardId, cancellation.forfeit, `Hủy lịch hẹn muộn (${appointment.id})`);
+    return appointment;
+  }
+
+  async markAppointmentNoShow(id: string, forfeit: boolean): Promise<schema.Appointment | undefined> {
+    const [appointment] = await db.update(schema.appointments)
+      .set({ status: "no_show", sessionForfeited: forfeit, updatedAt: new Date() })
+      .where(and(eq(schema.appointments.id, id), eq(schema.appointments.status, "booked")))
+      .returning();
+    if (!appointment) return undefined;
+
+    await this.releaseReservedSession(appointment.cardId, forfeit, `Không đến lịch hẹn (${appointment.id})`);
+    return appointment;
+  }
+
+  // Bookings still open after their slot ended (plus the grace period)
+  async getOverdueAppointments(endedBefore: Date): Promise<schema.Appointment[]> {
+    const rows = await db.select({ appointment: schema.appointments })
+      .from(schema.appointments)
+      .innerJoin(schema.appointmentSlots, eq(schema.appointments.slotId, schema.appointmentSlots.id))
+      .where(and(eq(schema.appointments.status, "booked"), lt(schema.appointmentSlots.endsAt, endedBefore)));
+    return rows.map((row: any) => row.appointment);
+  }
+
+  // The booking a scanned card is checking in for: booked at this branch, in a slot open around now
+  async findAppointmentForCheckIn(cardId: string, branchId: string, window: { startsBefore: Date; endsAfter: Date }): Promise<schema.Appointment | undefined> {
+    const [row] = await db.select({ appointment: schema.appointments })
+      .from(schema.appointments)
+      .innerJoin(schema.appointmentSlots, eq(schema.appointments.slotId, schema.appointmentSlots.id))
+      .where(and(
+        eq(schema.appointments.cardId, cardId),
+        eq(schema.appointments.status, "booked"),
+        eq(schema.appointmentSlots.branchId, branchId),
+        lte(schema.appointmentSlots.startsAt, window.startsBefore),
+        gte(schema.appointmentSlots.endsAt, window.endsAfter),
+      ))
+      .orderBy(schema.appointmentSlots.startsAt)
+      .limit(1);
+    return row?.appointment;
+  }
+
+  async getUserAppointments(userId: string): Promise<(schema.Appointment & { slot: schema.AppointmentSlot; branchName: string; practitionerName: string | null; cardNumber: string; cardType: string })[]> {
+    const rows = await db.select({
+      appointment: schema.appointments,
+      slot: schema.appointmentSlots,
+      branchName: schema.branches.name,
+      practitionerName: schema.staff.name,
+      cardNumber: schema.cards.cardNumber,
+      cardType: schema.cards.cardType,
+    })
+      .from(schema.appointments)
+      .innerJoin(schema.appointmentSlots, eq(schema.appointments.slotId, schema.appointmentSlots.id))
+      .innerJoin(schema.branches, eq(schema.appointmentSlots.branchId, schema.branches.id))
+      .innerJoin(schema.cards, eq(schema.appointments.cardId, schema.cards.id))
+      .leftJoin(schema.staff, eq(schema.appointmentSlots.practitionerId, schema.staff.id))
+      .where(eq(schema.appointments.userId, userId))
+      .orderBy(desc(schema.appointmentSlots.startsAt));
+    return rows.map((row: any) => ({
+      ...row.appointment,
+      slot: row.slot,
+      branchName: row.branchName,
+      practitionerName: row.practitionerName,
+      cardNumber: row.cardNumber,
+      cardType: row.cardType,
+    }));
+  }
+
+  // Day schedule for branch staff: every slot of the day with its bookings
+  async getBranchSchedule(branchId: string, from: Date, to: Date): Promise<(schema.AppointmentSlot & { practitionerName: string | null; appointments: (schema.Appointment & { cardNumber: string; customerName: string })[] })[]> {
+    const slots = await this.getAppointmentSlots({ branchIds: [branchId], from, to });
+    if (slots.length === 0) return [];
+
+    const rows = await db.select({
+      appointment: schema.appointments,
+      cardNumber: schema.cards.cardNumber,
+      customerName: schema.cards.customerName,
+    })
+      .from(schema.appointments)
+      .innerJoin(schema.cards, eq(schema.appointments.cardId, schema.cards.id))
+      .where(inArray(schema.appointments.slotId, slots.map(slot => slot.id)))
+      .orderBy(schema.appointments.createdAt);
+
+    return slots.map(({ branchName, ...slot }) => ({
+      ...slot,
+      appointments: rows
+        .filter((row: any) => row.appointment.slotId === slot.id)
+        .map((row: any) => ({ ...row.appointment, cardNumber: row.cardNumber, customerName: row.customerName })),
+    }));
+  }
+
+  private async releaseSlotSeat(slotId: string): Promise<void> {
+    await db.update(schema.appointmentSlots)
+      .set({ bookedCount: sql`greatest(${schema.appointmentSlots.bookedCount} - 1, 0)` })
+      .where(eq(schema.appointmentSlots.id, slotId));
+  }
+
+  // Gives the reservation back to the card, or uses the session up when it is forfeited
+  private async releaseReservedSession(cardId: string, forfeit: boolean, reason: string): Promise<void> {
+    await db.update(schema.cards)
+      .set(forfeit
+        ? { reservedSessions: sql`greatest(${schema.cards.reservedSessions} - 1, 0)`, remainingSessions: sql`greatest(${schema.cards.remainingSessions} - 1, 0)` }
+        : { reservedSessions: sql`greatest(${schema.cards.reservedSessions} - 1, 0)` })
+      .where(eq(schema.cards.id, cardId));
+    if (forfeit) {
+      await this.recordSessionAdjustment({ cardId, delta: -1, kind: "forfeit", reason });
+    }
+  }
+
+  // Card lifecycle operations
+  async getCardsByStatus(statuses: string[]): Promise<Card[]> {
+    if (statuses.length === 0) return [];
+    return await db.select().from(schema.cards).where(inArray(schema.cards.status, statuses));
+  }
+
+  async recordCardStatusChange(change: schema.InsertCardStatusHistory): Promise<schema.CardStatusHistory> {
+    const [created] = await db.insert(schema.cardStatusHistory).values(change).returning();
+    return created;
+  }
+
+  // Moves a card from one status to another and records it. Guarded on the current status,
+  // so of two concurrent transitions only the first one applies.
+  async transitionCardStatus(
+    cardId: string,
+    fromStatus: string,
+    toStatus: string,
+    change: { reason: string; changedBy?: string | null; details?: Record<string, unknown> },
+    fields: Partial<InsertCard> = {},
+  ): Promise<Card | undefined> {
+    const [card] = await db.update(schema.cards)
+      .set({ ...fields, status: toStatus })
+      .where(and(eq(schema.cards.id, cardId), eq(schema.cards.status, fromStatus)))
+      .returning();
+    if (!card) return undefined;
+
+    await this.recordCardStatusChange({
+      cardId,
+      fromStatus,
+      toStatus,
+      reason: change.reason,
+      changedBy: change.changedBy || null,
+      details: change.details ? JSON.stringify(change.details) : null,
+    });
+    return card;
+  }
+
+  async getCardStatusHistory(cardId: string): Promise<schema.CardStatusHistory[]> {
+    return await db.select().from(schema.cardStatusHistory)
+      .where(eq(schema.cardStatusHistory.cardId, cardId))
+      .orderBy(desc(schema.cardStatusHistory.createdAt));
+  }
+
+  async getBookedAppointmentsForCard(cardId: string): Promise<schema.Appointment[]> {
+    return await db.select().from(schema.appointments)
+      .where(and(eq(schema.appointments.cardId, cardId), eq(schema.appointments.status, "booked")));
+  }
+
+  async createCardRenewal(renewal: schema.InsertCardRenewal): Promise<schema.CardRenewal> {
+    const [created] = await db.insert(schema.cardRenewals).values(renewal).returning();
+    return created;
+  }
+
+  async getCardRenewal(id: string): Promise<schema.CardRenewal | undefined> {
+    const [renewal] = await db.select().from(schema.cardRenewals).where(eq(schema.cardRenewals.id, id));
+    return renewal;
+  }
+
+  async getPendingCardRenewal(cardId: string): Promise<schema.CardRenewal | undefined> {
+    const [renewal] = await db.select().from(schema.cardRenewals)
+      .where(and(eq(schema.cardRenewals.cardId, cardId), eq(schema.cardRenewals.status, "pending")));
+    return renewal;
+  }
+
+  async getCardRenewals(filter: { userId?: string; status?: string } = {}): Promise<schema.CardRenewal[]> {
+    return await db.select().from(schema.cardRenewals)
+      .where(and(
+        filter.userId ? eq(schema.cardRenewals.userId, filter.userId) : undefined,
+        filter.status ? eq(schema.cardRenewals.status, filter.status) : undefined,
+      ))
+      .orderBy(desc(schema.cardRenewals.createdAt));
+  }
+
+  // Extends the term from the later of the current expiry and now, and adds the renewal's sessions.
+  // An expired card becomes active again; its status is then re-evaluated by the lifecycle engine.
+  async completeCardRenewal(id: string, confirmedBy: string | null, paymentReference?: string): Promise<{ renewal: schema.CardRenewal; card: Card } | undefined> {
+    const [renewal] = await db.update(schema.cardRenewals)
+      .set({ status: "completed", confirmedBy, paymentReference: paymentReference || null, completedAt: new Date() })
+      .where(and(eq(schema.cardRenewals.id, id), eq(schema.cardRenewals.status, "pending")))
+      .returning();
+    if (!renewal) return undefined;
+
+    const current = await this.getCard(renewal.cardId);
+    if (!current) return undefined;
+    const now = new Date();
+    const termStart = current.expiresAt && current.expiresAt > now ? current.expiresAt : now;
+    const expiresAt = new Date(termStart);
+    expiresAt.setMonth(expiresAt.getMonth() + renewal.validityMonths);
+
+    const [card] = await db.update(schema.cards)
+      .set({
+        expiresAt,
+        renewalNoticeSentAt: null,
+        remainingSessions: sql`coalesce(${schema.cards.remainingSessions}, 0) + ${renewal.sessionTopUp}`,
+        ...(current.status === "expired" ? { status: "active" } : {}),
+      })
+      .where(eq(schema.cards.id, renewal.cardId))
+      .returning();
+
+    await this.recordCardStatusChange({
+      cardId: card.id,
+      fromStatus: current.status,
+      toStatus: card.status,
+      reason: "renewed",
+      changedBy: confirmedBy,
+      details: JSON.stringify({ renewalId: renewal.id, previousExpiresAt: current.expiresAt, expiresAt }),
+    });
+    if (renewal.sessionTopUp > 0) {
+      await this.recordSessionAdjustment({ cardId: card.id, delta: renewal.sessionTopUp, kind: "renewal", reason: `Gia hạn thẻ (${renewal.id})`, createdBy: confirmedBy });
+    }
+
+    if (renewal.transactionId) {
+      await db.update(schema.transactions)
+        .set({ status: "completed", approvedBy: confirmedBy, approvedAt: new Date() })
+        .where(eq(schema.transactions.id, renewal.transactionId));
+    }
+
+    return { renewal, card };
+  }
+
+  async cancelCardRenewal(id: string): Promise<schema.CardRenewal | undefined> {
+    const [renewal] = await db.update(schema.cardRenewals)
+      .set({ status: "cancelled", completedAt: new Date() })
+      .where(and(eq(schema.cardRenewals.id, id), eq(schema.cardRenewals.status, "pending")))
+      .returning();
+    if (!renewal) return undefined;
+
+    if (renewal.transactionId) {
+      await db.update(schema.transactions).set({ status: "rejected" }).where(eq(schema.transactions.id, renewal.transactionId));
+    }
+    return renewal;
+  }
+
+  // Session ledger operations
+  async recordSessionAdjustment(adjustment: schema.InsertCardSessionAdjustment): Promise<schema.CardSessionAdjustment> {
+    const [created] = await db.insert(schema.cardSessionAdjustments).values(adjustment).returning();
+    return created;
+  }
+
+  // Staff bonus or correction. Guarded so the card never drops below the sessions already
+  // reserved by bookings or allocated to family members.
+  async adjustCardSessions(cardId: string, delta: number, kind: string, reason: string, createdBy: string): Promise<{ card: Card; adjustment: schema.CardSessionAdjustment } | undefined> {
+    const [card] = await db.update(schema.cards)
+      .set({ remainingSessions: sql`coalesce(${schema.cards.remainingSessions}, 0) + ${delta}` })
+      .where(and(
+        eq(schema.cards.id, cardId),
+        sql`coalesce(${schema.cards.remainingSessions}, 0) + ${delta} >= ${schema.cards.reservedSessions} + ${schema.cards.sharedSessions}`,
+      ))
+      .returning();
+    if (!card) return undefined;
+
+    const adjustment = await this.recordSessionAdjustment({ cardId, delta, kind, reason, createdBy });
+    return { card, adjustment };
+  }
+
+  // Everything that moved the card's sessions: check-ins (with branch, practitioner and the family
+  // member who came) and adjustments (with who made them)
+  async getCardSessionLedger(cardId: string): Promise<{
+    checkIns: (schema.CheckIn & { branchName: string | null; practitionerName: string | null; memberName: string | null })[];
+    adjustments: (schema.CardSessionAdjustment & { createdByName: string | null })[];
+  }> {
+    const checkInRows = await db.select({
+      checkIn: schema.checkIns,
+      branchName: schema.branches.name,
+      practitionerName: schema.staff.name,
+      memberName: schema.cardMembers.name,
+    })
+      .from(schema.checkIns)
+      .leftJoin(schema.branches, eq(schema.checkIns.branchId, schema.branches.id))
+      .leftJoin(schema.staff, eq(schema.checkIns.practitionerId, schema.staff.id))
+      .leftJoin(schema.cardMembers, eq(schema.checkIns.cardMemberId, schema.cardMembers.id))
+      .where(eq(schema.checkIns.cardId, cardId))
+      .orderBy(schema.checkIns.checkInDate);
+    const adjustmentRows = await db.select({ adjustment: schema.cardSessionAdjustments, createdByName: schema.users.name })
+      .from(schema.cardSessionAdjustments)
+      .leftJoin(schema.users, eq(schema.cardSessionAdjustments.createdBy, schema.users.id))
+      .where(eq(schema.cardSessionAdjustments.cardId, cardId))
+      .orderBy(schema.cardSessionAdjustments.createdAt);
+
+    return {
+      checkIns: checkInRows.map((row: any) => ({ ...row.checkIn, branchName: row.branchName, practitionerName: row.practitionerName, memberName: row.memberName })),
+      adjustments: adjustmentRows.map((row: any) => ({ ...row.adjustment, createdByName: row.createdByName })),
+    };
+  }
+
+  // Card refund operations
+  async createCardRefund(refund: schema.InsertCardRefund): Promise<schema.CardRefund> {
+    const [created] = await db.insert(schema.cardRefunds).values(refund).returning();
+    return created;
+  }
+
+  async getCardRefund(id: string): Promise<schema.CardRefund | undefined> {
+    const [refund] = await db.select().from(schema.cardRefunds).where(eq(schema.cardRefunds.id, id));
+    return refund;
+  }
+
+  async getCardRefundByTransaction(transactionId: string): Promise<schema.CardRefund | undefined> {
+    const [refund] = await db.select().from(schema.cardRefunds).where(eq(schema.cardRefunds.transactionId, transactionId));
+    return refund;
+  }
+
+  async getPendingCardRefund(cardId: string): Promise<schema.CardRefund | undefined> {
+    const [refund] = await db.select().from(schema.cardRefunds)
+      .where(and(eq(schema.cardRefunds.cardId, cardId), eq(schema.cardRefunds.status, "pending")));
+    return refund;
+  }
+
+  async getCardRefunds(filter: { userId?: string; status?: string } = {}): Promise<schema.CardRefund[]> {
+    return await db.select().from(schema.cardRefunds)
+      .where(and(
+        filter.userId ? eq(schema.cardRefunds.userId, filter.userId) : undefined,
+        filter.status ? eq(schema.cardRefunds.status, filter.status) : undefined,
+      ))
+      .orderBy(desc(schema.cardRefunds.createdAt));
+  }
+
+  // Stores the amounts recomputed at approval and approves the refund transaction with the final amount
+  async approveCardRefund(id: string, reviewedBy: string, amounts: Partial<schema.InsertCardRefund>): Promise<schema.CardRefund | undefined> {
+    const [refund] = await db.update(schema.cardRefunds)
+      .set({ ...amounts, status: "approved", reviewedBy, reviewedAt: new Date() })
+      .where(and(eq(schema.cardRefunds.id, id), eq(schema.cardRefunds.status, "pending")))
+      .returning();
+    if (!refund) return undefined;
+
+    if (refund.transactionId) {
+      await db.update(schema.transactions)
+        .set({ status: "approved", amount: refund.refundableAmount, approvedBy: reviewedBy, approvedAt: new Date() })
+        .where(eq(schema.transactions.id, refund.transactionId));
+    }
+    return refund;
+  }
+
+  async rejectCardRefund(id: string, reviewedBy: string, reviewNote?: string): Promise<schema.CardRefund | undefined> {
+    const [refund] = await db.update(schema.cardRefunds)
+      .set({ status: "rejected", reviewedBy, reviewNote: reviewNote || null, reviewedAt: new Date() })
+      .where(and(eq(schema.cardRefunds.id, id), eq(schema.cardRefunds.status, "pending")))
+      .returning();
+    if (!refund) return undefined;
+
+    if (refund.transactionId) {
+      await db.update(schema.transactions)
+        .set({ status: "rejected", approvedBy: reviewedBy })
+        .where(eq(schema.transactions.id, refund.transactionId));
+    }
+    return refund;
+  }
+
+  // Bank account operations
+  async getBankAccounts(): Promise<schema.BankAccount[]> {
+    return await db.select().from(schema.bankAccounts).orderBy(schema.bankAccounts.createdAt);
+  }
+
+  async getBankAccount(id: string): Promise<schema.BankAccount | undefined> {
+    const [account] = await db.select().from(schema.bankAccounts).where(eq(schema.bankAccounts.id, id));
+    return account;
+  }
+
+  async createBankAccount(account: schema.InsertBankAccount): Promise<schema.BankAccount> {
+    const [created] = await db.insert(schema.bankAccounts).values(account).returning();
+    return created;
+  }
+
+  async updateBankAccount(id: string, account: Partial<schema.InsertBankAccount>): Promise<schema.BankAccount | undefined> {
+    const [updated] = await db.update(schema.bankAccounts)
+      .set({ ...account, updatedAt: new Date() })
+      .where(eq(schema.bankAccounts.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Most specific active account: one for the branch and purpose beats one for the branch only,
+  // which beats one for the purpose only, which beats the general account
+  async findReceivingBankAccount(purpose: schema.BankAccountPurpose, branchId?: string | null): Promise<schema.BankAccount | undefined> {
+    const accounts = await db.select().from(schema.bankAccounts)
+      .where(and(
+        eq(schema.bankAccounts.isActive, true),
+        branchId ? or(isNull(schema.bankAccounts.branchId), eq(schema.bankAccounts.branchId, branchId)) : isNull(schema.bankAccounts.branchId),
+        or(isNull(schema.bankAccounts.purpose), eq(schema.bankAccounts.purpose, purpose)),
+      ))
+      .orderBy(schema.bankAccounts.createdAt);
+    const rank = (account: schema.BankAccount) => (account.branchId ? 2 : 0) + (account.purpose ? 1 : 0);
+    return accounts.reduce((best: schema.BankAccount | undefined, account: schema.BankAccount) =>
+      !best || rank(account) > rank(best) ? account : best, undefined);
+  }
+
+  // Bank transfer operations
+  // Returns undefined for a notification that was already received
+  async createBankTransfer(transfer: schema.InsertBankTransfer): Promise<schema.BankTransfer | undefined> {
+    const [created] = await db.insert(schema.bankTransfers)
+      .values(transfer)
+      .onConflictDoNothing({ target: schema.bankTransfers.externalId })
+      .returning();
+    return created;
+  }
+
+  async getBankTransfer(id: string): Promise<schema.BankTransfer | undefined> {
+    const [transfer] = await db.select().from(schema.bankTransfers).where(eq(schema.bankTransfers.id, id));
+    return transfer;
+  }
+
+  async getBankTransfers(filter: { status?: string } = {}): Promise<schema.BankTransfer[]> {
+    return await db.select().from(schema.bankTransfers)
+      .where(filter.status ? eq(schema.bankTransfers.status, filter.status) : undefined)
+      .orderBy(desc(schema.bankTransfers.createdAt));
+  }
+
+  // Guarded on the current status so a transfer is settled or dismissed only once
+  async updateBankTransferStatus(id: string, fromStatus: string, fields: Partial<schema.InsertBankTransfer> & { status: string }): Promise<schema.BankTransfer | undefined> {
+    const [updated] = await db.update(schema.bankTransfers)
+      .set({ ...fields, resolvedAt: fields.status === "needs_review" ? null : new Date() })
+      .where(and(eq(schema.bankTransfers.id, id), eq(schema.bankTransfers.status, fromStatus)))
+      .returning();
+    return updated;
+  }
+
+  // Orders whose id starts with a payment memo reference (8 hex characters, dashes ignored)
+  async getTransactionsByReference(reference: string): Promise<Transaction[]> {
+    return await db.select().from(schema.transactions)
+      .where(sql`replace(${schema.transactions.id}, '-', '') like ${reference.toLowerCase() + "%"}`);
+  }
+
+  async getCardUpgradesByReference(reference: string): Promise<schema.CardUpgrade[]> {
+    return await db.select().from(schema.cardUpgrades)
+      .where(sql`replace(${schema.cardUpgrades.id}, '-', '') like ${reference.toLowerCase() + "%"}`);
+  }
+
+  async getCardRenewalsByReference(reference: string): Promise<schema.CardRenewal[]> {
+    return await db.select().from(schema.cardRenewals)
+      .where(sql`replace(${schema.cardRenewals.id}, '-', '') like ${reference.toLowerCase() + "%"}`);
+  }
+
+  async findBankAccountByNumber(accountNumber: string): Promise<schema.BankAccount | undefined> {
+    const [account] = await db.select().from(schema.bankAccounts).where(eq(schema.bankAccounts.accountNumber, accountNumber));
+    return account;
+  }
+
+  // Bank statement operations
+  async createBankStatementImport(
+    statementImport: schema.InsertBankStatementImport,
+    lines: Omit<schema.InsertBankStatementLine, "importId">[]
+  ): Promise<{ statementImport: schema.BankStatementImport; lines: schema.BankStatementLine[] }> {
+    const [created] = await db.insert(schema.bankStatementImports).values(statementImport).returning();
+    const createdLines: schema.BankStatementLine[] = [];
+    // Large statements go in batches to stay under the query parameter limit
+    for (let i = 0; i < lines.length; i += 500) {
+      const batch = lines.slice(i, i + 500).map(line => ({ ...line, importId: created.id }));
+      createdLines.push(...await db.insert(schema.bankStatementLines).values(batch).returning());
+    }
+    return { statementImport: created, lines: createdLines };
+  }
+
+  async getBankStatementImports(): Promise<schema.BankStatementImport[]> {
+    return await db.select().from(schema.bankStatementImports).orderBy(desc(schema.bankStatementImports.createdAt));
+  }
+
+  async getBankStatementLine(id: string): Promise<schema.BankStatementLine | undefined> {
+    const [line] = await db.select().from(schema.bankStatementLines).where(eq(schema.bankStatementLines.id, id));
+    return line;
+  }
+
+  async getBankStatementLines(from: Date, to: Date): Promise<schema.BankStatementLine[]> {
+    return await db.select().from(schema.bankStatementLines)
+      .where(and(gte(schema.bankStatementLines.transactionDate, from), lt(schema.bankStatementLines.transactionDate, to)))
+      .orderBy(schema.bankStatementLines.transactionDate, schema.bankStatementLines.lineNumber);
+  }
+
+  // Earlier lines with the same fingerprint, for flagging a statement imported twice
+  async getBankStatementLinesByFingerprint(fingerprints: string[]): Promise<schema.BankStatementLine[]> {
+    if (fingerprints.length === 0) return [];
+    return await db.select().from(schema.bankStatementLines)
+      .where(and(inArray(schema.bankStatementLines.fingerprint, fingerprints), sql`${schema.bankStatementLines.status} <> 'duplicate'`));
+  }
+
+  async getBankStatementLinesByTransactions(transactionIds: string[]): Promise<schema.BankStatementLine[]> {
+    if (transactionIds.length === 0) return [];
+    return await db.select().from(schema.bankStatementLines)
+      .where(inArray(schema.bankStatementLines.transactionId, transactionIds));
+  }
+
+  // Transactions that can appear on a statement in the period and are not matched to a line yet
+  async getUnreconciledTransactions(from: Date, to: Date): Promise<Transaction[]> {
+    return await db.select().from(schema.transactions)
+      .where(and(
+        inArray(schema.transactions.status, ["pending", "approved", "completed"]),
+        gte(schema.transactions.date, from),
+        lt(schema.transactions.date, to),
+        sql`not exists (select 1 from ${schema.bankStatementLines} where ${schema.bankStatementLines.transactionId} = ${schema.transactions.id})`
+      ))
+      .orderBy(schema.transactions.date);
+  }
+
+  async getReconcilableTransactions(from: Date, to: Date): Promise<Transaction[]> {
+    return await db.select().from(schema.transactions)
+      .where(and(
+        inArray(schema.transactions.status, ["pending", "approved", "completed"]),
+        gte(schema.transactions.date, from),
+        lt(schema.transactions.date, to)
+      ))
+      .orderBy(schema.transactions.date);
+  }
+
+  // Guarded on the line being unmatched and the transaction not being matched to another line
+  async matchBankStatementLine(id: string, transactionId: string, matchedBy: string | null): Promise<schema.BankStatementLine | undefined> {
+    const [updated] = await db.update(schema.bankStatementLines)
+      .set({ status: "matched", transactionId, matchedBy, matchedAt: new Date() })
+      .where(and(
+        eq(schema.bankStatementLines.id, id),
+        eq(schema.bankStatementLines.status, "unmatched"),
+        sql`not exists (select 1 from ${schema.bankStatementLines} other where other.transaction_id = ${transactionId})`
+      ))
+      .returning();
+    return updated;
+  }
+
+  async unmatchBankStatementLine(id: string): Promise<schema.BankStatementLine | undefined> {
+    const [updated] = await db.update(schema.bankStatementLines)
+      .set({ status: "unmatched", transactionId: null, matchedBy: null, matchedAt: null })
+      .where(and(eq(schema.bankStatementLines.id, id), eq(schema.bankStatementLines.status, "matched")))
+      .returning();
+    return updated;
+  }
+
+  async updateBankStatementLineStatus(id: string, fromStatuses: string[], status: string): Promise<schema.BankStatementLine | undefined> {
+    const [updated] = await db.update(schema.bankStatementLines)
+      .set({ status })
+      .where(and(eq(schema.bankStatementLines.id, id), inArray(schema.bankStatementLines.status, fromStatuses)))
+      .returning();
+    return updated;
+  }
+
+  // Reconciliation lock operations
+  async getReconciliationLocks(): Promise<schema.ReconciliationLock[]> {
+    return await db.select().from(schema.reconciliationLocks).orderBy(desc(schema.reconciliationLocks.periodStart));
+  }
+
+  // Locks overlapping the given days (YYYY-MM-DD, inclusive)
+  async findReconciliationLocks(periodStart: string, periodEnd: string): Promise<schema.ReconciliationLock[]> {
+    return await db.select().from(schema.reconciliationLocks)
+      .where(and(lte(schema.reconciliationLocks.periodStart, periodEnd), gte(schema.reconciliationLocks.periodEnd, periodStart)));
+  }
+
+  async createReconciliationLock(lock: schema.InsertReconciliationLock): Promise<schema.ReconciliationLock> {
+    const [created] = await db.insert(schema.reconciliationLocks).values(lock).returning();
+    return created;
+  }
+
+  async deleteReconciliationLock(id: string): Promise<schema.ReconciliationLock | undefined> {
+    const [deleted] = await db.delete(schema.reconciliationLocks).where(eq(schema.reconciliationLocks.id, id)).returning();
+    return deleted;
+  }
+
+  // Order operations
+  async createOrder(order: schema.InsertOrder): Promise<schema.Order> {
+    const [created] = await db.insert(schema.orders).values(order).returning();
+    return created;
+  }
+
+  async getOrder(id: string): Promise<schema.Order | undefined> {
+    const [order] = await db.select().from(schema.orders).where(eq(schema.orders.id, id));
+    return order;
+  }
+
+  async getOrders(filter: { status?: string; kind?: string } = {}): Promise<schema.Order[]> {
+    const conditions = [];
+    if (filter.status) conditions.push(eq(schema.orders.status, filter.status));
+    if (filter.kind) conditions.push(eq(schema.orders.kind, filter.kind));
+    return await db.select().from(schema.orders)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(schema.orders.createdAt));
+  }
+
+  async getOrdersByReference(reference: string): Promise<schema.Order[]> {
+    return await db.select().from(schema.orders)
+      .where(sql`replace(${schema.orders.id}, '-', '') like ${reference.toLowerCase() + "%"}`);
+  }
+
+  // Guarded on the current status so a payment, fulfilment or expiry is applied only once
+  async updateOrderStatus(id: string, fromStatus: string, fields: Partial<schema.InsertOrder> & { status: string }): Promise<schema.Order | undefined> {
+    const [updated] = await db.update(schema.orders)
+      .set({ ...fields, updatedAt: new Date() })
+      .where(and(eq(schema.orders.id, id), eq(schema.orders.status, fromStatus)))
+      .returning();
+    return updated;
+  }
+
+  // Pending orders whose payment deadline has passed
+  async expireUnpaidOrders(now: Date = new Date()): Promise<schema.Order[]> {
+    return await db.update(schema.orders)
+      .set({ status: "expired", updatedAt: now })
+      .where(and(eq(schema.orders.status, "pending"), lt(schema.orders.expiresAt, now)))
+      .returning();
+  }
+
+  // Idempotency key operations
+  // Inserts the key unless it exists; undefined when another request already holds it
+  async claimIdempotencyKey(key: string, requestHash: string): Promise<schema.IdempotencyKey | undefined> {
+    const [claimed] = await db.insert(schema.idempotencyKeys)
+      .values({ key, requestHash })
+      .onConflictDoNothing()
+      .returning();
+    return claimed;
+  }
+
+  async getIdempotencyKey(key: string): Promise<schema.IdempotencyKey | undefined> {
+    const [row] = await db.select().from(schema.idempotencyKeys).where(eq(schema.idempotencyKeys.key, key));
+    return row;
+  }
+
+  async completeIdempotencyKey(key: string, responseStatus: number, responseBody: string): Promise<void> {
+    await db.update(schema.idempotencyKeys)
+      .set({ responseStatus, responseBody, completedAt: new Date() })
+      .where(eq(schema.idempotencyKeys.key, key));
+  }
+
+  async releaseIdempotencyKey(key: string): Promise<void> {
+    await db.delete(schema.idempotencyKeys).where(eq(schema.idempotencyKeys.key, key));
+  }
+
+  async purgeIdempotencyKeys(createdBefore: Date): Promise<void> {
+    await db.delete(schema.idempotencyKeys).where(lt(schema.idempotencyKeys.createdAt, createdBefore));
+  }
+
+  // Login throttle operations
+  async getLoginThrottles(keys: string[]): Promise<schema.LoginThrottle[]> {
+    if (keys.length === 0) return [];
+    return await db.select().from(schema.loginThrottles).where(inArray(schema.loginThrottles.key, keys));
+  }
+
+  // Atomic so concurrent attempts from several processes are all counted. The attempt is counted
+  // up front; it becomes a failure with recordLoginFailure or is handed back with releaseLoginAttempt.
+  async reserveLoginAttempt(key: string, windowStart: Date): Promise<schema.LoginThrottle> {
+    const now = new Date();
+    const t = schema.loginThrottles;
+    const [row] = await db.insert(t)
+      .values({ key, failures: 1, updatedAt: now })
+      .onConflictDoUpdate({
+        target: t.key,
+        set: {
+          // A stale window or an expired lock starts counting again from one
+          failures: sql`CASE WHEN coalesce(${t.lastFailureAt}, ${t.updatedAt}) < ${windowStart} OR ${t.lockedUntil} < ${now} THEN 1 ELSE ${t.failures} + 1 END`,
+          lockedUntil: sql`CASE WHEN ${t.lockedUntil} < ${now} THEN NULL ELSE ${t.lockedUntil} END`,
+          updatedAt: now,
+        },
+      })
+      .returning();
+    return row;
+  }
+
+  async recordLoginFailure(key: string): Promise<void> {
+    const now = new Date();
+    await db.update(schema.loginThrottles)
+      .set({ lastFailureAt: now, updatedAt: now })
+      .where(eq(schema.loginThrottles.key, key));
+  }
+
+  async releaseLoginAttempt(key: string): Promise<void> {
+    await db.update(schema.loginThrottles)
+      .set({ failures: sql`greatest(${schema.loginThrottles.failures} - 1, 0)`, updatedAt: new Date() })
+      .where(eq(schema.loginThrottles.key, key));
+  }
+
+  async lockLoginThrottle(key: string, lockedUntil: Date): Promise<void> {
+    await db.update(schema.loginThrottles)
+      .set({ lockedUntil, updatedAt: new Date() })
+      .where(eq(schema.loginThrottles.key, key));
+  }
+
+  async clearLoginThrottles(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await db.delete(schema.loginThrottles).where(inArray(schema.loginThrottles.key, keys));
+  }
+
+  async getLockedLoginThrottles(prefix: string): Promise<schema.LoginThrottle[]> {
+    return await db.select().from(schema.loginThrottles)
+      .where(and(
+        sql`${schema.loginThrottles.key} LIKE ${prefix + "%"}`,
+        gte(schema.loginThrottles.lockedUntil, new Date())
+      ));
+  }
+
+  // Permission operations
+  async getUserPermissions(userId: string): Promise<schema.Permission[]> {
+    const user = await this.getUser(userId);
+    if (!user) return [];
+    // Admin is a superuser so a bad matrix edit can never lock everyone out
+    if (user.role === "admin") return [...schema.PERMISSION_KEYS];
+
+    const [primaryRole] = await db.select().from(schema.roles)
+      .where(and(eq(schema.roles.name, user.role), eq(schema.roles.isActive, true)));
+    const assignedRoles = await db.select({ permissions: schema.roles.permissions })
+      .from(schema.userRoles)
+      .innerJoin(schema.roles, eq(schema.userRoles.roleId, schema.roles.id))
+      .where(and(eq(schema.userRoles.userId, userId), eq(schema.roles.isActive, true)));
+
+    const granted = new Set<string>(primaryRole?.permissions || []);
+    for (const role of assignedRoles) {
+      for (const permission of role.permissions || []) granted.add(permission);
+    }
+    return schema.PERMISSION_KEYS.filter(key => granted.has(key));
+  }
+
+  async updateRolePermissions(roleId: string, permissions: schema.Permission[], adminId: string): Promise<schema.Role | undefined> {
+    const [current] = await db.select().from(schema.roles).where(eq(schema.roles.id, roleId));
+    if (!current) return undefined;
+
+    const [updated] = await db.update(schema.roles)
+      .set({ permissions })
+      .where(eq(schema.roles.id, roleId))
+      .returning();
+
+    await this.createAuditLog({
+      userId: adminId,
+      action: "role_permissions_update",
+      entityType: "role",
+      entityId: roleId,
+      oldValue: JSON.stringify(current.permissions),
+      newValue: JSON.stringify(permissions),
+      ipAddress: null,
+      userAgent: null,
+    });
+
+    return updated;
+  }
+
   // Report generation methods
   async exportPadTokenBenefitsReport(dateFrom?: string, dateTo?: string): Promise<any[]> {
     const fromDate = dateFrom ? new Date(dateFrom) : new Date(0);
@@ -1018,7 +2832,8 @@ export class PostgresStorage implements IStorage {
           userEmail: ur.users.email,
           assignedAt: ur.user_roles.assignedAt
         })),
-        permissions: this.getRolePermissions(role.name)
+        permissions: role.permissions,
+        benefits: this.getRolePermissions(role.name)
       };
     });
   }
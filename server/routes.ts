@@ -1,9 +1,31 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import path from "path";
 import { fileURLToPath } from "url";
 import { storage } from "./storage";
-import { setupAuth } from "./auth";
+import { setupAuth, hashPassword, comparePasswords, findUserByEmailOrPhone } from "./auth";
+import { sendMessage } from "./notifications";
+import { loginThrottle, clearUserThrottles } from "./login-throttle";
+import { idempotent, purgeIdempotencyKeys, IDEMPOTENCY_KEY_PURGE_INTERVAL_MS } from "./idempotency";
+import { saveDataUrl, resolveUploadPath } from "./uploads";
+import { issueCheckinToken, verifyCheckinPayload, verifyCheckinCode, checkinNonce } from "./checkin-qr";
+import { renderMembershipCardPdf, renderBenefitCertificatePdf, membershipCardQrPayload } from "./card-pdf";
+import { cardTierPrefix, normalizeBranchCode, formatCardNumber, normalizeCardNumber, hasValidCheckDigit } from "./card-number";
+import { buildSessionLedger, renderSessionLedgerCsv } from "./session-ledger";
+import { buildVietQrPayload, vietQrMemo, renderVietQrPng, renderVietQrSvg, renderVietQrDataUrl } from "./vietqr";
+import { paymentMemo, parsePaymentMemo, orderReference, isWebhookConfigured, verifyWebhookSignature, signWebhookBody } from "./bank-transfers";
+import {
+  BANK_STATEMENT_FORMATS,
+  readStatementFile,
+  detectStatementFormat,
+  parseStatementRows,
+  statementLineFingerprint,
+  transactionDirection,
+  rankStatementCandidates,
+  findStatementMatch,
+  findDuplicateTransactions,
+} from "./bank-statement";
+import { randomInt, randomBytes, createHash } from "crypto";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -14,6 +36,8 @@ import {
   requireAdmin, 
   requireStaff, 
   requireCustomer,
+  requirePermission,
+  blockWhileImpersonating,
   requireMinPadToken,
   addVcaDigitalShareCalculations,
   logUserAction,
@@ -34,11 +58,55 @@ import {
   insertStaffKpiSchema, 
   insertReferralSchema,
   insertAssetContributionSchema,
+  insertCardProductSchema,
+  checkinScanSchema,
+  cardSessionAdjustmentSchema,
+  insertBankAccountSchema,
+  type BankAccountPurpose,
+  type BankTransfer,
+  bankWebhookPayloadSchema,
+  bankTransferResolutionSchema,
+  bankStatementImportRequestSchema,
+  statementLineMatchSchema,
+  reconciliationLockRequestSchema,
+  type BankStatementLine,
+  type ReconciliationLock,
+  cardOrderRequestSchema,
+  membershipOrderRequestSchema,
+  orderPaymentConfirmationSchema,
+  type Order,
+  type InsertOrder,
+  type Transaction,
+  cardUpgradeRequestSchema,
+  cardUpgradeConfirmSchema,
+  cardRenewalConfirmSchema,
+  cardRefundRequestSchema,
+  cardMemberInviteSchema,
+  cardMemberAllocationSchema,
+  cardInvitationAcceptSchema,
+  appointmentSlotBatchSchema,
+  appointmentBookingSchema,
+  appointmentCancelSchema,
   profitSharingValidationSchema,
   profitSharingProcessSchema,
   profitDistributionValidationSchema,
   quarterlyPeriodSchema,
-  validateQuarterBoundaries
+  validateQuarterBoundaries,
+  forgotPasswordSchema,
+  verifyResetCodeSchema,
+  resetPasswordSchema,
+  rolePermissionsUpdateSchema,
+  kycSubmissionSchema,
+  kycReviewSchema,
+  consentUpdateSchema,
+  accountClosureSchema,
+  CONSENT_PURPOSES,
+  PERMISSIONS,
+  USABLE_CARD_STATUSES,
+  type User,
+  type PasswordResetCode,
+  type Card,
+  type CardProduct
 } from "@shared/schema";
 import { z } from "zod";
 
@@ -51,10 +119,1112 @@ const legacyKpiValidationSchema = z.object({
   periodValue: z.string().min(1, "Period value is required").default("2024-11")
 });
 
+// Password reset policy
+const RESET_CODE_TTL_MINUTES = 10;
+const RESET_CODE_MAX_ATTEMPTS = 5;
+const RESET_CODE_MAX_PER_HOUR = 5;
+const RESET_CODE_RESEND_COOLDOWN_MS = 60 * 1000;
+
+// Checks a submitted code against the user's latest reset code. The attempt is counted before
+// comparing and only handed back when the code is correct.
+async function checkResetCode(emailOrPhone: string, code: string): Promise<
+  | { valid: true; user: User; resetCode: PasswordResetCode }
+  | { valid: false; message: string }
+> {
+  const invalid = { valid: false as const, message: "Mã xác thực không hợp lệ hoặc đã hết hạn!" };
+
+  const user = await findUserByEmailOrPhone(emailOrPhone);
+  if (!user) return invalid;
+
+  const resetCode = await storage.getLatestPasswordResetCode(user.id);
+  if (!resetCode || resetCode.usedAt || new Date(resetCode.expiresAt) < new Date()) {
+    return invalid;
+  }
+
+  if (!(await storage.claimPasswordResetAttempt(resetCode.id, RESET_CODE_MAX_ATTEMPTS))) {
+    return { valid: false, message: "Bạn đã nhập sai quá nhiều lần, vui lòng yêu cầu mã mới" };
+  }
+
+  if (!(await comparePasswords(code, resetCode.codeHash))) return invalid;
+  await storage.releasePasswordResetAttempt(resetCode.id);
+
+  return { valid: true, user, resetCode };
+}
+
+// Card columns copied from the catalogue product when a card is issued
+function cardFieldsFromProduct(product: CardProduct) {
+  return {
+    cardType: product.name,
+    price: product.price,
+    consultationSessions: product.consultationSessions,
+    remainingSessions: product.consultationSessions,
+    vcaDigitalShare: product.vcaDigitalShare,
+    maxoutLimit: (parseFloat(product.price) * parseFloat(product.maxoutMultiplier)).toString(),
+  };
+}
+
+// Active catalogue product for a card type, undefined when it cannot be sold
+async function getSellableCardProduct(cardType: unknown): Promise<CardProduct | undefined> {
+  if (typeof cardType !== "string" || !cardType) return undefined;
+  const product = await storage.getCardProductByName(cardType);
+  return product?.isActive ? product : undefined;
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+// Moving a card to a higher product: the old card's price is credited pro rata to the validity
+// it has left, its unused sessions carry over, and the higher tier's extra sessions and VCA
+// Digital Share grant are added on top
+function quoteCardUpgrade(card: Card, currentProduct: CardProduct | undefined, target: CardProduct) {
+  const issuedAt = card.issuedDate ? new Date(card.issuedDate) : new Date();
+  const expiresAt = cardExpiry(card, currentProduct);
+  const remainingFraction = Math.min(1, Math.max(0, (expiresAt.getTime() - Date.now()) / (expiresAt.getTime() - issuedAt.getTime())));
+  const credit = Math.round(parseFloat(card.price) * remainingFraction);
+  const targetPrice = parseFloat(target.price);
+
+  return {
+    fromType: card.cardType,
+    toType: target.name,
+    targetPrice,
+    credit,
+    amountDue: Math.max(0, targetPrice - credit),
+    remainingValidityPercent: Math.round(remainingFraction * 100),
+    carriedSessions: card.remainingSessions || 0,
+    sessionTopUp: Math.max(0, target.consultationSessions - (card.consultationSessions || 0)),
+    vcaDigitalShareTopUp: Math.max(0, parseFloat(target.vcaDigitalShare) - parseFloat(card.vcaDigitalShare || "0")),
+    maxoutLimit: targetPrice * parseFloat(target.maxoutMultiplier),
+    validityMonths: target.validityMonths,
+  };
+}
+
+// Next card number for a tier at the issuing branch (head office when there is none)
+async function allocateCardNumber(cardType: string, branchId?: string | null): Promise<string> {
+  const branch = branchId ? await storage.getBranch(branchId) : undefined;
+  const prefix = cardTierPrefix(cardType);
+  const branchCode = normalizeBranchCode(branch?.code);
+  // Skips numbers already taken by cards entered by hand in the same format
+  for (;;) {
+    const cardNumber = formatCardNumber(prefix, branchCode, await storage.allocateCardNumberSequence(`${prefix}-${branchCode}`));
+    if (!(await storage.getCardByNumber(cardNumber))) return cardNumber;
+  }
+}
+
+// Completes a paid (or fully credited) upgrade: activates the new card and grants the VCA top-up
+async function finishCardUpgrade(upgradeId: string, confirmedBy: string | null, paymentReference: string | undefined, req: Request) {
+  const pending = await storage.getCardUpgrade(upgradeId);
+  if (!pending) return undefined;
+  const product = await storage.getCardProductByName(pending.toType);
+  const result = await storage.completeCardUpgrade(upgradeId, confirmedBy, paymentReference, addMonths(new Date(), product?.validityMonths ?? 24));
+  if (!result) return undefined;
+  const { upgrade } = result;
+  // The carried-over payouts may already put the new card near its maxout limit
+  const card = await syncCardLifecycle(result.card, "upgraded");
+
+  const topUp = parseFloat(upgrade.vcaDigitalShareTopUp);
+  const owner = await storage.getUser(upgrade.userId);
+  if (owner && topUp > 0) {
+    await storage.updateUserPadToken(
+      owner.id,
+      parseFloat(owner.vcaDigitalShare || "0") + topUp,
+      `Nâng cấp thẻ ${upgrade.fromType} → ${upgrade.toType}`,
+      confirmedBy
+    );
+  }
+
+  await storage.createAuditLog({
+    userId: confirmedBy,
+    action: "card_upgrade_completed",
+    entityType: "card",
+    entityId: card.id,
+    oldValue: JSON.stringify({ cardId: upgrade.fromCardId, cardType: upgrade.fromType }),
+    newValue: JSON.stringify({
+      cardId: card.id,
+      cardType: upgrade.toType,
+      upgradeId: upgrade.id,
+      amountPaid: upgrade.amountDue,
+      remainingSessions: card.remainingSessions,
+      vcaDigitalShareTopUp: topUp,
+      paymentReference: paymentReference || null,
+    }),
+    ipAddress: req.ip || null,
+    userAgent: req.get("User-Agent") || null,
+  });
+
+  return { upgrade, card };
+}
+
+async function getCheckinTtlSeconds(): Promise<number> {
+  const config = await storage.getSystemConfig("checkin_qr_ttl_seconds");
+  const ttl = parseInt(config?.configValue ?? "", 10);
+  return ttl > 0 ? ttl : 60;
+}
+
+// Branches operate on Vietnam time: slot dates and times entered by staff are local (UTC+7)
+const BRANCH_UTC_OFFSET = "+07:00";
+// How early before the slot a booked member may check in against the booking
+const APPOINTMENT_EARLY_CHECKIN_MINUTES = 60;
+const NO_SHOW_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+function branchLocalTime(date: string, time: string): Date {
+  return new Date(`${date}T${time}:00${BRANCH_UTC_OFFSET}`);
+}
+
+// Invite codes are sent to the invitee and only their hash is stored
+function hashInviteCode(code: string): string {
+  return createHash("sha256").update(code.trim()).digest("hex");
+}
+
+async function getAppointmentPolicy(): Promise<{ cancelNoticeHours: number; noShowGraceMinutes: number; noShowForfeits: boolean; maxOpenPerCard: number }> {
+  const [notice, grace, forfeits, maxOpen] = await Promise.all([
+    storage.getSystemConfig("appointment_cancel_notice_hours"),
+    storage.getSystemConfig("appointment_no_show_grace_minutes"),
+    storage.getSystemConfig("appointment_no_show_forfeits_session"),
+    storage.getSystemConfig("appointment_max_open_per_card"),
+  ]);
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = parseFloat(value ?? "");
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+  return {
+    cancelNoticeHours: number(notice?.configValue, 24),
+    noShowGraceMinutes: number(grace?.configValue, 30),
+    noShowForfeits: (forfeits?.configValue ?? "true") === "true",
+    maxOpenPerCard: number(maxOpen?.configValue, 2),
+  };
+}
+
+// Bookings nobody checked in for become no-shows once the grace period after the slot has passed
+async function sweepNoShowAppointments(): Promise<void> {
+  const policy = await getAppointmentPolicy();
+  const overdue = await storage.getOverdueAppointments(new Date(Date.now() - policy.noShowGraceMinutes * 60 * 1000));
+  for (const appointment of overdue) {
+    const marked = await storage.markAppointmentNoShow(appointment.id, policy.noShowForfeits);
+    if (!marked) continue;
+    await storage.createAuditLog({
+      userId: appointment.userId,
+      action: "appointment_no_show",
+      entityType: "appointment",
+      entityId: appointment.id,
+      oldValue: "booked",
+      newValue: JSON.stringify({ status: "no_show", sessionForfeited: marked.sessionForfeited }),
+      ipAddress: null,
+      userAgent: null,
+    });
+  }
+}
+
+const CARD_LIFECYCLE_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function getCardLifecyclePolicy(): Promise<{ nearMaxoutPercentage: number; renewalNoticeDays: number; renewalGraceDays: number; renewalDiscountPercentage: number }> {
+  const [nearMaxout, notice, grace, discount] = await Promise.all([
+    storage.getSystemConfig("card_near_maxout_percentage"),
+    storage.getSystemConfig("card_renewal_notice_days"),
+    storage.getSystemConfig("card_renewal_grace_days"),
+    storage.getSystemConfig("card_renewal_discount_percentage"),
+  ]);
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = parseFloat(value ?? "");
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+  return {
+    nearMaxoutPercentage: number(nearMaxout?.configValue, 90),
+    renewalNoticeDays: number(notice?.configValue, 30),
+    renewalGraceDays: number(grace?.configValue, 60),
+    renewalDiscountPercentage: Math.min(100, number(discount?.configValue, 0)),
+  };
+}
+
+// Limit fixed when the card was issued, falling back to the product's current multiplier
+function cardMaxoutLimit(card: Card, product: CardProduct | undefined): number {
+  return parseFloat(card.maxoutLimit || "0") || parseFloat(card.price) * parseFloat(product?.maxoutMultiplier || "2.1");
+}
+
+// Value paid out on the card so far: 1 share = 1M VND
+function cardShareValue(card: Card): number {
+  return parseFloat(card.currentShares || "0") * 1000000;
+}
+
+// Cards activated before expiry dates were stored run for the product's validity from issue
+function cardExpiry(card: Card, product: CardProduct | undefined): Date {
+  if (card.expiresAt) return new Date(card.expiresAt);
+  return addMonths(card.issuedDate ? new Date(card.issuedDate) : new Date(), product?.validityMonths ?? 24);
+}
+
+// Status of a card in use. Reaching the maxout limit stops the card for good; otherwise it
+// expires at the end of its term and is flagged near_maxout past the warning threshold.
+function evaluateCardStatus(card: Card, product: CardProduct | undefined, nearMaxoutPercentage: number, now: Date = new Date()): string {
+  const maxoutLimit = cardMaxoutLimit(card, product);
+  const shareValue = cardShareValue(card);
+  if (maxoutLimit > 0 && shareValue >= maxoutLimit) return "stopped";
+  if (cardExpiry(card, product) <= now) return "expired";
+  if (maxoutLimit > 0 && shareValue >= maxoutLimit * nearMaxoutPercentage / 100) return "near_maxout";
+  return "active";
+}
+
+// Lifecycle engine: persists the status a card in use (active / near_maxout) should have and
+// records the transition. Runs on a schedule and after every event that moves its inputs
+// (payouts, check-ins, payments, renewals). Other statuses only change through explicit actions.
+async function syncCardLifecycle(card: Card, trigger: string): Promise<Card> {
+  if (!USABLE_CARD_STATUSES.includes(card.status)) return card;
+
+  const product = await storage.getCardProductByName(card.cardType);
+  const policy = await getCardLifecyclePolicy();
+  let current = card;
+  if (!current.expiresAt) {
+    current = (await storage.updateCard(card.id, { expiresAt: cardExpiry(card, product) })) || current;
+  }
+
+  const status = evaluateCardStatus(current, product, policy.nearMaxoutPercentage);
+  if (status === current.status) return current;
+
+  const moved = await storage.transitionCardStatus(current.id, current.status, status, {
+    reason: trigger,
+    details: { shareValue: cardShareValue(current), maxoutLimit: cardMaxoutLimit(current, product), expiresAt: current.expiresAt },
+  });
+  if (!moved) return (await storage.getCard(card.id)) || current;
+
+  // The card can no longer be used, so upcoming bookings give their sessions back
+  if (!USABLE_CARD_STATUSES.includes(moved.status)) {
+    for (const appointment of await storage.getBookedAppointmentsForCard(moved.id)) {
+      await storage.cancelAppointment(appointment.id, { reason: `card_${moved.status}`, forfeit: false });
+    }
+  }
+  return moved;
+}
+
+// Renewal terms for a card: offered from the notice period before expiry until the grace period
+// after it, at the product's current price less the renewal discount
+async function quoteCardRenewal(card: Card) {
+  const policy = await getCardLifecyclePolicy();
+  const product = await getSellableCardProduct(card.cardType);
+  const expiresAt = cardExpiry(card, product);
+  const availableFrom = new Date(expiresAt.getTime() - policy.renewalNoticeDays * DAY_MS);
+  const availableUntil = new Date(expiresAt.getTime() + policy.renewalGraceDays * DAY_MS);
+  const now = new Date();
+  const listPrice = product ? parseFloat(product.price) : 0;
+
+  let unavailableReason: string | null = null;
+  if (!product) {
+    unavailableReason = "Gói thẻ này đã ngừng kinh doanh";
+  } else if (card.status !== "expired" && !USABLE_CARD_STATUSES.includes(card.status)) {
+    unavailableReason = "Thẻ không ở trạng thái có thể gia hạn";
+  } else if (now < availableFrom) {
+    unavailableReason = `Có thể gia hạn từ ngày ${availableFrom.toLocaleDateString("vi-VN")}`;
+  } else if (now > availableUntil) {
+    unavailableReason = "Đã quá thời hạn gia hạn, vui lòng mua thẻ mới";
+  }
+
+  const validityMonths = product?.validityMonths ?? 24;
+  return {
+    cardId: card.id,
+    cardNumber: card.cardNumber,
+    cardType: card.cardType,
+    status: card.status,
+    expiresAt,
+    daysUntilExpiry: Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS),
+    eligible: !unavailableReason,
+    unavailableReason,
+    availableFrom,
+    availableUntil,
+    listPrice,
+    discountPercentage: policy.renewalDiscountPercentage,
+    price: Math.round(listPrice * (100 - policy.renewalDiscountPercentage) / 100),
+    sessionTopUp: product?.consultationSessions ?? 0,
+    validityMonths,
+    newExpiresAt: addMonths(expiresAt > now ? expiresAt : now, validityMonths),
+  };
+}
+
+// Hourly: expiries the calendar alone causes, and one reminder per term with the renewal offer
+async function sweepCardLifecycle(): Promise<void> {
+  const policy = await getCardLifecyclePolicy();
+  const remindBefore = Date.now() + policy.renewalNoticeDays * DAY_MS;
+
+  for (const card of await storage.getCardsByStatus(USABLE_CARD_STATUSES)) {
+    const synced = await syncCardLifecycle(card, "scheduled");
+    if (!USABLE_CARD_STATUSES.includes(synced.status) || synced.renewalNoticeSentAt || !synced.ownerId) continue;
+    if (!synced.expiresAt || new Date(synced.expiresAt).getTime() > remindBefore) continue;
+
+    const offer = await quoteCardRenewal(synced);
+    const owner = await storage.getUser(synced.ownerId);
+    if (owner && offer.eligible && (owner.email || owner.phone)) {
+      await sendMessage({
+        channel: owner.email ? "email" : "sms",
+        to: owner.email || owner.phone!,
+        subject: "Thẻ VCare Global sắp hết hạn",
+        body: `Thẻ ${synced.cardType} ${synced.cardNumber} hết hạn ngày ${offer.expiresAt.toLocaleDateString("vi-VN")}. Gia hạn ngay với giá ${offer.price.toLocaleString("vi-VN")} VND để nhận thêm ${offer.sessionTopUp} lượt và ${offer.validityMonths} tháng sử dụng tại mục "Thẻ & Ưu đãi".`,
+      });
+    }
+    await storage.updateCard(synced.id, { renewalNoticeSentAt: new Date() });
+  }
+}
+
+// Completes a paid (or free) renewal and re-evaluates the card's status
+async function finishCardRenewal(renewalId: string, confirmedBy: string | null, paymentReference: string | undefined, req: Request) {
+  const result = await storage.completeCardRenewal(renewalId, confirmedBy, paymentReference);
+  if (!result) return undefined;
+  const card = await syncCardLifecycle(result.card, "renewed");
+
+  await storage.createAuditLog({
+    userId: confirmedBy,
+    action: "card_renewal_completed",
+    entityType: "card",
+    entityId: card.id,
+    oldValue: null,
+    newValue: JSON.stringify({
+      renewalId: result.renewal.id,
+      amountPaid: result.renewal.price,
+      sessionTopUp: result.renewal.sessionTopUp,
+      expiresAt: card.expiresAt,
+      status: card.status,
+      paymentReference: paymentReference || null,
+    }),
+    ipAddress: req.ip || null,
+    userAgent: req.get("User-Agent") || null,
+  });
+
+  return { renewal: result.renewal, card };
+}
+
+// 1 VCA Digital Share = 10,000 VND
+const VCA_DIGITAL_SHARE_VALUE = 10000;
+
+// Purchase transaction of a card. Older purchases were recorded without a cardId and are matched by description.
+async function findCardPurchaseTransaction(card: Card, status?: string) {
+  const candidates = (await storage.getTransactions())
+    .filter(t => t.type === "income" && t.userId === card.ownerId && (!status || t.status === status));
+  return candidates.find(t => t.cardId === card.id)
+    || candidates.find(t => !t.cardId && t.description.includes(`Mua thẻ ${card.cardType}`));
+}
+
+// Referral whose commission was earned by this card: the one tied to its purchase transaction, or the
+// owner's untied referral when this is the only card they have paid for
+async function findCardReferral(card: Card, purchaseTransactionId: string | undefined) {
+  const referrals = (await storage.getReferrals())
+    .filter(referral => referral.referredUserId === card.ownerId && referral.status !== "cancelled");
+  const linked = referrals.find(referral => purchaseTransactionId && referral.firstTransactionId === purchaseTransactionId);
+  if (linked) return linked;
+
+  const paidCards = (await storage.getCards())
+    .filter(other => other.ownerId === card.ownerId && other.status !== "pending" && other.status !== "cancelled");
+  return paidCards.length === 1 && paidCards[0].id === card.id
+    ? referrals.find(referral => !referral.firstTransactionId)
+    : undefined;
+}
+
+// Refund for a paid card: the price less the sessions used (at the card's per-session price), the
+// payouts received on it and the value of any granted VCA the owner no longer holds. Recomputed
+// at approval, since the card stays usable while the request waits.
+async function quoteCardRefund(card: Card) {
+  const owner = card.ownerId ? await storage.getUser(card.ownerId) : undefined;
+  const purchase = await findCardPurchaseTransaction(card);
+  const referral = await findCardReferral(card, purchase?.id);
+
+  const paidAmount = parseFloat(card.price);
+  const totalSessions = card.consultationSessions || 0;
+  const usedSessions = Math.max(0, totalSessions - (card.remainingSessions || 0));
+  const usedSessionsValue = totalSessions > 0 ? Math.round(paidAmount * usedSessions / totalSessions) : 0;
+  const payoutsReceived = cardShareValue(card);
+  const vcaGranted = parseFloat(card.vcaDigitalShare || "0");
+  const vcaDigitalShareReversed = Math.min(vcaGranted, Math.max(0, parseFloat(owner?.vcaDigitalShare || "0")));
+  const vcaShortfallValue = Math.round((vcaGranted - vcaDigitalShareReversed) * VCA_DIGITAL_SHARE_VALUE);
+
+  let unavailableReason: string | null = null;
+  if (card.status === "pending") {
+    unavailableReason = "Thẻ chưa thanh toán, vui lòng hủy đơn hàng thay vì hoàn tiền";
+  } else if (card.status !== "expired" && !USABLE_CARD_STATUSES.includes(card.status)) {
+    unavailableReason = "Thẻ không ở trạng thái có thể hoàn tiền";
+  } else if (await storage.getPendingCardUpgrade(card.id)) {
+    unavailableReason = "Vui lòng hủy yêu cầu nâng cấp thẻ trước";
+  }
+
+  return {
+    cardId: card.id,
+    cardNumber: card.cardNumber,
+    cardType: card.cardType,
+    eligible: !unavailableReason,
+    unavailableReason,
+    paidAmount,
+    usedSessions,
+    usedSessionsValue,
+    payoutsReceived,
+    vcaDigitalShareReversed,
+    vcaShortfallValue,
+    commissionClawback: referral ? parseFloat(referral.commissionAmount || "0") : 0,
+    refundableAmount: Math.max(0, paidAmount - usedSessionsValue - payoutsReceived - vcaShortfallValue),
+    purchaseTransactionId: purchase?.id ?? null,
+    referralId: referral?.id ?? null,
+  };
+}
+
+// Approves a refund: cancels the card with everything hanging off it, takes back the VCA Digital
+// Share the card granted and reverses the referral commission earned on the purchase
+async function finishCardRefund(refundId: string, reviewedBy: string, req: Request) {
+  const pending = await storage.getCardRefund(refundId);
+  if (!pending || pending.status !== "pending") return undefined;
+  const current = await storage.getCard(pending.cardId);
+  if (!current) return undefined;
+
+  const quote = await quoteCardRefund(current);
+  // Guarded on the status the quote was made for, so a second approval cannot cancel the card twice
+  const card = await storage.transitionCardStatus(current.id, current.status, "cancelled", {
+    reason: "refunded",
+    changedBy: reviewedBy,
+    details: { refundId, refundableAmount: quote.refundableAmount },
+  });
+  if (!card) return undefined;
+
+  const refund = await storage.approveCardRefund(refundId, reviewedBy, {
+    paidAmount: quote.paidAmount.toString(),
+    usedSessions: quote.usedSessions,
+    usedSessionsValue: quote.usedSessionsValue.toString(),
+    payoutsReceived: quote.payoutsReceived.toString(),
+    vcaDigitalShareReversed: quote.vcaDigitalShareReversed.toString(),
+    vcaShortfallValue: quote.vcaShortfallValue.toString(),
+    commissionClawback: quote.commissionClawback.toString(),
+    refundableAmount: quote.refundableAmount.toString(),
+    purchaseTransactionId: quote.purchaseTransactionId,
+    referralId: quote.referralId,
+  });
+  if (!refund) return undefined;
+
+  for (const appointment of await storage.getBookedAppointmentsForCard(card.id)) {
+    await storage.cancelAppointment(appointment.id, { reason: "card_refunded", forfeit: false });
+  }
+  for (const member of await storage.getCardMembers(card.id)) {
+    if (member.status !== "revoked") await storage.revokeCardMember(member.id);
+  }
+  const pendingRenewal = await storage.getPendingCardRenewal(card.id);
+  if (pendingRenewal) await storage.cancelCardRenewal(pendingRenewal.id);
+  const forfeitedSessions = (await storage.getCard(card.id))?.remainingSessions || 0;
+  await storage.updateCard(card.id, { remainingSessions: 0, reservedSessions: 0, sharedSessions: 0 });
+  if (forfeitedSessions > 0) {
+    await storage.recordSessionAdjustment({
+      cardId: card.id,
+      delta: -forfeitedSessions,
+      kind: "refund",
+      reason: `Hoàn tiền thẻ (${refundId})`,
+      createdBy: reviewedBy,
+    });
+  }
+
+  if (quote.vcaDigitalShareReversed > 0) {
+    await storage.adjustUserPadToken(
+      refund.userId,
+      -quote.vcaDigitalShareReversed,
+      `Thu hồi VCA Digital Share do hoàn tiền thẻ ${card.cardType} ${card.cardNumber}`,
+      reviewedBy
+    );
+  }
+
+  const referral = quote.referralId ? (await storage.getReferrals()).find(r => r.id === quote.referralId) : undefined;
+  if (referral) {
+    await storage.updateReferral(referral.id, { status: "cancelled" });
+
+    // Commission already paid out is recovered from the referrer through the approval queue
+    const commissionPaid = parseFloat(referral.commissionPaid || "0");
+    if (commissionPaid > 0 && referral.referrerId) {
+      await storage.createTransaction({
+        type: "income",
+        amount: commissionPaid.toString(),
+        description: `Thu hồi hoa hồng giới thiệu - hoàn tiền thẻ ${card.cardType} ${card.cardNumber}`,
+        contributionType: "card",
+        cardId: card.id,
+        userId: referral.referrerId,
+        referralCode: referral.referralCode,
+        status: "pending",
+      });
+    }
+
+    const referralVca = parseFloat(referral.vcaDigitalShareAmount || "0");
+    if (referral.referrerId && referralVca > 0) {
+      await storage.adjustUserPadToken(
+        referral.referrerId,
+        -referralVca,
+        `Thu hồi VCA Digital Share hoa hồng giới thiệu - hoàn tiền thẻ ${card.cardNumber}`,
+        reviewedBy,
+        true
+      );
+    }
+  }
+
+  await storage.createAuditLog({
+    userId: reviewedBy,
+    action: "card_refund_approved",
+    entityType: "card",
+    entityId: card.id,
+    oldValue: JSON.stringify({ status: current.status, remainingSessions: current.remainingSessions }),
+    newValue: JSON.stringify({ ...quote, refundId: refund.id, status: card.status }),
+    ipAddress: req.ip || null,
+    userAgent: req.get("User-Agent") || null,
+  });
+
+  return { refund, card };
+}
+
+function paymentQrImageUrl(bankAccountId: string, format: "png" | "svg", amount: number, memo: string): string {
+  return `/api/bank-accounts/${bankAccountId}/qr.${format}?amount=${Math.round(amount)}&memo=${encodeURIComponent(memo)}`;
+}
+
+// Transfer details and a VietQR rendered on the server for the account configured for the
+// payment's purpose and branch; undefined while no account is configured
+async function buildPaymentInstructions(purpose: BankAccountPurpose, amount: number, memo: string, message: string, branchId?: string | null) {
+  const account = await storage.findReceivingBankAccount(purpose, branchId);
+  if (!account) return undefined;
+
+  const qrPayload = buildVietQrPayload({ bankBin: account.bankBin, accountNumber: account.accountNumber, amount, memo });
+  return {
+    message,
+    bankInfo: {
+      bankName: account.bankName,
+      accountNumber: account.accountNumber,
+      accountName: account.accountName,
+      amount,
+      content: memo,
+    },
+    qrPayload,
+    qrCode: await renderVietQrDataUrl(qrPayload),
+    qrImageUrl: paymentQrImageUrl(account.id, "png", amount, memo),
+  };
+}
+
+// Activates a card once its purchase is paid: starts the term, credits the card's VCA Digital
+// Share to the owner and completes the purchase transaction. Guarded on the card's status, so a
+// payment confirmed by hand and by the bank webhook at the same time is only applied once.
+async function finishCardPurchase(card: Card, confirmedBy: string | null, paymentMethod: string, paymentReference: string, req: Request) {
+  const owner = card.ownerId ? await storage.getUser(card.ownerId) : undefined;
+  if (!owner) return undefined;
+
+  const product = await storage.getCardProductByName(card.cardType);
+  const updatedCard = await storage.transitionCardStatus(card.id, card.status, "active", {
+    reason: "payment_confirmed",
+    changedBy: confirmedBy,
+    details: { paymentMethod, paymentReference },
+  }, {
+    // The term starts with the payment
+    expiresAt: addMonths(new Date(), product?.validityMonths ?? 24),
+  });
+  if (!updatedCard) return undefined;
+
+  const vcaDigitalShare = parseFloat(card.vcaDigitalShare || "0");
+  const credited = await storage.adjustUserPadToken(
+    owner.id,
+    vcaDigitalShare,
+    `Kích hoạt thẻ ${card.cardType} - ${card.price} VNĐ`,
+    owner.id
+  );
+  const newPadToken = credited?.newAmount ?? parseFloat(owner.vcaDigitalShare || "0") + vcaDigitalShare;
+
+  const cardTransaction = await findCardPurchaseTransaction(card, "pending");
+  if (cardTransaction) {
+    await storage.updateTransaction(cardTransaction.id, { status: "completed" });
+  }
+
+  await storage.createAuditLog({
+    userId: owner.id,
+    action: "payment_confirmed",
+    entityType: "card",
+    entityId: card.id,
+    oldValue: JSON.stringify({ status: card.status }),
+    newValue: JSON.stringify({ status: "active", paymentMethod, paymentReference, confirmedBy }),
+    ipAddress: req.ip || null,
+    userAgent: req.get("User-Agent") || null,
+  });
+
+  return { card: updatedCard, owner, vcaDigitalShare, newPadToken };
+}
+
+type BankTransferReviewReason = "no_reference" | "order_not_found" | "order_not_pending" | "amount_mismatch" | "unknown_account";
+function sameAmount(expected: string | number, received: string | number): boolean {
+  return Math.round(Number(expected)) === Math.round(Number(received));
+}
+
+// Notification services report "YYYY-MM-DD HH:mm:ss" in Vietnam time without an offset
+function parseTransferDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const local = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2})(?::\d{2})?$/.exec(value.trim());
+  const date = local ? branchLocalTime(local[1], local[2]) : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+const BANK_TRANSFER_REVIEW_REASONS: Record<BankTransferReviewReason, string> = {
+  no_reference: "Nội dung chuyển khoản không có mã đơn hàng",
+  order_not_found: "Không tìm thấy đơn hàng",
+  order_not_pending: "Đơn hàng không còn chờ thanh toán",
+  amount_mismatch: "Số tiền không khớp với đơn hàng",
+  unknown_account: "Tài khoản nhận không có trong cấu hình",
+};
+
+// Records a transfer reported by the bank and settles it when its memo references a pending
+// order for the same amount; anything else is left in the review queue with the reason.
+async function receiveBankTransfer(notification: z.infer<typeof bankWebhookPayloadSchema>, rawPayload: string, req: Request) {
+  const account = await storage.findBankAccountByNumber(notification.accountNumber);
+  const memoReference = parsePaymentMemo(notification.content);
+  const purpose = memoReference?.purpose;
+
+  const transfer = await storage.createBankTransfer({
+    provider: notification.gateway,
+    externalId: `${notification.gateway}:${notification.id}`,
+    bankAccountId: account?.id ?? null,
+    accountNumber: notification.accountNumber,
+    amount: notification.transferAmount.toString(),
+    memo: notification.content,
+    bankReference: notification.referenceCode || null,
+    transferredAt: parseTransferDate(notification.transactionDate),
+    status: "needs_review",
+    matchedPurpose: purpose ?? null,
+    rawPayload,
+  });
+  // A redelivered notification was already handled
+  if (!transfer) return { status: "duplicate" as const };
+
+  let result: { entityId: string } | { reason: BankTransferReviewReason };
+  if (!account) {
+    result = { reason: "unknown_account" };
+  } else if (!memoReference || !purpose) {
+    result = { reason: "no_reference" };
+  } else {
+    result = await settleBankTransfer(transfer, purpose, memoReference.reference, null, true, req);
+  }
+
+  if ("reason" in result) {
+    await storage.updateBankTransferStatus(transfer.id, "needs_review", { status: "needs_review", reviewReason: result.reason });
+    return { status: "needs_review" as const, transferId: transfer.id, reason: result.reason };
+  }
+  await storage.updateBankTransferStatus(transfer.id, "needs_review", { status: "matched", matchedEntityId: result.entityId });
+  return { status: "matched" as const, transferId: transfer.id, entityId: result.entityId };
+}
+
+// Applies a received transfer to the order its memo references: activates the card, completes
+// the upgrade or renewal, approves the deposit or marks the shop order paid. Automatic matches
+// need the exact amount; staff settling a queued transfer by hand may accept a different one.
+async function settleBankTransfer(
+  transfer: BankTransfer,
+  purpose: BankAccountPurpose,
+  reference: string,
+  settledBy: string | null,
+  requireExactAmount: boolean,
+  req: Request
+): Promise<{ entityId: string } | { reason: BankTransferReviewReason }> {
+  const paymentReference = transfer.bankReference || transfer.externalId;
+  const amountMatches = (expected: string) => !requireExactAmount || sameAmount(expected, transfer.amount);
+
+  if (purpose === "card_purchase") {
+    const [purchase] = (await storage.getTransactionsByReference(reference)).filter(tx => tx.cardId && tx.type === "income");
+    const card = purchase?.cardId ? await storage.getCard(purchase.cardId) : undefined;
+    if (!purchase || !card) return { reason: "order_not_found" };
+    if (purchase.status !== "pending" || card.status !== "pending") return { reason: "order_not_pending" };
+    if (!amountMatches(purchase.amount)) return { reason: "amount_mismatch" };
+    const confirmed = await finishCardPurchase(card, settledBy, "bank_transfer", paymentReference, req);
+    return confirmed ? { entityId: card.id } : { reason: "order_not_pending" };
+  }
+
+  if (purpose === "card_upgrade") {
+    const [upgrade] = await storage.getCardUpgradesByReference(reference);
+    if (!upgrade) return { reason: "order_not_found" };
+    if (upgrade.status !== "pending") return { reason: "order_not_pending" };
+    if (!amountMatches(upgrade.amountDue)) return { reason: "amount_mismatch" };
+    const completed = await finishCardUpgrade(upgrade.id, settledBy, paymentReference, req);
+    return completed ? { entityId: upgrade.id } : { reason: "order_not_pending" };
+  }
+
+  if (purpose === "card_renewal") {
+    const [renewal] = await storage.getCardRenewalsByReference(reference);
+    if (!renewal) return { reason: "order_not_found" };
+    if (renewal.status !== "pending") return { reason: "order_not_pending" };
+    if (!amountMatches(renewal.price)) return { reason: "amount_mismatch" };
+    const completed = await finishCardRenewal(renewal.id, settledBy, paymentReference, req);
+    return completed ? { entityId: renewal.id } : { reason: "order_not_pending" };
+  }
+
+  if (purpose === "order") {
+    const [order] = await storage.getOrdersByReference(reference);
+    if (!order) return { reason: "order_not_found" };
+    if (order.status !== "pending") return { reason: "order_not_pending" };
+    if (!amountMatches(order.amount)) return { reason: "amount_mismatch" };
+    const paid = await markOrderPaid(order, settledBy, paymentReference, req);
+    return paid ? { entityId: order.id } : { reason: "order_not_pending" };
+  }
+
+  const [deposit] = (await storage.getTransactionsByReference(reference)).filter(tx => tx.type === "deposit" || tx.type === "invest");
+  if (!deposit) return { reason: "order_not_found" };
+  if (deposit.status !== "pending") return { reason: "order_not_pending" };
+  if (!amountMatches(deposit.amount)) return { reason: "amount_mismatch" };
+  const approved = await storage.approveCashFlowTransaction(deposit.id, settledBy);
+  if (!approved) return { reason: "order_not_pending" };
+
+  // Settled by the bank webhook when settledBy is null; the transfer is the record of who paid
+  await storage.createAuditLog({
+    userId: deposit.userId,
+    action: "deposit_settled",
+    entityType: "transaction",
+    entityId: deposit.id,
+    oldValue: JSON.stringify({ status: "pending" }),
+    newValue: JSON.stringify({ status: "approved", bankTransferId: transfer.id, paymentReference, settledBy }),
+    ipAddress: req.ip || null,
+    userAgent: req.get("User-Agent") || null,
+  });
+  return { entityId: deposit.id };
+}
+
+const ORDER_EXPIRY_SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+async function getOrderExpiryHours(): Promise<number> {
+  const config = await storage.getSystemConfig("order_payment_expiry_hours");
+  const hours = parseFloat(config?.configValue ?? "");
+  return Number.isFinite(hours) && hours > 0 ? hours : 48;
+}
+
+interface OrderCustomer {
+  name: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  idCard?: string;
+  birthDate?: string;
+}
+
+// Existing account of an order's customer, matched by email and then by phone
+async function findOrderCustomer(customer: OrderCustomer): Promise<User | undefined> {
+  const byEmail = customer.email ? await storage.getUserByEmail(customer.email) : undefined;
+  return byEmail ?? (customer.phone ? await storage.getUserByPhone(customer.phone) : undefined);
+}
+
+async function ownsUsableCard(userId: string, cardType: string): Promise<boolean> {
+  return (await storage.getCards()).some(card => card.ownerId === userId && card.cardType === cardType && USABLE_CARD_STATUSES.includes(card.status));
+}
+
+// Order messages only go to the contacts stored on the account, never to ones typed into an
+// order form. Accounts opened with a phone number only have a placeholder email and are texted.
+function accountContact(user: User) {
+  return user.phone && user.email === `${user.phone}@vcareglobal.com`
+    ? { channel: "sms" as const, to: user.phone }
+    : { channel: "email" as const, to: user.email };
+}
+
+// Records an order for the signed-in member, or for the account matching the customer's email or
+// phone, opening a customer account with a random password when there is none. The password is
+// only returned here, for the site to show once. Anonymous callers never learn anything about an
+// existing account: the confirmation with the payment details goes to the account's own contacts.
+async function placeOrder(
+  customer: OrderCustomer,
+  order: Pick<InsertOrder, "kind" | "clientReference" | "cardProductId" | "businessTier" | "productName" | "amount" | "paymentMethod" | "paymentProof" | "paymentNote">,
+  req: Request
+) {
+  let user: User | undefined = req.user ?? await findOrderCustomer(customer);
+  let password: string | undefined;
+  if (!user) {
+    password = randomBytes(9).toString("base64url");
+    user = await storage.createUser({
+      // Accounts sign in with email or phone, but the email column is required
+      email: customer.email || `${customer.phone}@vcareglobal.com`,
+      phone: customer.phone || null,
+      name: customer.name,
+      password: await hashPassword(password),
+      role: "customer",
+      status: "active",
+    });
+  }
+
+  const created = await storage.createOrder({
+    ...order,
+    userId: user.id,
+    customerName: customer.name,
+    customerEmail: customer.email || null,
+    customerPhone: customer.phone || null,
+    customerAddress: customer.address || null,
+    customerIdCard: customer.idCard || null,
+    customerBirthDate: customer.birthDate || null,
+    expiresAt: new Date(Date.now() + (await getOrderExpiryHours()) * 60 * 60 * 1000),
+  });
+
+  const memo = paymentMemo("order", created.id);
+  const amount = parseFloat(created.amount);
+  const paymentInstructions = await buildPaymentInstructions("order", amount, memo, "Vui lòng chuyển khoản để hoàn tất đơn hàng");
+  const orderSummary = `Đơn hàng ${orderReference(created.id)} (${created.productName}, ${amount.toLocaleString("vi-VN")} VND) đang chờ thanh toán đến ${created.expiresAt.toLocaleString("vi-VN", { timeZone: "Asia/Ho_Chi_Minh" })}. Nội dung chuyển khoản: ${memo}.`;
+  await sendMessage({
+    ...accountContact(user),
+    subject: password ? "Chào mừng bạn đến với VCare Global" : "Xác nhận đơn hàng VCare Global",
+    body: password
+      ? `Tài khoản VCare Global của bạn đã được tạo. Đăng nhập bằng ${customer.email || customer.phone} với mật khẩu hiển thị khi đặt hàng và đổi mật khẩu sau lần đăng nhập đầu tiên. ${orderSummary}`
+      : `Đơn hàng ${created.productName} đã được ghi nhận vào tài khoản VCare Global của bạn. ${orderSummary}`,
+  });
+
+  await storage.createAuditLog({
+    userId: user.id,
+    action: "order_created",
+    entityType: "order",
+    entityId: created.id,
+    oldValue: null,
+    newValue: JSON.stringify({ kind: created.kind, productName: created.productName, amount: created.amount, accountCreated: !!password }),
+    ipAddress: req.ip || null,
+    userAgent: req.get("User-Agent") || null,
+  });
+
+  // The account is only shown to its owner or to whoever just created it
+  const account = password || req.user?.id === user.id
+    ? { email: user.email, password: password ?? null, name: user.name, created: !!password }
+    : null;
+  return { order: created, account, paymentInstructions };
+}
+
+// Marks a pending order paid, by the bank webhook (confirmedBy null) or by staff. Staff may also
+// accept a payment that arrived after the order expired.
+async function markOrderPaid(order: Order, confirmedBy: string | null, paymentReference: string | null, req: Request) {
+  const paid = await storage.updateOrderStatus(order.id, order.status, {
+    status: "paid",
+    paidAt: new Date(),
+    paymentReference,
+    paymentConfirmedBy: confirmedBy,
+  });
+  if (!paid) return undefined;
+
+  await storage.createAuditLog({
+    userId: confirmedBy,
+    action: "order_paid",
+    entityType: "order",
+    entityId: order.id,
+    oldValue: JSON.stringify({ status: order.status }),
+    newValue: JSON.stringify({ status: "paid", paymentReference, confirmedBy }),
+    ipAddress: req.ip || null,
+    userAgent: req.get("User-Agent") || null,
+  });
+  return paid;
+}
+
+// Issues what a paid order bought: a card activated for the customer, or the membership tier.
+// The order is claimed first so two staff members cannot fulfil it twice, and released again
+// when the card or tier cannot be granted.
+async function fulfillOrder(order: Order, fulfilledBy: string, req: Request): Promise<{ order: Order } | { error: string }> {
+  const claimed = await storage.updateOrderStatus(order.id, "paid", { status: "fulfilled", fulfilledBy, fulfilledAt: new Date() });
+  if (!claimed) return { error: "Đơn hàng không ở trạng thái đã thanh toán" };
+  const release = () => storage.updateOrderStatus(order.id, "fulfilled", { status: "paid", fulfilledBy: null, fulfilledAt: null });
+
+  const customer = await storage.getUser(order.userId);
+  if (!customer) {
+    await release();
+    return { error: "Không tìm thấy tài khoản khách hàng" };
+  }
+
+  let fulfilled: Order | undefined = claimed;
+  const code = orderReference(order.id);
+  if (order.kind === "card") {
+    const product = order.cardProductId ? await storage.getCardProduct(order.cardProductId) : undefined;
+    if (!product) {
+      await release();
+      return { error: "Sản phẩm thẻ không còn tồn tại" };
+    }
+    if (await ownsUsableCard(customer.id, product.name)) {
+      await release();
+      return { error: `Khách hàng đã sở hữu thẻ ${product.name}` };
+    }
+    const card = await storage.createCard({
+      ...cardFieldsFromProduct(product),
+      // The order was priced when it was placed
+      price: order.amount,
+      cardNumber: await allocateCardNumber(product.name, null),
+      branchId: null,
+      customerName: customer.name,
+      ownerId: customer.id,
+      status: "pending",
+    });
+    await storage.createTransaction({
+      type: "income",
+      amount: order.amount,
+      description: `Mua thẻ ${product.name} - đơn hàng ${code}`,
+      contributionType: "card",
+      cardId: card.id,
+      userId: customer.id,
+      status: "pending",
+    });
+    await finishCardPurchase(card, fulfilledBy, order.paymentMethod, order.paymentReference || "", req);
+    fulfilled = await storage.updateOrderStatus(order.id, "fulfilled", { status: "fulfilled", cardId: card.id });
+  } else {
+    const amount = parseFloat(order.amount);
+    try {
+      await storage.upgradeUserBusinessTier(customer.id, order.businessTier!, parseFloat(customer.investmentAmount || "0") + amount);
+    } catch (error: any) {
+      await release();
+      return { error: error.message };
+    }
+    await storage.createTransaction({
+      type: "invest",
+      amount: order.amount,
+      description: `Gói thành viên ${order.productName} - đơn hàng ${code}`,
+      contributionType: "cash",
+      userId: customer.id,
+      status: "completed",
+    });
+  }
+
+  await sendMessage({
+    ...accountContact(customer),
+    subject: "Đơn hàng VCare Global đã hoàn tất",
+    body: order.kind === "card"
+      ? `Thẻ ${order.productName} của đơn hàng ${code} đã được kích hoạt. Đăng nhập VCare Global để xem thẻ và đặt lịch.`
+      : `Gói thành viên ${order.productName} của đơn hàng ${code} đã được kích hoạt cho tài khoản của bạn.`,
+  });
+
+  await storage.createAuditLog({
+    userId: fulfilledBy,
+    action: "order_fulfilled",
+    entityType: "order",
+    entityId: order.id,
+    oldValue: JSON.stringify({ status: "paid" }),
+    newValue: JSON.stringify({ status: "fulfilled", kind: order.kind, cardId: fulfilled?.cardId ?? null, businessTier: order.businessTier }),
+    ipAddress: req.ip || null,
+    userAgent: req.get("User-Agent") || null,
+  });
+  return { order: fulfilled ?? claimed };
+}
+
+// Unpaid orders expire once the payment deadline has passed
+async function sweepExpiredOrders(): Promise<void> {
+  for (const order of await storage.expireUnpaidOrders()) {
+    await storage.createAuditLog({
+      userId: order.userId,
+      action: "order_expired",
+      entityType: "order",
+      entityId: order.id,
+      oldValue: "pending",
+      newValue: JSON.stringify({ status: "expired", expiresAt: order.expiresAt }),
+      ipAddress: null,
+      userAgent: null,
+    });
+  }
+}
+
+const MAX_STATEMENT_FILE_BYTES = 10 * 1024 * 1024;
+// Payment references tie a transfer to its order however long the member took to pay
+const STATEMENT_REFERENCE_LOOKBACK_DAYS = 31;
+// Cash-flow requests are approved once the statement shows the money moved; other transactions
+// (card purchases, refunds) are confirmed through their own workflows
+const STATEMENT_APPROVED_TYPES = ["deposit", "invest", "withdraw"];
+
+async function getReconciliationWindowDays(): Promise<number> {
+  const config = await storage.getSystemConfig("reconciliation_match_window_days");
+  const days = parseInt(config?.configValue ?? "", 10);
+  return Number.isFinite(days) && days >= 0 ? days : 3;
+}
+
+// Vietnam calendar day of an instant, YYYY-MM-DD
+function branchLocalDay(date: Date | string): string {
+  return new Date(date).toLocaleDateString("en-CA", { timeZone: "Asia/Ho_Chi_Minh" });
+}
+
+function isLockedDay(locks: ReconciliationLock[], day: string): boolean {
+  return locks.some(lock => lock.periodStart <= day && day <= lock.periodEnd);
+}
+
+// ?from=YYYY-MM-DD&to=YYYY-MM-DD, Vietnam calendar days inclusive
+function parseReconciliationPeriod(from: unknown, to: unknown) {
+  const pattern = /^\d{4}-\d{2}-\d{2}$/;
+  if (typeof from !== "string" || typeof to !== "string" || !pattern.test(from) || !pattern.test(to) || from > to) {
+    return undefined;
+  }
+  const start = branchLocalTime(from, "00:00");
+  const end = new Date(branchLocalTime(to, "00:00").getTime() + DAY_MS);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) return undefined;
+  return { periodStart: from, periodEnd: to, from: start, to: end };
+}
+
+// Records a statement line as the bank side of a transaction, approving a pending cash-flow
+// request along the way. Undefined when the line or the transaction was reconciled meanwhile.
+async function reconcileStatementLine(line: BankStatementLine, transaction: Transaction, matchedBy: string | null, approvedBy: string) {
+  const matched = await storage.matchBankStatementLine(line.id, transaction.id, matchedBy);
+  if (!matched) return undefined;
+  if (transaction.status === "pending" && STATEMENT_APPROVED_TYPES.includes(transaction.type)) {
+    await storage.approveCashFlowTransaction(transaction.id, approvedBy);
+  }
+  return matched;
+}
+
+// Matches unmatched lines outside locked periods to the transaction they clearly belong to
+async function autoMatchStatementLines(lines: BankStatementLine[], approvedBy: string): Promise<number> {
+  const unmatched = lines.filter(line => line.status === "unmatched");
+  if (unmatched.length === 0) return 0;
+
+  const windowDays = await getReconciliationWindowDays();
+  const times = unmatched.map(line => new Date(line.transactionDate).getTime());
+  const earliest = new Date(Math.min(...times));
+  const latest = new Date(Math.max(...times));
+  const [locks, transactions] = await Promise.all([
+    storage.findReconciliationLocks(branchLocalDay(earliest), branchLocalDay(latest)),
+    storage.getUnreconciledTransactions(
+      new Date(earliest.getTime() - Math.max(windowDays, STATEMENT_REFERENCE_LOOKBACK_DAYS) * DAY_MS),
+      new Date(latest.getTime() + (windowDays + 1) * DAY_MS)
+    ),
+  ]);
+
+  let matchedCount = 0;
+  let candidates = transactions;
+  for (const line of unmatched) {
+    if (isLockedDay(locks, branchLocalDay(line.transactionDate))) continue;
+    const transaction = findStatementMatch({ ...line, transactionDate: new Date(line.transactionDate) }, candidates, windowDays);
+    if (!transaction) continue;
+    if (await reconcileStatementLine(line, transaction, null, approvedBy)) {
+      matchedCount++;
+      candidates = candidates.filter(candidate => candidate.id !== transaction.id);
+    }
+  }
+  return matchedCount;
+}
+
+// Deposits/withdrawals above the configured amount need an approved KYC record
+async function isBlockedByKyc(userId: string, amount: number, thresholdConfigKey: string): Promise<boolean> {
+  const config = await storage.getSystemConfig(thresholdConfigKey);
+  const threshold = parseFloat(config?.configValue ?? "");
+  if (!Number.isFinite(threshold) || amount <= threshold) return false;
+  return !(await storage.isKycApproved(userId));
+}
+
+// Branch ids a branch manager is limited to; undefined means the global view
+async function getBranchScope(req: Request): Promise<string[] | undefined> {
+  if (!req.user) return undefined;
+  return storage.getBranchScope(req.user as any);
+}
+
+function isInBranchScope(scope: string[] | undefined, branchId: string | null | undefined): boolean {
+  return !scope || (!!branchId && scope.includes(branchId));
+}
+
+async function canAccessStaff(req: Request, staffId: string): Promise<boolean> {
+  const scope = await getBranchScope(req);
+  if (!scope) return true;
+  const staffMember = await storage.getStaffMember(staffId);
+  return !!staffMember && isInBranchScope(scope, staffMember.branchId);
+}
+
+// Owners see their own cards; front-desk staff the cards of the branches they are scoped to
+async function canViewCard(req: Request, card: Card): Promise<boolean> {
+  const user = req.user!;
+  if (card.ownerId === user.id) return true;
+  if (!(await storage.getUserPermissions(user.id)).includes("checkins.scan")) return false;
+  return isInBranchScope(await getBranchScope(req), card.branchId);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication
   setupAuth(app);
 
+  setInterval(() => {
+    sweepNoShowAppointments().catch(error => console.error("No-show sweep error:", error));
+  }, NO_SHOW_SWEEP_INTERVAL_MS).unref();
+  setInterval(() => {
+    sweepCardLifecycle().catch(error => console.error("Card lifecycle sweep error:", error));
+  }, CARD_LIFECYCLE_SWEEP_INTERVAL_MS).unref();
+  setInterval(() => {
+    sweepExpiredOrders().catch(error => console.error("Order expiry sweep error:", error));
+  }, ORDER_EXPIRY_SWEEP_INTERVAL_MS).unref();
+  setInterval(() => {
+    purgeIdempotencyKeys().catch(error => console.error("Idempotency key purge error:", error));
+  }, IDEMPOTENCY_KEY_PURGE_INTERVAL_MS).unref();
+
   // Home page endpoint - Serve static HTML
   app.get("/", (req, res) => {
     res.sendFile(path.join(__dirname, '../vcare-complete.html'));
@@ -148,7 +1318,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         address,
         partnerValue 
       });
-      
+
       // Generate registration ID
       const registrationId = `REG-${Date.now()}`;
       
@@ -172,42 +1342,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/login", async (req, res) => {
-    try {
-      const { loginId, loginPassword } = req.body;
-      
-      // Demo accounts for testing
-      const demoAccounts = {
-        'admin@vcareglobal.com': { password: 'admin123', role: 'admin', name: 'Admin VCare' },
-        'user@vcareglobal.com': { password: 'user123', role: 'user', name: 'User VCare' },
-        'demo@vcareglobal.com': { password: 'demo123', role: 'demo', name: 'Demo VCare' }
-      };
-      
-      const account = demoAccounts[loginId];
-      
-      if (account && account.password === loginPassword) {
-        res.json({ 
-          success: true, 
-          message: "Đăng nhập thành công!",
-          data: { 
-            user: {
-              email: loginId,
-              name: account.name,
-              role: account.role
-            }
-          }
-        });
-      } else {
-        res.json({ 
-          success: false, 
-          message: "Email hoặc mật khẩu không đúng!" 
-        });
-      }
-    } catch (error) {
-      res.status(500).json({ success: false, message: "Lỗi đăng nhập" });
-    }
-  });
-
   app.post("/api/select-card", async (req, res) => {
     try {
       const { cardType } = req.body;
@@ -242,111 +1376,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/submit-card-order", async (req, res) => {
+  app.post("/api/submit-card-order", blockWhileImpersonating, async (req, res) => {
     try {
-      const { cardType, cardData, customerInfo, paymentInfo } = req.body;
-      
-      // Here you would save card order to database
-      console.log('Card order submitted:', { cardType, cardData, customerInfo, paymentInfo });
-      
-      // Generate user account for customer
-      const orderId = `ORD-${Date.now()}`;
-      const userId = `USER-${Date.now()}`;
-      const userEmail = customerInfo.email || `${customerInfo.phone}@vcareglobal.com`;
-      const userPassword = generatePassword(); // Generate random password
-      
-      // Create user account data
-      const userAccount = {
-        id: userId,
-        email: userEmail,
-        password: userPassword,
-        name: customerInfo.name,
-        phone: customerInfo.phone,
-        address: customerInfo.address,
-        role: 'card_customer',
-        status: 'active',
-        cardType: cardType,
-        cardPrice: cardData.price,
-        cardSessions: cardData.sessions,
-        orderId: orderId,
-        createdAt: new Date().toISOString()
-      };
-      
-      res.json({ 
-        success: true, 
-        message: "Đơn hàng đã được gửi thành công! Tài khoản user đã được tạo.",
-        data: { 
-          orderId,
-          userAccount: {
-            email: userEmail,
-            password: userPassword,
-            name: customerInfo.name
-          },
-          cardType,
-          customerInfo,
-          status: 'pending',
+      const parsed = cardOrderRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, message: parsed.error.errors[0].message });
+      }
+      const { orderId, cardType, customerInfo, paymentInfo } = parsed.data;
+
+      const product = await getSellableCardProduct(cardType);
+      if (!product) {
+        return res.status(400).json({ success: false, message: "Loại thẻ không hợp lệ" });
+      }
+
+      const customer = { name: customerInfo.name, email: customerInfo.email || undefined, phone: customerInfo.phone || undefined, address: customerInfo.address };
+      // Only a signed-in member is told they already own the card; for anyone else it would reveal
+      // another customer's cards, so it is checked again when the order is fulfilled
+      if (req.user && await ownsUsableCard(req.user.id, product.name)) {
+        return res.status(400).json({ success: false, message: `Bạn đã sở hữu thẻ ${product.name}. Không thể mua thêm.` });
+      }
+
+      const { order, account, paymentInstructions } = await placeOrder(customer, {
+        kind: "card",
+        clientReference: orderId || null,
+        cardProductId: product.id,
+        productName: product.name,
+        amount: product.price,
+        paymentMethod: paymentInfo.method || "bank_transfer",
+        paymentProof: paymentInfo.proof || null,
+        paymentNote: paymentInfo.note || null,
+      }, req);
+
+      res.status(201).json({
+        success: true,
+        message: account?.created
+          ? "Đơn hàng đã được gửi thành công! Tài khoản user đã được tạo."
+          : "Đơn hàng đã được gửi thành công. Thông tin thanh toán đã được gửi tới liên hệ của tài khoản.",
+        data: {
+          orderId: order.id,
+          orderCode: orderReference(order.id),
+          userAccount: account,
+          cardType: product.name,
+          amount: parseFloat(order.amount),
+          status: order.status,
+          expiresAt: order.expiresAt,
+          paymentInstructions,
           redirectTo: '/user-dashboard'
         }
       });
     } catch (error) {
+      console.error("Card order error:", error);
       res.status(500).json({ success: false, message: "Lỗi gửi đơn hàng" });
     }
   });
 
-  // Helper function to generate password
-  function generatePassword() {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    let password = '';
-    for (let i = 0; i < 8; i++) {
-      password += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return password;
-  }
-
-          app.post("/api/admin-login", async (req, res) => {
-            try {
-              const { loginId, loginPassword } = req.body;
-              
-              // Demo accounts for testing
-              const demoAccounts = {
-                'admin@vcareglobal.com': { password: 'admin123', role: 'admin', name: 'Admin VCare' },
-                'user@vcareglobal.com': { password: 'user123', role: 'user', name: 'User VCare' },
-                'demo@vcareglobal.com': { password: 'demo123', role: 'demo', name: 'Demo VCare' }
-              };
-              
-              const account = demoAccounts[loginId];
-              
-              if (account && account.password === loginPassword) {
-                // Create session for admin
-                req.session.user = {
-                  id: 'admin-001',
-                  email: loginId,
-                  name: account.name,
-                  role: account.role
-                };
-                
-                res.json({ 
-                  success: true, 
-                  message: "Đăng nhập thành công!",
-                  data: { 
-                    user: {
-                      email: loginId,
-                      name: account.name,
-                      role: account.role
-                    }
-                  }
-                });
-              } else {
-                res.json({ 
-                  success: false, 
-                  message: "Email hoặc mật khẩu không đúng!" 
-                });
-              }
-            } catch (error) {
-              res.status(500).json({ success: false, message: "Lỗi đăng nhập" });
-            }
-          });
-
           // User type upgrade request endpoint
           app.post("/api/upgrade-request", async (req, res) => {
             try {
@@ -386,7 +1469,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
 
           // Admin Dashboard API endpoints
-          app.get("/api/admin/users", async (req, res) => {
+          app.get("/api/admin/users", requireAuth, requirePermission("users.read"), async (req, res) => {
             try {
               // Mock user data for admin dashboard
               const users = [
@@ -431,7 +1514,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
           });
 
-          app.get("/api/admin/cards", async (req, res) => {
+          app.get("/api/admin/cards", requireAuth, requirePermission("users.read"), async (req, res) => {
             try {
               // Mock card data for admin dashboard
               const cards = [
@@ -465,7 +1548,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
           });
 
-          app.get("/api/admin/transactions", async (req, res) => {
+          app.get("/api/admin/transactions", requireAuth, requirePermission("transactions.read"), async (req, res) => {
             try {
               // Mock transaction data for admin dashboard
               const transactions = [
@@ -507,7 +1590,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
           });
 
-          app.get("/api/admin/stats", async (req, res) => {
+          app.get("/api/admin/stats", requireAuth, requirePermission("users.read"), async (req, res) => {
             try {
               // Mock statistics for admin dashboard
               const stats = {
@@ -532,7 +1615,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
 
           // Admin action endpoints
-          app.post("/api/admin/users/:userId/status", requireAuth, async (req, res) => {
+          app.post("/api/admin/users/:userId/status", requireAuth, requirePermission("users.manage"), async (req, res) => {
             try {
               const { userId } = req.params;
               const { status } = req.body;
@@ -548,7 +1631,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
           });
 
-          app.post("/api/admin/transactions/:transactionId/approve", requireAuth, async (req, res) => {
+          app.post("/api/admin/transactions/:transactionId/approve", requireAuth, requirePermission("transactions.approve"), async (req, res) => {
             try {
               const { transactionId } = req.params;
               
@@ -563,7 +1646,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
           });
 
-          app.post("/api/admin/transactions/:transactionId/reject", requireAuth, async (req, res) => {
+          app.post("/api/admin/transactions/:transactionId/reject", requireAuth, requirePermission("transactions.approve"), async (req, res) => {
             try {
               const { transactionId } = req.params;
               const { reason } = req.body;
@@ -589,105 +1672,137 @@ app.get("/favicon.svg", (req, res) => {
 
 
   // Forgot Password API endpoints
-  app.post("/api/forgot-password", async (req, res) => {
+  // The code is generated, hashed and delivered server-side; responses never reveal
+  // whether the email/phone belongs to an account, so a request inside the resend cooldown or
+  // over the hourly cap gets the same answer and simply sends nothing.
+  const sendResetCode = (successMessage: string, errorMessage: string) => async (req: any, res: any) => {
     try {
-      const { emailOrPhone, code } = req.body;
-      
-      console.log('Forgot password request:', { emailOrPhone, code });
-      
-      // In a real system, you would:
-      // 1. Check if email/phone exists in database
-      // 2. Generate and store reset code
-      // 3. Send email/SMS with code
-      
-      // For demo, we'll simulate success
-      res.json({
-        success: true,
-        message: "Mã xác thực đã được gửi thành công!",
-        data: {
-          emailOrPhone: emailOrPhone,
-          code: code, // In real system, don't return the code
-          message: "Vui lòng kiểm tra email/SMS để lấy mã xác thực"
-        }
-      });
-    } catch (error) {
-      console.error('Forgot password error:', error);
-      res.status(500).json({ success: false, message: "Lỗi gửi mã xác thực" });
-    }
-  });
+      const parsed = forgotPasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, message: "Vui lòng nhập email hoặc số điện thoại" });
+      }
+
+      const { emailOrPhone } = parsed.data;
+      const user = await findUserByEmailOrPhone(emailOrPhone);
+
+      const latest = user && user.status === "active" ? await storage.getLatestPasswordResetCode(user.id) : undefined;
+      const coolingDown = !!latest?.createdAt && Date.now() - new Date(latest.createdAt).getTime() < RESET_CODE_RESEND_COOLDOWN_MS;
+      const overHourlyCap = !!user && !coolingDown
+        && await storage.countPasswordResetCodesSince(user.id, new Date(Date.now() - 60 * 60 * 1000)) >= RESET_CODE_MAX_PER_HOUR;
+
+      if (user && user.status === "active" && !coolingDown && !overHourlyCap) {
+        const code = randomInt(0, 1000000).toString().padStart(6, "0");
+        const channel = emailOrPhone.includes("@") ? "email" : "sms";
+
+        await storage.createPasswordResetCode({
+          userId: user.id,
+          codeHash: await hashPassword(code),
+          channel,
+          attempts: 0,
+          expiresAt: new Date(Date.now() + RESET_CODE_TTL_MINUTES * 60 * 1000),
+        });
+
+        await sendMessage({
+          channel,
+          to: channel === "email" ? user.email : user.phone!,
+          subject: "Mã khôi phục mật khẩu VCare Global",
+          body: `Mã xác thực của bạn là ${code}. Mã có hiệu lực trong ${RESET_CODE_TTL_MINUTES} phút và chỉ sử dụng được một lần.`,
+        });
+      }
 
-  app.post("/api/resend-reset-code", async (req, res) => {
-    try {
-      const { emailOrPhone, code } = req.body;
-      
-      console.log('Resend reset code request:', { emailOrPhone, code });
-      
-      // In a real system, generate new code and send again
       res.json({
         success: true,
-        message: "Mã xác thực mới đã được gửi!",
+        message: successMessage,
         data: {
-          emailOrPhone: emailOrPhone,
-          code: code,
-          message: "Vui lòng kiểm tra email/SMS để lấy mã xác thực mới"
+          emailOrPhone,
+          expiresInMinutes: RESET_CODE_TTL_MINUTES,
+          message: "Nếu tài khoản tồn tại, mã xác thực đã được gửi qua email/SMS"
         }
       });
     } catch (error) {
-      console.error('Resend code error:', error);
-      res.status(500).json({ success: false, message: "Lỗi gửi lại mã xác thực" });
+      console.error('Send reset code error:', error);
+      res.status(500).json({ success: false, message: errorMessage });
     }
-  });
-
-  app.post("/api/verify-reset-code", async (req, res) => {
+  };
+
+  // Reset-code endpoints share the "reset" throttle scope, separate from sign-in lockouts
+  const resolveResetAccount = async (req: Request) => {
+    const loginId = typeof req.body?.emailOrPhone === "string" ? req.body.emailOrPhone : "";
+    if (!loginId) return undefined;
+    const user = await findUserByEmailOrPhone(loginId);
+    return { userId: user?.id, loginId };
+  };
+  // Sending always answers 200 (no account enumeration), so every request counts
+  const resetCodeSendThrottle = loginThrottle({ scope: "reset", resolveAccount: resolveResetAccount, failureStatuses: [], countEveryRequest: true });
+  const resetCodeCheckThrottle = loginThrottle({ scope: "reset", resolveAccount: resolveResetAccount, failureStatuses: [400] });
+
+  app.post("/api/forgot-password", resetCodeSendThrottle,
+    sendResetCode("Mã xác thực đã được gửi thành công!", "Lỗi gửi mã xác thực"));
+
+  app.post("/api/resend-reset-code", resetCodeSendThrottle,
+    sendResetCode("Mã xác thực mới đã được gửi!", "Lỗi gửi lại mã xác thực"));
+
+  app.post("/api/verify-reset-code", resetCodeCheckThrottle, async (req, res) => {
     try {
-      const { emailOrPhone, code } = req.body;
-      
-      console.log('Verify reset code request:', { emailOrPhone, code });
-      
-      // In a real system, you would:
-      // 1. Check if code is valid and not expired
-      // 2. Return success if valid
-      
-      // For demo, accept any 6-digit code
-      if (code && code.length === 6 && /^[0-9]{6}$/.test(code)) {
-        res.json({
-          success: true,
-          message: "Mã xác thực hợp lệ!",
-          data: {
-            emailOrPhone: emailOrPhone,
-            verified: true
-          }
-        });
-      } else {
-        res.json({
-          success: false,
-          message: "Mã xác thực không hợp lệ hoặc đã hết hạn!"
-        });
+      const parsed = verifyResetCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, message: "Mã xác thực phải gồm 6 chữ số" });
+      }
+
+      const result = await checkResetCode(parsed.data.emailOrPhone, parsed.data.code);
+      if (!result.valid) {
+        return res.status(400).json({ success: false, message: result.message });
       }
+
+      res.json({
+        success: true,
+        message: "Mã xác thực hợp lệ!",
+        data: {
+          emailOrPhone: parsed.data.emailOrPhone,
+          verified: true
+        }
+      });
     } catch (error) {
       console.error('Verify code error:', error);
       res.status(500).json({ success: false, message: "Lỗi xác thực mã" });
     }
   });
 
-  app.post("/api/reset-password", async (req, res) => {
+  app.post("/api/reset-password", resetCodeCheckThrottle, async (req, res) => {
     try {
-      const { emailOrPhone, newPassword, code } = req.body;
-      
-      console.log('Reset password request:', { emailOrPhone, newPassword: '***', code });
-      
-      // In a real system, you would:
-      // 1. Verify the reset code is still valid
-      // 2. Hash the new password
-      // 3. Update user's password in database
-      // 4. Invalidate the reset code
-      
-      // For demo, we'll simulate success
+      const parsed = resetPasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, message: parsed.error.errors[0].message });
+      }
+
+      const { emailOrPhone, code, newPassword } = parsed.data;
+      const result = await checkResetCode(emailOrPhone, code);
+      if (!result.valid) {
+        return res.status(400).json({ success: false, message: result.message });
+      }
+
+      // Consume the code before changing anything so it cannot be replayed
+      await storage.markPasswordResetCodeUsed(result.resetCode.id);
+      await storage.updateUser(result.user.id, { password: await hashPassword(newPassword) });
+      await storage.destroyUserSessions(result.user.id);
+      await storage.revokeUserTokens(result.user.id);
+
+      await storage.createAuditLog({
+        userId: result.user.id,
+        action: "password_reset",
+        entityType: "user",
+        entityId: result.user.id,
+        oldValue: null,
+        newValue: JSON.stringify({ channel: result.resetCode.channel }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
       res.json({
         success: true,
         message: "Mật khẩu đã được đặt lại thành công!",
         data: {
-          emailOrPhone: emailOrPhone,
+          emailOrPhone,
           message: "Bạn có thể đăng nhập với mật khẩu mới"
         }
       });
@@ -698,59 +1813,52 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Submit user type order (membership package)
-  app.post("/api/submit-user-type-order", async (req, res) => {
+  app.post("/api/submit-user-type-order", blockWhileImpersonating, async (req, res) => {
     try {
-      const { orderId, userType, memberInfo, investmentInfo } = req.body;
-      
-      console.log('User type order submission:', { orderId, userType, memberInfo, investmentInfo });
-      
-      // Generate user account for member
-      const finalOrderId = orderId || `UTY-${Date.now()}`;
-      const userId = `USER-${Date.now()}`;
-      const userEmail = memberInfo.email;
-      const userPassword = generatePassword(); // Generate random password
-      
-      // Create user account data
-      const userAccount = {
-        id: userId,
-        email: userEmail,
-        password: userPassword,
+      const parsed = membershipOrderRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, message: parsed.error.errors[0].message });
+      }
+      const { orderId, userType, memberInfo, investmentInfo } = parsed.data;
+
+      const tierConfig = await storage.getBusinessTierConfig(userType);
+      const minInvestment = parseFloat(tierConfig?.minInvestment || "0");
+      if (investmentInfo.amount < minInvestment) {
+        return res.status(400).json({ success: false, message: `Số tiền đầu tư phải tối thiểu ${minInvestment.toLocaleString("vi-VN")} VND` });
+      }
+
+      const { order, account, paymentInstructions } = await placeOrder({
         name: memberInfo.name,
-        phone: memberInfo.phone,
+        email: memberInfo.email,
+        phone: memberInfo.phone || undefined,
         address: memberInfo.address,
-        role: userType, // Set role based on user type
-        status: 'active',
-        userType: userType,
-        investmentAmount: investmentInfo.amount,
-        orderId: finalOrderId,
-        createdAt: new Date().toISOString()
-      };
-      
-      // Here you would save to database
-      const newMember = {
-        id: 'member-' + Date.now(),
-        orderId: finalOrderId,
-        userType,
-        ...memberInfo,
-        ...investmentInfo,
-        status: 'pending_approval',
-        createdAt: new Date().toISOString()
-      };
-      
-      res.json({
+        idCard: memberInfo.idCard,
+        birthDate: memberInfo.birthday,
+      }, {
+        kind: "membership",
+        clientReference: orderId || null,
+        businessTier: userType,
+        productName: userType,
+        amount: investmentInfo.amount.toString(),
+        paymentMethod: investmentInfo.method || "bank_transfer",
+        paymentProof: investmentInfo.proof || null,
+        paymentNote: investmentInfo.note || null,
+      }, req);
+
+      res.status(201).json({
         success: true,
-        message: "Đăng ký gói thành viên thành công! Tài khoản user đã được tạo.",
+        message: account?.created
+          ? "Đăng ký gói thành viên thành công! Tài khoản user đã được tạo."
+          : "Đăng ký gói thành viên thành công. Thông tin thanh toán đã được gửi tới liên hệ của tài khoản.",
         data: {
-          orderId: finalOrderId,
-          userAccount: {
-            email: userEmail,
-            password: userPassword,
-            name: memberInfo.name
-          },
+          orderId: order.id,
+          orderCode: orderReference(order.id),
+          userAccount: account,
           userType,
-          memberInfo,
-          investmentInfo,
-          status: 'pending_approval',
+          amount: parseFloat(order.amount),
+          status: order.status,
+          expiresAt: order.expiresAt,
+          paymentInstructions,
           redirectTo: '/user-dashboard'
         }
       });
@@ -763,40 +1871,29 @@ app.get("/favicon.svg", (req, res) => {
   // Generate QR code for payment
   app.post("/api/generate-qr-payment", async (req, res) => {
     try {
-      const { orderId, amount, description } = req.body;
-      
-      // TPBank payment info
-      const bankInfo = {
-        bankCode: "TPB",
-        bankName: "TPBank",
-        accountNumber: "92232558888",
-        accountName: "PHAM VAN SINH"
-      };
-      
-      // Create payment content with order ID
-      const paymentContent = `${orderId || 'VCG' + Date.now()}`;
-      
-                // Generate QR code data (VietQR format - MoMo compatible)
-                const qrData = {
-                  accountNumber: bankInfo.accountNumber,
-                  accountName: bankInfo.accountName,
-                  bankCode: bankInfo.bankCode,
-                  amount: amount || 0,
-                  description: paymentContent,
-                  template: "compact"
-                };
-      
-                // Create VietQR URL - compatible with MoMo and other banking apps
-                const baseUrl = "https://img.vietqr.io/image";
-                const qrUrl = `${baseUrl}/${bankInfo.bankCode}-${bankInfo.accountNumber}-compact.png?amount=${qrData.amount}&addInfo=${encodeURIComponent(paymentContent)}&accountName=${encodeURIComponent(bankInfo.accountName)}`;
-      
+      const { orderId, amount } = req.body;
+      const paymentContent = vietQrMemo(`${orderId || 'VCG' + Date.now()}`);
+      const paymentAmount = Math.max(parseFloat(amount) || 0, 0);
+
+      const account = await storage.findReceivingBankAccount("order");
+      if (!account) {
+        return res.status(503).json({ success: false, message: "Chưa cấu hình tài khoản nhận thanh toán" });
+      }
+
       res.json({
         success: true,
         data: {
-          qrUrl,
-          bankInfo,
+          qrUrl: paymentQrImageUrl(account.id, "png", paymentAmount, paymentContent),
+          qrSvgUrl: paymentQrImageUrl(account.id, "svg", paymentAmount, paymentContent),
+          qrPayload: buildVietQrPayload({ bankBin: account.bankBin, accountNumber: account.accountNumber, amount: paymentAmount, memo: paymentContent }),
+          bankInfo: {
+            bankBin: account.bankBin,
+            bankName: account.bankName,
+            accountNumber: account.accountNumber,
+            accountName: account.accountName,
+          },
           orderId: paymentContent,
-          amount: qrData.amount,
+          amount: paymentAmount,
           description: `Thanh toán đơn hàng ${paymentContent} - VCare Global`
         }
       });
@@ -805,6 +1902,98 @@ app.get("/favicon.svg", (req, res) => {
     }
   });
 
+  // VietQR image for a transfer to a configured account; payment pages use it as an <img> source
+  app.get("/api/bank-accounts/:id/qr.:format", async (req, res) => {
+    try {
+      const { format } = req.params;
+      if (format !== "png" && format !== "svg") {
+        return res.status(404).json({ message: "Unsupported format" });
+      }
+      const account = await storage.getBankAccount(req.params.id);
+      if (!account || !account.isActive) {
+        return res.status(404).json({ message: "Bank account not found" });
+      }
+
+      const payload = buildVietQrPayload({
+        bankBin: account.bankBin,
+        accountNumber: account.accountNumber,
+        amount: parseFloat(req.query.amount as string) || undefined,
+        memo: typeof req.query.memo === "string" ? req.query.memo : undefined,
+      });
+      res.setHeader("Cache-Control", "private, max-age=300");
+      if (format === "svg") {
+        res.type("image/svg+xml").send(await renderVietQrSvg(payload));
+      } else {
+        res.type("image/png").send(await renderVietQrPng(payload));
+      }
+    } catch (error) {
+      console.error("Payment QR error:", error);
+      res.status(500).json({ message: "Failed to render payment QR" });
+    }
+  });
+
+  // Incoming-transfer notifications from the bank-notification service, signed with
+  // BANK_WEBHOOK_SECRET as "X-Signature: sha256=<hmac of the raw body>"
+  app.post("/api/payment-webhooks/bank", async (req, res) => {
+    try {
+      if (!isWebhookConfigured()) {
+        return res.status(503).json({ success: false, message: "Bank webhook is not configured" });
+      }
+      if (!verifyWebhookSignature((req as any).rawBody, req.get("X-Signature"))) {
+        return res.status(401).json({ success: false, message: "Invalid signature" });
+      }
+      const parsed = bankWebhookPayloadSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, message: parsed.error.errors[0].message });
+      }
+      // Outgoing transfers are reported too; only incoming ones pay for orders
+      if (parsed.data.transferType === "out") {
+        return res.json({ success: true, status: "ignored" });
+      }
+
+      const result = await receiveBankTransfer(parsed.data, ((req as any).rawBody as Buffer).toString("utf8"), req);
+      res.json({ success: true, ...result });
+    } catch (error) {
+      console.error("Bank webhook error:", error);
+      res.status(500).json({ success: false, message: "Failed to process bank notification" });
+    }
+  });
+
+  // Local simulator: signs a notification like the bank-notification service would and posts it
+  // to the webhook above, so the whole path including signature checks can be tried without a bank
+  app.post("/api/payment-webhooks/bank/simulate", requireAuth, requirePermission("transactions.approve"), async (req, res) => {
+    if (process.env.NODE_ENV === "production") {
+      return res.status(404).json({ message: "Not found" });
+    }
+    if (!isWebhookConfigured()) {
+      return res.status(503).json({ message: "Chưa cấu hình BANK_WEBHOOK_SECRET" });
+    }
+    try {
+      const account = req.body.accountNumber ? undefined : await storage.findReceivingBankAccount("order");
+      const notification = {
+        id: `SIM${Date.now()}`,
+        gateway: "simulator",
+        transactionDate: new Date().toISOString(),
+        accountNumber: req.body.accountNumber || account?.accountNumber || "",
+        transferType: "in",
+        transferAmount: req.body.amount,
+        content: req.body.content || "",
+        referenceCode: `SIM${randomBytes(4).toString("hex").toUpperCase()}`,
+      };
+      const body = JSON.stringify(notification);
+
+      const response = await fetch(`http://127.0.0.1:${req.socket.localPort}/api/payment-webhooks/bank`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Signature": signWebhookBody(body) },
+        body,
+      });
+      res.status(response.status).json({ notification, response: await response.json() });
+    } catch (error) {
+      console.error("Bank webhook simulator error:", error);
+      res.status(500).json({ message: "Failed to simulate bank notification" });
+    }
+  });
+
   // Admin dashboard route
   app.get("/admin-dashboard", (req, res) => {
     res.sendFile(path.join(__dirname, '../admin-dashboard.html'));
@@ -820,15 +2009,16 @@ app.get("/favicon.svg", (req, res) => {
   app.get("/home", async (req, res) => {
     try {
       // Fetch all data from database
-      const [cards, branches, transactions, users] = await Promise.all([
+      const [cards, branches, transactions, users, cardProducts] = await Promise.all([
         storage.getCards(),
         storage.getBranches(),
         storage.getTransactions(),
-        storage.getAllUsers()
+        storage.getAllUsers(),
+        storage.getCardProducts(true)
       ]);
 
-      // Calculate active cards (cards with status "active")
-      const activeCards = cards.filter(c => c.status === "active").length;
+      // Calculate active cards (cards in use, including those near maxout)
+      const activeCards = cards.filter(c => USABLE_CARD_STATUSES.includes(c.status)).length;
       
       // Calculate total branches
       const totalBranches = branches.length;
@@ -870,49 +2060,16 @@ app.get("/favicon.svg", (req, res) => {
         monthlyGrowth: monthlyGrowth,
         averageInvestment: averageInvestment,
         
-        // Card types with dynamic pricing
-        cardTypes: [
-          { 
-            name: "Standard", 
-            price: 12000000, 
-            sessions: 12, 
-            description: "Thẻ cơ bản với 12 lượt tư vấn",
-            vcaDigitalShare: 1200,
-            count: cards.filter(c => c.cardType === "Standard").length
-          },
-          { 
-            name: "Silver", 
-            price: 15000000, 
-            sessions: 15, 
-            description: "Thẻ bạc với 15 lượt tư vấn",
-            vcaDigitalShare: 1500,
-            count: cards.filter(c => c.cardType === "Silver").length
-          },
-          { 
-            name: "Gold", 
-            price: 18000000, 
-            sessions: 18, 
-            description: "Thẻ vàng với 18 lượt tư vấn",
-            vcaDigitalShare: 1800,
-            count: cards.filter(c => c.cardType === "Gold").length
-          },
-          { 
-            name: "Platinum", 
-            price: 21000000, 
-            sessions: 21, 
-            description: "Thẻ bạch kim với 21 lượt tư vấn",
-            vcaDigitalShare: 2100,
-            count: cards.filter(c => c.cardType === "Platinum").length
-          },
-          { 
-            name: "Diamond", 
-            price: 24000000, 
-            sessions: 24, 
-            description: "Thẻ kim cương với 24 lượt tư vấn",
-            vcaDigitalShare: 2400,
-            count: cards.filter(c => c.cardType === "Diamond").length
-          }
-        ],
+        // Card types from the product catalogue
+        cardTypes: cardProducts.map(product => ({
+          name: product.name,
+          price: parseFloat(product.price),
+          sessions: product.consultationSessions,
+          validityMonths: product.validityMonths,
+          description: product.description,
+          vcaDigitalShare: parseFloat(product.vcaDigitalShare),
+          count: cards.filter(c => c.cardType === product.name).length
+        })),
         
         // Investment roles with dynamic data
         investmentRoles: [
@@ -1041,7 +2198,7 @@ app.get("/favicon.svg", (req, res) => {
                 name: roleName,
                 displayName: roleName,
                 description: `Vai trò ${roleName}`,
-                permissions: JSON.stringify([]),
+                permissions: [],
                 isActive: true
               });
             }
@@ -1099,8 +2256,9 @@ app.get("/favicon.svg", (req, res) => {
           // Check if referral code exists and is valid
           const referral = await storage.getReferralByCode(referralCode);
           if (referral) {
-            // Calculate 8% referral commission based on card price
-            const cardPrice = cardType ? (cardPrices[cardType] || 0) : 0;
+            // Calculate 8% referral commission based on the catalogue price of the card
+            const cardProduct = cardType ? await storage.getCardProductByName(cardType) : undefined;
+            const cardPrice = cardProduct ? parseFloat(cardProduct.price) : 0;
             referralCommission = Math.floor(cardPrice * 0.08); // 8% commission
             
             // Calculate 5% VIP support commission
@@ -1131,41 +2289,23 @@ app.get("/favicon.svg", (req, res) => {
 
       // Handle card registration - create temp record if redirecting to card selection
       if (cardType) {
-        const cardPrices = {
-          "Standard": 2000000,    // Updated prices as per requirements
-          "Silver": 8000000,
-          "Gold": 18000000,
-          "Platinum": 38000000,
-          "Diamond": 100000000
-        };
-
-        const cardSessions = {
-          "Standard": 12,
-          "Silver": 15,
-          "Gold": 18,
-          "Platinum": 20,
-          "Diamond": 24
-        };
-
-        const price = cardPrices[cardType];
-        const sessions = cardSessions[cardType];
-
-        if (!price) {
+        const product = await getSellableCardProduct(cardType);
+        if (!product) {
           return res.status(400).json({ 
             message: "Invalid card type" 
           });
         }
 
-        // Calculate VCA Digital Share (100 VCA = 1 million VNĐ)
-        const vcaDigitalShare = calculateVcaDigitalShareFromAmount(price);
+        const price = parseFloat(product.price);
+        const sessions = product.consultationSessions;
+        const vcaDigitalShare = parseFloat(product.vcaDigitalShare);
 
         if (redirectToCardSelection) {
           // Create temporary card record (not paid yet)
           tempCardRecord = await storage.createCard({
-            cardType,
-            price: price.toString(),
-            vcaDigitalShare: vcaDigitalShare.toString(),
-            consultationSessions: sessions,
+            ...cardFieldsFromProduct(product),
+            cardNumber: await allocateCardNumber(product.name),
+            customerName: user.name,
             ownerId: user.id,
             status: "pending", // Pending payment
             description: `Thẻ ${cardType} với ${sessions} lượt tư vấn (Chưa thanh toán)`,
@@ -1176,10 +2316,9 @@ app.get("/favicon.svg", (req, res) => {
         } else {
           // Create active card (immediate payment)
           cardCreated = await storage.createCard({
-            cardType,
-            price: price.toString(),
-            vcaDigitalShare: vcaDigitalShare.toString(),
-            consultationSessions: sessions,
+            ...cardFieldsFromProduct(product),
+            cardNumber: await allocateCardNumber(product.name),
+            customerName: user.name,
             ownerId: user.id,
             status: "active",
             description: `Thẻ ${cardType} với ${sessions} lượt tư vấn`,
@@ -1294,68 +2433,54 @@ app.get("/favicon.svg", (req, res) => {
     }
   });
 
-  // Buy card package endpoint (from card selection interface)
-  app.post("/api/buy-card", async (req, res) => {
+  // Buy card package endpoint (from card selection interface). The card is bought for the signed-in
+  // member and always starts pending; only finishCardPurchase (bank webhook or an approver) activates it.
+  app.post("/api/buy-card", requireAuth, blockWhileImpersonating, idempotent, async (req, res) => {
     try {
       const { 
-        userId,
         cardType, 
         price,
         sessions,
         paymentMethod = "bank_transfer",
-        paymentStatus = "pending", // Default to pending for offline payment
+        branchId = null, // Branch selling the card, null for online purchases
         notes = ""
       } = req.body;
+      const paymentStatus = "pending";
 
       // Validate required fields
-      if (!userId || !cardType || !price || !sessions) {
+      if (!cardType || !price || !sessions) {
         return res.status(400).json({ 
-          message: "User ID, card type, price, and sessions are required" 
+          message: "Card type, price, and sessions are required" 
         });
       }
 
-      // Validate card type and price
-      const validCardTypes = {
-        "Standard": { price: 2000000, sessions: 12 },
-        "Silver": { price: 8000000, sessions: 15 },
-        "Gold": { price: 18000000, sessions: 18 },
-        "Platinum": { price: 38000000, sessions: 20 },
-        "Diamond": { price: 100000000, sessions: 24 }
-      };
-
-      if (!validCardTypes[cardType]) {
+      // Validate card type and price against the catalogue
+      const product = await getSellableCardProduct(cardType);
+      if (!product) {
         return res.status(400).json({ 
           message: "Invalid card type" 
         });
       }
 
-      const expectedPrice = validCardTypes[cardType].price;
-      const expectedSessions = validCardTypes[cardType].sessions;
-
-      if (price !== expectedPrice || sessions !== expectedSessions) {
+      // The client shows the price it read earlier; refuse if the catalogue changed since
+      if (Number(price) !== parseFloat(product.price) || Number(sessions) !== product.consultationSessions) {
         return res.status(400).json({ 
           message: "Invalid price or sessions for selected card type" 
         });
       }
 
-      // Get user
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(404).json({ 
-          message: "User not found" 
-        });
-      }
+      const user = req.user!;
 
-      // Calculate VCA Digital Share (100 VCA = 1 million VNĐ)
-      const vcaDigitalShare = calculateVcaDigitalShareFromAmount(price);
-      const vcaDigitalShareValue = vcaDigitalShare * 10000; // 1 VCA = 10,000 VNĐ
+      // VCA Digital Share granted by the product (1 VCA = 10,000 VNĐ)
+      const vcaDigitalShare = parseFloat(product.vcaDigitalShare);
+      const vcaDigitalShareValue = vcaDigitalShare * 10000;
 
       // Check if user already has this card type
       const existingCards = await storage.getCards();
       const userCards = existingCards.filter(card => 
         card.ownerId === user.id && 
         card.cardType === cardType && 
-        card.status === "active"
+        USABLE_CARD_STATUSES.includes(card.status)
       );
 
       if (userCards.length > 0) {
@@ -1366,12 +2491,12 @@ app.get("/favicon.svg", (req, res) => {
 
       // Create card with appropriate status
       const cardCreated = await storage.createCard({
-        cardType,
-        price: price.toString(),
-        vcaDigitalShare: vcaDigitalShare.toString(),
-        consultationSessions: sessions,
+        ...cardFieldsFromProduct(product),
+        cardNumber: await allocateCardNumber(product.name, branchId),
+        branchId,
+        customerName: user.name,
         ownerId: user.id,
-        status: paymentStatus === "completed" ? "active" : "pending",
+        status: "pending",
         description: `Thẻ ${cardType} với ${sessions} lượt tư vấn`,
         paymentStatus: paymentStatus,
         notes: notes || `Mua thẻ ${cardType} - ${price.toLocaleString('vi-VN')} VNĐ`,
@@ -1379,38 +2504,23 @@ app.get("/favicon.svg", (req, res) => {
         updatedAt: new Date()
       });
 
-      // Update user VCA Digital Share only if payment is completed
-      let newPadToken = parseFloat(user.vcaDigitalShare || "0");
-      if (paymentStatus === "completed") {
-        newPadToken = newPadToken + vcaDigitalShare;
-        
-        await storage.updateUserPadToken(
-          user.id, 
-          newPadToken, 
-          `Mua thẻ ${cardType} - ${price.toLocaleString('vi-VN')} VNĐ`,
-          user.id
-        );
-      }
+      // VCA Digital Share is credited when the payment is confirmed
+      const newPadToken = parseFloat(user.vcaDigitalShare || "0");
 
       // Create transaction record
       const transaction = await storage.createTransaction({
         type: "income",
         amount: price.toString(),
-        description: `Mua thẻ ${cardType} - ${paymentStatus === "completed" ? "Đã thanh toán" : "Chờ thanh toán"}`,
+        description: `Mua thẻ ${cardType} - Chờ thanh toán`,
+        contributionType: "card",
+        cardId: cardCreated.id,
         userId: user.id,
-        status: paymentStatus === "completed" ? "completed" : "pending",
+        status: "pending",
         notes: notes || `Giao dịch mua thẻ ${cardType}`,
         createdAt: new Date(),
         updatedAt: new Date()
       });
 
-      // Create payment record if needed
-      if (paymentStatus === "pending") {
-        // You can add payment tracking logic here
-        // For example, create a payment request record
-        console.log(`Payment pending for card ${cardType} - User: ${user.email}`);
-      }
-
       // Log the purchase
       await storage.createAuditLog({
         userId: user.id,
@@ -1434,9 +2544,7 @@ app.get("/favicon.svg", (req, res) => {
       // Prepare response data
       const responseData = {
         success: true,
-        message: paymentStatus === "completed" 
-          ? `Mua gói ${cardType} thành công!` 
-          : `Đơn hàng ${cardType} đã được tạo. Vui lòng thanh toán để kích hoạt thẻ.`,
+        message: `Đơn hàng ${cardType} đã được tạo. Vui lòng thanh toán để kích hoạt thẻ.`,
         data: {
           card: {
             id: cardCreated.id,
@@ -1460,31 +2568,23 @@ app.get("/favicon.svg", (req, res) => {
             status: transaction.status,
             description: transaction.description
           },
-          vcaDigitalShareEarned: paymentStatus === "completed" ? vcaDigitalShare : 0,
+          vcaDigitalShareEarned: 0,
           paymentInfo: {
             method: paymentMethod,
             status: paymentStatus,
             amount: price,
             currency: "VNĐ"
           }
-        }
+        },
+        paymentInstructions: await buildPaymentInstructions(
+          "card_purchase",
+          price,
+          paymentMemo("card_purchase", transaction.id),
+          "Vui lòng thanh toán để kích hoạt thẻ",
+          branchId
+        )
       };
 
-      // Add payment instructions if pending
-      if (paymentStatus === "pending") {
-        responseData.paymentInstructions = {
-          message: "Vui lòng thanh toán để kích hoạt thẻ",
-          bankInfo: {
-            bankName: "Vietcombank",
-            accountNumber: "1234567890",
-            accountName: "Phúc An Dương",
-            amount: price,
-            content: `MUA THE ${cardType.toUpperCase()} - ${user.phone}`
-          },
-          qrCode: `https://api.vietqr.io/v2/generate?accountNo=1234567890&accountName=Phuc%20An%20Duong&amount=${price}&description=MUA%20THE%20${cardType.toUpperCase()}`
-        };
-      }
-
       res.status(201).json(responseData);
 
     } catch (error) {
@@ -1496,8 +2596,8 @@ app.get("/favicon.svg", (req, res) => {
     }
   });
 
-  // Payment confirmation endpoint
-  app.post("/api/confirm-payment", async (req, res) => {
+  // Manual payment confirmation by an approver, for transfers the bank webhook could not match
+  app.post("/api/confirm-payment", requireAuth, requirePermission("transactions.approve"), blockWhileImpersonating, idempotent, async (req, res) => {
     try {
       const { 
         cardId,
@@ -1536,61 +2636,13 @@ app.get("/favicon.svg", (req, res) => {
         });
       }
 
-      // Update card status to active
-      const updatedCard = await storage.updateCard(cardId, {
-        status: "active",
-        paymentStatus: "completed",
-        notes: notes || `Thanh toán xác nhận - ${paymentMethod}`,
-        updatedAt: new Date()
-      });
-
-      // Calculate and update VCA Digital Share
-      const vcaDigitalShare = parseFloat(card.vcaDigitalShare || "0");
-      const currentPadToken = parseFloat(user.vcaDigitalShare || "0");
-      const newPadToken = currentPadToken + vcaDigitalShare;
-      
-      await storage.updateUserPadToken(
-        user.id, 
-        newPadToken, 
-        `Kích hoạt thẻ ${card.cardType} - ${card.price} VNĐ`,
-        user.id
-      );
-
-      // Update transaction status
-      const transactions = await storage.getTransactions();
-      const cardTransaction = transactions.find(t => 
-        t.userId === user.id && 
-        t.description.includes(`Mua thẻ ${card.cardType}`) &&
-        t.status === "pending"
-      );
-
-      if (cardTransaction) {
-        await storage.updateTransaction(cardTransaction.id, {
-          status: "completed",
-          notes: `Thanh toán xác nhận - ${paymentMethod}`,
-          updatedAt: new Date()
+      const confirmed = await finishCardPurchase(card, req.user!.id, paymentMethod, paymentReference, req);
+      if (!confirmed) {
+        return res.status(409).json({ 
+          message: "Card payment has already been confirmed" 
         });
       }
-
-      // Log the payment confirmation
-      await storage.createAuditLog({
-        userId: user.id,
-        action: "payment_confirmed",
-        entityType: "card",
-        entityId: cardId,
-        oldValue: JSON.stringify({
-          status: card.status,
-          paymentStatus: card.paymentStatus
-        }),
-        newValue: JSON.stringify({
-          status: "active",
-          paymentStatus: "completed",
-          paymentMethod,
-          paymentReference
-        }),
-        ipAddress: req.ip || null,
-        userAgent: req.get("User-Agent") || null,
-      });
+      const { card: updatedCard, vcaDigitalShare, newPadToken } = confirmed;
 
       res.status(200).json({
         success: true,
@@ -1702,13 +2754,14 @@ app.get("/favicon.svg", (req, res) => {
   // Get registration info endpoint
   app.get("/api/register/info", async (req, res) => {
     try {
-      const cardTypes = [
-        { name: "Standard", price: 2000000, sessions: 12, description: "Thẻ cơ bản với 12 lượt tư vấn", vcaDigitalShare: 200 },
-        { name: "Silver", price: 8000000, sessions: 15, description: "Thẻ bạc với 15 lượt tư vấn", vcaDigitalShare: 800 },
-        { name: "Gold", price: 18000000, sessions: 18, description: "Thẻ vàng với 18 lượt tư vấn", vcaDigitalShare: 1800 },
-        { name: "Platinum", price: 38000000, sessions: 20, description: "Thẻ bạch kim với 20 lượt tư vấn", vcaDigitalShare: 3800 },
-        { name: "Diamond", price: 100000000, sessions: 24, description: "Thẻ kim cương với 24 lượt tư vấn", vcaDigitalShare: 10000 }
-      ];
+      const cardTypes = (await storage.getCardProducts(true)).map(product => ({
+        name: product.name,
+        price: parseFloat(product.price),
+        sessions: product.consultationSessions,
+        validityMonths: product.validityMonths,
+        description: product.description,
+        vcaDigitalShare: parseFloat(product.vcaDigitalShare)
+      }));
 
       const investmentRoles = [
         { 
@@ -1796,36 +2849,76 @@ app.get("/favicon.svg", (req, res) => {
   // Card routes
   app.get("/api/cards", requireAuth, addVcaDigitalShareCalculations, async (req, res) => {
     try {
-      const cards = await storage.getCards();
+      const cards = await storage.getCards(await getBranchScope(req));
       res.json(cards);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch cards" });
     }
   });
 
-  app.post("/api/cards", requireAuth, requireCustomer, logUserAction("card_purchase"), async (req, res) => {
+  app.get("/api/cards/search", requireAuth, requirePermission("checkins.scan"), async (req, res) => {
     try {
-      const cardData = insertCardSchema.parse(req.body);
-      
-      // Tính VCA Digital Share (100 VCA = 1 triệu VNĐ)
-      const price = parseFloat(cardData.price);
-      const vcaDigitalShare = calculateVcaDigitalShareFromAmount(price);
-      
-      // Set consultation sessions dựa trên loại thẻ
-      const consultationSessionsMap: Record<string, number> = {
-        "Standard": 12,
-        "Silver": 15,
-        "Gold": 18,
-        "Platinum": 21,
-        "Diamond": 24
-      };
-      const consultationSessions = consultationSessionsMap[cardData.cardType] || 12;
-      
-      // Enrich card data với VCA Digital Share và consultation sessions
+      const term = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (term.length < 2) {
+        return res.json([]);
+      }
+      res.json(await storage.searchCards(term, await getBranchScope(req)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search cards" });
+    }
+  });
+
+  // Front desk: find a card from the number on the member's card
+  app.get("/api/card-lookup", requireAuth, requirePermission("checkins.scan"), async (req, res) => {
+    try {
+      const cardNumber = normalizeCardNumber(typeof req.query.cardNumber === "string" ? req.query.cardNumber : "");
+      if (!cardNumber) {
+        return res.status(400).json({ message: "Vui lòng nhập số thẻ" });
+      }
+      if (!hasValidCheckDigit(cardNumber)) {
+        return res.status(400).json({ message: "Số thẻ không hợp lệ, vui lòng kiểm tra lại" });
+      }
+
+      const card = await storage.getCardByNumber(cardNumber);
+      if (!card) {
+        return res.status(404).json({ message: "Không tìm thấy thẻ" });
+      }
+
+      const [owner, branch, members, appointments] = await Promise.all([
+        card.ownerId ? storage.getUser(card.ownerId) : undefined,
+        card.branchId ? storage.getBranch(card.branchId) : undefined,
+        storage.getCardMembers(card.id),
+        storage.getBookedAppointmentsForCard(card.id),
+      ]);
+      res.json({
+        card,
+        owner: owner ? { id: owner.id, name: owner.name, email: owner.email, phone: owner.phone } : null,
+        branchName: branch?.name ?? null,
+        activeMembers: members.filter(member => member.status === "active").length,
+        bookedAppointments: appointments.length,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to look up card" });
+    }
+  });
+
+  app.post("/api/cards", requireAuth, blockWhileImpersonating, requireCustomer, logUserAction("card_purchase"), async (req, res) => {
+    try {
+      // Card numbers are always allocated here, never taken from the client
+      const cardData = insertCardSchema.omit({ cardNumber: true }).parse(req.body);
+
+      const product = await getSellableCardProduct(cardData.cardType);
+      if (!product) {
+        return res.status(400).json({ message: "Invalid card type" });
+      }
+
+      // Giá, lượt tư vấn và VCA Digital Share lấy từ danh mục gói thẻ
+      const price = parseFloat(product.price);
+      const vcaDigitalShare = parseFloat(product.vcaDigitalShare);
       const enrichedCardData = {
         ...cardData,
-        vcaDigitalShare: vcaDigitalShare.toString(),
-        consultationSessions,
+        ...cardFieldsFromProduct(product),
+        cardNumber: await allocateCardNumber(product.name, cardData.branchId),
         ownerId: req.user?.id // Set owner to current user
       };
       
@@ -1866,23 +2959,58 @@ app.get("/favicon.svg", (req, res) => {
     }
   });
 
-  app.put("/api/cards/:id", async (req, res) => {
+  app.put("/api/cards/:id", requireAuth, requirePermission("cards.manage"), blockWhileImpersonating, async (req, res) => {
     try {
       const { id } = req.params;
-      const updateData = req.body;
+      // The card number is fixed at issue
+      const { cardNumber, ...updateData } = req.body;
+      const scope = await getBranchScope(req);
+      const existing = await storage.getCard(id);
+      if (!existing || !isInBranchScope(scope, existing.branchId)) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      if (updateData.branchId !== undefined && !isInBranchScope(scope, updateData.branchId)) {
+        return res.status(403).json({ message: "Branch access denied" });
+      }
       const card = await storage.updateCard(id, updateData);
       if (!card) {
         return res.status(404).json({ message: "Card not found" });
       }
-      res.json(card);
+      if (existing.status !== card.status) {
+        await storage.recordCardStatusChange({
+          cardId: id,
+          fromStatus: existing.status,
+          toStatus: card.status,
+          reason: "manual",
+          changedBy: req.user!.id,
+        });
+      }
+      // Sessions edited by hand still show up in the card's session ledger
+      const sessionsBefore = existing.remainingSessions || 0;
+      const sessionsAfter = card.remainingSessions || 0;
+      if (sessionsAfter !== sessionsBefore) {
+        await storage.recordSessionAdjustment({
+          cardId: id,
+          delta: sessionsAfter - sessionsBefore,
+          kind: "manual",
+          reason: "Cập nhật thẻ",
+          createdBy: req.user!.id,
+        });
+      }
+      // Share payouts move the card towards its maxout limit
+      res.json(await syncCardLifecycle(card, updateData.currentShares !== undefined ? "payout" : "card_updated"));
     } catch (error) {
       res.status(400).json({ message: "Failed to update card" });
     }
   });
 
-  app.delete("/api/cards/:id", async (req, res) => {
+  app.delete("/api/cards/:id", requireAuth, requirePermission("cards.manage"), blockWhileImpersonating, async (req, res) => {
     try {
       const { id } = req.params;
+      const existing = await storage.getCard(id);
+      if (!existing || !isInBranchScope(await getBranchScope(req), existing.branchId)) {
+        return res.status(404).json({ message: "Card not found" });
+      }
       const deleted = await storage.deleteCard(id);
       if (!deleted) {
         return res.status(404).json({ message: "Card not found" });
@@ -1894,17 +3022,22 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Branch routes
-  app.get("/api/branches", async (req, res) => {
+  app.get("/api/branches", requireAuth, async (req, res) => {
     try {
-      const branches = await storage.getBranches();
+      const branches = await storage.getBranches(await getBranchScope(req));
       res.json(branches);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch branches" });
     }
   });
 
-  app.post("/api/branches", async (req, res) => {
+  app.post("/api/branches", requireAuth, async (req, res) => {
     try {
+      // Branch managers cannot open new branches
+      if (await getBranchScope(req)) {
+        return res.status(403).json({ message: "Branch managers cannot create branches" });
+      }
+
       const branchData = insertBranchSchema.parse(req.body);
       const branch = await storage.createBranch(branchData);
       res.status(201).json(branch);
@@ -1914,18 +3047,21 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Staff routes
-  app.get("/api/staff", async (req, res) => {
+  app.get("/api/staff", requireAuth, async (req, res) => {
     try {
-      const staff = await storage.getStaff();
+      const staff = await storage.getStaff(await getBranchScope(req));
       res.json(staff);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch staff" });
     }
   });
 
-  app.post("/api/staff", async (req, res) => {
+  app.post("/api/staff", requireAuth, async (req, res) => {
     try {
       const staffData = insertStaffSchema.parse(req.body);
+      if (!isInBranchScope(await getBranchScope(req), staffData.branchId)) {
+        return res.status(403).json({ message: "Branch access denied" });
+      }
       const staffMember = await storage.createStaffMember(staffData);
       res.status(201).json(staffMember);
     } catch (error) {
@@ -1933,10 +3069,23 @@ app.get("/favicon.svg", (req, res) => {
     }
   });
 
-  app.put("/api/staff/:id", async (req, res) => {
+  app.put("/api/staff/:id", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
       const updateData = req.body;
+
+      const scope = await getBranchScope(req);
+      if (scope) {
+        const existing = await storage.getStaffMember(id);
+        if (!existing || !isInBranchScope(scope, existing.branchId)) {
+          return res.status(404).json({ message: "Staff member not found" });
+        }
+        // Cannot move staff to a branch outside the manager's scope
+        if (updateData.branchId !== undefined && !isInBranchScope(scope, updateData.branchId)) {
+          return res.status(403).json({ message: "Branch access denied" });
+        }
+      }
+
       const staffMember = await storage.updateStaffMember(id, updateData);
       if (!staffMember) {
         return res.status(404).json({ message: "Staff member not found" });
@@ -1947,9 +3096,18 @@ app.get("/favicon.svg", (req, res) => {
     }
   });
 
-  app.delete("/api/staff/:id", async (req, res) => {
+  app.delete("/api/staff/:id", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
+
+      const scope = await getBranchScope(req);
+      if (scope) {
+        const existing = await storage.getStaffMember(id);
+        if (!existing || !isInBranchScope(scope, existing.branchId)) {
+          return res.status(404).json({ message: "Staff member not found" });
+        }
+      }
+
       const deleted = await storage.deleteStaffMember(id);
       if (!deleted) {
         return res.status(404).json({ message: "Staff member not found" });
@@ -1961,18 +3119,21 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Transaction routes
-  app.get("/api/transactions", async (req, res) => {
+  app.get("/api/transactions", requireAuth, async (req, res) => {
     try {
-      const transactions = await storage.getTransactions();
+      const transactions = await storage.getTransactions(await getBranchScope(req));
       res.json(transactions);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch transactions" });
     }
   });
 
-  app.post("/api/transactions", async (req, res) => {
+  app.post("/api/transactions", requireAuth, blockWhileImpersonating, idempotent, async (req, res) => {
     try {
       const transactionData = insertTransactionSchema.parse(req.body);
+      if (!isInBranchScope(await getBranchScope(req), transactionData.branchId)) {
+        return res.status(403).json({ message: "Branch access denied" });
+      }
       const transaction = await storage.createTransaction(transactionData);
       
       // AUTOMATION: Automatically process referral commissions for income transactions
@@ -1998,10 +3159,11 @@ app.get("/favicon.svg", (req, res) => {
   // Dashboard metrics
   app.get("/api/dashboard/metrics", requireAuth, addVcaDigitalShareCalculations, async (req, res) => {
     try {
-      const transactions = await storage.getTransactions();
-      const cards = await storage.getCards();
-      const branches = await storage.getBranches();
-      const staff = await storage.getStaff();
+      const scope = await getBranchScope(req);
+      const transactions = await storage.getTransactions(scope);
+      const cards = await storage.getCards(scope);
+      const branches = await storage.getBranches(scope);
+      const staff = await storage.getStaff(scope);
 
       // Calculate total revenue from income transactions
       const totalRevenue = transactions
@@ -2021,7 +3183,7 @@ app.get("/favicon.svg", (req, res) => {
 
       const metrics = {
         totalRevenue: totalRevenue.toLocaleString('vi-VN'),
-        activeCards: cards.filter(c => c.status === "active").length,
+        activeCards: cards.filter(c => USABLE_CARD_STATUSES.includes(c.status)).length,
         branches: branches.length,
         staff: staff.length,
         vcaDigitalShare: userPadToken,
@@ -2042,12 +3204,22 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Revenue chart data
-  app.get("/api/dashboard/revenue-chart", async (req, res) => {
+  // Income of the last six months in million VND, from the transactions the caller may see
+  app.get("/api/dashboard/revenue-chart", requireAuth, async (req, res) => {
     try {
-      // Mock revenue data for 6 months
+      const transactions = await storage.getTransactions(await getBranchScope(req));
+      const now = new Date();
+      const months = Array.from({ length: 6 }, (_, i) => new Date(now.getFullYear(), now.getMonth() - 5 + i, 1));
       const revenueData = {
-        labels: ['Tháng 1', 'Tháng 2', 'Tháng 3', 'Tháng 4', 'Tháng 5', 'Tháng 6'],
-        data: [120, 150, 180, 140, 200, 245]
+        labels: months.map(month => `Tháng ${month.getMonth() + 1}`),
+        data: months.map(month => {
+          const income = transactions
+            .filter(t => t.type === "income" && t.date
+              && new Date(t.date).getFullYear() === month.getFullYear()
+              && new Date(t.date).getMonth() === month.getMonth())
+            .reduce((sum, t) => sum + parseFloat(t.amount), 0);
+          return Math.round(income / 1000000);
+        })
       };
       res.json(revenueData);
     } catch (error) {
@@ -2111,80 +3283,1679 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Check-in routes
-  app.post("/api/cards/:id/checkin", async (req, res) => {
+  // Rotating signed check-in code for the member's own card, shown as a QR code
+  app.get("/api/cards/:id/checkin-code", requireAuth, async (req, res) => {
     try {
-      const { id } = req.params;
-      const { sessionType, notes } = req.body;
-      
-      const card = await storage.getCard(id);
-      if (!card) {
+      const user = req.user as any;
+      const found = await storage.getCard(req.params.id);
+      // Family members the card is shared with get a code of their own
+      const membership = found && found.ownerId !== user.id ? await storage.getActiveCardMembership(found.id, user.id) : undefined;
+      if (!found || (found.ownerId !== user.id && !membership)) {
         return res.status(404).json({ message: "Card not found" });
       }
+      const card = await syncCardLifecycle(found, "check_in");
+      if (card.status === "expired") {
+        return res.status(409).json({ message: "Thẻ đã hết hạn, vui lòng gia hạn để tiếp tục sử dụng" });
+      }
+      const sessionsLeft = membership ? membership.allocatedSessions - membership.usedSessions : card.remainingSessions || 0;
+      if (!USABLE_CARD_STATUSES.includes(card.status) || sessionsLeft <= 0) {
+        return res.status(409).json({ message: "Thẻ không còn lượt sử dụng hoặc chưa kích hoạt" });
+      }
 
-      // Update card's remaining sessions and last check-in
-      const updatedCard = await storage.updateCard(id, {
-        remainingSessions: Math.max(0, (card.remainingSessions || 0) - 1)
-      });
-      
-      res.json({ success: true, card: updatedCard, message: "Check-in successful" });
+      const ttlSeconds = await getCheckinTtlSeconds();
+      res.json({ ...issueCheckinToken(card.id, ttlSeconds, membership?.id), cardNumber: card.cardNumber, ttlSeconds });
     } catch (error) {
-      res.status(500).json({ message: "Failed to process check-in" });
+      res.status(500).json({ message: "Failed to issue check-in code" });
     }
   });
 
-  // Card types and pricing
-  app.get("/api/cards/types", async (req, res) => {
+  // Printable documents: the owner's own cards, or their branch's cards for staff printing at the counter
+  app.get("/api/cards/:id/membership-card.pdf", requireAuth, async (req, res) => {
     try {
-      const cardTypes = [
-        { type: "Standard", price: 2000000, maxSessions: 5 },
-        { type: "Silver", price: 10000000, maxSessions: 15 },
-        { type: "Gold", price: 30000000, maxSessions: 30 },
-        { type: "Platinum", price: 70000000, maxSessions: 50 },
-        { type: "Diamond", price: 100000000, maxSessions: 80 }
-      ];
-      res.json(cardTypes);
+      const card = await storage.getCard(req.params.id);
+      if (!card || !(await canViewCard(req, card))) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+
+      const product = await storage.getCardProductByName(card.cardType);
+      const pdf = await renderMembershipCardPdf({
+        cardNumber: card.cardNumber,
+        cardType: card.cardType,
+        ownerName: card.customerName,
+        issuedDate: card.issuedDate ? new Date(card.issuedDate) : null,
+        expiresAt: cardExpiry(card, product),
+        qrPayload: membershipCardQrPayload(card.cardNumber),
+      });
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="the-thanh-vien-${card.cardNumber}.pdf"`);
+      res.send(pdf);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch card types" });
+      console.error("Membership card PDF error:", error);
+      res.status(500).json({ message: "Failed to generate membership card" });
     }
   });
 
-  // Card benefits analysis
-  app.get("/api/cards/:id/benefits", async (req, res) => {
+  app.get("/api/cards/:id/benefit-certificate.pdf", requireAuth, async (req, res) => {
     try {
-      const { id } = req.params;
-      const card = await storage.getCard(id);
-      
-      if (!card) {
+      const card = await storage.getCard(req.params.id);
+      if (!card || !(await canViewCard(req, card))) {
         return res.status(404).json({ message: "Card not found" });
       }
-      
-      const price = parseFloat(card.price);
-      const currentShares = parseFloat(card.currentShares || "0");
-      const maxoutLimit = price * 2.1; // 210% of card value
-      const shareValue = currentShares * 1000000; // 1M VND = 1 share
-      
-      let status = "active";
-      if (shareValue >= maxoutLimit * 0.9) {
-        status = "near_maxout";
-      } else if (shareValue >= maxoutLimit) {
-        status = "stopped";
-      }
-      
-      const benefits = {
-        cardId: id,
+
+      const product = await storage.getCardProductByName(card.cardType);
+      const pdf = await renderBenefitCertificatePdf({
+        cardNumber: card.cardNumber,
+        cardType: card.cardType,
+        ownerName: card.customerName,
+        price: parseFloat(card.price),
+        consultationSessions: card.consultationSessions || 0,
+        remainingSessions: card.remainingSessions || 0,
+        connectionCommission: parseFloat(card.connectionCommission || "0"),
+        vipSupport: parseFloat(card.vipSupport || "0"),
+        profitSharePercentage: parseFloat(card.profitSharePercentage || "0"),
+        maxoutLimit: cardMaxoutLimit(card, product),
+        vcaDigitalShare: parseFloat(card.vcaDigitalShare || "0"),
+        issuedDate: card.issuedDate ? new Date(card.issuedDate) : null,
+        expiresAt: cardExpiry(card, product),
+      });
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="chung-nhan-quyen-loi-${card.cardNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Benefit certificate PDF error:", error);
+      res.status(500).json({ message: "Failed to generate benefit certificate" });
+    }
+  });
+
+  // Session ledger: the owner sees their own cards, front-desk staff their branch's cards
+  app.get("/api/cards/:id/session-ledger", requireAuth, async (req, res) => {
+    try {
+      const card = await storage.getCard(req.params.id);
+      if (!card || !(await canViewCard(req, card))) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+
+      const { checkIns, adjustments } = await storage.getCardSessionLedger(card.id);
+      res.json(buildSessionLedger(card.remainingSessions || 0, checkIns, adjustments));
+    } catch (error) {
+      console.error("Session ledger error:", error);
+      res.status(500).json({ message: "Failed to fetch session ledger" });
+    }
+  });
+
+  app.get("/api/cards/:id/session-ledger.csv", requireAuth, async (req, res) => {
+    try {
+      const card = await storage.getCard(req.params.id);
+      if (!card || !(await canViewCard(req, card))) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+
+      const { checkIns, adjustments } = await storage.getCardSessionLedger(card.id);
+      const csv = renderSessionLedgerCsv(card.cardNumber, buildSessionLedger(card.remainingSessions || 0, checkIns, adjustments));
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="lich-su-luot-${card.cardNumber}.csv"`);
+      res.send(csv);
+    } catch (error) {
+      console.error("Session ledger CSV error:", error);
+      res.status(500).json({ message: "Failed to export session ledger" });
+    }
+  });
+
+  // Staff add bonus sessions or correct a miscount; every change lands in the ledger
+  app.post("/api/cards/:id/session-adjustments", requireAuth, requirePermission("sessions.adjust"), blockWhileImpersonating, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const parsed = cardSessionAdjustmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const existing = await storage.getCard(req.params.id);
+      if (!existing || !isInBranchScope(await getBranchScope(req), existing.branchId)) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      if (!USABLE_CARD_STATUSES.includes(existing.status)) {
+        return res.status(409).json({ message: "Thẻ chưa kích hoạt hoặc đã ngừng sử dụng" });
+      }
+
+      const { kind, delta, reason } = parsed.data;
+      const result = await storage.adjustCardSessions(existing.id, delta, kind, reason, user.id);
+      if (!result) {
+        return res.status(409).json({ message: "Không thể trừ số lượt đã đặt lịch hoặc đã chia sẻ cho thành viên" });
+      }
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "card_sessions_adjusted",
+        entityType: "card",
+        entityId: existing.id,
+        oldValue: JSON.stringify({ remainingSessions: existing.remainingSessions }),
+        newValue: JSON.stringify({ remainingSessions: result.card.remainingSessions, kind, delta, reason }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.json(result);
+    } catch (error) {
+      console.error("Session adjustment error:", error);
+      res.status(500).json({ message: "Failed to adjust sessions" });
+    }
+  });
+
+  // Branch staff scan (or type in) the member's code
+  app.post("/api/check-ins/scan", requireAuth, requirePermission("checkins.scan"), async (req, res) => {
+    try {
+      const user = req.user as any;
+      const parsed = checkinScanSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { payload, cardNumber, code, sessionType, notes } = parsed.data;
+
+      // Managers of a single branch check in at that branch by default
+      const scope = await getBranchScope(req);
+      const branchId = parsed.data.branchId || (scope?.length === 1 ? scope[0] : undefined);
+      if (!branchId) {
+        return res.status(400).json({ message: "Vui lòng chọn chi nhánh" });
+      }
+      if (!isInBranchScope(scope, branchId)) {
+        return res.status(403).json({ message: "Branch access denied" });
+      }
+      if (parsed.data.practitionerId) {
+        const practitioner = await storage.getStaffMember(parsed.data.practitionerId);
+        if (!practitioner || practitioner.branchId !== branchId) {
+          return res.status(400).json({ message: "Chuyên viên không thuộc chi nhánh này" });
+        }
+      }
+
+      const ttlSeconds = await getCheckinTtlSeconds();
+      let verification;
+      if (payload) {
+        verification = verifyCheckinPayload(payload, ttlSeconds);
+      } else {
+        const cardByNumber = await storage.getCardByNumber(normalizeCardNumber(cardNumber!));
+        if (!cardByNumber) {
+          return res.status(404).json({ message: "Không tìm thấy thẻ" });
+        }
+        const activeMemberIds = (await storage.getCardMembers(cardByNumber.id))
+          .filter(member => member.status === "active")
+          .map(member => member.id);
+        verification = verifyCheckinCode(cardByNumber.id, activeMemberIds, code!, ttlSeconds);
+      }
+
+      if (!verification.valid) {
+        return res.status(400).json({
+          message: verification.reason === "expired" ? "Mã check-in đã hết hạn, vui lòng làm mới mã" : "Mã check-in không hợp lệ",
+          reason: verification.reason,
+        });
+      }
+
+      const found = await storage.getCard(verification.cardId);
+      if (!found) {
+        return res.status(404).json({ message: "Không tìm thấy thẻ" });
+      }
+      const card = await syncCardLifecycle(found, "check_in");
+      if (card.status === "expired") {
+        return res.status(409).json({ message: "Thẻ đã hết hạn, vui lòng gia hạn để tiếp tục sử dụng" });
+      }
+      if (!USABLE_CARD_STATUSES.includes(card.status)) {
+        return res.status(409).json({ message: "Thẻ chưa kích hoạt hoặc đã ngừng sử dụng" });
+      }
+
+      // A family member's code debits that member's allocation, and only while access lasts
+      const member = verification.memberId ? await storage.getCardMember(verification.memberId) : undefined;
+      if (verification.memberId && (!member || member.cardId !== card.id || member.status !== "active")) {
+        return res.status(403).json({ message: "Thành viên không còn quyền sử dụng thẻ này" });
+      }
+
+      // An owner arriving for a booking uses the session the booking reserved
+      const policy = await getAppointmentPolicy();
+      const booking = member ? undefined : await storage.findAppointmentForCheckIn(card.id, branchId, {
+        startsBefore: new Date(Date.now() + APPOINTMENT_EARLY_CHECKIN_MINUTES * 60 * 1000),
+        endsAfter: new Date(Date.now() - policy.noShowGraceMinutes * 60 * 1000),
+      });
+      // Without an explicit choice the session is credited to the practitioner of the booked slot
+      const slot = booking && !parsed.data.practitionerId ? await storage.getAppointmentSlot(booking.slotId) : undefined;
+
+      const result = await storage.recordQrCheckIn({
+        cardId: card.id,
+        sessionType,
+        notes,
+        branchId,
+        scannedBy: user.id,
+        qrNonce: checkinNonce(card.id, verification.step, member?.id),
+        appointmentId: booking?.id,
+        cardMemberId: member?.id,
+        practitionerId: parsed.data.practitionerId || slot?.practitionerId || undefined,
+      });
+      if ("error" in result) {
+        return res.status(409).json({
+          message: result.error === "replay"
+            ? "Mã check-in này đã được sử dụng"
+            : member ? "Thành viên đã dùng hết số lượt được chia sẻ" : "Thẻ đã hết lượt sử dụng",
+          reason: result.error,
+        });
+      }
+
+      res.json({
+        success: true,
+        message: "Check-in successful",
+        checkIn: result.checkIn,
+        card: {
+          id: result.card.id,
+          cardNumber: result.card.cardNumber,
+          cardType: result.card.cardType,
+          customerName: result.card.customerName,
+          remainingSessions: result.card.remainingSessions,
+        },
+        appointment: result.appointment || null,
+        member: result.member
+          ? { id: result.member.id, name: result.member.name, remainingSessions: result.member.allocatedSessions - result.member.usedSessions }
+          : null,
+      });
+    } catch (error) {
+      console.error("Check-in scan error:", error);
+      res.status(500).json({ message: "Failed to process check-in" });
+    }
+  });
+
+  // Check-ins recorded at the current user's branches (all branches for admins)
+  app.get("/api/check-ins", requireAuth, async (req, res) => {
+    try {
+      const checkIns = await storage.getCheckIns(await getBranchScope(req));
+      res.json(checkIns);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch check-ins" });
+    }
+  });
+
+  // Upgrade quotes for every higher tier the card can move to
+  app.get("/api/cards/:id/upgrade-quote", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const card = await storage.getCard(req.params.id);
+      if (!card || card.ownerId !== user.id) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+
+      const currentProduct = await storage.getCardProductByName(card.cardType);
+      const options = (await storage.getCardProducts(true))
+        .filter(product => parseFloat(product.price) > parseFloat(card.price))
+        .map(product => quoteCardUpgrade(card, currentProduct, product));
+
+      res.json({
+        cardId: card.id,
+        cardType: card.cardType,
+        options,
+        pendingUpgrade: (await storage.getPendingCardUpgrade(card.id)) || null,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to quote card upgrade" });
+    }
+  });
+
+  // Requests an upgrade: a pending card of the higher tier and a pending payment for the difference,
+  // confirmed like card purchases once the transfer arrives
+  app.post("/api/cards/:id/upgrade", requireAuth, blockWhileImpersonating, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const parsed = cardUpgradeRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const card = await storage.getCard(req.params.id);
+      if (!card || card.ownerId !== user.id) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      if (!USABLE_CARD_STATUSES.includes(card.status)) {
+        return res.status(409).json({ message: "Chỉ thẻ đang hoạt động mới có thể nâng cấp" });
+      }
+      if (await storage.getPendingCardUpgrade(card.id)) {
+        return res.status(409).json({ message: "Thẻ đang có yêu cầu nâng cấp chờ thanh toán" });
+      }
+
+      const target = await getSellableCardProduct(parsed.data.targetType);
+      if (!target || parseFloat(target.price) <= parseFloat(card.price)) {
+        return res.status(400).json({ message: "Chỉ có thể nâng cấp lên hạng thẻ cao hơn" });
+      }
+
+      const quote = quoteCardUpgrade(card, await storage.getCardProductByName(card.cardType), target);
+      const newCard = await storage.createCard({
+        ...cardFieldsFromProduct(target),
+        cardNumber: await allocateCardNumber(target.name, card.branchId),
+        branchId: card.branchId,
+        customerName: card.customerName,
+        ownerId: user.id,
+        status: "pending",
+      });
+      const transaction = await storage.createTransaction({
+        type: "income",
+        amount: quote.amountDue.toString(),
+        description: `Nâng cấp thẻ ${card.cardType} → ${target.name}`,
+        contributionType: "card",
+        cardId: newCard.id,
+        userId: user.id,
+        status: quote.amountDue > 0 ? "pending" : "completed",
+      });
+      const upgrade = await storage.createCardUpgrade({
+        userId: user.id,
+        fromCardId: card.id,
+        toCardId: newCard.id,
+        fromType: card.cardType,
+        toType: target.name,
+        targetPrice: quote.targetPrice.toString(),
+        credit: quote.credit.toString(),
+        amountDue: quote.amountDue.toString(),
+        sessionTopUp: quote.sessionTopUp,
+        vcaDigitalShareTopUp: quote.vcaDigitalShareTopUp.toString(),
+        transactionId: transaction.id,
+      });
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "card_upgrade_requested",
+        entityType: "card",
+        entityId: card.id,
+        oldValue: JSON.stringify({ cardId: card.id, cardType: card.cardType }),
+        newValue: JSON.stringify({ cardId: newCard.id, cardType: target.name, upgradeId: upgrade.id, ...quote }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      // Nothing to pay when the credit covers the new tier
+      if (quote.amountDue === 0) {
+        const completed = await finishCardUpgrade(upgrade.id, user.id, undefined, req);
+        return res.status(201).json({ success: true, message: `Đã nâng cấp lên thẻ ${target.name}`, upgrade: completed?.upgrade ?? upgrade });
+      }
+
+      res.status(201).json({
+        success: true,
+        message: `Yêu cầu nâng cấp lên thẻ ${target.name} đã được tạo. Vui lòng thanh toán phần chênh lệch để kích hoạt.`,
+        upgrade,
+        paymentInstructions: await buildPaymentInstructions(
+          "card_upgrade",
+          quote.amountDue,
+          paymentMemo("card_upgrade", upgrade.id),
+          "Vui lòng thanh toán để kích hoạt thẻ",
+          card.branchId
+        ),
+      });
+    } catch (error) {
+      console.error("Card upgrade error:", error);
+      res.status(500).json({ message: "Failed to request card upgrade" });
+    }
+  });
+
+  app.get("/api/card-upgrades", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      res.json(await storage.getCardUpgrades({ userId: user.id }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch card upgrades" });
+    }
+  });
+
+  app.post("/api/card-upgrades/:id/cancel", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const upgrade = await storage.getCardUpgrade(req.params.id);
+      const canManage = (await storage.getUserPermissions(user.id)).includes("transactions.approve");
+      if (!upgrade || (upgrade.userId !== user.id && !canManage)) {
+        return res.status(404).json({ message: "Card upgrade not found" });
+      }
+
+      const cancelled = await storage.cancelCardUpgrade(upgrade.id);
+      if (!cancelled) {
+        return res.status(409).json({ message: "Yêu cầu nâng cấp không còn chờ thanh toán" });
+      }
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "card_upgrade_cancelled",
+        entityType: "card",
+        entityId: upgrade.fromCardId,
+        oldValue: JSON.stringify({ upgradeId: upgrade.id, status: "pending" }),
+        newValue: JSON.stringify({ upgradeId: upgrade.id, status: "cancelled", toCardId: upgrade.toCardId }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.json(cancelled);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel card upgrade" });
+    }
+  });
+
+  app.get("/api/admin/card-upgrades", requireAuth, requirePermission("transactions.approve"), async (req, res) => {
+    try {
+      const upgrades = await storage.getCardUpgrades({ status: (req.query.status as string) || "pending" });
+      const withOwners = await Promise.all(upgrades.map(async upgrade => {
+        const owner = await storage.getUser(upgrade.userId);
+        return { ...upgrade, user: owner ? { id: owner.id, name: owner.name, email: owner.email, phone: owner.phone } : null };
+      }));
+      res.json(withOwners);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch card upgrades" });
+    }
+  });
+
+  // Payment for the difference received: activate the new card
+  app.post("/api/admin/card-upgrades/:id/confirm", requireAuth, requirePermission("transactions.approve"), blockWhileImpersonating, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const parsed = cardUpgradeConfirmSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const result = await finishCardUpgrade(req.params.id, user.id, parsed.data.paymentReference, req);
+      if (!result) {
+        return res.status(409).json({ message: "Yêu cầu nâng cấp không tồn tại hoặc đã được xử lý" });
+      }
+
+      res.json({
+        success: true,
+        message: `Thẻ ${result.card.cardType} đã được kích hoạt thành công!`,
+        upgrade: result.upgrade,
+        card: result.card,
+      });
+    } catch (error) {
+      console.error("Card upgrade confirmation error:", error);
+      res.status(500).json({ message: "Failed to confirm card upgrade" });
+    }
+  });
+
+  // Card lifecycle routes
+  app.get("/api/cards/:id/status-history", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const card = await storage.getCard(req.params.id);
+      const canReadAll = (await storage.getUserPermissions(user.id)).includes("transactions.read");
+      if (!card || (card.ownerId !== user.id && !canReadAll)) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      res.json(await storage.getCardStatusHistory(card.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch card status history" });
+    }
+  });
+
+  app.get("/api/cards/:id/renewal-offer", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const card = await storage.getCard(req.params.id);
+      if (!card || card.ownerId !== user.id) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+
+      res.json({
+        ...(await quoteCardRenewal(await syncCardLifecycle(card, "scheduled"))),
+        pendingRenewal: (await storage.getPendingCardRenewal(card.id)) || null,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to quote card renewal" });
+    }
+  });
+
+  // Renewal offers for the member's cards that can be renewed right now
+  app.get("/api/card-renewal-offers", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const cards = (await storage.getCards())
+        .filter(card => card.ownerId === user.id && (card.status === "expired" || USABLE_CARD_STATUSES.includes(card.status)));
+
+      const offers = [];
+      for (const card of cards) {
+        const offer = await quoteCardRenewal(await syncCardLifecycle(card, "scheduled"));
+        if (!offer.eligible) continue;
+        offers.push({ ...offer, pendingRenewal: (await storage.getPendingCardRenewal(card.id)) || null });
+      }
+      res.json(offers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch card renewal offers" });
+    }
+  });
+
+  app.post("/api/cards/:id/renew", requireAuth, blockWhileImpersonating, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const found = await storage.getCard(req.params.id);
+      if (!found || found.ownerId !== user.id) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      if (await storage.getPendingCardRenewal(found.id)) {
+        return res.status(409).json({ message: "Thẻ đang có yêu cầu gia hạn chờ thanh toán" });
+      }
+
+      const card = await syncCardLifecycle(found, "scheduled");
+      const offer = await quoteCardRenewal(card);
+      if (!offer.eligible) {
+        return res.status(409).json({ message: offer.unavailableReason });
+      }
+
+      const transaction = await storage.createTransaction({
+        type: "income",
+        amount: offer.price.toString(),
+        description: `Gia hạn thẻ ${card.cardType} ${card.cardNumber}`,
+        contributionType: "card",
+        cardId: card.id,
+        userId: user.id,
+        status: offer.price > 0 ? "pending" : "completed",
+      });
+      const renewal = await storage.createCardRenewal({
+        userId: user.id,
+        cardId: card.id,
+        cardType: card.cardType,
+        price: offer.price.toString(),
+        sessionTopUp: offer.sessionTopUp,
+        validityMonths: offer.validityMonths,
+        transactionId: transaction.id,
+      });
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "card_renewal_requested",
+        entityType: "card",
+        entityId: card.id,
+        oldValue: JSON.stringify({ status: card.status, expiresAt: offer.expiresAt }),
+        newValue: JSON.stringify({ renewalId: renewal.id, price: offer.price, newExpiresAt: offer.newExpiresAt }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      if (offer.price === 0) {
+        const completed = await finishCardRenewal(renewal.id, user.id, undefined, req);
+        return res.status(201).json({ success: true, message: `Đã gia hạn thẻ ${card.cardType}`, renewal: completed?.renewal ?? renewal });
+      }
+
+      res.status(201).json({
+        success: true,
+        message: `Yêu cầu gia hạn thẻ ${card.cardType} đã được tạo. Vui lòng thanh toán để hoàn tất gia hạn.`,
+        renewal,
+        paymentInstructions: await buildPaymentInstructions(
+          "card_renewal",
+          offer.price,
+          paymentMemo("card_renewal", renewal.id),
+          "Vui lòng thanh toán để gia hạn thẻ",
+          card.branchId
+        ),
+      });
+    } catch (error) {
+      console.error("Card renewal error:", error);
+      res.status(500).json({ message: "Failed to request card renewal" });
+    }
+  });
+
+  app.get("/api/card-renewals", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      res.json(await storage.getCardRenewals({ userId: user.id }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch card renewals" });
+    }
+  });
+
+  app.post("/api/card-renewals/:id/cancel", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const renewal = await storage.getCardRenewal(req.params.id);
+      const canManage = (await storage.getUserPermissions(user.id)).includes("transactions.approve");
+      if (!renewal || (renewal.userId !== user.id && !canManage)) {
+        return res.status(404).json({ message: "Card renewal not found" });
+      }
+
+      const cancelled = await storage.cancelCardRenewal(renewal.id);
+      if (!cancelled) {
+        return res.status(409).json({ message: "Yêu cầu gia hạn không còn chờ thanh toán" });
+      }
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "card_renewal_cancelled",
+        entityType: "card",
+        entityId: renewal.cardId,
+        oldValue: JSON.stringify({ renewalId: renewal.id, status: "pending" }),
+        newValue: JSON.stringify({ renewalId: renewal.id, status: "cancelled" }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.json(cancelled);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel card renewal" });
+    }
+  });
+
+  app.get("/api/admin/card-renewals", requireAuth, requirePermission("transactions.approve"), async (req, res) => {
+    try {
+      const renewals = await storage.getCardRenewals({ status: (req.query.status as string) || "pending" });
+      const withDetails = await Promise.all(renewals.map(async renewal => {
+        const [owner, card] = await Promise.all([storage.getUser(renewal.userId), storage.getCard(renewal.cardId)]);
+        return {
+          ...renewal,
+          cardNumber: card?.cardNumber ?? null,
+          expiresAt: card?.expiresAt ?? null,
+          user: owner ? { id: owner.id, name: owner.name, email: owner.email, phone: owner.phone } : null,
+        };
+      }));
+      res.json(withDetails);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch card renewals" });
+    }
+  });
+
+  // Payment for the renewal received: extend the card
+  app.post("/api/admin/card-renewals/:id/confirm", requireAuth, requirePermission("transactions.approve"), blockWhileImpersonating, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const parsed = cardRenewalConfirmSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const result = await finishCardRenewal(req.params.id, user.id, parsed.data.paymentReference, req);
+      if (!result) {
+        return res.status(409).json({ message: "Yêu cầu gia hạn không tồn tại hoặc đã được xử lý" });
+      }
+
+      res.json({
+        success: true,
+        message: `Thẻ ${result.card.cardType} đã được gia hạn đến ${result.card.expiresAt ? new Date(result.card.expiresAt).toLocaleDateString("vi-VN") : ""}`,
+        renewal: result.renewal,
+        card: result.card,
+      });
+    } catch (error) {
+      console.error("Card renewal confirmation error:", error);
+      res.status(500).json({ message: "Failed to confirm card renewal" });
+    }
+  });
+
+  // Card refunds: the owner asks to cancel a paid card; the refund goes through the transaction approval queue
+  app.get("/api/cards/:id/refund-quote", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const card = await storage.getCard(req.params.id);
+      const canApprove = (await storage.getUserPermissions(user.id)).includes("transactions.approve");
+      if (!card || (card.ownerId !== user.id && !canApprove)) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+
+      res.json({
+        ...(await quoteCardRefund(card)),
+        pendingRefund: (await storage.getPendingCardRefund(card.id)) || null,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to quote card refund" });
+    }
+  });
+
+  app.post("/api/cards/:id/refund-request", requireAuth, blockWhileImpersonating, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const parsed = cardRefundRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const card = await storage.getCard(req.params.id);
+      if (!card || card.ownerId !== user.id) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      if (await storage.getPendingCardRefund(card.id)) {
+        return res.status(409).json({ message: "Thẻ đang có yêu cầu hoàn tiền chờ duyệt" });
+      }
+
+      const quote = await quoteCardRefund(card);
+      if (!quote.eligible) {
+        return res.status(409).json({ message: quote.unavailableReason });
+      }
+
+      const transaction = await storage.createTransaction({
+        type: "refund",
+        amount: quote.refundableAmount.toString(),
+        description: `Hoàn tiền thẻ ${card.cardType} ${card.cardNumber} - ${parsed.data.reason}`,
+        contributionType: "card",
+        cardId: card.id,
+        userId: user.id,
+        status: "pending",
+      });
+      const refund = await storage.createCardRefund({
+        cardId: card.id,
+        userId: user.id,
+        requestedBy: user.id,
+        reason: parsed.data.reason,
+        paidAmount: quote.paidAmount.toString(),
+        usedSessions: quote.usedSessions,
+        usedSessionsValue: quote.usedSessionsValue.toString(),
+        payoutsReceived: quote.payoutsReceived.toString(),
+        vcaDigitalShareReversed: quote.vcaDigitalShareReversed.toString(),
+        vcaShortfallValue: quote.vcaShortfallValue.toString(),
+        commissionClawback: quote.commissionClawback.toString(),
+        refundableAmount: quote.refundableAmount.toString(),
+        transactionId: transaction.id,
+        purchaseTransactionId: quote.purchaseTransactionId,
+        referralId: quote.referralId,
+      });
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "card_refund_requested",
+        entityType: "card",
+        entityId: card.id,
+        oldValue: JSON.stringify({ status: card.status }),
+        newValue: JSON.stringify({ refundId: refund.id, refundableAmount: quote.refundableAmount, reason: parsed.data.reason }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `Yêu cầu hoàn tiền thẻ ${card.cardType} đã được gửi và đang chờ duyệt`,
+        refund,
+      });
+    } catch (error) {
+      console.error("Card refund request error:", error);
+      res.status(500).json({ message: "Failed to request card refund" });
+    }
+  });
+
+  app.get("/api/card-refunds", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      res.json(await storage.getCardRefunds({ userId: user.id }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch card refunds" });
+    }
+  });
+
+  // An order that was never paid is simply cancelled: nothing was granted, so nothing is reversed
+  app.post("/api/cards/:id/cancel-order", requireAuth, blockWhileImpersonating, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const card = await storage.getCard(req.params.id);
+      const canApprove = (await storage.getUserPermissions(user.id)).includes("transactions.approve");
+      if (!card || (card.ownerId !== user.id && !canApprove)) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      // The pending card of an upgrade goes away with the upgrade request
+      if ((await storage.getCardUpgrades({ status: "pending" })).some(upgrade => upgrade.toCardId === card.id)) {
+        return res.status(409).json({ message: "Vui lòng hủy yêu cầu nâng cấp thẻ thay vì hủy đơn hàng" });
+      }
+
+      const purchase = await findCardPurchaseTransaction(card, "pending");
+      const cancelled = await storage.transitionCardStatus(card.id, "pending", "cancelled", {
+        reason: "order_cancelled",
+        changedBy: user.id,
+        details: { transactionId: purchase?.id ?? null },
+      });
+      if (!cancelled) {
+        return res.status(409).json({ message: "Chỉ có thể hủy đơn hàng thẻ chưa thanh toán" });
+      }
+      if (purchase) {
+        await storage.updateTransaction(purchase.id, { status: "rejected" });
+      }
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "card_order_cancelled",
+        entityType: "card",
+        entityId: card.id,
+        oldValue: JSON.stringify({ status: card.status }),
+        newValue: JSON.stringify({ status: cancelled.status, transactionId: purchase?.id ?? null }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.json({ success: true, message: `Đã hủy đơn hàng thẻ ${card.cardType}`, card: cancelled });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel card order" });
+    }
+  });
+
+  // Card sharing: the owner invites family members and hands each of them part of the sessions
+  app.get("/api/cards/:id/members", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const card = await storage.getCard(req.params.id);
+      if (!card || card.ownerId !== user.id) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+
+      const members = await storage.getCardMembers(card.id);
+      res.json(members.map(({ inviteCodeHash, ...member }) => member));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch card members" });
+    }
+  });
+
+  app.post("/api/cards/:id/members", requireAuth, blockWhileImpersonating, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const parsed = cardMemberInviteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const card = await storage.getCard(req.params.id);
+      if (!card || card.ownerId !== user.id) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      if (!USABLE_CARD_STATUSES.includes(card.status)) {
+        return res.status(409).json({ message: "Thẻ chưa kích hoạt hoặc đã ngừng sử dụng" });
+      }
+
+      const { name, email, phone, relationship, allocatedSessions } = parsed.data;
+      const inviteCode = randomBytes(9).toString("base64url");
+      const result = await storage.inviteCardMember({
+        cardId: card.id,
+        name,
+        email: email || null,
+        phone: phone || null,
+        relationship,
+        allocatedSessions,
+        inviteCodeHash: hashInviteCode(inviteCode),
+        invitedBy: user.id,
+      });
+      if ("error" in result) {
+        return res.status(409).json({ message: "Thẻ không còn đủ lượt trống để chia sẻ" });
+      }
+
+      await sendMessage({
+        channel: email ? "email" : "sms",
+        to: email || phone!,
+        subject: "Lời mời sử dụng thẻ VCare Global",
+        body: `${user.name} đã chia sẻ ${allocatedSessions} lượt của thẻ ${card.cardType} với bạn. Đăng nhập hoặc đăng ký tài khoản VCare Global và nhập mã mời ${inviteCode} tại mục "Thẻ & Ưu đãi" để bắt đầu sử dụng.`,
+      });
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "card_member_invited",
+        entityType: "card",
+        entityId: card.id,
+        oldValue: null,
+        newValue: JSON.stringify({ memberId: result.member.id, relationship, allocatedSessions }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      const { inviteCodeHash, ...member } = result.member;
+      res.status(201).json(member);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to invite card member" });
+    }
+  });
+
+  app.put("/api/cards/:id/members/:memberId", requireAuth, blockWhileImpersonating, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const parsed = cardMemberAllocationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const card = await storage.getCard(req.params.id);
+      const existing = await storage.getCardMember(req.params.memberId);
+      if (!card || card.ownerId !== user.id || !existing || existing.cardId !== card.id) {
+        return res.status(404).json({ message: "Card member not found" });
+      }
+
+      const result = await storage.updateCardMemberAllocation(existing.id, parsed.data.allocatedSessions);
+      if ("error" in result) {
+        const messages = {
+          not_found: "Thành viên không còn quyền sử dụng thẻ",
+          below_used: `Thành viên đã dùng ${existing.usedSessions} lượt, không thể giảm thấp hơn`,
+          no_sessions: "Thẻ không còn đủ lượt trống để chia sẻ",
+        };
+        return res.status(409).json({ message: messages[result.error] });
+      }
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "card_member_allocation_changed",
+        entityType: "card",
+        entityId: card.id,
+        oldValue: JSON.stringify({ memberId: existing.id, allocatedSessions: existing.allocatedSessions }),
+        newValue: JSON.stringify({ memberId: existing.id, allocatedSessions: result.member.allocatedSessions }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      const { inviteCodeHash, ...member } = result.member;
+      res.json(member);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update card member" });
+    }
+  });
+
+  // Revokes access (or a pending invitation); unused sessions return to the owner
+  app.delete("/api/cards/:id/members/:memberId", requireAuth, blockWhileImpersonating, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const card = await storage.getCard(req.params.id);
+      const existing = await storage.getCardMember(req.params.memberId);
+      if (!card || card.ownerId !== user.id || !existing || existing.cardId !== card.id) {
+        return res.status(404).json({ message: "Card member not found" });
+      }
+
+      const revoked = await storage.revokeCardMember(existing.id);
+      if (revoked) {
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "card_member_revoked",
+          entityType: "card",
+          entityId: card.id,
+          oldValue: JSON.stringify({ memberId: existing.id, status: existing.status }),
+          newValue: JSON.stringify({ memberId: existing.id, status: "revoked", returnedSessions: revoked.allocatedSessions - revoked.usedSessions }),
+          ipAddress: req.ip || null,
+          userAgent: req.get("User-Agent") || null,
+        });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke card member" });
+    }
+  });
+
+  app.post("/api/card-invitations/accept", requireAuth, blockWhileImpersonating, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const parsed = cardInvitationAcceptSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const inviteCodeHash = hashInviteCode(parsed.data.code);
+      const invitation = await storage.getCardMemberByInviteCode(inviteCodeHash);
+      const card = invitation && await storage.getCard(invitation.cardId);
+      if (!invitation || !card || invitation.status !== "invited") {
+        return res.status(404).json({ message: "Mã mời không hợp lệ hoặc đã được sử dụng" });
+      }
+      if (card.ownerId === user.id) {
+        return res.status(400).json({ message: "Bạn là chủ thẻ này" });
+      }
+      if (await storage.getActiveCardMembership(card.id, user.id)) {
+        return res.status(409).json({ message: "Bạn đã là thành viên của thẻ này" });
+      }
+
+      const member = await storage.acceptCardInvitation(inviteCodeHash, user.id);
+      if (!member) {
+        return res.status(404).json({ message: "Mã mời không hợp lệ hoặc đã được sử dụng" });
+      }
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "card_invitation_accepted",
+        entityType: "card",
+        entityId: card.id,
+        oldValue: "invited",
+        newValue: JSON.stringify({ memberId: member.id, status: "active" }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.json({ id: member.id, cardId: card.id, cardType: card.cardType, cardNumber: card.cardNumber, allocatedSessions: member.allocatedSessions });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+
+  // Cards shared with the current user, with the sessions left in their allocation
+  app.get("/api/shared-cards", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const memberships = await storage.getSharedCards(user.id);
+      res.json(memberships.map(({ inviteCodeHash, card, ...member }) => ({
+        ...member,
+        card: { id: card.id, cardNumber: card.cardNumber, cardType: card.cardType, customerName: card.customerName, status: card.status },
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch shared cards" });
+    }
+  });
+
+  // Open consultation slots members can book (defaults to the next 31 days)
+  app.get("/api/appointment-slots", requireAuth, async (req, res) => {
+    try {
+      const from = req.query.from ? new Date(req.query.from as string) : new Date();
+      const to = req.query.to ? new Date(req.query.to as string) : new Date(from.getTime() + 31 * 24 * 60 * 60 * 1000);
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+        return res.status(400).json({ message: "Khoảng thời gian không hợp lệ" });
+      }
+
+      const slots = await storage.getAppointmentSlots({
+        branchIds: req.query.branchId ? [req.query.branchId as string] : undefined,
+        from: from < new Date() ? new Date() : from,
+        to,
+        availableOnly: true,
+      });
+      res.json(slots);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch appointment slots" });
+    }
+  });
+
+  // Publish a day of slots for a branch, optionally for one practitioner
+  app.post("/api/appointment-slots", requireAuth, requirePermission("appointments.manage"), async (req, res) => {
+    try {
+      const user = req.user as any;
+      const parsed = appointmentSlotBatchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { branchId, practitionerId, date, startTime, endTime, durationMinutes, capacity } = parsed.data;
+
+      if (!isInBranchScope(await getBranchScope(req), branchId)) {
+        return res.status(403).json({ message: "Branch access denied" });
+      }
+      if (practitionerId) {
+        const practitioner = await storage.getStaffMember(practitionerId);
+        if (!practitioner || practitioner.branchId !== branchId) {
+          return res.status(400).json({ message: "Chuyên viên không thuộc chi nhánh này" });
+        }
+      }
+
+      const dayEnd = branchLocalTime(date, endTime);
+      const slots = [];
+      for (let startsAt = branchLocalTime(date, startTime); ; startsAt = new Date(startsAt.getTime() + durationMinutes * 60 * 1000)) {
+        const endsAt = new Date(startsAt.getTime() + durationMinutes * 60 * 1000);
+        if (endsAt > dayEnd) break;
+        if (startsAt <= new Date()) continue;
+        slots.push({ branchId, practitionerId: practitionerId || null, startsAt, endsAt, capacity, createdBy: user.id });
+      }
+      if (slots.length === 0) {
+        return res.status(400).json({ message: "Không có khung giờ nào trong tương lai để mở" });
+      }
+
+      const created = await storage.createAppointmentSlots(slots);
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "appointment_slots_published",
+        entityType: "branch",
+        entityId: branchId,
+        oldValue: null,
+        newValue: JSON.stringify({ date, startTime, endTime, durationMinutes, capacity, practitionerId: practitionerId || null, count: created.length }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.status(201).json(created);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to publish appointment slots" });
+    }
+  });
+
+  app.delete("/api/appointment-slots/:id", requireAuth, requirePermission("appointments.manage"), async (req, res) => {
+    try {
+      const slot = await storage.getAppointmentSlot(req.params.id);
+      if (!slot) {
+        return res.status(404).json({ message: "Appointment slot not found" });
+      }
+      if (!isInBranchScope(await getBranchScope(req), slot.branchId)) {
+        return res.status(403).json({ message: "Branch access denied" });
+      }
+
+      const deleted = await storage.deleteAppointmentSlot(slot.id);
+      if (!deleted) {
+        return res.status(409).json({ message: "Khung giờ đã có lịch hẹn, không thể xóa" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete appointment slot" });
+    }
+  });
+
+  // Day schedule of a branch: slots with their bookings
+  app.get("/api/branches/:id/schedule", requireAuth, requirePermission("appointments.manage"), async (req, res) => {
+    try {
+      if (!isInBranchScope(await getBranchScope(req), req.params.id)) {
+        return res.status(403).json({ message: "Branch access denied" });
+      }
+      const date = (req.query.date as string) || "";
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ message: "Ngày không hợp lệ" });
+      }
+
+      const from = branchLocalTime(date, "00:00");
+      const to = new Date(from.getTime() + 24 * 60 * 60 * 1000);
+      res.json(await storage.getBranchSchedule(req.params.id, from, to));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch branch schedule" });
+    }
+  });
+
+  app.get("/api/appointments", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      res.json(await storage.getUserAppointments(user.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch appointments" });
+    }
+  });
+
+  // Book a slot against one of the member's cards; the booking reserves one session
+  app.post("/api/appointments", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const parsed = appointmentBookingSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { slotId, cardId, notes } = parsed.data;
+
+      const found = await storage.getCard(cardId);
+      if (!found || found.ownerId !== user.id) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      const card = await syncCardLifecycle(found, "booking");
+      if (!USABLE_CARD_STATUSES.includes(card.status)) {
+        return res.status(409).json({ message: "Thẻ chưa kích hoạt hoặc đã ngừng sử dụng" });
+      }
+
+      const policy = await getAppointmentPolicy();
+      if (await storage.countOpenAppointments(card.id) >= policy.maxOpenPerCard) {
+        return res.status(409).json({ message: `Mỗi thẻ chỉ được giữ tối đa ${policy.maxOpenPerCard} lịch hẹn sắp tới` });
+      }
+
+      const result = await storage.bookAppointment({ slotId, cardId: card.id, userId: user.id, notes });
+      if ("error" in result) {
+        return res.status(409).json({
+          message: result.error === "slot_unavailable" ? "Khung giờ đã đầy hoặc đã qua" : "Thẻ không còn lượt trống để đặt lịch",
+          reason: result.error,
+        });
+      }
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "appointment_booked",
+        entityType: "appointment",
+        entityId: result.appointment.id,
+        oldValue: null,
+        newValue: JSON.stringify({ slotId, cardId: card.id }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.status(201).json(result.appointment);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to book appointment" });
+    }
+  });
+
+  // Members cancelling inside the notice period lose the reserved session; branch staff cancellations never do
+  app.post("/api/appointments/:id/cancel", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const parsed = appointmentCancelSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const appointment = await storage.getAppointment(req.params.id);
+      const slot = appointment && await storage.getAppointmentSlot(appointment.slotId);
+      if (!appointment || !slot) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      const isOwner = appointment.userId === user.id;
+      const isBranchStaff = (await storage.getUserPermissions(user.id)).includes("appointments.manage")
+        && isInBranchScope(await getBranchScope(req), slot.branchId);
+      if (!isOwner && !isBranchStaff) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      if (appointment.status !== "booked") {
+        return res.status(409).json({ message: "Lịch hẹn không còn hiệu lực để hủy" });
+      }
+
+      const policy = await getAppointmentPolicy();
+      const noticeMs = new Date(slot.startsAt).getTime() - Date.now();
+      const forfeit = isOwner && !isBranchStaff && noticeMs < policy.cancelNoticeHours * 60 * 60 * 1000;
+
+      const cancelled = await storage.cancelAppointment(appointment.id, { reason: parsed.data.reason, forfeit });
+      if (!cancelled) {
+        return res.status(409).json({ message: "Lịch hẹn không còn hiệu lực để hủy" });
+      }
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "appointment_cancelled",
+        entityType: "appointment",
+        entityId: appointment.id,
+        oldValue: "booked",
+        newValue: JSON.stringify({ status: "cancelled", sessionForfeited: forfeit, reason: parsed.data.reason || null }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.json(cancelled);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel appointment" });
+    }
+  });
+
+  app.post("/api/appointments/:id/no-show", requireAuth, requirePermission("appointments.manage"), async (req, res) => {
+    try {
+      const user = req.user as any;
+      const appointment = await storage.getAppointment(req.params.id);
+      const slot = appointment && await storage.getAppointmentSlot(appointment.slotId);
+      if (!appointment || !slot) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      if (!isInBranchScope(await getBranchScope(req), slot.branchId)) {
+        return res.status(403).json({ message: "Branch access denied" });
+      }
+      if (new Date(slot.startsAt) > new Date()) {
+        return res.status(409).json({ message: "Lịch hẹn chưa đến giờ" });
+      }
+
+      const policy = await getAppointmentPolicy();
+      const marked = await storage.markAppointmentNoShow(appointment.id, policy.noShowForfeits);
+      if (!marked) {
+        return res.status(409).json({ message: "Lịch hẹn không còn ở trạng thái chờ" });
+      }
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "appointment_no_show",
+        entityType: "appointment",
+        entityId: appointment.id,
+        oldValue: "booked",
+        newValue: JSON.stringify({ status: "no_show", sessionForfeited: marked.sessionForfeited }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.json(marked);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to mark no-show" });
+    }
+  });
+
+  // Card types and pricing
+  app.get("/api/cards/types", async (req, res) => {
+    try {
+      const cardTypes = (await storage.getCardProducts(true)).map(product => ({
+        type: product.name,
+        price: parseFloat(product.price),
+        maxSessions: product.consultationSessions,
+        validityMonths: product.validityMonths,
+        vcaDigitalShare: parseFloat(product.vcaDigitalShare),
+        maxoutMultiplier: parseFloat(product.maxoutMultiplier)
+      }));
+      res.json(cardTypes);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch card types" });
+    }
+  });
+
+  // Card product catalogue
+  app.get("/api/card-products", async (req, res) => {
+    try {
+      const products = await storage.getCardProducts(true);
+      res.json(products);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch card products" });
+    }
+  });
+
+  app.get("/api/admin/card-products", requireAuth, requirePermission("products.manage"), async (req, res) => {
+    try {
+      const products = await storage.getCardProducts();
+      res.json(products);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch card products" });
+    }
+  });
+
+  app.post("/api/admin/card-products", requireAuth, requirePermission("products.manage"), async (req, res) => {
+    const user = req.user as any;
+    try {
+      const parsed = insertCardProductSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      if (await storage.getCardProductByName(parsed.data.name)) {
+        return res.status(409).json({ message: "Gói thẻ cùng tên đã tồn tại" });
+      }
+
+      const product = await storage.createCardProduct(parsed.data);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "card_product_create",
+        entityType: "card_product",
+        entityId: product.id,
+        oldValue: null,
+        newValue: JSON.stringify(product),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.status(201).json(product);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create card product" });
+    }
+  });
+
+  app.put("/api/admin/card-products/:id", requireAuth, requirePermission("products.manage"), async (req, res) => {
+    const user = req.user as any;
+    try {
+      const existing = await storage.getCardProduct(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Card product not found" });
+      }
+
+      const parsed = insertCardProductSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      // Issued cards reference the product by name
+      if (parsed.data.name && parsed.data.name !== existing.name && await storage.countCardsOfType(existing.name) > 0) {
+        return res.status(409).json({ message: "Không thể đổi tên gói thẻ đã phát hành" });
+      }
+
+      const product = await storage.updateCardProduct(req.params.id, parsed.data);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "card_product_update",
+        entityType: "card_product",
+        entityId: req.params.id,
+        oldValue: JSON.stringify(existing),
+        newValue: JSON.stringify(product),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.json(product);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update card product" });
+    }
+  });
+
+  app.delete("/api/admin/card-products/:id", requireAuth, requirePermission("products.manage"), async (req, res) => {
+    const user = req.user as any;
+    try {
+      const existing = await storage.getCardProduct(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Card product not found" });
+      }
+      if (await storage.countCardsOfType(existing.name) > 0) {
+        return res.status(409).json({ message: "Gói thẻ đã có thẻ phát hành, hãy ngừng bán thay vì xóa" });
+      }
+
+      await storage.deleteCardProduct(req.params.id);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "card_product_delete",
+        entityType: "card_product",
+        entityId: req.params.id,
+        oldValue: JSON.stringify(existing),
+        newValue: null,
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete card product" });
+    }
+  });
+
+  // Receiving bank accounts used for payment QR codes
+  app.get("/api/admin/bank-accounts", requireAuth, requirePermission("config.read"), async (req, res) => {
+    try {
+      const accounts = await storage.getBankAccounts();
+      res.json(accounts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch bank accounts" });
+    }
+  });
+
+  app.post("/api/admin/bank-accounts", requireAuth, requirePermission("config.write"), async (req, res) => {
+    const user = req.user as any;
+    try {
+      const parsed = insertBankAccountSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      if (parsed.data.branchId && !await storage.getBranch(parsed.data.branchId)) {
+        return res.status(400).json({ message: "Chi nhánh không tồn tại" });
+      }
+
+      const account = await storage.createBankAccount(parsed.data);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "bank_account_create",
+        entityType: "bank_account",
+        entityId: account.id,
+        oldValue: null,
+        newValue: JSON.stringify(account),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.status(201).json(account);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create bank account" });
+    }
+  });
+
+  app.put("/api/admin/bank-accounts/:id", requireAuth, requirePermission("config.write"), async (req, res) => {
+    const user = req.user as any;
+    try {
+      const existing = await storage.getBankAccount(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Bank account not found" });
+      }
+
+      const parsed = insertBankAccountSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      if (parsed.data.branchId && !await storage.getBranch(parsed.data.branchId)) {
+        return res.status(400).json({ message: "Chi nhánh không tồn tại" });
+      }
+
+      const account = await storage.updateBankAccount(req.params.id, parsed.data);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "bank_account_update",
+        entityType: "bank_account",
+        entityId: req.params.id,
+        oldValue: JSON.stringify(existing),
+        newValue: JSON.stringify(account),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.json(account);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update bank account" });
+    }
+  });
+
+  // Transfers reported by the bank webhook; ?status=needs_review is the manual review queue
+  app.get("/api/admin/bank-transfers", requireAuth, requirePermission("transactions.approve"), async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      const transfers = await storage.getBankTransfers({ status });
+      res.json(transfers.map(({ rawPayload, ...transfer }) => ({
+        ...transfer,
+        reviewReasonLabel: transfer.reviewReason ? BANK_TRANSFER_REVIEW_REASONS[transfer.reviewReason as BankTransferReviewReason] || transfer.reviewReason : null,
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch bank transfers" });
+    }
+  });
+
+  // Settle a queued transfer against an order by its payment reference, or dismiss it
+  app.post("/api/admin/bank-transfers/:id/resolve", requireAuth, requirePermission("transactions.approve"), blockWhileImpersonating, async (req, res) => {
+    const user = req.user as any;
+    try {
+      const parsed = bankTransferResolutionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const transfer = await storage.getBankTransfer(req.params.id);
+      if (!transfer) {
+        return res.status(404).json({ message: "Bank transfer not found" });
+      }
+      if (transfer.status !== "needs_review") {
+        return res.status(409).json({ message: "Giao dịch đã được xử lý" });
+      }
+      const resolution = parsed.data;
+
+      let updated: BankTransfer | undefined;
+      if (resolution.action === "dismiss") {
+        updated = await storage.updateBankTransferStatus(transfer.id, "needs_review", {
+          status: "dismissed",
+          resolvedBy: user.id,
+          resolutionNote: resolution.note,
+        });
+        if (!updated) {
+          return res.status(409).json({ message: "Giao dịch đã được xử lý" });
+        }
+      } else {
+        // Claim the transfer first so two reviewers cannot settle it against different orders
+        const claimed = await storage.updateBankTransferStatus(transfer.id, "needs_review", {
+          status: "matched",
+          resolvedBy: user.id,
+          resolutionNote: resolution.note || null,
+        });
+        if (!claimed) {
+          return res.status(409).json({ message: "Giao dịch đã được xử lý" });
+        }
+        const result = await settleBankTransfer(claimed, resolution.purpose, resolution.reference.toLowerCase(), user.id, false, req);
+        if ("reason" in result) {
+          await storage.updateBankTransferStatus(transfer.id, "matched", {
+            status: "needs_review",
+            resolvedBy: null,
+            resolutionNote: null,
+          });
+          return res.status(409).json({ message: BANK_TRANSFER_REVIEW_REASONS[result.reason] });
+        }
+        updated = await storage.updateBankTransferStatus(transfer.id, "matched", {
+          status: "matched",
+          matchedPurpose: resolution.purpose,
+          matchedEntityId: result.entityId,
+        });
+      }
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: resolution.action === "match" ? "bank_transfer_matched" : "bank_transfer_dismissed",
+        entityType: "bank_transfer",
+        entityId: transfer.id,
+        oldValue: JSON.stringify({ status: transfer.status, reviewReason: transfer.reviewReason }),
+        newValue: JSON.stringify({ status: updated?.status, matchedPurpose: updated?.matchedPurpose, matchedEntityId: updated?.matchedEntityId, note: updated?.resolutionNote }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to resolve bank transfer" });
+    }
+  });
+
+  // Card and membership orders placed on the public site
+  app.get("/api/admin/orders", requireAuth, requirePermission("transactions.read"), async (req, res) => {
+    try {
+      // Orders past their deadline are shown as expired even before the next sweep
+      await sweepExpiredOrders();
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      const kind = typeof req.query.kind === "string" ? req.query.kind : undefined;
+      const orders = await storage.getOrders({ status, kind });
+      res.json(orders.map(order => ({ ...order, orderCode: orderReference(order.id) })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch orders" });
+    }
+  });
+
+  // Payment received outside the bank webhook, e.g. a transfer without the order's memo
+  app.post("/api/admin/orders/:id/confirm-payment", requireAuth, requirePermission("transactions.approve"), blockWhileImpersonating, async (req, res) => {
+    const user = req.user as any;
+    try {
+      const parsed = orderPaymentConfirmationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (order.status !== "pending" && order.status !== "expired") {
+        return res.status(409).json({ message: "Đơn hàng không còn chờ thanh toán" });
+      }
+      const paid = await markOrderPaid(order, user.id, parsed.data.paymentReference || null, req);
+      if (!paid) {
+        return res.status(409).json({ message: "Đơn hàng không còn chờ thanh toán" });
+      }
+      res.json({ ...paid, orderCode: orderReference(paid.id) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to confirm order payment" });
+    }
+  });
+
+  app.post("/api/admin/orders/:id/fulfill", requireAuth, requirePermission("transactions.approve"), blockWhileImpersonating, async (req, res) => {
+    const user = req.user as any;
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      const result = await fulfillOrder(order, user.id, req);
+      if ("error" in result) {
+        return res.status(409).json({ message: result.error });
+      }
+      res.json({ ...result.order, orderCode: orderReference(result.order.id) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fulfil order" });
+    }
+  });
+
+  // Card benefits analysis
+  app.get("/api/cards/:id/benefits", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const card = await storage.getCard(id);
+      
+      if (!card) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      
+      const price = parseFloat(card.price);
+      const currentShares = parseFloat(card.currentShares || "0");
+      const product = await storage.getCardProductByName(card.cardType);
+      const maxoutLimit = cardMaxoutLimit(card, product);
+      const shareValue = cardShareValue(card);
+      const { nearMaxoutPercentage } = await getCardLifecyclePolicy();
+      
+
+      const benefits = {
+        cardId: id,
         cardType: card.cardType,
         price: price,
         currentShares: currentShares,
         shareValue: shareValue,
         maxoutLimit: maxoutLimit,
         maxoutPercentage: (shareValue / maxoutLimit) * 100,
-        status: status,
+        // Persisted by the lifecycle engine
+        status: card.status,
+        expiresAt: cardExpiry(card, product),
         connectionCommission: parseFloat(card.connectionCommission || "8"),
         vipSupport: parseFloat(card.vipSupport || "5"),
         profitSharePercentage: parseFloat(card.profitSharePercentage || "49"),
         vcaDigitalShare: parseFloat(card.vcaDigitalShare || "0"),
         consultationSessions: card.consultationSessions || 12,
-        isNearMaxout: shareValue >= maxoutLimit * 0.9
+        isNearMaxout: shareValue >= maxoutLimit * nearMaxoutPercentage / 100
       };
       
       res.json(benefits);
@@ -2194,20 +4965,21 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // KPI routes (protected)
-  app.get("/api/kpis", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get("/api/kpis", requireAuth, requirePermission("kpis.read"), async (req, res) => {
     try {
-      const kpis = await storage.getKpis();
+      const kpis = await storage.getKpis(await getBranchScope(req));
       res.json(kpis);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch KPIs" });
     }
   });
 
-  app.get("/api/kpis/branch/:branchId", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get("/api/kpis/branch/:branchId", requireAuth, requirePermission("kpis.read"), async (req, res) => {
     try {
       const { branchId } = req.params;
+      if (!isInBranchScope(await getBranchScope(req), branchId)) {
+        return res.status(403).json({ message: "Branch access denied" });
+      }
       const kpis = await storage.getKpisByBranch(branchId);
       res.json(kpis);
     } catch (error) {
@@ -2215,11 +4987,10 @@ app.get("/favicon.svg", (req, res) => {
     }
   });
 
-  app.get("/api/kpis/period/:period/:periodValue", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get("/api/kpis/period/:period/:periodValue", requireAuth, requirePermission("kpis.read"), async (req, res) => {
     try {
       const { period, periodValue } = req.params;
-      const kpis = await storage.getKpisByPeriod(period, periodValue);
+      const kpis = await storage.getKpisByPeriod(period, periodValue, await getBranchScope(req));
       res.json(kpis);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch period KPIs" });
@@ -2227,11 +4998,10 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Branch performance and ranking (protected)
-  app.get("/api/branches/performance", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get("/api/branches/performance", requireAuth, requirePermission("kpis.read"), async (req, res) => {
     try {
       const { period = "month", periodValue = "2024-11" } = req.query;
-      const branches = await storage.getBranches();
+      const branches = await storage.getBranches(await getBranchScope(req));
       const branchPerformance = [];
       
       for (const branch of branches) {
@@ -2271,11 +5041,10 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // KPI alerts for underperforming branches (protected)
-  app.get("/api/kpis/alerts", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get("/api/kpis/alerts", requireAuth, requirePermission("kpis.read"), async (req, res) => {
     try {
       const { period = "month", periodValue = "2024-11" } = req.query;
-      const branches = await storage.getBranches();
+      const branches = await storage.getBranches(await getBranchScope(req));
       const alerts = [];
       
       for (const branch of branches) {
@@ -2309,10 +5078,12 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Create new KPI record (protected)
-  app.post("/api/kpis", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.post("/api/kpis", requireAuth, requirePermission("kpis.write"), async (req, res) => {
     try {
       const kpiData = insertKpiSchema.parse(req.body);
+      if (!isInBranchScope(await getBranchScope(req), kpiData.branchId)) {
+        return res.status(403).json({ message: "Branch access denied" });
+      }
       const kpi = await storage.createKpi(kpiData);
       res.status(201).json(kpi);
     } catch (error) {
@@ -2321,8 +5092,7 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Profit sharing validation (protected) - Updated for quarterly-only processing
-  app.post("/api/profit-sharing/validate", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.post("/api/profit-sharing/validate", requireAuth, requirePermission("profit.read"), async (req, res) => {
     try {
       // Validate request body with new quarterly-only schema
       const validationResult = profitSharingValidationSchema.safeParse(req.body);
@@ -2388,7 +5158,7 @@ app.get("/favicon.svg", (req, res) => {
   app.get("/api/staff-kpis", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
-      const staffKpis = await storage.getStaffKpis();
+      const staffKpis = await storage.getStaffKpis(await getBranchScope(req));
       res.json(staffKpis);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch staff KPIs" });
@@ -2399,6 +5169,9 @@ app.get("/favicon.svg", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
       const { staffId } = req.params;
+      if (!(await canAccessStaff(req, staffId))) {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
       const staffKpis = await storage.getStaffKpisByStaff(staffId);
       res.json(staffKpis);
     } catch (error) {
@@ -2410,7 +5183,7 @@ app.get("/favicon.svg", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
       const { period, periodValue } = req.params;
-      const staffKpis = await storage.getStaffKpisByPeriod(period, periodValue);
+      const staffKpis = await storage.getStaffKpisByPeriod(period, periodValue, await getBranchScope(req));
       res.json(staffKpis);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch staff KPIs for period" });
@@ -2421,6 +5194,9 @@ app.get("/favicon.svg", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
       const staffKpiData = insertStaffKpiSchema.parse(req.body);
+      if (!staffKpiData.staffId || !(await canAccessStaff(req, staffKpiData.staffId))) {
+        return res.status(403).json({ message: "Branch access denied" });
+      }
       const staffKpi = await storage.createStaffKpi(staffKpiData);
       res.status(201).json(staffKpi);
     } catch (error) {
@@ -2433,6 +5209,18 @@ app.get("/favicon.svg", (req, res) => {
     try {
       const { id } = req.params;
       const updateData = req.body;
+
+      const scope = await getBranchScope(req);
+      if (scope) {
+        const scopedKpis = await storage.getStaffKpis(scope);
+        if (!scopedKpis.some(kpi => kpi.id === id)) {
+          return res.status(404).json({ message: "Staff KPI not found" });
+        }
+        if (updateData.staffId !== undefined && !(await canAccessStaff(req, updateData.staffId))) {
+          return res.status(403).json({ message: "Branch access denied" });
+        }
+      }
+
       const staffKpi = await storage.updateStaffKpi(id, updateData);
       if (!staffKpi) {
         return res.status(404).json({ message: "Staff KPI not found" });
@@ -2448,6 +5236,9 @@ app.get("/favicon.svg", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
       const { staffId, period, periodValue } = req.params;
+      if (!(await canAccessStaff(req, staffId))) {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
       const points = await storage.calculateStaffKpiPoints(staffId, period, periodValue);
       const slotsEarned = Math.floor(points / 50); // ≥50 points = 1 slot
       const sharesEarned = slotsEarned * 50; // 1 slot = 50 shares
@@ -2471,6 +5262,11 @@ app.get("/favicon.svg", (req, res) => {
   app.post("/api/staff-kpis/process-quarterly-shares", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
+      // Processing runs across every branch
+      if (await getBranchScope(req)) {
+        return res.status(403).json({ message: "Branch managers cannot process quarterly shares" });
+      }
+
       const { period, periodValue } = req.body;
       
       if (!period || !periodValue) {
@@ -2489,11 +5285,11 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Labor pool (19%) - Phân bổ pool công cho Sweat Equity và Chi nhánh đạt KPI
-  app.get("/api/staff/labor-pool", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get("/api/staff/labor-pool", requireAuth, requirePermission("kpis.read"), async (req, res) => {
     try {
-      const staffKpis = await storage.getStaffKpis();
-      const allStaff = await storage.getStaff();
+      const scope = await getBranchScope(req);
+      const staffKpis = await storage.getStaffKpis(scope);
+      const allStaff = await storage.getStaff(scope);
       
       // Calculate total VCA Digital Share earned from KPI (19% labor pool)
       const totalPadTokenFromKpi = staffKpis.reduce((sum, kpi) => {
@@ -2779,8 +5575,7 @@ app.get("/favicon.svg", (req, res) => {
 
   // Profit sharing routes
   // Get all profit sharings
-  app.get("/api/profit-sharings", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get("/api/profit-sharings", requireAuth, requirePermission("profit.read"), async (req, res) => {
     try {
       const profitSharings = await storage.getProfitSharings();
       res.json(profitSharings);
@@ -2790,8 +5585,7 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Get profit sharing by period
-  app.get("/api/profit-sharings/period/:period/:periodValue", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get("/api/profit-sharings/period/:period/:periodValue", requireAuth, requirePermission("profit.read"), async (req, res) => {
     try {
       const { period, periodValue } = req.params;
       const profitSharing = await storage.getProfitSharingByPeriod(period, periodValue);
@@ -2807,8 +5601,7 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Calculate quarterly profit
-  app.get("/api/profit-sharings/calculate/:period/:periodValue", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get("/api/profit-sharings/calculate/:period/:periodValue", requireAuth, requirePermission("profit.read"), async (req, res) => {
     try {
       const { period, periodValue } = req.params;
       const profitData = await storage.calculateQuarterlyProfit(period, periodValue);
@@ -2825,15 +5618,7 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Process quarterly profit sharing
-  app.post("/api/profit-sharings/process", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
-    // Role-based access control for sensitive profit operations
-    const user = req.user as any;
-    if (!user || !["admin", "finance"].includes(user.role)) {
-      return res.status(403).json({ message: "Insufficient permissions. Admin or finance role required." });
-    }
-    
+  app.post("/api/profit-sharings/process", requireAuth, requirePermission("profit.distribute"), async (req, res) => {
     try {
       // Validate request with enhanced schema
       const validationResult = profitSharingProcessSchema.safeParse(req.body);
@@ -2878,8 +5663,7 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Get profit distributions
-  app.get("/api/profit-distributions", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get("/api/profit-distributions", requireAuth, requirePermission("profit.read"), async (req, res) => {
     try {
       const distributions = await storage.getProfitDistributions();
       res.json(distributions);
@@ -2889,8 +5673,7 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Get profit distributions by sharing ID
-  app.get("/api/profit-distributions/sharing/:profitSharingId", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get("/api/profit-distributions/sharing/:profitSharingId", requireAuth, requirePermission("profit.read"), async (req, res) => {
     try {
       const { profitSharingId } = req.params;
       const distributions = await storage.getProfitDistributionsBySharing(profitSharingId);
@@ -2901,15 +5684,7 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Mark distribution as paid
-  app.post("/api/profit-distributions/:distributionId/mark-paid", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
-    // Role-based access control for payment operations
-    const user = req.user as any;
-    if (!user || !["admin", "finance"].includes(user.role)) {
-      return res.status(403).json({ message: "Insufficient permissions. Admin or finance role required." });
-    }
-    
+  app.post("/api/profit-distributions/:distributionId/mark-paid", requireAuth, requirePermission("profit.distribute"), async (req, res) => {
     try {
       const { distributionId } = req.params;
       
@@ -2942,15 +5717,7 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Process all distribution payments for a profit sharing
-  app.post("/api/profit-distributions/process-payments/:profitSharingId", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
-    // Role-based access control for payment operations
-    const user = req.user as any;
-    if (!user || !["admin", "finance"].includes(user.role)) {
-      return res.status(403).json({ message: "Insufficient permissions. Admin or finance role required." });
-    }
-    
+  app.post("/api/profit-distributions/process-payments/:profitSharingId", requireAuth, requirePermission("profit.distribute"), async (req, res) => {
     try {
       const { profitSharingId } = req.params;
       
@@ -3030,143 +5797,546 @@ app.get("/favicon.svg", (req, res) => {
       const newPackage = await storage.createInvestmentPackage(packageData);
       res.json(newPackage);
     } catch (error) {
-      res.status(500).json({ message: "Failed to create investment package" });
+      res.status(500).json({ message: "Failed to create investment package" });
+    }
+  });
+
+  // Cash flow transaction routes
+  // Get cash flow transactions for current user
+  app.get("/api/cash-flow/transactions", requireAuth, requirePermission("cashflow.request"), async (req, res) => {
+    try {
+      const user = req.user as any;
+      const transactions = await storage.getCashFlowTransactions(user.id);
+      res.json(transactions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch transactions" });
+    }
+  });
+
+  // Get all cash flow transactions (admin only)
+  app.get("/api/cash-flow/transactions/all", requireAuth, requirePermission("transactions.read"), async (req, res) => {
+    try {
+      const transactions = await storage.getCashFlowTransactions();
+      res.json(transactions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch all transactions" });
+    }
+  });
+
+  // Create deposit/investment request
+  app.post("/api/cash-flow/deposit", requireAuth, blockWhileImpersonating, requirePermission("cashflow.request"), idempotent, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const { type, amount, description, packageId } = req.body;
+      
+      if (!type || !amount || !description || !packageId) {
+        return res.status(400).json({ message: "Missing required fields" });
+      }
+
+      if (await isBlockedByKyc(user.id, parseFloat(amount), "kyc_deposit_threshold")) {
+        return res.status(403).json({ message: "Identity verification (KYC) must be approved before depositing this amount", kycRequired: true });
+      }
+      
+      const transaction = await storage.createCashFlowTransaction({
+        type,
+        amount: amount.toString(),
+        description,
+        userId: user.id,
+        packageId,
+        status: "pending"
+      });
+
+      // The deposit is approved automatically once the bank reports a transfer with this memo
+      res.json({
+        ...transaction,
+        paymentInstructions: await buildPaymentInstructions(
+          "deposit",
+          parseFloat(amount),
+          paymentMemo("deposit", transaction.id),
+          "Vui lòng chuyển khoản để hoàn tất nạp tiền"
+        ),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create deposit request" });
+    }
+  });
+
+  // Create withdrawal request
+  app.post("/api/cash-flow/withdraw", requireAuth, blockWhileImpersonating, requirePermission("cashflow.request"), idempotent, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const { amount, description } = req.body;
+      
+      if (!amount || !description) {
+        return res.status(400).json({ message: "Missing required fields" });
+      }
+      
+      if (amount < 5000000) {
+        return res.status(400).json({ message: "Minimum withdrawal amount is 5,000,000 VND" });
+      }
+      
+      if (await isBlockedByKyc(user.id, parseFloat(amount), "kyc_withdrawal_threshold")) {
+        return res.status(403).json({ message: "Identity verification (KYC) must be approved before withdrawing this amount", kycRequired: true });
+      }
+
+      // Calculate tax (10% if amount > 10M)
+      const taxAmount = storage.calculateWithdrawalTax(amount);
+      
+      const transaction = await storage.createCashFlowTransaction({
+        type: "withdraw",
+        amount: amount.toString(),
+        description,
+        userId: user.id,
+        status: "pending",
+        taxAmount: taxAmount.toString()
+      });
+      
+      res.json(transaction);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create withdrawal request" });
+    }
+  });
+
+  // Approve transaction (admin only)
+  app.post("/api/cash-flow/transactions/:transactionId/approve", requireAuth, requirePermission("transactions.approve"), async (req, res) => {
+    const user = req.user as any;
+    try {
+      const { transactionId } = req.params;
+
+      // Card refunds carry out the cancellation when their transaction is approved
+      const refund = await storage.getCardRefundByTransaction(transactionId);
+      if (refund) {
+        const result = await finishCardRefund(refund.id, user.id, req);
+        if (!result) {
+          return res.status(409).json({ message: "Yêu cầu hoàn tiền không còn chờ duyệt hoặc thẻ đã thay đổi trạng thái" });
+        }
+        return res.json(await storage.getTransaction(transactionId));
+      }
+
+      const transaction = await storage.approveCashFlowTransaction(transactionId, user.id);
+      
+      if (!transaction) {
+        return await storage.getTransaction(transactionId)
+          ? res.status(409).json({ message: "Giao dịch không còn chờ duyệt" })
+          : res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      res.json(transaction);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to approve transaction" });
+    }
+  });
+
+  // Reject transaction (admin only)
+  app.post("/api/cash-flow/transactions/:transactionId/reject", requireAuth, requirePermission("transactions.approve"), async (req, res) => {
+    const user = req.user as any;
+    try {
+      const { transactionId } = req.params;
+      const { reason } = req.body;
+
+      const refund = await storage.getCardRefundByTransaction(transactionId);
+      if (refund) {
+        const rejected = await storage.rejectCardRefund(refund.id, user.id, reason);
+        if (!rejected) {
+          return res.status(409).json({ message: "Yêu cầu hoàn tiền không còn chờ duyệt" });
+        }
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "card_refund_rejected",
+          entityType: "card",
+          entityId: refund.cardId,
+          oldValue: JSON.stringify({ refundId: refund.id, status: "pending" }),
+          newValue: JSON.stringify({ refundId: refund.id, status: "rejected", reason: reason || null }),
+          ipAddress: req.ip || null,
+          userAgent: req.get("User-Agent") || null,
+        });
+        return res.json(await storage.getTransaction(transactionId));
+      }
+
+      const transaction = await storage.rejectCashFlowTransaction(transactionId, user.id, reason);
+      
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      res.json(transaction);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reject transaction" });
+    }
+  });
+
+  // Bank statement reconciliation
+  app.get("/api/reconciliation/formats", requireAuth, requirePermission("transactions.read"), (req, res) => {
+    res.json(BANK_STATEMENT_FORMATS.map(format => ({ id: format.id, name: format.name })));
+  });
+
+  app.get("/api/reconciliation/imports", requireAuth, requirePermission("transactions.read"), async (req, res) => {
+    try {
+      const imports = await storage.getBankStatementImports();
+      res.json(imports);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch statement imports" });
+    }
+  });
+
+  // Imports a CSV/Excel statement and matches its lines to transactions where the match is clear
+  app.post("/api/reconciliation/imports", requireAuth, requirePermission("transactions.approve"), blockWhileImpersonating, async (req, res) => {
+    const user = req.user as any;
+    try {
+      const parsed = bankStatementImportRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { fileName, file, bankFormat, bankAccountId } = parsed.data;
+
+      const content = Buffer.from(file.slice(file.indexOf(",") + 1), "base64");
+      if (content.length === 0 || content.length > MAX_STATEMENT_FILE_BYTES) {
+        return res.status(400).json({ message: "Tệp sao kê phải có dung lượng dưới 10MB" });
+      }
+      const account = bankAccountId ? await storage.getBankAccount(bankAccountId) : undefined;
+      if (bankAccountId && !account) {
+        return res.status(400).json({ message: "Tài khoản ngân hàng không tồn tại" });
+      }
+
+      let format;
+      let statementLines;
+      try {
+        const rows = readStatementFile(fileName, content);
+        format = bankFormat === "auto" ? detectStatementFormat(rows) : BANK_STATEMENT_FORMATS.find(candidate => candidate.id === bankFormat);
+        if (!format) {
+          return res.status(400).json({ message: "Không nhận dạng được mẫu sao kê, vui lòng chọn ngân hàng" });
+        }
+        statementLines = parseStatementRows(rows, format);
+      } catch (error) {
+        return res.status(400).json({ message: error instanceof Error ? error.message : "Không đọc được tệp sao kê" });
+      }
+      if (statementLines.length === 0) {
+        return res.status(400).json({ message: "Không tìm thấy giao dịch nào trong sao kê" });
+      }
+
+      // Lines in reconciled periods are left out; those periods stay as they were locked
+      const days = statementLines.map(line => branchLocalDay(line.transactionDate)).sort();
+      const locks = await storage.findReconciliationLocks(days[0], days[days.length - 1]);
+      const importable = statementLines.filter(line => !isLockedDay(locks, branchLocalDay(line.transactionDate)));
+      if (importable.length === 0) {
+        return res.status(409).json({ message: "Toàn bộ sao kê nằm trong kỳ đã khóa đối soát" });
+      }
+
+      const fingerprints = importable.map(line => statementLineFingerprint(line, account?.accountNumber ?? null));
+      const earlierLines = await storage.getBankStatementLinesByFingerprint(fingerprints);
+      const earlierByFingerprint = new Map(earlierLines.map(line => [line.fingerprint, line.id]));
+      const seen = new Set<string>();
+      const lines = importable.map((line, index) => {
+        const fingerprint = fingerprints[index];
+        const duplicate = earlierByFingerprint.has(fingerprint) || seen.has(fingerprint);
+        seen.add(fingerprint);
+        return {
+          lineNumber: line.lineNumber,
+          transactionDate: line.transactionDate,
+          amount: line.amount.toFixed(2),
+          memo: line.memo,
+          bankReference: line.bankReference,
+          fingerprint,
+          status: duplicate ? "duplicate" : "unmatched",
+          duplicateOfId: earlierByFingerprint.get(fingerprint) ?? null,
+        };
+      });
+
+      const times = importable.map(line => line.transactionDate.getTime());
+      const { statementImport, lines: created } = await storage.createBankStatementImport({
+        bankFormat: format.id,
+        fileName,
+        bankAccountId: account?.id ?? null,
+        periodStart: new Date(Math.min(...times)),
+        periodEnd: new Date(Math.max(...times)),
+        lineCount: lines.length,
+        importedBy: user.id,
+      }, lines);
+      const matched = await autoMatchStatementLines(created, user.id);
+
+      const result = {
+        lineCount: created.length,
+        matched,
+        duplicates: created.filter(line => line.status === "duplicate").length,
+        skippedLocked: statementLines.length - importable.length,
+      };
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "bank_statement_import",
+        entityType: "bank_statement_import",
+        entityId: statementImport.id,
+        oldValue: null,
+        newValue: JSON.stringify({ fileName, bankFormat: format.id, ...result }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.status(201).json({ statementImport, ...result, unmatched: result.lineCount - result.matched - result.duplicates });
+    } catch (error) {
+      console.error("Statement import error:", error);
+      res.status(500).json({ message: "Failed to import bank statement" });
+    }
+  });
+
+  // Both sides of a period: statement lines and the transactions they should account for
+  app.get("/api/reconciliation", requireAuth, requirePermission("transactions.read"), async (req, res) => {
+    try {
+      const period = parseReconciliationPeriod(req.query.from, req.query.to);
+      if (!period) {
+        return res.status(400).json({ message: "Khoảng thời gian không hợp lệ" });
+      }
+
+      const [lines, transactions, locks] = await Promise.all([
+        storage.getBankStatementLines(period.from, period.to),
+        storage.getReconcilableTransactions(period.from, period.to),
+        storage.findReconciliationLocks(period.periodStart, period.periodEnd),
+      ]);
+      // Lines and transactions matched across the period boundary
+      const matchedLines = await storage.getBankStatementLinesByTransactions(transactions.map(transaction => transaction.id));
+      const lineByTransaction = new Map(matchedLines.map(line => [line.transactionId, line.id]));
+      const transactionsById = new Map(transactions.map(transaction => [transaction.id, transaction]));
+      for (const line of lines) {
+        if (line.transactionId && !transactionsById.has(line.transactionId)) {
+          const transaction = await storage.getTransaction(line.transactionId);
+          if (transaction) transactionsById.set(transaction.id, transaction);
+        }
+      }
+      const duplicates = findDuplicateTransactions(transactions);
+
+      const linesOut = lines.map(line => {
+        const transaction = line.transactionId ? transactionsById.get(line.transactionId) : undefined;
+        return {
+          ...line,
+          locked: isLockedDay(locks, branchLocalDay(line.transactionDate)),
+          transaction: transaction
+            ? { id: transaction.id, type: transaction.type, amount: transaction.amount, description: transaction.description, status: transaction.status, date: transaction.date }
+            : null,
+        };
+      });
+      const transactionsOut = transactions.map(transaction => ({
+        ...transaction,
+        direction: transactionDirection(transaction),
+        matchedLineId: lineByTransaction.get(transaction.id) ?? null,
+        duplicateOf: duplicates.get(transaction.id) || [],
+      }));
+      const counted = lines.filter(line => line.status === "matched" || line.status === "unmatched");
+
+      res.json({
+        periodStart: period.periodStart,
+        periodEnd: period.periodEnd,
+        locks,
+        lines: linesOut,
+        transactions: transactionsOut,
+        summary: {
+          statementIn: counted.filter(line => Number(line.amount) > 0).reduce((sum, line) => sum + Number(line.amount), 0),
+          statementOut: counted.filter(line => Number(line.amount) < 0).reduce((sum, line) => sum - Number(line.amount), 0),
+          matchedLines: lines.filter(line => line.status === "matched").length,
+          unmatchedLines: lines.filter(line => line.status === "unmatched").length,
+          duplicateLines: lines.filter(line => line.status === "duplicate").length,
+          ignoredLines: lines.filter(line => line.status === "ignored").length,
+          // Pending transactions are expected to have no statement line yet
+          unmatchedTransactions: transactionsOut.filter(transaction => !transaction.matchedLineId && transaction.status !== "pending").length,
+          duplicateTransactions: transactionsOut.filter(transaction => transaction.duplicateOf.length > 0).length,
+        },
+      });
+    } catch (error) {
+      console.error("Reconciliation error:", error);
+      res.status(500).json({ message: "Failed to fetch reconciliation" });
+    }
+  });
+
+  app.get("/api/reconciliation/lines/:id/candidates", requireAuth, requirePermission("transactions.read"), async (req, res) => {
+    try {
+      const line = await storage.getBankStatementLine(req.params.id);
+      if (!line) {
+        return res.status(404).json({ message: "Statement line not found" });
+      }
+      const lineDate = new Date(line.transactionDate);
+      const transactions = await storage.getUnreconciledTransactions(
+        new Date(lineDate.getTime() - STATEMENT_REFERENCE_LOOKBACK_DAYS * DAY_MS),
+        new Date(lineDate.getTime() + STATEMENT_REFERENCE_LOOKBACK_DAYS * DAY_MS)
+      );
+      const candidates = rankStatementCandidates({ ...line, transactionDate: lineDate }, transactions).slice(0, 20);
+      res.json(candidates.map(({ transaction, ...ranking }) => ({ ...transaction, ...ranking, daysApart: Math.round(ranking.daysApart * 10) / 10 })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch match candidates" });
+    }
+  });
+
+  app.post("/api/reconciliation/lines/:id/match", requireAuth, requirePermission("transactions.approve"), blockWhileImpersonating, async (req, res) => {
+    const user = req.user as any;
+    try {
+      const parsed = statementLineMatchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const line = await storage.getBankStatementLine(req.params.id);
+      if (!line) {
+        return res.status(404).json({ message: "Statement line not found" });
+      }
+      const day = branchLocalDay(line.transactionDate);
+      if ((await storage.findReconciliationLocks(day, day)).length > 0) {
+        return res.status(409).json({ message: "Kỳ đối soát này đã khóa" });
+      }
+      if (line.status !== "unmatched") {
+        return res.status(409).json({ message: "Dòng sao kê đã được xử lý" });
+      }
+      const transaction = await storage.getTransaction(parsed.data.transactionId);
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      if (transaction.status === "rejected") {
+        return res.status(409).json({ message: "Giao dịch đã bị từ chối" });
+      }
+      if (transactionDirection(transaction) !== (Number(line.amount) > 0 ? "in" : "out")) {
+        return res.status(400).json({ message: "Chiều tiền của giao dịch không khớp với sao kê" });
+      }
+
+      const matched = await reconcileStatementLine(line, transaction, user.id, user.id);
+      if (!matched) {
+        return res.status(409).json({ message: "Giao dịch đã được đối soát với dòng sao kê khác" });
+      }
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "bank_statement_line_matched",
+        entityType: "bank_statement_line",
+        entityId: line.id,
+        oldValue: JSON.stringify({ status: line.status }),
+        newValue: JSON.stringify({ status: matched.status, transactionId: transaction.id, amount: line.amount, transactionAmount: transaction.amount }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.json(matched);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to match statement line" });
     }
   });
 
-  // Cash flow transaction routes
-  // Get cash flow transactions for current user
-  app.get("/api/cash-flow/transactions", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  // Unmatch, ignore (bank fees, interest, transfers between own accounts) or restore a line
+  app.post("/api/reconciliation/lines/:id/:action(unmatch|ignore|restore)", requireAuth, requirePermission("transactions.approve"), blockWhileImpersonating, async (req, res) => {
+    const user = req.user as any;
     try {
-      const user = req.user as any;
-      const transactions = await storage.getCashFlowTransactions(user.id);
-      res.json(transactions);
+      const { action } = req.params;
+      const line = await storage.getBankStatementLine(req.params.id);
+      if (!line) {
+        return res.status(404).json({ message: "Statement line not found" });
+      }
+      const day = branchLocalDay(line.transactionDate);
+      if ((await storage.findReconciliationLocks(day, day)).length > 0) {
+        return res.status(409).json({ message: "Kỳ đối soát này đã khóa" });
+      }
+
+      // Approvals made while matching stay; only the link to the statement is removed
+      const updated = action === "unmatch"
+        ? await storage.unmatchBankStatementLine(line.id)
+        : action === "ignore"
+          ? await storage.updateBankStatementLineStatus(line.id, ["unmatched", "duplicate"], "ignored")
+          : await storage.updateBankStatementLineStatus(line.id, ["ignored", "duplicate"], "unmatched");
+      if (!updated) {
+        return res.status(409).json({ message: "Trạng thái dòng sao kê đã thay đổi, vui lòng tải lại" });
+      }
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: `bank_statement_line_${action}`,
+        entityType: "bank_statement_line",
+        entityId: line.id,
+        oldValue: JSON.stringify({ status: line.status, transactionId: line.transactionId }),
+        newValue: JSON.stringify({ status: updated.status, transactionId: updated.transactionId, note: req.body?.note || null }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.json(updated);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch transactions" });
+      res.status(500).json({ message: "Failed to update statement line" });
     }
   });
 
-  // Get all cash flow transactions (admin only)
-  app.get("/api/cash-flow/transactions/all", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  // Re-runs automatic matching for a period, e.g. after transactions were entered late
+  app.post("/api/reconciliation/auto-match", requireAuth, requirePermission("transactions.approve"), blockWhileImpersonating, async (req, res) => {
     const user = req.user as any;
-    if (!user || !["admin", "finance"].includes(user.role)) {
-      return res.status(403).json({ message: "Admin or finance access required" });
-    }
-    
     try {
-      const transactions = await storage.getCashFlowTransactions();
-      res.json(transactions);
+      const period = parseReconciliationPeriod(req.body.from, req.body.to);
+      if (!period) {
+        return res.status(400).json({ message: "Khoảng thời gian không hợp lệ" });
+      }
+      const lines = await storage.getBankStatementLines(period.from, period.to);
+      const matched = await autoMatchStatementLines(lines, user.id);
+      res.json({ matched });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch all transactions" });
+      res.status(500).json({ message: "Failed to match statement lines" });
     }
   });
 
-  // Create deposit/investment request
-  app.post("/api/cash-flow/deposit", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get("/api/reconciliation/locks", requireAuth, requirePermission("transactions.read"), async (req, res) => {
     try {
-      const user = req.user as any;
-      const { type, amount, description, packageId } = req.body;
-      
-      if (!type || !amount || !description || !packageId) {
-        return res.status(400).json({ message: "Missing required fields" });
-      }
-      
-      const transaction = await storage.createCashFlowTransaction({
-        type,
-        amount: amount.toString(),
-        description,
-        userId: user.id,
-        packageId,
-        status: "pending"
-      });
-      
-      res.json(transaction);
+      const locks = await storage.getReconciliationLocks();
+      res.json(locks);
     } catch (error) {
-      res.status(500).json({ message: "Failed to create deposit request" });
+      res.status(500).json({ message: "Failed to fetch reconciliation locks" });
     }
   });
 
-  // Create withdrawal request
-  app.post("/api/cash-flow/withdraw", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.post("/api/reconciliation/locks", requireAuth, requirePermission("transactions.approve"), blockWhileImpersonating, async (req, res) => {
+    const user = req.user as any;
     try {
-      const user = req.user as any;
-      const { amount, description } = req.body;
-      
-      if (!amount || !description) {
-        return res.status(400).json({ message: "Missing required fields" });
+      const parsed = reconciliationLockRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
       }
-      
-      if (amount < 5000000) {
-        return res.status(400).json({ message: "Minimum withdrawal amount is 5,000,000 VND" });
+      const { periodStart, periodEnd, note } = parsed.data;
+      if ((await storage.findReconciliationLocks(periodStart, periodEnd)).length > 0) {
+        return res.status(409).json({ message: "Khoảng thời gian trùng với kỳ đã khóa" });
       }
-      
-      // Calculate tax (10% if amount > 10M)
-      const taxAmount = storage.calculateWithdrawalTax(amount);
-      
-      const transaction = await storage.createCashFlowTransaction({
-        type: "withdraw",
-        amount: amount.toString(),
-        description,
+
+      const period = parseReconciliationPeriod(periodStart, periodEnd)!;
+      const lines = await storage.getBankStatementLines(period.from, period.to);
+      const lock = await storage.createReconciliationLock({ periodStart, periodEnd, note: note || null, lockedBy: user.id });
+      const unmatchedLines = lines.filter(line => line.status === "unmatched").length;
+
+      await storage.createAuditLog({
         userId: user.id,
-        status: "pending",
-        taxAmount: taxAmount.toString()
+        action: "reconciliation_locked",
+        entityType: "reconciliation_lock",
+        entityId: lock.id,
+        oldValue: null,
+        newValue: JSON.stringify({ periodStart, periodEnd, note: note || null, lineCount: lines.length, unmatchedLines }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
       });
-      
-      res.json(transaction);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to create withdrawal request" });
-    }
-  });
 
-  // Approve transaction (admin only)
-  app.post("/api/cash-flow/transactions/:transactionId/approve", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
-    const user = req.user as any;
-    if (!user || !["admin", "finance"].includes(user.role)) {
-      return res.status(403).json({ message: "Admin or finance access required" });
-    }
-    
-    try {
-      const { transactionId } = req.params;
-      const transaction = await storage.approveCashFlowTransaction(transactionId, user.id);
-      
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
-      }
-      
-      res.json(transaction);
+      res.status(201).json({ ...lock, unmatchedLines });
     } catch (error) {
-      res.status(500).json({ message: "Failed to approve transaction" });
+      res.status(500).json({ message: "Failed to lock reconciliation period" });
     }
   });
 
-  // Reject transaction (admin only)
-  app.post("/api/cash-flow/transactions/:transactionId/reject", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  // Reopening a reconciled period is an exception, so it takes configuration rights
+  app.delete("/api/reconciliation/locks/:id", requireAuth, requirePermission("config.write"), async (req, res) => {
     const user = req.user as any;
-    if (!user || !["admin", "finance"].includes(user.role)) {
-      return res.status(403).json({ message: "Admin or finance access required" });
-    }
-    
     try {
-      const { transactionId } = req.params;
-      const { reason } = req.body;
-      const transaction = await storage.rejectCashFlowTransaction(transactionId, user.id, reason);
-      
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
+      const lock = await storage.deleteReconciliationLock(req.params.id);
+      if (!lock) {
+        return res.status(404).json({ message: "Reconciliation lock not found" });
       }
-      
-      res.json(transaction);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "reconciliation_unlocked",
+        entityType: "reconciliation_lock",
+        entityId: lock.id,
+        oldValue: JSON.stringify(lock),
+        newValue: null,
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ message: "Failed to reject transaction" });
+      res.status(500).json({ message: "Failed to unlock reconciliation period" });
     }
   });
 
@@ -3221,97 +6391,293 @@ app.get("/favicon.svg", (req, res) => {
       const contributions = await storage.getAssetContributions(user.id);
       res.json(contributions);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch asset contributions" });
+      res.status(500).json({ message: "Failed to fetch asset contributions" });
+    }
+  });
+
+  app.post("/api/contributions/asset/:id/approve", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    const user = req.user as any;
+    if (!user || user.role !== "admin") {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+    
+    try {
+      const { id } = req.params;
+      const contribution = await storage.approveAssetContribution(id, user.id);
+      
+      if (!contribution) {
+        return res.status(404).json({ message: "Contribution not found" });
+      }
+      
+      res.json(contribution);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to approve contribution" });
+    }
+  });
+
+  app.post("/api/contributions/asset/:id/reject", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    const user = req.user as any;
+    if (!user || user.role !== "admin") {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+    
+    try {
+      const { id } = req.params;
+      const { reason } = req.body;
+      
+      if (!reason) {
+        return res.status(400).json({ message: "Rejection reason is required" });
+      }
+      
+      const contribution = await storage.rejectAssetContribution(id, user.id, reason);
+      
+      if (!contribution) {
+        return res.status(404).json({ message: "Contribution not found" });
+      }
+      
+      res.json(contribution);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reject contribution" });
+    }
+  });
+
+  // VCA Digital Share routes
+  app.get("/api/pad-token/history", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const user = req.user as any;
+      const history = await storage.getPadTokenHistory(user.id);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch VCA Digital Share history" });
+    }
+  });
+
+  app.get("/api/pad-token/roi-projection", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const user = req.user as any;
+      const periods = [6, 12, 36, 60]; // 6 months, 1 year, 3 years, 5 years
+      const projection = await storage.calculateRoiProjection(user.id, periods);
+      res.json(projection);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to calculate ROI projection" });
+    }
+  });
+
+  // KYC identity verification
+  app.get("/api/kyc", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const record = await storage.getKycRecord(user.id);
+      res.json(record || { status: "not_submitted" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch KYC status" });
+    }
+  });
+
+  app.post("/api/kyc", requireAuth, blockWhileImpersonating, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const parsed = kycSubmissionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const existing = await storage.getKycRecord(user.id);
+      if (existing?.status === "approved") {
+        return res.status(400).json({ message: "KYC has already been approved" });
+      }
+      if (existing?.status === "pending") {
+        return res.status(400).json({ message: "KYC is already awaiting review" });
+      }
+
+      const { documentFront, documentBack, selfie, ...identity } = parsed.data;
+      const folder = `kyc/${user.id}`;
+      const record = await storage.saveKycRecord(user.id, {
+        ...identity,
+        address: identity.address || null,
+        documentFrontPath: await saveDataUrl(folder, "front", documentFront),
+        documentBackPath: documentBack ? await saveDataUrl(folder, "back", documentBack) : null,
+        selfiePath: selfie ? await saveDataUrl(folder, "selfie", selfie) : null,
+        status: "pending",
+        submittedAt: new Date(),
+      });
+
+      res.status(201).json(record);
+    } catch (error) {
+      console.error("KYC submission error:", error);
+      res.status(500).json({ message: "Failed to submit KYC" });
+    }
+  });
+
+  app.get("/api/admin/kyc", requireAuth, requirePermission("kyc.review"), async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : "pending";
+      const queue = await storage.getKycQueue(status);
+      res.json(queue);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch KYC queue" });
+    }
+  });
+
+  app.get("/api/admin/kyc/:id/documents/:kind", requireAuth, requirePermission("kyc.review"), async (req, res) => {
+    try {
+      const record = await storage.getKycRecordById(req.params.id);
+      const documentPaths: Record<string, string | null | undefined> = {
+        front: record?.documentFrontPath,
+        back: record?.documentBackPath,
+        selfie: record?.selfiePath,
+      };
+      const storedPath = documentPaths[req.params.kind];
+      const filePath = storedPath ? resolveUploadPath(storedPath) : undefined;
+      if (!filePath) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      res.sendFile(filePath);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch KYC document" });
+    }
+  });
+
+  app.post("/api/admin/kyc/:id/review", requireAuth, requirePermission("kyc.review"), async (req, res) => {
+    const user = req.user as any;
+    try {
+      const parsed = kycReviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const record = await storage.reviewKycRecord(req.params.id, parsed.data.decision, user.id, parsed.data.note);
+      if (!record) {
+        return res.status(404).json({ message: "Pending KYC record not found" });
+      }
+
+      res.json(record);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to review KYC" });
+    }
+  });
+
+  // Personal data rights (Nghị định 13/2023): data export, consents, account closure
+  app.get("/api/privacy/export", requireAuth, blockWhileImpersonating, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const data = await storage.exportPersonalData(user.id);
+      if (!data) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "personal_data_export",
+        entityType: "user",
+        entityId: user.id,
+        oldValue: null,
+        newValue: null,
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.setHeader("Content-Type", "application/json; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="du-lieu-ca-nhan-${new Date().toISOString().split("T")[0]}.json"`);
+      res.send(JSON.stringify(data, null, 2));
+    } catch (error) {
+      console.error("Personal data export error:", error);
+      res.status(500).json({ message: "Failed to export personal data" });
     }
   });
 
-  app.post("/api/contributions/asset/:id/approve", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
-    const user = req.user as any;
-    if (!user || user.role !== "admin") {
-      return res.status(403).json({ message: "Admin access required" });
-    }
-    
+  app.get("/api/privacy/consents", requireAuth, async (req, res) => {
     try {
-      const { id } = req.params;
-      const contribution = await storage.approveAssetContribution(id, user.id);
-      
-      if (!contribution) {
-        return res.status(404).json({ message: "Contribution not found" });
-      }
-      
-      res.json(contribution);
+      const user = req.user as any;
+      const history = await storage.getConsentRecords(user.id);
+      // History is newest first, so the first row per purpose is the current choice
+      const current = Object.fromEntries(CONSENT_PURPOSES.map(purpose => {
+        const latest = history.find(record => record.purpose === purpose);
+        return [purpose, latest ? latest.granted : false];
+      }));
+      res.json({ current, history });
     } catch (error) {
-      res.status(500).json({ message: "Failed to approve contribution" });
+      res.status(500).json({ message: "Failed to fetch consents" });
     }
   });
 
-  app.post("/api/contributions/asset/:id/reject", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
-    const user = req.user as any;
-    if (!user || user.role !== "admin") {
-      return res.status(403).json({ message: "Admin access required" });
-    }
-    
+  app.post("/api/privacy/consents", requireAuth, blockWhileImpersonating, async (req, res) => {
     try {
-      const { id } = req.params;
-      const { reason } = req.body;
-      
-      if (!reason) {
-        return res.status(400).json({ message: "Rejection reason is required" });
-      }
-      
-      const contribution = await storage.rejectAssetContribution(id, user.id, reason);
-      
-      if (!contribution) {
-        return res.status(404).json({ message: "Contribution not found" });
+      const user = req.user as any;
+      const parsed = consentUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
       }
-      
-      res.json(contribution);
+
+      const record = await storage.recordConsent({
+        userId: user.id,
+        purpose: parsed.data.purpose,
+        granted: parsed.data.granted,
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+      res.status(201).json(record);
     } catch (error) {
-      res.status(500).json({ message: "Failed to reject contribution" });
+      res.status(500).json({ message: "Failed to record consent" });
     }
   });
 
-  // VCA Digital Share routes
-  app.get("/api/pad-token/history", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.get("/api/privacy/closure", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
-      const history = await storage.getPadTokenHistory(user.id);
-      res.json(history);
+      const blockers = await storage.getAccountClosureBlockers(user.id);
+      res.json({ canClose: blockers.length === 0, blockers });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch VCA Digital Share history" });
+      res.status(500).json({ message: "Failed to check account closure" });
     }
   });
 
-  app.get("/api/pad-token/roi-projection", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.post("/api/privacy/close-account", requireAuth, blockWhileImpersonating, async (req, res, next) => {
     try {
-      const user = req.user as any;
-      const periods = [6, 12, 36, 60]; // 6 months, 1 year, 3 years, 5 years
-      const projection = await storage.calculateRoiProjection(user.id, periods);
-      res.json(projection);
+      const sessionUser = req.user as any;
+      const parsed = accountClosureSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const user = await storage.getUser(sessionUser.id);
+      if (!user || !(await comparePasswords(parsed.data.password, user.password))) {
+        return res.status(401).json({ message: "Mật khẩu không đúng" });
+      }
+      if (user.role === "admin") {
+        return res.status(400).json({ message: "Tài khoản quản trị không thể tự đóng" });
+      }
+
+      const blockers = await storage.getAccountClosureBlockers(user.id);
+      if (blockers.length > 0) {
+        return res.status(409).json({ message: "Chưa thể đóng tài khoản", blockers });
+      }
+
+      await storage.closeAccount(user.id, parsed.data.reason);
+      await clearUserThrottles(user.id);
+
+      req.logout((err) => {
+        if (err) return next(err);
+        res.json({ success: true, message: "Tài khoản đã được đóng và dữ liệu cá nhân đã được ẩn danh" });
+      });
     } catch (error) {
-      res.status(500).json({ message: "Failed to calculate ROI projection" });
+      console.error("Account closure error:", error);
+      res.status(500).json({ message: "Failed to close account" });
     }
   });
 
   // Admin routes - only accessible to admin users
   
   // Get all users (admin only)
-  app.get("/api/admin/users", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
-    const user = req.user as any;
-    if (!user || user.role !== "admin") {
-      return res.status(403).json({ message: "Admin access required" });
-    }
-    
+  app.get("/api/admin/users", requireAuth, requirePermission("users.read"), async (req, res) => {
     try {
       const users = await storage.getAllUsers();
       res.json(users);
@@ -3321,14 +6687,7 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Get all roles (admin only)
-  app.get("/api/admin/roles", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
-    const user = req.user as any;
-    if (!user || user.role !== "admin") {
-      return res.status(403).json({ message: "Admin access required" });
-    }
-    
+  app.get("/api/admin/roles", requireAuth, requirePermission("users.read"), async (req, res) => {
     try {
       const roles = await storage.getAllRoles();
       res.json(roles);
@@ -3337,15 +6696,38 @@ app.get("/favicon.svg", (req, res) => {
     }
   });
 
-  // Get user roles (admin only)
-  app.get("/api/admin/users/:userId/roles", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  // Permission catalogue and role -> permission matrix
+  app.get("/api/admin/permissions", requireAuth, requirePermission("roles.manage"), async (req, res) => {
+    try {
+      const roles = await storage.getAllRoles();
+      res.json({ permissions: PERMISSIONS, roles });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch permissions" });
+    }
+  });
+
+  app.put("/api/admin/roles/:roleId/permissions", requireAuth, requirePermission("roles.manage"), async (req, res) => {
     const user = req.user as any;
-    if (!user || user.role !== "admin") {
-      return res.status(403).json({ message: "Admin access required" });
+    try {
+      const { roleId } = req.params;
+      const validationResult = rolePermissionsUpdateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid permissions", errors: validationResult.error.issues });
+      }
+
+      const role = await storage.updateRolePermissions(roleId, validationResult.data.permissions, user.id);
+      if (!role) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+
+      res.json(role);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update role permissions" });
     }
-    
+  });
+
+  // Get user roles (admin only)
+  app.get("/api/admin/users/:userId/roles", requireAuth, requirePermission("users.read"), async (req, res) => {
     try {
       const { userId } = req.params;
       const userRoles = await storage.getUserRoles(userId);
@@ -3356,14 +6738,8 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Assign multiple roles to user (admin only)
-  app.post("/api/admin/users/:userId/roles", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.post("/api/admin/users/:userId/roles", requireAuth, requirePermission("users.manage"), async (req, res) => {
     const user = req.user as any;
-    if (!user || user.role !== "admin") {
-      return res.status(403).json({ message: "Admin access required" });
-    }
-    
     try {
       const { userId } = req.params;
       const { roleIds } = req.body;
@@ -3377,6 +6753,9 @@ app.get("/favicon.svg", (req, res) => {
       if (!updatedUser) {
         return res.status(404).json({ message: "User not found" });
       }
+
+      // Tokens carry the old roles; force the user to sign in again
+      await storage.revokeUserTokens(userId);
       
       res.json(updatedUser);
     } catch (error) {
@@ -3384,15 +6763,165 @@ app.get("/favicon.svg", (req, res) => {
     }
   });
 
-  // Update user VCA Digital Share (admin only)
-  app.post("/api/admin/users/:userId/pad-token", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  // Branches managed by a user (branch role)
+  app.get("/api/admin/users/:userId/branches", requireAuth, requirePermission("users.read"), async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const branchIds = await storage.getUserBranchIds(userId);
+      res.json({ branchIds });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch user branches" });
+    }
+  });
+
+  app.post("/api/admin/users/:userId/branches", requireAuth, requirePermission("users.manage"), async (req, res) => {
     const user = req.user as any;
-    if (!user || user.role !== "admin") {
-      return res.status(403).json({ message: "Admin access required" });
+    try {
+      const { userId } = req.params;
+      const { branchIds } = req.body;
+
+      if (!Array.isArray(branchIds) || branchIds.some(id => typeof id !== "string")) {
+        return res.status(400).json({ message: "branchIds must be an array" });
+      }
+
+      const target = await storage.getUser(userId);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const assigned = await storage.assignUserBranches(userId, branchIds, user.id);
+      res.json({ branchIds: assigned });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to assign user branches" });
     }
-    
+  });
+
+  // "Act as user" impersonation - session based, see applyImpersonation in auth.ts
+  app.get("/api/impersonation", requireAuth, async (req, res) => {
+    const impersonation = req.session?.impersonation;
+    if (!req.impersonator || !impersonation) {
+      return res.json({ active: false });
+    }
+
+    res.json({
+      active: true,
+      startedAt: impersonation.startedAt,
+      admin: { id: req.impersonator.id, name: req.impersonator.name, email: req.impersonator.email },
+      user: { id: req.user!.id, name: req.user!.name, email: req.user!.email, role: req.user!.role },
+    });
+  });
+
+  app.post("/api/admin/users/:userId/impersonate", requireAuth, requirePermission("users.impersonate"), async (req, res) => {
+    const admin = req.user as any;
+    try {
+      const { userId } = req.params;
+
+      // Only a cookie session can carry the impersonation state
+      if ((req.session as any)?.passport?.user !== admin.id) {
+        return res.status(400).json({ message: "Impersonation requires a session login" });
+      }
+      if (userId === admin.id) {
+        return res.status(400).json({ message: "Cannot impersonate yourself" });
+      }
+
+      const target = await storage.getUser(userId);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (target.role === "admin") {
+        return res.status(403).json({ message: "Cannot impersonate another admin" });
+      }
+
+      req.session.impersonation = { adminId: admin.id, userId: target.id, startedAt: new Date().toISOString() };
+
+      await storage.createAuditLog({
+        userId: admin.id,
+        action: "impersonation_start",
+        entityType: "user",
+        entityId: target.id,
+        oldValue: null,
+        newValue: JSON.stringify({ adminId: admin.id, impersonatedUserId: target.id }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.json({ active: true, user: { id: target.id, name: target.name, email: target.email, role: target.role } });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to start impersonation" });
+    }
+  });
+
+  app.post("/api/impersonation/stop", requireAuth, async (req, res) => {
+    const impersonation = req.session?.impersonation;
+    if (!req.impersonator || !impersonation) {
+      return res.status(400).json({ message: "No active impersonation" });
+    }
+
+    try {
+      delete req.session.impersonation;
+
+      await storage.createAuditLog({
+        userId: impersonation.adminId,
+        action: "impersonation_end",
+        entityType: "user",
+        entityId: impersonation.userId,
+        oldValue: null,
+        newValue: JSON.stringify({ adminId: impersonation.adminId, impersonatedUserId: impersonation.userId, startedAt: impersonation.startedAt }),
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.json({ active: false });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to stop impersonation" });
+    }
+  });
+
+  // Accounts currently locked out after repeated failed sign-ins
+  app.get("/api/admin/login-locks", requireAuth, requirePermission("users.read"), async (req, res) => {
+    try {
+      const locks = await storage.getLockedLoginThrottles("user:");
+      res.json(locks.map(lock => ({
+        userId: lock.key.slice("user:".length),
+        failures: lock.failures,
+        lockedUntil: lock.lockedUntil,
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch locked accounts" });
+    }
+  });
+
+  app.post("/api/admin/users/:userId/unlock", requireAuth, requirePermission("users.manage"), async (req, res) => {
+    const user = req.user as any;
+    try {
+      const { userId } = req.params;
+      const target = await storage.getUser(userId);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await clearUserThrottles(userId);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "account_unlock",
+        entityType: "user",
+        entityId: userId,
+        oldValue: null,
+        newValue: null,
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to unlock account" });
+    }
+  });
+
+  // Update user VCA Digital Share (admin only)
+  app.post("/api/admin/users/:userId/pad-token", requireAuth, requirePermission("users.balance"), async (req, res) => {
+    const user = req.user as any;
     try {
       const { userId } = req.params;
       const { vcaDigitalShare, reason } = req.body;
@@ -3414,14 +6943,7 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Get user VCA Digital Share history (admin only)
-  app.get("/api/admin/users/:userId/pad-token-history", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
-    const user = req.user as any;
-    if (!user || user.role !== "admin") {
-      return res.status(403).json({ message: "Admin access required" });
-    }
-    
+  app.get("/api/admin/users/:userId/pad-token-history", requireAuth, requirePermission("users.read"), async (req, res) => {
     try {
       const { userId } = req.params;
       const history = await storage.getUserPadTokenHistory(userId);
@@ -3432,14 +6954,8 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Update user role (admin only) - Legacy endpoint for backward compatibility
-  app.post("/api/admin/users/:userId/role", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.post("/api/admin/users/:userId/role", requireAuth, requirePermission("users.manage"), async (req, res) => {
     const user = req.user as any;
-    if (!user || user.role !== "admin") {
-      return res.status(403).json({ message: "Admin access required" });
-    }
-    
     try {
       const { userId } = req.params;
       const { role } = req.body;
@@ -3453,6 +6969,9 @@ app.get("/favicon.svg", (req, res) => {
       if (!updatedUser) {
         return res.status(404).json({ message: "User not found" });
       }
+
+      // Tokens carry the old role; force the user to sign in again
+      await storage.revokeUserTokens(userId);
       
       res.json(updatedUser);
     } catch (error) {
@@ -3461,14 +6980,7 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Get pending transactions (admin only)
-  app.get("/api/admin/transactions/pending", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
-    const user = req.user as any;
-    if (!user || !["admin", "accountant"].includes(user.role)) {
-      return res.status(403).json({ message: "Admin or accountant access required" });
-    }
-    
+  app.get("/api/admin/transactions/pending", requireAuth, requirePermission("transactions.read"), async (req, res) => {
     try {
       const transactions = await storage.getPendingTransactions();
       res.json(transactions);
@@ -3478,14 +6990,7 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Get system configurations (admin only)
-  app.get("/api/admin/configs", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
-    const user = req.user as any;
-    if (!user || user.role !== "admin") {
-      return res.status(403).json({ message: "Admin access required" });
-    }
-    
+  app.get("/api/admin/configs", requireAuth, requirePermission("config.read"), async (req, res) => {
     try {
       const configs = await storage.getSystemConfigs();
       res.json(configs);
@@ -3495,14 +7000,8 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Update system configuration (admin only)
-  app.post("/api/admin/configs/:configKey", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.post("/api/admin/configs/:configKey", requireAuth, requirePermission("config.write"), async (req, res) => {
     const user = req.user as any;
-    if (!user || user.role !== "admin") {
-      return res.status(403).json({ message: "Admin access required" });
-    }
-    
     try {
       const { configKey } = req.params;
       const { configValue, description } = req.body;
@@ -3519,14 +7018,7 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Get audit logs (admin only)
-  app.get("/api/admin/audit-logs", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
-    const user = req.user as any;
-    if (!user || user.role !== "admin") {
-      return res.status(403).json({ message: "Admin access required" });
-    }
-    
+  app.get("/api/admin/audit-logs", requireAuth, requirePermission("audit.read"), async (req, res) => {
     try {
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
       const logs = await storage.getAuditLogs(limit);
@@ -3537,14 +7029,8 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Export VCA Digital Share and benefits report (admin only)
-  app.post("/api/admin/reports/pad-token-benefits", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.post("/api/admin/reports/pad-token-benefits", requireAuth, requirePermission("reports.export"), async (req, res) => {
     const user = req.user as any;
-    if (!user || !["admin", "accountant"].includes(user.role)) {
-      return res.status(403).json({ message: "Admin or accountant access required" });
-    }
-    
     try {
       const { format = "pdf", dateFrom, dateTo } = req.body;
       
@@ -3569,14 +7055,8 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Export roles and permissions report (admin only)
-  app.post("/api/admin/reports/roles-permissions", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.post("/api/admin/reports/roles-permissions", requireAuth, requirePermission("reports.export"), async (req, res) => {
     const user = req.user as any;
-    if (!user || !["admin", "accountant"].includes(user.role)) {
-      return res.status(403).json({ message: "Admin or accountant access required" });
-    }
-    
     try {
       const { format = "pdf" } = req.body;
       
@@ -3601,14 +7081,8 @@ app.get("/favicon.svg", (req, res) => {
   });
 
   // Export report data (admin only)
-  app.post("/api/admin/reports/export", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.post("/api/admin/reports/export", requireAuth, requirePermission("reports.export"), async (req, res) => {
     const user = req.user as any;
-    if (!user || !["admin", "accountant"].includes(user.role)) {
-      return res.status(403).json({ message: "Admin or accountant access required" });
-    }
-    
     try {
       const { reportType, dateFrom, dateTo } = req.body;
       
@@ -0,0 +1,116 @@
+import type { CheckIn, CardSessionAdjustment } from "@shared/schema";
+
+// A card's session ledger: every check-in (one session each) and every adjustment, oldest first,
+// with the balance after each entry. Balances are worked back from the card's current remaining
+// sessions, so the opening balance is whatever the card was issued with.
+
+export interface SessionLedgerEntry {
+  id: string;
+  type: "check_in" | "adjustment";
+  date: Date | null;
+  delta: number;
+  balanceAfter: number;
+  kind: string;
+  branchName: string | null;
+  sessionType: string | null;
+  practitionerName: string | null;
+  memberName: string | null;
+  notes: string | null;
+  createdByName: string | null;
+}
+
+export interface SessionLedger {
+  openingBalance: number;
+  remainingSessions: number;
+  entries: SessionLedgerEntry[];
+}
+
+const KIND_LABELS: Record<string, string> = {
+  check_in: "Check-in",
+  bonus: "Tặng thêm lượt",
+  correction: "Điều chỉnh",
+  renewal: "Gia hạn thẻ",
+  upgrade: "Nâng hạng thẻ",
+  forfeit: "Mất lượt",
+  refund: "Hoàn tiền thẻ",
+  manual: "Cập nhật thủ công",
+};
+
+export function buildSessionLedger(
+  remainingSessions: number,
+  checkIns: (CheckIn & { branchName: string | null; practitionerName: string | null; memberName: string | null })[],
+  adjustments: (CardSessionAdjustment & { createdByName: string | null })[],
+): SessionLedger {
+  const entries: SessionLedgerEntry[] = [
+    ...checkIns.map(checkIn => ({
+      id: checkIn.id,
+      type: "check_in" as const,
+      date: checkIn.checkInDate ? new Date(checkIn.checkInDate) : null,
+      delta: -1,
+      balanceAfter: 0,
+      kind: "check_in",
+      branchName: checkIn.branchName,
+      sessionType: checkIn.sessionType,
+      practitionerName: checkIn.practitionerName,
+      memberName: checkIn.memberName,
+      notes: checkIn.notes,
+      createdByName: null,
+    })),
+    ...adjustments.map(adjustment => ({
+      id: adjustment.id,
+      type: "adjustment" as const,
+      date: adjustment.createdAt ? new Date(adjustment.createdAt) : null,
+      delta: adjustment.delta,
+      balanceAfter: 0,
+      kind: adjustment.kind,
+      branchName: null,
+      sessionType: null,
+      practitionerName: null,
+      memberName: null,
+      notes: adjustment.reason,
+      createdByName: adjustment.createdByName,
+    })),
+  ].sort((a, b) => (a.date?.getTime() || 0) - (b.date?.getTime() || 0));
+
+  const openingBalance = remainingSessions - entries.reduce((sum, entry) => sum + entry.delta, 0);
+  let balance = openingBalance;
+  for (const entry of entries) {
+    balance += entry.delta;
+    entry.balanceAfter = balance;
+  }
+  return { openingBalance, remainingSessions, entries };
+}
+
+function csvCell(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatDateTime(date: Date | null): string {
+  return date ? date.toLocaleString("vi-VN", { timeZone: "Asia/Ho_Chi_Minh" }) : "";
+}
+
+// UTF-8 with a byte order mark so Excel shows the Vietnamese text correctly
+export function renderSessionLedgerCsv(cardNumber: string, ledger: SessionLedger): string {
+  const rows: (string | number | null)[][] = [
+    ["Thẻ", cardNumber],
+    ["Số dư đầu kỳ", ledger.openingBalance],
+    [],
+    ["Thời gian", "Loại", "Thay đổi", "Số dư", "Chi nhánh", "Dịch vụ", "Chuyên viên", "Thành viên", "Người thực hiện", "Ghi chú"],
+    ...ledger.entries.map(entry => [
+      formatDateTime(entry.date),
+      KIND_LABELS[entry.kind] || entry.kind,
+      entry.delta > 0 ? `+${entry.delta}` : entry.delta,
+      entry.balanceAfter,
+      entry.branchName,
+      entry.sessionType,
+      entry.practitionerName,
+      entry.memberName,
+      entry.createdByName,
+      entry.notes,
+    ]),
+    [],
+    ["Số dư hiện tại", ledger.remainingSessions],
+  ];
+  return "\uFEFF" + rows.map(row => row.map(csvCell).join(",")).join("\r\n");
+}
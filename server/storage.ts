@@ -1,6 +1,6 @@
 import { 
   type User, type InsertUser,
-  type Card, type InsertCard,
+  type Card, type InsertCard, type CheckIn,
   type Branch, type InsertBranch,
   type Staff, type InsertStaff,
   type Transaction, type InsertTransaction,
@@ -207,7 +207,7 @@ export interface IStorage {
   checkMaxoutLimit(userId: string): Promise<{ reached: boolean; limit: number; current: number }>;
   
   // QR check-in operations
-  createQrCheckin(checkin: { cardId: string; sessionType: string; notes?: string }): Promise<void>;
+  createQrCheckin(checkin: { cardId: string; sessionType: string; notes?: string; branchId?: string }): Promise<void>;
   updateCardSessions(cardId: string, decrement: number): Promise<Card | undefined>;
   
   // Enhanced withdrawal operations  
@@ -224,6 +224,7 @@ export interface IStorage {
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private cards: Map<string, Card>;
+  private checkIns: Map<string, CheckIn>;
   private branches: Map<string, Branch>;
   private staff: Map<string, Staff>;
   private transactions: Map<string, Transaction>;
@@ -245,6 +246,7 @@ export class MemStorage implements IStorage {
   constructor() {
     this.users = new Map();
     this.cards = new Map();
+    this.checkIns = new Map();
     this.branches = new Map();
     this.staff = new Map();
     this.transactions = new Map();
@@ -282,6 +284,7 @@ export class MemStorage implements IStorage {
         id: 'admin-default-001',
         name: 'Admin',
         email: 'admin@phuan.com',
+        phone: null,
         password: hashedPassword,
         role: 'admin',
         status: 'active',
@@ -289,7 +292,15 @@ export class MemStorage implements IStorage {
         businessTier: null,
         investmentAmount: '0',
         totalShares: '0',
+        vcaDigitalShare: '0',
         maxoutReached: false,
+        inheritanceRight: false,
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorBackupCodes: null,
+        twoFactorLastStep: null,
+        tokensRevokedAt: null,
+        closedAt: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -1010,29 +1021,29 @@ export class MemStorage implements IStorage {
   }
 
   // QR check-in operations
-  async createQrCheckin(checkin: { cardId: string; sessionType: string; notes?: string }): Promise<void> {
+  // Every check-in uses one session and is kept as a check-in row for the card's session ledger
+  async createQrCheckin(checkin: { cardId: string; sessionType: string; notes?: string; branchId?: string }): Promise<void> {
     const card = await this.getCard(checkin.cardId);
     if (!card) return;
 
-    // Create transaction record for QR check-in
-    await this.createTransaction({
-      userId: card.ownerId || "",
-      amount: "0",
-      type: "qr_checkin",
-      description: `QR Check-in: ${checkin.sessionType} ${checkin.notes || ""}`,
-      status: "approved",
-      approvedBy: "system",
+    const id = randomUUID();
+    this.checkIns.set(id, {
+      id,
+      cardId: checkin.cardId,
+      branchId: checkin.branchId || null,
+      checkInDate: new Date(),
+      sessionType: checkin.sessionType,
+      notes: checkin.notes || null,
+      scannedBy: null,
+      qrNonce: null,
+      cardMemberId: null,
+      practitionerId: null,
     });
 
-    // Update card's last check-in time
     await this.updateCard(checkin.cardId, {
       lastCheckIn: new Date(),
     });
-
-    // Decrement remaining sessions for certain session types
-    if (checkin.sessionType === 'premium_session') {
-      await this.updateCardSessions(checkin.cardId, 1);
-    }
+    await this.updateCardSessions(checkin.cardId, 1);
   }
 
   async updateCardSessions(cardId: string, decrement: number): Promise<Card | undefined> {
@@ -1342,7 +1353,6 @@ export class MemStorage implements IStorage {
       status: insertCard.status || "active",
       ownerId: insertCard.ownerId || null,
       remainingSessions: insertCard.remainingSessions || 0,
-      shareHistory: insertCard.shareHistory || "",
       connectionCommission: insertCard.connectionCommission || "8.0",
       vipSupport: insertCard.vipSupport || "5.0",
       currentShares: insertCard.currentShares || "0",
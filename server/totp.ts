@@ -0,0 +1,97 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// RFC 6238 TOTP (SHA-1, 6 digits, 30s step) - compatible with Google Authenticator, Authy...
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function hotp(secret: Buffer, counter: number): string {
+  const counterBuf = Buffer.alloc(8);
+  counterBuf.writeBigUInt64BE(BigInt(counter));
+
+  const digest = createHmac("sha1", secret).update(counterBuf).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = (digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return binary.toString().padStart(TOTP_DIGITS, "0");
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function generateTotpCode(secret: string, time: number = Date.now()): string {
+  return hotp(base32Decode(secret), Math.floor(time / 1000 / TOTP_STEP_SECONDS));
+}
+
+// Accepts codes from the previous/next step to tolerate clock drift
+export function verifyTotpCode(secret: string, code: string, window: number = 1): boolean {
+  return matchTotpStep(secret, code, window) !== null;
+}
+
+// Time step the code was generated for, or null when it matches none within the window.
+// Callers record the step so the same code cannot be used twice.
+export function matchTotpStep(secret: string, code: string, window: number = 1): number | null {
+  if (!/^[0-9]{6}$/.test(code)) return null;
+
+  const key = base32Decode(secret);
+  const counter = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+  for (let offset = -window; offset <= window; offset++) {
+    const expected = hotp(key, counter + offset);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return counter + offset;
+    }
+  }
+  return null;
+}
+
+export function buildOtpAuthUrl(secret: string, accountName: string, issuer: string = "VCare Global"): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+}
+
+// One-time backup codes shown once at enrolment, e.g. "4F7K-92QD"
+export function generateBackupCodes(count: number = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = base32Encode(randomBytes(5)).slice(0, 8);
+    return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+  });
+}
@@ -0,0 +1,41 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+
+// Private uploads (KYC documents...) - kept outside the public/static folders
+export const UPLOADS_DIR = path.resolve(process.env.UPLOADS_DIR || "uploads");
+
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "application/pdf": "pdf",
+};
+
+// Decodes a base64 data URL and writes it under UPLOADS_DIR/<folder>.
+// Returns the path relative to UPLOADS_DIR, which is what gets stored in the database.
+export async function saveDataUrl(folder: string, name: string, dataUrl: string): Promise<string> {
+  const match = /^data:([\w/+.-]+);base64,(.*)$/.exec(dataUrl);
+  const extension = match ? EXTENSIONS[match[1]] : undefined;
+  if (!match || !extension) {
+    throw new Error("Unsupported document type");
+  }
+
+  const content = Buffer.from(match[2], "base64");
+  if (content.length === 0 || content.length > MAX_UPLOAD_BYTES) {
+    throw new Error("Document must be between 1 byte and 5MB");
+  }
+
+  const relativePath = path.join(folder, `${name}-${randomUUID()}.${extension}`);
+  const absolutePath = path.join(UPLOADS_DIR, relativePath);
+  await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+  await fs.writeFile(absolutePath, content);
+  return relativePath;
+}
+
+// Resolves a stored relative path, refusing anything that escapes UPLOADS_DIR
+export function resolveUploadPath(relativePath: string): string | undefined {
+  const absolutePath = path.resolve(UPLOADS_DIR, relativePath);
+  return absolutePath.startsWith(UPLOADS_DIR + path.sep) ? absolutePath : undefined;
+}
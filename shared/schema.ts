@@ -6,10 +6,11 @@ import { z } from "zod";
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   email: text("email").notNull().unique(),
+  phone: text("phone").unique(), // Số điện thoại - dùng cho đăng nhập và khôi phục mật khẩu
   password: text("password").notNull(),
   role: text("role").notNull(), // admin, accountant, branch, customer, staff, shareholder
   name: text("name").notNull(),
-  status: text("status").notNull().default("active"), // active, inactive
+  status: text("status").notNull().default("active"), // active, inactive, closed
   refCode: text("ref_code").unique(), // Referral code for tracking
   businessTier: text("business_tier"), // founder, angel, branch, card_customer, staff, affiliate
   investmentAmount: decimal("investment_amount", { precision: 15, scale: 2 }).default("0"), // Total investment for tier determination
@@ -17,6 +18,12 @@ export const users = pgTable("users", {
   vcaDigitalShare: decimal("vca_digital_share", { precision: 15, scale: 2 }).default("0"), // VCA Digital Share balance (100 VCA = 1M VND)
   maxoutReached: boolean("maxout_reached").default(false), // Whether user reached maxout limit
   inheritanceRight: boolean("inheritance_right").default(false), // Quyền kế thừa cho vai trò Sáng lập
+  twoFactorEnabled: boolean("two_factor_enabled").default(false), // TOTP second login step
+  twoFactorSecret: text("two_factor_secret"), // Base32 TOTP secret (pending until enabled)
+  twoFactorBackupCodes: text("two_factor_backup_codes"), // JSON array of hashed one-time backup codes
+  twoFactorLastStep: integer("two_factor_last_step"), // TOTP time step of the last accepted code; each code works once
+  tokensRevokedAt: timestamp("tokens_revoked_at"), // Access tokens issued before this moment are rejected
+  closedAt: timestamp("closed_at"), // Set when the member closes the account and personal data is anonymised
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -26,6 +33,7 @@ export const roles = pgTable("roles", {
   name: text("name").notNull().unique(), // sang_lap, thien_than, phat_trien, dong_hanh, khach_hang, gop_tai_san, sweat_equity
   displayName: text("display_name").notNull(), // Sáng lập, Thiên thần, Phát triển, Đồng hành, Khách hàng, Góp tài sản, Sweat Equity
   description: text("description"),
+  permissions: text("permissions").array().notNull().default(sql`ARRAY[]::text[]`), // Keys from PERMISSIONS, e.g. transactions.approve
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -59,11 +67,13 @@ export const cards = pgTable("cards", {
   cardType: text("card_type").notNull(), // Standard, Silver, Gold, Platinum, Diamond
   customerName: text("customer_name").notNull(),
   ownerId: varchar("owner_id").references(() => users.id),
-  status: text("status").notNull().default("active"), // active, inactive, shared, near_maxout, stopped
+  branchId: varchar("branch_id").references(() => branches.id), // Issuing branch, null for online / head office
+  status: text("status").notNull().default("active"), // active, inactive, pending, shared, near_maxout, stopped, expired, upgraded, cancelled
   price: decimal("price", { precision: 15, scale: 2 }).notNull(), // Card price in VND
   remainingSessions: integer("remaining_sessions").default(0),
+  reservedSessions: integer("reserved_sessions").notNull().default(0), // Part of remainingSessions held by booked appointments
+  sharedSessions: integer("shared_sessions").notNull().default(0), // Part of remainingSessions allocated to family members and not used yet
   consultationSessions: integer("consultation_sessions").default(12), // 12-24 lượt tư vấn sức khỏe/2 năm
-  shareHistory: text("share_history").default(""), // JSON string of share records
   connectionCommission: decimal("connection_commission", { precision: 5, scale: 2 }).default("8.0"), // 8%
   vipSupport: decimal("vip_support", { precision: 5, scale: 2 }).default("5.0"), // 5%
   profitSharePercentage: decimal("profit_share_percentage", { precision: 5, scale: 2 }).default("49.0"), // 49% lợi tức sau thuế
@@ -71,20 +81,45 @@ export const cards = pgTable("cards", {
   currentShares: decimal("current_shares", { precision: 15, scale: 2 }).default("0"), // Current share value
   maxoutLimit: decimal("maxout_limit", { precision: 15, scale: 2 }).default("0"), // 210% of card price
   issuedDate: timestamp("issued_date").defaultNow(),
+  expiresAt: timestamp("expires_at"), // Set on activation from the product's validity, extended by renewals
+  renewalNoticeSentAt: timestamp("renewal_notice_sent_at"), // Expiry reminder already sent for the current term
   lastCheckIn: timestamp("last_check_in"),
 });
 
+// Card product catalogue - the single source of card prices, sessions and benefits.
+// cards.cardType holds the product name.
+export const cardProducts = pgTable("card_products", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(), // Standard, Silver, Gold, Platinum, Diamond
+  description: text("description"),
+  price: decimal("price", { precision: 15, scale: 2 }).notNull(), // Giá thẻ VND
+  consultationSessions: integer("consultation_sessions").notNull(), // Lượt tư vấn trong thời hạn thẻ
+  validityMonths: integer("validity_months").notNull().default(24), // Thời hạn thẻ
+  vcaDigitalShare: decimal("vca_digital_share", { precision: 15, scale: 2 }).notNull().default("0"), // VCA Digital Share granted on purchase
+  maxoutMultiplier: decimal("maxout_multiplier", { precision: 5, scale: 2 }).notNull().default("2.1"), // Maxout limit = price x multiplier
+  sortOrder: integer("sort_order").default(0),
+  isActive: boolean("is_active").notNull().default(true), // Inactive products can no longer be sold
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const checkIns = pgTable("check_ins", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   cardId: varchar("card_id").references(() => cards.id),
+  branchId: varchar("branch_id").references(() => branches.id), // Branch where the card was used
   checkInDate: timestamp("check_in_date").defaultNow(),
   sessionType: text("session_type").notNull(), // therapy, consultation, etc
   notes: text("notes"),
+  scannedBy: varchar("scanned_by").references(() => users.id), // Branch staff who scanned the member's code
+  qrNonce: text("qr_nonce").unique(), // "<cardId>:<holder>:<step>" of the signed code used, prevents replay
+  cardMemberId: varchar("card_member_id").references(() => cardMembers.id), // Family member whose allocation was debited; null for the owner
+  practitionerId: varchar("practitioner_id").references(() => staff.id), // Staff member who ran the session
 });
 
 export const branches = pgTable("branches", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
+  code: text("code").unique(), // Short code used in card numbers, e.g. HN, HCM1
   address: text("address").notNull(),
   monthlyRevenue: decimal("monthly_revenue", { precision: 15, scale: 2 }).default("0"),
   staffCount: integer("staff_count").default(0),
@@ -93,6 +128,14 @@ export const branches = pgTable("branches", {
   vcaDigitalShare: decimal("vca_digital_share", { precision: 15, scale: 2 }).default("20000"), // VCA Digital Share (200 shares = 20,000 VCA for early franchise)
 });
 
+// Branches managed by a user with the "branch" role
+export const userBranches = pgTable("user_branches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  branchId: varchar("branch_id").references(() => branches.id).notNull(),
+  assignedAt: timestamp("assigned_at").defaultNow(),
+});
+
 export const staff = pgTable("staff", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -107,7 +150,7 @@ export const staff = pgTable("staff", {
 
 export const transactions = pgTable("transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  type: text("type").notNull(), // income, expense, deposit, invest, withdraw, share_distribution
+  type: text("type").notNull(), // income, expense, deposit, invest, withdraw, share_distribution, refund
   amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
   description: text("description").notNull(),
   contributionType: text("contribution_type"), // cash (tiền mặt), asset (tài sản), effort (công sức), card (thẻ)
@@ -311,6 +354,345 @@ export const businessTierConfigs = pgTable("business_tier_configs", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Password reset codes - one-time codes delivered by email/SMS
+export const passwordResetCodes = pgTable("password_reset_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  codeHash: text("code_hash").notNull(), // scrypt hash, the plain code is never stored
+  channel: text("channel").notNull(), // email, sms
+  attempts: integer("attempts").default(0), // Failed verification attempts
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // Set when consumed or superseded by a newer code
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Refresh tokens - opaque, stored hashed per device and rotated on every use
+export const refreshTokens = pgTable("refresh_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  familyId: varchar("family_id").notNull(), // Every rotation of one login shares the family id
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the opaque token
+  deviceName: text("device_name"), // Client-supplied label or User-Agent
+  ipAddress: text("ip_address"),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"), // Set when rotated, logged out or revoked
+  replacedBy: varchar("replaced_by"), // Token issued when this one was rotated
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Failed login / reset-code attempts per throttle key ("user:<id>", "login:<email>", "ip:<addr>"...)
+export const loginThrottles = pgTable("login_throttles", {
+  key: text("key").primaryKey(),
+  failures: integer("failures").notNull().default(0), // Failures in the current window
+  lastFailureAt: timestamp("last_failure_at"),
+  lockedUntil: timestamp("locked_until"), // Set once failures reach the lockout threshold
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Responses to requests sent with an Idempotency-Key header. A retried or double-submitted
+// request with the same key gets the first response back instead of being processed again.
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  key: text("key").primaryKey(), // "<caller>:<METHOD> <path>:<Idempotency-Key>"
+  requestHash: text("request_hash").notNull(), // sha256 of the request body; the key cannot be reused for another body
+  responseStatus: integer("response_status"), // Null while the first request is still being processed
+  responseBody: text("response_body"), // JSON sent for the first request
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// KYC identity verification - one record per user, re-submitted after a rejection
+export const kycRecords = pgTable("kyc_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull().unique(),
+  idType: text("id_type").notNull().default("cccd"), // cmnd, cccd, passport
+  idNumber: text("id_number").notNull(), // Số CMND/CCCD/Hộ chiếu
+  fullName: text("full_name").notNull(),
+  birthDate: text("birth_date"), // YYYY-MM-DD
+  address: text("address"),
+  documentFrontPath: text("document_front_path"), // Ảnh mặt trước giấy tờ
+  documentBackPath: text("document_back_path"), // Ảnh mặt sau giấy tờ
+  selfiePath: text("selfie_path"), // Ảnh chân dung cầm giấy tờ
+  status: text("status").notNull().default("draft"), // draft (no documents yet), pending, approved, rejected
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewNote: text("review_note"),
+  reviewedAt: timestamp("reviewed_at"),
+  submittedAt: timestamp("submitted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Consent log (Nghị định 13/2023) - append-only, the latest row per purpose is the current choice
+export const consentRecords = pgTable("consent_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  purpose: text("purpose").notNull(), // marketing, health_data
+  granted: boolean("granted").notNull(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Tier upgrades: the old card is replaced by a new card of the higher product once the
+// difference is paid. Amounts are frozen at request time; sessions move over at confirmation.
+export const cardUpgrades = pgTable("card_upgrades", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  fromCardId: varchar("from_card_id").references(() => cards.id).notNull(),
+  toCardId: varchar("to_card_id").references(() => cards.id).notNull(),
+  fromType: text("from_type").notNull(),
+  toType: text("to_type").notNull(),
+  targetPrice: decimal("target_price", { precision: 15, scale: 2 }).notNull(),
+  credit: decimal("credit", { precision: 15, scale: 2 }).notNull(), // Unused value of the old card, prorated by remaining validity
+  amountDue: decimal("amount_due", { precision: 15, scale: 2 }).notNull(), // targetPrice - credit, never negative
+  sessionTopUp: integer("session_top_up").notNull().default(0), // Extra sessions of the higher tier, added to the unused ones
+  vcaDigitalShareTopUp: decimal("vca_digital_share_top_up", { precision: 15, scale: 2 }).notNull().default("0"),
+  status: text("status").notNull().default("pending"), // pending, completed, cancelled
+  transactionId: varchar("transaction_id").references(() => transactions.id),
+  paymentReference: text("payment_reference"),
+  confirmedBy: varchar("confirmed_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Every persisted card status change. changedBy is null for transitions made by the lifecycle engine.
+export const cardStatusHistory = pgTable("card_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  cardId: varchar("card_id").references(() => cards.id).notNull(),
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  reason: text("reason").notNull(), // payment_confirmed, check_in, payout, scheduled, renewed, upgraded, manual...
+  changedBy: varchar("changed_by").references(() => users.id),
+  details: text("details"), // JSON
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Renewals extend a card's term by the product's validity and add the product's sessions.
+// Like upgrades, the price is frozen at request time and the card is extended once it is paid.
+export const cardRenewals = pgTable("card_renewals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  cardId: varchar("card_id").references(() => cards.id).notNull(),
+  cardType: text("card_type").notNull(),
+  price: decimal("price", { precision: 15, scale: 2 }).notNull(), // Product price less the renewal discount
+  sessionTopUp: integer("session_top_up").notNull().default(0),
+  validityMonths: integer("validity_months").notNull(),
+  status: text("status").notNull().default("pending"), // pending, completed, cancelled
+  transactionId: varchar("transaction_id").references(() => transactions.id),
+  paymentReference: text("payment_reference"),
+  confirmedBy: varchar("confirmed_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Changes to a card's sessions other than check-ins. Together with check_ins they make up the
+// card's session ledger; balances are derived backwards from cards.remainingSessions.
+export const cardSessionAdjustments = pgTable("card_session_adjustments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  cardId: varchar("card_id").references(() => cards.id).notNull(),
+  delta: integer("delta").notNull(), // Sessions added (positive) or removed (negative)
+  kind: text("kind").notNull(), // bonus, correction, renewal, upgrade, forfeit, refund, manual
+  reason: text("reason"),
+  createdBy: varchar("created_by").references(() => users.id), // Null for changes made by the system
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Last card number sequence issued per tier prefix and branch code
+export const cardNumberSequences = pgTable("card_number_sequences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: text("key").notNull().unique(), // "<prefix>-<branch code>"
+  lastValue: integer("last_value").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Accounts customers transfer to. Payment QR codes use the active account for the branch and
+// purpose of the payment, falling back to accounts without a branch or purpose.
+export const bankAccounts = pgTable("bank_accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bankBin: varchar("bank_bin", { length: 6 }).notNull(), // NAPAS acquirer BIN, e.g. 970423 for TPBank
+  bankName: text("bank_name").notNull(),
+  accountNumber: text("account_number").notNull(),
+  accountName: text("account_name").notNull(),
+  branchId: varchar("branch_id").references(() => branches.id), // Null for head office accounts
+  purpose: text("purpose"), // card_purchase, card_upgrade, card_renewal, deposit, order; null for any payment
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Incoming transfers reported by the bank-notification webhook. Transfers whose memo and amount
+// match a pending order confirm it automatically; the rest wait in the manual review queue.
+export const bankTransfers = pgTable("bank_transfers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: text("provider").notNull(), // Bank or notification service that reported the transfer
+  externalId: text("external_id").notNull().unique(), // "<provider>:<id>"; a redelivered notification is ignored
+  bankAccountId: varchar("bank_account_id").references(() => bankAccounts.id),
+  accountNumber: text("account_number").notNull(),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  memo: text("memo").notNull().default(""),
+  bankReference: text("bank_reference"),
+  transferredAt: timestamp("transferred_at"),
+  status: text("status").notNull().default("needs_review"), // matched, needs_review, dismissed
+  reviewReason: text("review_reason"), // no_reference, order_not_found, order_not_pending, amount_mismatch, unknown_account
+  matchedPurpose: text("matched_purpose"), // card_purchase, card_upgrade, card_renewal, deposit, order
+  matchedEntityId: varchar("matched_entity_id"), // Card, upgrade, renewal, transaction or order the payment settled
+  resolvedBy: varchar("resolved_by").references(() => users.id), // Null when matched automatically
+  resolutionNote: text("resolution_note"),
+  rawPayload: text("raw_payload"),
+  createdAt: timestamp("created_at").defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+// Bank statements imported for reconciliation against transactions. Each line is matched to at
+// most one transaction; lines already imported from an earlier statement are flagged as duplicates.
+export const bankStatementImports = pgTable("bank_statement_imports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bankFormat: text("bank_format").notNull(), // Column mapping used: vietcombank, techcombank, bidv, ...
+  fileName: text("file_name").notNull(),
+  bankAccountId: varchar("bank_account_id").references(() => bankAccounts.id),
+  periodStart: timestamp("period_start"), // Earliest and latest line in the statement
+  periodEnd: timestamp("period_end"),
+  lineCount: integer("line_count").notNull().default(0),
+  importedBy: varchar("imported_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const bankStatementLines = pgTable("bank_statement_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  importId: varchar("import_id").references(() => bankStatementImports.id).notNull(),
+  lineNumber: integer("line_number").notNull(), // Row in the imported file
+  transactionDate: timestamp("transaction_date").notNull(),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(), // Positive for money in, negative for money out
+  memo: text("memo").notNull().default(""),
+  bankReference: text("bank_reference"),
+  fingerprint: text("fingerprint").notNull(), // Same account, day, amount, reference and memo
+  status: text("status").notNull().default("unmatched"), // unmatched, matched, duplicate, ignored
+  duplicateOfId: varchar("duplicate_of_id"), // Line this one repeats, when status is duplicate
+  transactionId: varchar("transaction_id").references(() => transactions.id).unique(),
+  matchedBy: varchar("matched_by").references(() => users.id), // Null when matched automatically on import
+  matchedAt: timestamp("matched_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Reconciled periods (Vietnam calendar days, inclusive). Matches of lines inside a locked period
+// can no longer be changed, and statement lines falling inside it are left out of later imports.
+export const reconciliationLocks = pgTable("reconciliation_locks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  periodStart: text("period_start").notNull(), // YYYY-MM-DD
+  periodEnd: text("period_end").notNull(), // YYYY-MM-DD
+  note: text("note"),
+  lockedBy: varchar("locked_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Orders placed on the public site for a card product or a membership tier. Submitting one creates
+// (or links) the customer's account; the order is paid by bank transfer before it expires and is
+// then fulfilled by staff, who issue the card or grant the tier.
+export const orders = pgTable("orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  kind: text("kind").notNull(), // card, membership
+  clientReference: text("client_reference"), // Code the site showed before submitting, e.g. VCG-1700000000000
+  userId: varchar("user_id").references(() => users.id).notNull(), // Account created or linked for the customer
+  customerName: text("customer_name").notNull(),
+  customerEmail: text("customer_email"), // Contact details as entered; one of email or phone is given
+  customerPhone: text("customer_phone"),
+  customerAddress: text("customer_address"),
+  customerIdCard: text("customer_id_card"),
+  customerBirthDate: text("customer_birth_date"), // As entered, YYYY-MM-DD
+  cardProductId: varchar("card_product_id").references(() => cardProducts.id), // Card orders
+  businessTier: text("business_tier"), // Membership orders: founder, angel, seed, ...
+  productName: text("product_name").notNull(), // Card type or tier at the time of ordering
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  paymentMethod: text("payment_method").notNull().default("bank_transfer"),
+  paymentProof: text("payment_proof"), // File name of the receipt the customer attached
+  paymentNote: text("payment_note"),
+  status: text("status").notNull().default("pending"), // pending, paid, fulfilled, expired
+  expiresAt: timestamp("expires_at").notNull(), // Unpaid orders expire at this moment
+  paidAt: timestamp("paid_at"),
+  paymentReference: text("payment_reference"), // Bank reference of the transfer that paid the order
+  paymentConfirmedBy: varchar("payment_confirmed_by").references(() => users.id), // Null when settled by the bank webhook
+  fulfilledAt: timestamp("fulfilled_at"),
+  fulfilledBy: varchar("fulfilled_by").references(() => users.id),
+  cardId: varchar("card_id").references(() => cards.id), // Card issued for a card order
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Card cancellations with a refund. The request creates a pending "refund" transaction that goes
+// through the cash-flow approval queue; the amounts are recomputed when it is approved, since the
+// card stays usable while the request waits.
+export const cardRefunds = pgTable("card_refunds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  cardId: varchar("card_id").references(() => cards.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(), // Card owner
+  requestedBy: varchar("requested_by").references(() => users.id).notNull(),
+  reason: text("reason"),
+  paidAmount: decimal("paid_amount", { precision: 15, scale: 2 }).notNull(),
+  usedSessions: integer("used_sessions").notNull().default(0),
+  usedSessionsValue: decimal("used_sessions_value", { precision: 15, scale: 2 }).notNull().default("0"),
+  payoutsReceived: decimal("payouts_received", { precision: 15, scale: 2 }).notNull().default("0"),
+  vcaDigitalShareReversed: decimal("vca_digital_share_reversed", { precision: 15, scale: 2 }).notNull().default("0"),
+  vcaShortfallValue: decimal("vca_shortfall_value", { precision: 15, scale: 2 }).notNull().default("0"), // VCA already spent, deducted from the refund
+  commissionClawback: decimal("commission_clawback", { precision: 15, scale: 2 }).notNull().default("0"),
+  refundableAmount: decimal("refundable_amount", { precision: 15, scale: 2 }).notNull(),
+  status: text("status").notNull().default("pending"), // pending, approved, rejected
+  transactionId: varchar("transaction_id").references(() => transactions.id), // The "refund" transaction in the approval queue
+  purchaseTransactionId: varchar("purchase_transaction_id").references(() => transactions.id),
+  referralId: varchar("referral_id").references(() => referrals.id),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewNote: text("review_note"),
+  createdAt: timestamp("created_at").defaultNow(),
+  reviewedAt: timestamp("reviewed_at"),
+});
+
+// Family members a card is shared with. Invitees may not have an account yet: the row is
+// claimed with the invite code once they sign in, and only then can they check in.
+export const cardMembers = pgTable("card_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  cardId: varchar("card_id").references(() => cards.id).notNull(),
+  userId: varchar("user_id").references(() => users.id), // Set when the invitation is accepted
+  name: text("name").notNull(),
+  email: text("email"),
+  phone: text("phone"),
+  relationship: text("relationship"), // spouse, child, parent, sibling, other
+  allocatedSessions: integer("allocated_sessions").notNull().default(0), // Sessions the owner handed to this member
+  usedSessions: integer("used_sessions").notNull().default(0),
+  status: text("status").notNull().default("invited"), // invited, active, revoked
+  inviteCodeHash: text("invite_code_hash").unique(), // sha256 of the invite code, cleared once accepted
+  invitedBy: varchar("invited_by").references(() => users.id).notNull(),
+  invitedAt: timestamp("invited_at").defaultNow(),
+  acceptedAt: timestamp("accepted_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Consultation time slots published by a branch; practitionerId is a staff member of that branch
+export const appointmentSlots = pgTable("appointment_slots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  branchId: varchar("branch_id").references(() => branches.id).notNull(),
+  practitionerId: varchar("practitioner_id").references(() => staff.id),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  capacity: integer("capacity").notNull().default(1),
+  bookedCount: integer("booked_count").notNull().default(0), // Active (booked) appointments in this slot
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Member bookings; a booking reserves one card session, consumed at check-in
+export const appointments = pgTable("appointments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  slotId: varchar("slot_id").references(() => appointmentSlots.id).notNull(),
+  cardId: varchar("card_id").references(() => cards.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  status: text("status").notNull().default("booked"), // booked, cancelled, checked_in, no_show
+  notes: text("notes"),
+  checkInId: varchar("check_in_id").references(() => checkIns.id),
+  sessionForfeited: boolean("session_forfeited").notNull().default(false), // Late cancellation or no-show used up the session
+  cancelReason: text("cancel_reason"),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -322,6 +704,19 @@ export const insertCardSchema = createInsertSchema(cards).omit({
   lastCheckIn: true,
 });
 
+export const insertCardProductSchema = createInsertSchema(cardProducts, {
+  name: z.string().trim().min(1, "Vui lòng nhập tên gói thẻ"),
+  price: z.coerce.number().positive("Giá thẻ phải lớn hơn 0").transform(String),
+  consultationSessions: z.coerce.number().int().min(0),
+  validityMonths: z.coerce.number().int().positive("Thời hạn phải lớn hơn 0"),
+  vcaDigitalShare: z.coerce.number().min(0).transform(String),
+  maxoutMultiplier: z.coerce.number().positive().transform(String),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertCheckInSchema = createInsertSchema(checkIns).omit({
   id: true,
   checkInDate: true,
@@ -421,12 +816,128 @@ export const insertUserRoleSchema = createInsertSchema(userRoles).omit({
   assignedAt: true,
 });
 
+export const insertKycRecordSchema = createInsertSchema(kycRecords).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertConsentRecordSchema = createInsertSchema(consentRecords).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCardUpgradeSchema = createInsertSchema(cardUpgrades).omit({
+  id: true,
+  createdAt: true,
+  completedAt: true,
+});
+
+export const insertCardStatusHistorySchema = createInsertSchema(cardStatusHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCardRenewalSchema = createInsertSchema(cardRenewals).omit({
+  id: true,
+  createdAt: true,
+  completedAt: true,
+});
+
+export const insertCardSessionAdjustmentSchema = createInsertSchema(cardSessionAdjustments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const BANK_ACCOUNT_PURPOSES = ["card_purchase", "card_upgrade", "card_renewal", "deposit", "order"] as const;
+export type BankAccountPurpose = typeof BANK_ACCOUNT_PURPOSES[number];
+
+export const insertBankAccountSchema = createInsertSchema(bankAccounts, {
+  bankBin: z.string().trim().regex(/^\d{6}$/, "Mã BIN ngân hàng gồm 6 chữ số"),
+  bankName: z.string().trim().min(1, "Vui lòng nhập tên ngân hàng"),
+  accountNumber: z.string().trim().regex(/^[0-9A-Za-z]{1,19}$/, "Số tài khoản không hợp lệ"),
+  accountName: z.string().trim().min(1, "Vui lòng nhập tên chủ tài khoản"),
+  branchId: z.string().nullable().optional(),
+  purpose: z.enum(BANK_ACCOUNT_PURPOSES).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertBankTransferSchema = createInsertSchema(bankTransfers).omit({
+  id: true,
+  createdAt: true,
+  resolvedAt: true,
+});
+
+export const insertBankStatementImportSchema = createInsertSchema(bankStatementImports).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertBankStatementLineSchema = createInsertSchema(bankStatementLines).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertReconciliationLockSchema = createInsertSchema(reconciliationLocks).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertOrderSchema = createInsertSchema(orders).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCardRefundSchema = createInsertSchema(cardRefunds).omit({
+  id: true,
+  createdAt: true,
+  reviewedAt: true,
+});
+
+export const insertCardMemberSchema = createInsertSchema(cardMembers).omit({
+  id: true,
+  invitedAt: true,
+  acceptedAt: true,
+  revokedAt: true,
+});
+
+export const insertAppointmentSlotSchema = createInsertSchema(appointmentSlots).omit({
+  id: true,
+  bookedCount: true,
+  createdAt: true,
+});
+
+export const insertAppointmentSchema = createInsertSchema(appointments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertUserBranchSchema = createInsertSchema(userBranches).omit({
+  id: true,
+  assignedAt: true,
+});
+
 export const insertAssetContributionSchema = createInsertSchema(assetContributions).omit({
   id: true,
   createdAt: true,
   approvedAt: true,
 });
 
+export const insertPasswordResetCodeSchema = createInsertSchema(passwordResetCodes).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRefreshTokenSchema = createInsertSchema(refreshTokens).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Quarterly validation schemas for profit sharing
 export const quarterlyPeriodSchema = z.string().regex(
   /^\d{4}-Q[1-4]$/,
@@ -481,6 +992,8 @@ export type User = typeof users.$inferSelect;
 
 export type InsertCard = z.infer<typeof insertCardSchema>;
 export type Card = typeof cards.$inferSelect;
+export type InsertCardProduct = z.infer<typeof insertCardProductSchema>;
+export type CardProduct = typeof cardProducts.$inferSelect;
 
 export type InsertCheckIn = z.infer<typeof insertCheckInSchema>;
 export type CheckIn = typeof checkIns.$inferSelect;
@@ -539,9 +1052,54 @@ export type Role = typeof roles.$inferSelect;
 export type InsertUserRole = z.infer<typeof insertUserRoleSchema>;
 export type UserRole = typeof userRoles.$inferSelect;
 
+export type InsertUserBranch = z.infer<typeof insertUserBranchSchema>;
+export type UserBranch = typeof userBranches.$inferSelect;
+
 export type InsertAssetContribution = z.infer<typeof insertAssetContributionSchema>;
 export type AssetContribution = typeof assetContributions.$inferSelect;
 
+export type InsertPasswordResetCode = z.infer<typeof insertPasswordResetCodeSchema>;
+export type PasswordResetCode = typeof passwordResetCodes.$inferSelect;
+
+export type InsertRefreshToken = z.infer<typeof insertRefreshTokenSchema>;
+export type RefreshToken = typeof refreshTokens.$inferSelect;
+
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+
+export type InsertKycRecord = z.infer<typeof insertKycRecordSchema>;
+export type KycRecord = typeof kycRecords.$inferSelect;
+export type InsertConsentRecord = z.infer<typeof insertConsentRecordSchema>;
+export type ConsentRecord = typeof consentRecords.$inferSelect;
+export type InsertCardUpgrade = z.infer<typeof insertCardUpgradeSchema>;
+export type CardUpgrade = typeof cardUpgrades.$inferSelect;
+export type InsertCardStatusHistory = z.infer<typeof insertCardStatusHistorySchema>;
+export type CardStatusHistory = typeof cardStatusHistory.$inferSelect;
+export type InsertCardRenewal = z.infer<typeof insertCardRenewalSchema>;
+export type CardRenewal = typeof cardRenewals.$inferSelect;
+export type InsertCardSessionAdjustment = z.infer<typeof insertCardSessionAdjustmentSchema>;
+export type CardSessionAdjustment = typeof cardSessionAdjustments.$inferSelect;
+export type InsertBankAccount = z.infer<typeof insertBankAccountSchema>;
+export type BankAccount = typeof bankAccounts.$inferSelect;
+export type InsertBankTransfer = z.infer<typeof insertBankTransferSchema>;
+export type BankTransfer = typeof bankTransfers.$inferSelect;
+export type InsertBankStatementImport = z.infer<typeof insertBankStatementImportSchema>;
+export type BankStatementImport = typeof bankStatementImports.$inferSelect;
+export type InsertBankStatementLine = z.infer<typeof insertBankStatementLineSchema>;
+export type BankStatementLine = typeof bankStatementLines.$inferSelect;
+export type InsertReconciliationLock = z.infer<typeof insertReconciliationLockSchema>;
+export type ReconciliationLock = typeof reconciliationLocks.$inferSelect;
+export type InsertOrder = z.infer<typeof insertOrderSchema>;
+export type Order = typeof orders.$inferSelect;
+export type InsertCardRefund = z.infer<typeof insertCardRefundSchema>;
+export type CardRefund = typeof cardRefunds.$inferSelect;
+export type InsertCardMember = z.infer<typeof insertCardMemberSchema>;
+export type CardMember = typeof cardMembers.$inferSelect;
+export type InsertAppointmentSlot = z.infer<typeof insertAppointmentSlotSchema>;
+export type AppointmentSlot = typeof appointmentSlots.$inferSelect;
+export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+export type Appointment = typeof appointments.$inferSelect;
+
 // Cash flow validation schemas
 export const cashFlowTransactionSchema = z.object({
   type: z.enum(["deposit", "invest", "withdraw", "share_distribution"]),
@@ -564,6 +1122,41 @@ export const depositRequestSchema = z.object({
   documentPath: z.string().optional(),
 });
 
+// Permission catalogue - granted to roles via roles.permissions and checked by requirePermission()
+export const PERMISSIONS = [
+  { key: "users.read", group: "Người dùng", label: "Xem danh sách người dùng và vai trò" },
+  { key: "users.manage", group: "Người dùng", label: "Thay đổi vai trò, trạng thái người dùng" },
+  { key: "users.balance", group: "Người dùng", label: "Điều chỉnh số dư VCA Digital Share" },
+  { key: "users.impersonate", group: "Người dùng", label: "Xem hệ thống với tư cách người dùng" },
+  { key: "roles.manage", group: "Người dùng", label: "Chỉnh sửa ma trận phân quyền" },
+  { key: "kyc.review", group: "Người dùng", label: "Duyệt hồ sơ định danh (KYC)" },
+  { key: "products.manage", group: "Thẻ", label: "Quản lý danh mục gói thẻ" },
+  { key: "cards.manage", group: "Thẻ", label: "Chỉnh sửa, xoá thẻ của khách hàng" },
+  { key: "checkins.scan", group: "Thẻ", label: "Quét mã check-in thẻ tại chi nhánh" },
+  { key: "appointments.manage", group: "Thẻ", label: "Mở lịch hẹn tư vấn và quản lý lịch chi nhánh" },
+  { key: "sessions.adjust", group: "Thẻ", label: "Tặng thêm / điều chỉnh lượt sử dụng thẻ" },
+  { key: "transactions.read", group: "Giao dịch", label: "Xem toàn bộ giao dịch" },
+  { key: "transactions.approve", group: "Giao dịch", label: "Duyệt / từ chối giao dịch" },
+  { key: "cashflow.request", group: "Giao dịch", label: "Tạo yêu cầu nạp / rút tiền của bản thân" },
+  { key: "profit.read", group: "Lợi nhuận", label: "Xem chia sẻ lợi nhuận" },
+  { key: "profit.distribute", group: "Lợi nhuận", label: "Xử lý và chi trả lợi nhuận" },
+  { key: "kpis.read", group: "KPI", label: "Xem KPI chi nhánh" },
+  { key: "kpis.write", group: "KPI", label: "Nhập số liệu KPI" },
+  { key: "config.read", group: "Hệ thống", label: "Xem cấu hình hệ thống" },
+  { key: "config.write", group: "Hệ thống", label: "Thay đổi cấu hình hệ thống" },
+  { key: "audit.read", group: "Hệ thống", label: "Xem nhật ký kiểm toán" },
+  { key: "reports.export", group: "Hệ thống", label: "Xuất báo cáo" },
+] as const;
+
+export type Permission = typeof PERMISSIONS[number]["key"];
+export type PermissionDefinition = typeof PERMISSIONS[number];
+
+export const PERMISSION_KEYS = PERMISSIONS.map(p => p.key) as Permission[];
+
+export const rolePermissionsUpdateSchema = z.object({
+  permissions: z.array(z.enum(PERMISSION_KEYS as [Permission, ...Permission[]])),
+});
+
 // Admin validation schemas
 export const userRoleUpdateSchema = z.object({
   userId: z.string().uuid("Invalid user ID"),
@@ -616,6 +1209,237 @@ export const qrCheckinSchema = z.object({
   notes: z.string().optional(),
 });
 
+// Staff scan: either the QR payload or, typed by hand, the card number and its 6-digit code
+export const checkinScanSchema = z.object({
+  payload: z.string().trim().optional(),
+  cardNumber: z.string().trim().optional(),
+  code: z.string().trim().regex(/^\d{6}$/, "Mã check-in gồm 6 chữ số").optional(),
+  sessionType: z.string().min(1, "Session type is required").default("therapy"),
+  branchId: z.string().optional(),
+  practitionerId: z.string().optional(),
+  notes: z.string().optional(),
+}).refine(data => !!data.payload || (!!data.cardNumber && !!data.code), {
+  message: "Vui lòng quét mã QR hoặc nhập số thẻ và mã check-in",
+});
+
+export const cardUpgradeRequestSchema = z.object({
+  targetType: z.string().min(1, "Vui lòng chọn hạng thẻ muốn nâng cấp"),
+});
+
+export const cardUpgradeConfirmSchema = z.object({
+  paymentReference: z.string().trim().max(200).optional(),
+});
+
+export const cardRenewalConfirmSchema = z.object({
+  paymentReference: z.string().trim().max(200).optional(),
+});
+
+// Staff adjustments; the other kinds are recorded by the system
+export const cardSessionAdjustmentSchema = z.object({
+  kind: z.enum(["bonus", "correction"]),
+  delta: z.coerce.number().int().refine(value => value !== 0, "Số lượt điều chỉnh phải khác 0"),
+  reason: z.string().trim().min(1, "Vui lòng nhập lý do").max(500),
+}).refine(data => data.kind !== "bonus" || data.delta > 0, {
+  message: "Lượt tặng thêm phải là số dương",
+});
+
+// Incoming-transfer notification in the shape bank-notification services (SePay and similar) post
+export const bankWebhookPayloadSchema = z.object({
+  id: z.union([z.string(), z.number()]).transform(String),
+  gateway: z.string().trim().min(1).default("bank"),
+  transactionDate: z.string().optional(),
+  accountNumber: z.string().trim().min(1, "accountNumber is required"),
+  transferType: z.enum(["in", "out"]).default("in"),
+  transferAmount: z.coerce.number().positive("transferAmount must be positive"),
+  content: z.string().default(""),
+  referenceCode: z.string().optional(),
+});
+
+// Staff settle a queued transfer against an order by its payment reference, or dismiss it
+export const bankTransferResolutionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("match"),
+    purpose: z.enum(BANK_ACCOUNT_PURPOSES),
+    reference: z.string().trim().regex(/^[0-9A-Fa-f]{8}$/, "Mã tham chiếu gồm 8 ký tự"),
+    note: z.string().max(500).optional(),
+  }),
+  z.object({
+    action: z.literal("dismiss"),
+    note: z.string().trim().min(1, "Vui lòng nhập lý do").max(500),
+  }),
+]);
+
+// Statement files are posted as base64 data URLs, like KYC documents
+export const bankStatementImportRequestSchema = z.object({
+  fileName: z.string().trim().min(1).max(255),
+  file: z.string().regex(/^data:[\w/+.-]*;base64,/, "Tệp sao kê không hợp lệ"),
+  bankFormat: z.string().default("auto"), // A BANK_STATEMENT_FORMATS id, or auto-detect from the headers
+  bankAccountId: z.string().optional().nullable(),
+});
+
+export const statementLineMatchSchema = z.object({
+  transactionId: z.string().min(1, "Vui lòng chọn giao dịch"),
+});
+
+export const reconciliationLockRequestSchema = z.object({
+  periodStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Ngày bắt đầu không hợp lệ"),
+  periodEnd: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Ngày kết thúc không hợp lệ"),
+  note: z.string().max(500).optional(),
+}).refine(data => data.periodStart <= data.periodEnd, {
+  message: "Ngày bắt đầu phải trước ngày kết thúc",
+});
+
+// Membership tiers sold on the public site
+export const MEMBERSHIP_TIERS = ["founder", "angel", "seed", "vcare_home", "asset_contributor", "intellectual_contributor", "franchise_branch", "card_customer"] as const;
+
+const orderCustomerSchema = z.object({
+  name: z.string().trim().min(1, "Vui lòng nhập họ tên").max(200),
+  email: z.string().trim().email("Email không hợp lệ").optional().or(z.literal("")),
+  phone: z.string().trim().regex(/^[0-9]{10,11}$/, "Số điện thoại không hợp lệ").optional().or(z.literal("")),
+  address: z.string().trim().max(500).optional(),
+});
+
+const orderPaymentSchema = z.object({
+  method: z.string().trim().max(50).optional(),
+  proof: z.string().max(255).optional().nullable(), // File name only, the receipt itself is not uploaded
+  note: z.string().max(500).optional(),
+});
+
+export const cardOrderRequestSchema = z.object({
+  orderId: z.string().max(100).optional(), // Code shown on the site before submitting
+  cardType: z.string().min(1, "Vui lòng chọn loại thẻ"),
+  customerInfo: orderCustomerSchema.refine(info => !!info.email || !!info.phone, {
+    message: "Vui lòng nhập email hoặc số điện thoại",
+  }),
+  paymentInfo: orderPaymentSchema.default({}),
+});
+
+export const membershipOrderRequestSchema = z.object({
+  orderId: z.string().max(100).optional(),
+  userType: z.enum(MEMBERSHIP_TIERS, { errorMap: () => ({ message: "Gói thành viên không hợp lệ" }) }),
+  memberInfo: orderCustomerSchema.extend({
+    email: z.string().trim().email("Email không hợp lệ"),
+    idCard: z.string().trim().max(20).optional(),
+    birthday: z.string().trim().max(20).optional(),
+  }),
+  investmentInfo: orderPaymentSchema.extend({
+    amount: z.coerce.number().positive("Số tiền đầu tư không hợp lệ"),
+  }),
+});
+
+export const orderPaymentConfirmationSchema = z.object({
+  paymentReference: z.string().trim().max(100).optional(),
+});
+
+export const cardRefundRequestSchema = z.object({
+  reason: z.string().trim().min(1, "Vui lòng nhập lý do hủy thẻ").max(500),
+});
+
+// Card statuses in which a card can be used: check-ins, bookings, sharing and upgrades.
+// near_maxout is informational only - the card works until it reaches the maxout limit.
+export const USABLE_CARD_STATUSES = ["active", "near_maxout"];
+
+export const CARD_MEMBER_RELATIONSHIPS = ["spouse", "child", "parent", "sibling", "other"] as const;
+
+// Owner invites a family member by email or phone and hands them part of the card's free sessions
+export const cardMemberInviteSchema = z.object({
+  name: z.string().trim().min(1, "Vui lòng nhập họ tên"),
+  email: z.string().trim().email("Email không hợp lệ").optional().or(z.literal("")),
+  phone: z.string().trim().optional(),
+  relationship: z.enum(CARD_MEMBER_RELATIONSHIPS).default("other"),
+  allocatedSessions: z.coerce.number().int().min(1, "Phải chia sẻ ít nhất 1 lượt"),
+}).refine(data => !!data.email || !!data.phone, {
+  message: "Vui lòng nhập email hoặc số điện thoại người được mời",
+});
+
+export const cardMemberAllocationSchema = z.object({
+  allocatedSessions: z.coerce.number().int().min(0, "Số lượt không hợp lệ"),
+});
+
+export const cardInvitationAcceptSchema = z.object({
+  code: z.string().trim().min(1, "Vui lòng nhập mã mời"),
+});
+
+// Branch publishes slots: one day split from startTime to endTime into slots of durationMinutes
+export const appointmentSlotBatchSchema = z.object({
+  branchId: z.string().min(1, "Vui lòng chọn chi nhánh"),
+  practitionerId: z.string().optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Ngày không hợp lệ"),
+  startTime: z.string().regex(/^\d{2}:\d{2}$/, "Giờ bắt đầu không hợp lệ"),
+  endTime: z.string().regex(/^\d{2}:\d{2}$/, "Giờ kết thúc không hợp lệ"),
+  durationMinutes: z.coerce.number().int().min(10).max(240).default(60),
+  capacity: z.coerce.number().int().min(1).max(20).default(1),
+}).refine(data => data.startTime < data.endTime, {
+  message: "Giờ kết thúc phải sau giờ bắt đầu",
+});
+
+export const appointmentBookingSchema = z.object({
+  slotId: z.string().min(1, "Vui lòng chọn khung giờ"),
+  cardId: z.string().min(1, "Vui lòng chọn thẻ"),
+  notes: z.string().max(500).optional(),
+});
+
+export const appointmentCancelSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+// Password reset validation
+export const forgotPasswordSchema = z.object({
+  emailOrPhone: z.string().trim().min(1, "Email or phone is required"),
+});
+
+export const verifyResetCodeSchema = forgotPasswordSchema.extend({
+  code: z.string().regex(/^[0-9]{6}$/, "Code must be 6 digits"),
+});
+
+export const resetPasswordSchema = verifyResetCodeSchema.extend({
+  newPassword: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+// Two-factor authentication validation
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Verification code is required").max(9),
+  challengeToken: z.string().optional(),
+});
+
+// KYC submission - documents arrive as base64 data URLs (JPEG, PNG or PDF)
+const kycDocumentSchema = z.string().regex(/^data:(image\/jpeg|image\/png|application\/pdf);base64,/, "Tài liệu phải là ảnh JPG/PNG hoặc PDF");
+
+export const kycSubmissionSchema = z.object({
+  idType: z.enum(["cmnd", "cccd", "passport"]).default("cccd"),
+  idNumber: z.string().regex(/^[0-9A-Z]{8,12}$/i, "Số giấy tờ không hợp lệ"),
+  fullName: z.string().min(2, "Vui lòng nhập họ tên"),
+  birthDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Ngày sinh không hợp lệ"),
+  address: z.string().optional(),
+  documentFront: kycDocumentSchema,
+  documentBack: kycDocumentSchema.optional(),
+  selfie: kycDocumentSchema.optional(),
+});
+
+export const kycReviewSchema = z.object({
+  decision: z.enum(["approved", "rejected"]),
+  note: z.string().optional(),
+}).refine(data => data.decision === "approved" || !!data.note?.trim(), {
+  message: "Vui lòng nhập lý do từ chối",
+  path: ["note"],
+});
+
+export type KycSubmission = z.infer<typeof kycSubmissionSchema>;
+
+// Personal data processing purposes that need explicit consent
+export const CONSENT_PURPOSES = ["marketing", "health_data"] as const;
+export type ConsentPurpose = typeof CONSENT_PURPOSES[number];
+
+export const consentUpdateSchema = z.object({
+  purpose: z.enum(CONSENT_PURPOSES),
+  granted: z.boolean(),
+});
+
+export const accountClosureSchema = z.object({
+  password: z.string().min(1, "Vui lòng nhập mật khẩu để xác nhận"),
+  reason: z.string().max(500).optional(),
+});
+
 // Enhanced withdrawal with balance checks
 export const enhancedWithdrawalSchema = z.object({
   amount: z.number().positive("Withdrawal amount must be positive"),
@@ -721,6 +1545,10 @@ export type ReportExport = z.infer<typeof reportExportSchema>;
 // Business logic operation types
 export type BusinessTierUpgrade = z.infer<typeof businessTierUpgradeSchema>;
 export type QrCheckin = z.infer<typeof qrCheckinSchema>;
+export type CheckinScan = z.infer<typeof checkinScanSchema>;
+export type CardMemberInvite = z.infer<typeof cardMemberInviteSchema>;
+export type AppointmentSlotBatch = z.infer<typeof appointmentSlotBatchSchema>;
+export type AppointmentBooking = z.infer<typeof appointmentBookingSchema>;
 export type EnhancedWithdrawal = z.infer<typeof enhancedWithdrawalSchema>;
 export type ProfitShareWithMaxout = z.infer<typeof profitShareWithMaxoutSchema>;
 export type UserProfileUpdate = z.infer<typeof userProfileUpdateSchema>;